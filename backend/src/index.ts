@@ -20,6 +20,10 @@ import statusRouter from './routes/status';
 import { errorHandler } from './middleware/errorHandler';
 import { logger } from './utils/logger';
 import { initializeDatabaseSchema } from './utils/initDatabase';
+import { consentExpiryScheduler } from './services/consentExpiryScheduler';
+import { webhookDeliveryScheduler } from './services/webhookDeliveryScheduler';
+import { retentionScheduler } from './services/retentionScheduler';
+import { complianceScheduler } from './services/complianceScheduler';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -67,7 +71,8 @@ app.use(cors({
       callback(new Error('Not allowed by CORS'));
     }
   },
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 
 // Body parsing middleware
@@ -156,6 +161,11 @@ async function startServer() {
       logger.info(`📖 API Documentation: http://localhost:${PORT}/api/v1`);
       logger.info(`🎯 Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+
+    consentExpiryScheduler.start();
+    webhookDeliveryScheduler.start();
+    retentionScheduler.start();
+    complianceScheduler.start();
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
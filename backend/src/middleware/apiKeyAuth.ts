@@ -0,0 +1,95 @@
+/**
+ * Controller API Key Middleware
+ * Accepts scoped controller API keys (X-API-Key or Authorization: Bearer ctk_...)
+ * alongside user JWTs on the routes machine clients call
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope } from '@consentire/shared';
+import { apiKeyService, AuthenticatedApiKey, isApiKey } from '../services/apiKeyService';
+import { authenticateUser } from './supabaseAuth';
+import { logger } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: AuthenticatedApiKey;
+    }
+  }
+}
+
+function extractApiKey(req: Request): string | null {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ') && isApiKey(authHeader.substring(7))) {
+    return authHeader.substring(7);
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate the presented API key and require a scope.
+ * Requests without a key continue to `fallback`.
+ */
+function apiKeyOr(scope: ApiKeyScope, fallback: (req: Request, res: Response, next: NextFunction) => any) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = extractApiKey(req);
+    if (!key) {
+      return fallback(req, res, next);
+    }
+
+    try {
+      const apiKey = await apiKeyService.authenticate(key);
+
+      if (!apiKey) {
+        logger.warn('Rejected API key', { keyPrefix: key.substring(0, 12) });
+        return res.status(401).json({
+          code: 'INVALID_API_KEY',
+          message: 'Invalid, revoked or expired API key',
+          timestamp: Date.now()
+        });
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        return res.status(403).json({
+          code: 'INSUFFICIENT_SCOPE',
+          message: `API key lacks the '${scope}' scope`,
+          timestamp: Date.now()
+        });
+      }
+
+      // Keys act as their controller organization
+      req.apiKey = apiKey;
+      req.user = {
+        id: `apikey:${apiKey.keyId}`,
+        role: 'controller',
+        organizationId: apiKey.organizationId
+      };
+
+      next();
+    } catch (error: any) {
+      logger.error('API key authentication error', { error: error.message });
+      return res.status(500).json({
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to authenticate API key',
+        timestamp: Date.now()
+      });
+    }
+  };
+}
+
+/**
+ * Require either a user JWT or an API key with the given scope
+ */
+export const authenticateUserOrApiKey = (scope: ApiKeyScope) => apiKeyOr(scope, authenticateUser);
+
+/**
+ * Accept an API key with the given scope when present; otherwise continue unauthenticated
+ */
+export const optionalApiKey = (scope: ApiKeyScope) =>
+  apiKeyOr(scope, (req: Request, res: Response, next: NextFunction) => next());
@@ -6,6 +6,34 @@ import { Request, Response, NextFunction } from 'express';
 import { APIError } from '@consentire/shared';
 import { logger } from '../utils/logger';
 
+/**
+ * Application errors carry a string `code` for the response body
+ */
+function getErrorCode(err: Error): string | undefined {
+  return 'code' in err && typeof err.code === 'string' ? err.code : undefined;
+}
+
+/**
+ * HTTP status for an application error, keyed by error name
+ */
+export function getErrorStatus(err: Error): number {
+  switch (err.name) {
+    case 'ValidationError':
+      return 400;
+    case 'UnauthorizedError':
+      return 401;
+    case 'ForbiddenError':
+    case 'ConsentSignatureError':
+      return 403;
+    case 'NotFoundError':
+      return 404;
+    case 'ConflictError':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
 export const errorHandler = (
   err: Error,
   req: Request,
@@ -20,21 +48,10 @@ export const errorHandler = (
   });
 
   const error: APIError = {
-    code: err.name || 'INTERNAL_ERROR',
+    code: getErrorCode(err) || err.name || 'INTERNAL_ERROR',
     message: err.message || 'An unexpected error occurred',
     timestamp: Date.now()
   };
 
-  // Handle specific error types
-  if (err.name === 'ValidationError') {
-    res.status(400).json(error);
-  } else if (err.name === 'UnauthorizedError') {
-    res.status(401).json(error);
-  } else if (err.name === 'ForbiddenError') {
-    res.status(403).json(error);
-  } else if (err.name === 'NotFoundError') {
-    res.status(404).json(error);
-  } else {
-    res.status(500).json(error);
-  }
+  res.status(getErrorStatus(err)).json(error);
 };
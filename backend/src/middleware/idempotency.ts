@@ -0,0 +1,124 @@
+/**
+ * Idempotency-Key middleware
+ * Mutating routes accept an `Idempotency-Key` header; a retry with the same key and
+ * body gets the original response back instead of running the mutation again
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { APIError } from '@consentire/shared';
+import { idempotencyService } from '../services/idempotencyService';
+import { hash } from '../utils/crypto';
+import { logger } from '../utils/logger';
+
+const HEADER = 'idempotency-key';
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * JSON with object keys sorted, so the fingerprint ignores key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Make a route idempotent for requests that carry an Idempotency-Key header.
+ * Must run after authentication: keys are scoped to the caller, so unauthenticated
+ * requests are passed through rather than sharing one key space.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.header(HEADER);
+  if (key === undefined || !req.user) {
+    return next();
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      code: 'VALIDATION_ERROR',
+      message: 'Idempotency-Key must be 1-255 printable ASCII characters',
+      timestamp: Date.now()
+    } as APIError);
+  }
+
+  const actorId = req.user.id;
+  const path = req.originalUrl.split('?')[0];
+
+  try {
+    const claim = await idempotencyService.claim({
+      actorId,
+      key,
+      method: req.method,
+      path,
+      requestHash: hash(stableStringify(req.body))
+    });
+
+    switch (claim.outcome) {
+      case 'mismatch':
+        return res.status(422).json({
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message: 'Idempotency-Key was already used for a different request',
+          timestamp: Date.now()
+        } as APIError);
+
+      case 'in_progress':
+        return res.status(409).json({
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          message: 'A request with this Idempotency-Key is still being processed',
+          timestamp: Date.now()
+        } as APIError);
+
+      case 'replay':
+        res.setHeader('Idempotent-Replayed', 'true');
+        if (claim.body === undefined) {
+          return res.status(claim.status).end();
+        }
+        return res.status(claim.status).json(claim.body);
+    }
+  } catch (error: any) {
+    logger.error('Idempotency key lookup failed', { error: error.message });
+    return res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to process Idempotency-Key',
+      timestamp: Date.now()
+    } as APIError);
+  }
+
+  // Claimed: capture the response and store it once it has been sent
+  let body: unknown;
+  const json = res.json.bind(res);
+  res.json = (payload: unknown) => {
+    body = payload;
+    return json(payload);
+  };
+
+  let settled = false;
+  const settle = () => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+
+    // Server errors and aborted requests are not remembered, so the client can retry them
+    const outcome = res.writableFinished && res.statusCode < 500
+      ? idempotencyService.complete(actorId, key, res.statusCode, body)
+      : idempotencyService.release(actorId, key);
+
+    outcome.catch((error: any) =>
+      logger.error('Failed to record idempotent response', { key, path, error: error.message })
+    );
+  };
+
+  res.on('finish', settle);
+  res.on('close', settle);
+
+  next();
+}
@@ -42,8 +42,9 @@ export const authenticateUser = async (req: Request, res: Response, next: NextFu
     const jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
     const decoded = jwt.verify(token, jwtSecret) as any;
 
-    if (!decoded || !decoded.userId) {
-      logger.warn('Invalid token provided - missing userId');
+    // Login tokens carry no audience; audience-bound tokens (e.g. confirmation links) are not bearers
+    if (!decoded || !decoded.userId || decoded.aud !== undefined) {
+      logger.warn('Invalid token provided - missing userId or audience-bound token');
       return res.status(401).json({
         code: 'INVALID_TOKEN',
         message: 'Invalid or expired token',
@@ -100,7 +101,7 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
     const jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
     const decoded = jwt.verify(token, jwtSecret) as any;
 
-    if (decoded && decoded.userId) {
+    if (decoded && decoded.userId && decoded.aud === undefined) {
       req.user = {
         id: decoded.userId,
         email: decoded.email,
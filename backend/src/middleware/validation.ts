@@ -0,0 +1,118 @@
+/**
+ * Request validation middleware
+ * Applies the shared zod schemas to a route's body, params and query, and in
+ * non-production mode enforces the response schema on successful responses
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { APIError } from '@consentire/shared';
+import { logger } from '../utils/logger';
+
+type RequestLocation = 'params' | 'query' | 'body';
+
+type AnySchema = z.ZodType<unknown, z.ZodTypeDef, unknown>;
+
+export interface RouteSchemas {
+  params?: AnySchema;
+  query?: AnySchema;
+  body?: AnySchema;
+  response?: AnySchema;
+}
+
+export interface FieldError {
+  location: RequestLocation;
+  field: string;
+  message: string;
+  code: string;
+}
+
+const REQUEST_LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+function toFieldErrors(location: RequestLocation, error: z.ZodError): FieldError[] {
+  return error.errors.map(issue => ({
+    location,
+    field: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code
+  }));
+}
+
+function setParsed(req: Request, location: RequestLocation, data: unknown): void {
+  if (location === 'body') {
+    req.body = data;
+  } else if (location === 'params') {
+    req.params = data as Request['params'];
+  } else {
+    req.query = data as Request['query'];
+  }
+}
+
+/**
+ * Validate a response payload. A mismatch replaces the response with a 500, so schema
+ * drift fails loudly in development and tests; production skips the check entirely.
+ */
+function checkResponse(req: Request, res: Response, schema: AnySchema): void {
+  const json = res.json.bind(res);
+
+  res.json = (payload: unknown) => {
+    if (res.statusCode < 300) {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        const issues = toFieldErrors('body', result.error);
+        logger.error('Response does not match its schema', {
+          method: req.method,
+          path: req.originalUrl,
+          issues
+        });
+        res.status(500);
+        return json({
+          code: 'RESPONSE_VALIDATION_ERROR',
+          message: 'Response does not match its schema',
+          details: { fields: issues },
+          timestamp: Date.now()
+        } as APIError);
+      }
+    }
+    return json(payload);
+  };
+}
+
+/**
+ * Validate the request against the given schemas. Parsed values replace the
+ * raw ones, so handlers see coerced numbers, defaults and transformed dates.
+ */
+export function validate(schemas: RouteSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const fields: FieldError[] = [];
+
+    for (const location of REQUEST_LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        setParsed(req, location, result.data);
+      } else {
+        fields.push(...toFieldErrors(location, result.error));
+      }
+    }
+
+    if (fields.length > 0) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: `Invalid request: ${fields.map(f => f.field ? `${f.location}.${f.field}` : f.location).join(', ')}`,
+        details: { fields },
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    if (schemas.response && process.env.NODE_ENV !== 'production') {
+      checkResponse(req, res, schemas.response);
+    }
+
+    next();
+  };
+}
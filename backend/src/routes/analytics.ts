@@ -3,10 +3,12 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { authenticateUser } from '../middleware/supabaseAuth';
+import { authenticateUserOrApiKey } from '../middleware/apiKeyAuth';
+import { validate } from '../middleware/validation';
 import { databaseService } from '../services/databaseService';
+import { purposeService } from '../services/purposeService';
 import { logger } from '../utils/logger';
-import { APIError } from '@consentire/shared';
+import { APIError, ApiKeyScope, schemas } from '@consentire/shared';
 
 export const analyticsRouter = Router();
 
@@ -49,10 +51,11 @@ async function getAuthorizedControllerHash(req: Request): Promise<string | null>
  * Get consent trends over time
  * SERVER-SIDE FILTERING: Controllers can only see their own organization's data
  */
-analyticsRouter.get('/trends', authenticateUser, async (req: Request, res: Response) => {
+analyticsRouter.get('/trends', authenticateUserOrApiKey(ApiKeyScope.ANALYTICS), validate({
+  query: schemas.analyticsQuery
+}), async (req: Request, res: Response) => {
   try {
-    const { days = '30' } = req.query;
-    const daysNum = parseInt(days as string);
+    const daysNum = (req.query as unknown as { days: number }).days;
 
     // Get authorized controller_hash from JWT (server-side, cannot be tampered)
     const authorizedControllerHash = await getAuthorizedControllerHash(req);
@@ -103,7 +106,7 @@ analyticsRouter.get('/trends', authenticateUser, async (req: Request, res: Respo
  * Get consent breakdown by purpose
  * SERVER-SIDE FILTERING: Controllers can only see their own organization's data
  */
-analyticsRouter.get('/purposes', authenticateUser, async (req: Request, res: Response) => {
+analyticsRouter.get('/purposes', authenticateUserOrApiKey(ApiKeyScope.ANALYTICS), async (req: Request, res: Response) => {
   try {
     // Get authorized controller_hash from JWT (server-side, cannot be tampered)
     const authorizedControllerHash = await getAuthorizedControllerHash(req);
@@ -126,10 +129,16 @@ analyticsRouter.get('/purposes', authenticateUser, async (req: Request, res: Res
     query += ' GROUP BY purpose_hash ORDER BY total DESC';
 
     const result = await databaseService.query(query, params);
+    const names = await purposeService.resolvePurposeNames(
+      result.rows.map((row: any) => row.purpose_hash),
+      authorizedControllerHash
+    );
 
     res.json({
       purposes: result.rows.map((row: any) => ({
-        purpose: row.purpose_hash.substring(0, 16) + '...',
+        purpose: names.get(row.purpose_hash) || row.purpose_hash.substring(0, 16) + '...',
+        purposeHash: row.purpose_hash,
+        registered: names.has(row.purpose_hash),
         total: parseInt(row.total),
         active: parseInt(row.active)
       }))
@@ -149,7 +158,7 @@ analyticsRouter.get('/purposes', authenticateUser, async (req: Request, res: Res
  * Get distribution of consent statuses
  * SERVER-SIDE FILTERING: Controllers can only see their own organization's data
  */
-analyticsRouter.get('/status-distribution', authenticateUser, async (req: Request, res: Response) => {
+analyticsRouter.get('/status-distribution', authenticateUserOrApiKey(ApiKeyScope.ANALYTICS), async (req: Request, res: Response) => {
   try {
     // Get authorized controller_hash from JWT (server-side, cannot be tampered)
     const authorizedControllerHash = await getAuthorizedControllerHash(req);
@@ -193,7 +202,9 @@ analyticsRouter.get('/status-distribution', authenticateUser, async (req: Reques
  * Get comprehensive analytics for a specific controller
  * SERVER-SIDE VALIDATION: Validates controller_hash matches authenticated user's organization
  */
-analyticsRouter.get('/controller/:controllerHash', authenticateUser, async (req: Request, res: Response) => {
+analyticsRouter.get('/controller/:controllerHash', authenticateUserOrApiKey(ApiKeyScope.ANALYTICS), validate({
+  params: schemas.controllerHashParams
+}), async (req: Request, res: Response) => {
   try {
     const requestedHash = req.params.controllerHash;
     
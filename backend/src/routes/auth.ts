@@ -1,21 +1,15 @@
 import { Router, Request, Response } from 'express';
+import { schemas } from '@consentire/shared';
 import { authService } from '../services/authService';
+import { validate } from '../middleware/validation';
 import { logger } from '../utils/logger';
 
 export const authRouter = Router();
 
-authRouter.post('/login', async (req: Request, res: Response) => {
+authRouter.post('/login', validate({ body: schemas.login }), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
-      return res.status(400).json({
-        code: 'MISSING_CREDENTIALS',
-        message: 'Email and password are required',
-        timestamp: Date.now(),
-      });
-    }
-
     const result = await authService.login({ email, password });
 
     if (!result.success) {
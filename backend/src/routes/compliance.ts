@@ -3,11 +3,27 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { ComplianceStatus, APIError } from '@consentire/shared';
+import {
+  APIError,
+  BreachStatus,
+  RopaExportFormat,
+  ViolationRequest,
+  ViolationSeverity,
+  ViolationStatus,
+  ViolationStatusRequest,
+  schemas
+} from '@consentire/shared';
 import { logger } from '../utils/logger';
 import { pgConsentService } from '../services/pgConsentService';
 import { authenticateUser, requireAdmin } from '../middleware/supabaseAuth';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { databaseService } from '../services/databaseService';
+import { ropaService } from '../services/ropaService';
+import { breachService } from '../services/breachService';
+import { complianceEngine } from '../services/complianceEngine';
+import { violationService } from '../services/violationService';
+import { getErrorStatus } from '../middleware/errorHandler';
 
 export const complianceRouter = Router();
 
@@ -46,11 +62,16 @@ async function getAuthorizedControllerHashForCompliance(req: Request): Promise<s
 }
 
 /**
- * GET /api/v1/compliance/status/:controllerHash
- * Get GDPR compliance status for a controller
+ * GET /api/v1/compliance/status/:controllerHash?refresh=true
+ * Get GDPR compliance status for a controller: every rule result with its evidence, and the
+ * weighted score. A recent stored evaluation is reused unless refresh is set.
  * SERVER-SIDE VALIDATION: Controllers can only access their own organization's compliance
  */
-complianceRouter.get('/status/:controllerHash', authenticateUser, async (req: Request, res: Response) => {
+complianceRouter.get('/status/:controllerHash', authenticateUser, validate({
+  params: schemas.controllerHashParams,
+  query: schemas.complianceStatusQuery,
+  response: schemas.complianceStatus
+}), async (req: Request, res: Response) => {
   try {
     const requestedHash = req.params.controllerHash;
     
@@ -74,41 +95,71 @@ complianceRouter.get('/status/:controllerHash', authenticateUser, async (req: Re
     // Use the authorized hash (or requested hash for regulators)
     const controllerHash = authorizedControllerHash || requestedHash;
     
-    const metrics = await pgConsentService.getComplianceMetrics(controllerHash);
-    const complianceStatus: ComplianceStatus = {
-      controllerHash: metrics.controllerHash,
-      gdprArticle7: true,
-      gdprArticle12: true,
-      gdprArticle13: true,
-      gdprArticle17: true,
-      gdprArticle20: true,
-      gdprArticle25: true,
-      gdprArticle30: true,
-      overallCompliance: Math.round(metrics.complianceScore),
-      lastAudit: metrics.lastAudit
-    };
-    res.json(complianceStatus);
+    const { refresh } = req.query as unknown as { refresh: boolean };
+    const evaluation = await complianceEngine.getCurrentEvaluation(controllerHash, refresh);
+    res.json(complianceEngine.toComplianceStatus(evaluation));
   } catch (error: any) {
     logger.error('Error getting compliance status', { error: error.message });
-    res.status(500).json({
-      code: 'INTERNAL_ERROR',
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
       message: error.message || 'Failed to get compliance status',
       timestamp: Date.now()
     } as APIError);
   }
 });
 
+/**
+ * GET /api/v1/compliance/history/:controllerHash?limit=
+ * Stored compliance scores of a controller, newest first
+ */
+complianceRouter.get('/history/:controllerHash', authenticateUser, validate({
+  params: schemas.controllerHashParams,
+  query: schemas.complianceHistoryQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const requestedHash = req.params.controllerHash;
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+
+    if (authorizedControllerHash && requestedHash !== authorizedControllerHash) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Access denied: You can only access your own organization\'s compliance data',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const { limit } = req.query as unknown as { limit: number };
+    res.json({
+      controllerHash: requestedHash,
+      history: await complianceEngine.getHistory(requestedHash, limit)
+    });
+  } catch (error: any) {
+    logger.error('Error getting compliance history', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to get compliance history',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
 /**
  * GET /api/v1/compliance/report/:controllerHash
  * Generate detailed compliance report (admin only)
  */
-complianceRouter.get('/report/:controllerHash', authenticateUser, requireAdmin, async (req: Request, res: Response) => {
+complianceRouter.get('/report/:controllerHash', authenticateUser, requireAdmin, validate({
+  params: schemas.controllerHashParams
+}), async (req: Request, res: Response) => {
   try {
     const { controllerHash } = req.params;
     const report = await pgConsentService.getComplianceReport(controllerHash);
+    const evaluation = await complianceEngine.getCurrentEvaluation(controllerHash);
     res.json({
       controller: report.controller,
       metrics: report.metrics,
+      compliance: complianceEngine.toComplianceStatus(evaluation),
       summary: report.summary,
       recentConsents: report.recentConsents,
       auditTrail: report.auditTrail,
@@ -123,3 +174,293 @@ complianceRouter.get('/report/:controllerHash', authenticateUser, requireAdmin,
     } as APIError);
   }
 });
+
+/**
+ * GET /api/v1/compliance/ropa/:controllerHash?format=json|csv|html&version=
+ * A controller's Record of Processing Activities (GDPR Art. 30) for regulators and admins;
+ * controllers can read their own. Without a saved version the generated draft is returned.
+ */
+complianceRouter.get('/ropa/:controllerHash', authenticateUser, validate({
+  params: schemas.controllerHashParams,
+  query: schemas.complianceRopaQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const requestedHash = req.params.controllerHash;
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+
+    if (authorizedControllerHash && requestedHash !== authorizedControllerHash) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Access denied: You can only access your own organization\'s records of processing',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const { format, version } = req.query as unknown as { format: RopaExportFormat; version?: number };
+    const ropa = await ropaService.getRopa(requestedHash, version);
+    const rendered = ropaService.render(ropa, format);
+
+    res.setHeader('Content-Type', rendered.contentType);
+    if (format !== 'html') {
+      res.setHeader('Content-Disposition', `attachment; filename="ropa-v${ropa.version}.${rendered.extension}"`);
+    }
+    res.send(rendered.content);
+  } catch (error: any) {
+    logger.error('Error getting records of processing activities', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to get records of processing activities',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/compliance/breaches?controllerHash=&status=
+ * Breach notifications: regulators see breaches notified to the supervisory authority,
+ * admins see all, controllers their own
+ */
+complianceRouter.get('/breaches', authenticateUser, validate({
+  query: schemas.breachListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string; status?: BreachStatus };
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+
+    const breaches = await breachService.listBreaches({
+      controllerHash: authorizedControllerHash || query.controllerHash,
+      status: query.status,
+      notifiedOnly: req.user!.role === 'regulator'
+    });
+    res.json({ breaches });
+  } catch (error: any) {
+    logger.error('Error listing breaches', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to list breaches',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/compliance/breaches/:breachId/form
+ * Notification form of a breach with its anchored steps
+ */
+complianceRouter.get('/breaches/:breachId/form', authenticateUser, validate({
+  params: schemas.breachIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+    const breach = await breachService.getBreach(req.params.breachId, true);
+
+    const visible = breach
+      && (!authorizedControllerHash || breach.controllerHash === authorizedControllerHash)
+      && (req.user!.role !== 'regulator' || breach.regulatorNotifiedAt !== undefined);
+    if (!breach || !visible) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Breach not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json({ breach, form: await breachService.getNotificationForm(breach) });
+  } catch (error: any) {
+    logger.error('Error getting breach notification form', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to get breach notification form',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/compliance/violations?controllerHash=&status=&severity=&article=&ruleId=&assigneeId=&limit=
+ * Violations, most recently detected first; controllers only see their own
+ */
+complianceRouter.get('/violations', authenticateUser, validate({
+  query: schemas.violationListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as unknown as {
+      controllerHash?: string;
+      status?: ViolationStatus;
+      severity?: ViolationSeverity;
+      article?: string;
+      ruleId?: string;
+      assigneeId?: string;
+      limit: number;
+    };
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+
+    const violations = await violationService.listViolations({
+      ...query,
+      controllerHash: authorizedControllerHash || query.controllerHash
+    });
+    res.json({ violations });
+  } catch (error: any) {
+    logger.error('Error listing violations', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to list violations',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/compliance/violations/counts?controllerHash=
+ * Violation counts by status and severity
+ */
+complianceRouter.get('/violations/counts', authenticateUser, validate({
+  query: schemas.violationCountsQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string };
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+
+    res.json(await violationService.countViolations(authorizedControllerHash || query.controllerHash || null));
+  } catch (error: any) {
+    logger.error('Error counting violations', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to count violations',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * POST /api/v1/compliance/violations
+ * Raise a violation by hand (regulators and admins)
+ */
+complianceRouter.post('/violations', authenticateUser, requireAdmin, validate({
+  body: schemas.violation
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const request: ViolationRequest = req.body;
+    res.status(201).json(await violationService.createViolation(request, req.user!.id));
+  } catch (error: any) {
+    logger.error('Error creating violation', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to create violation',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/compliance/violations/:violationId
+ * A violation with its comments and status history
+ */
+complianceRouter.get('/violations/:violationId', authenticateUser, validate({
+  params: schemas.violationIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+    const violation = await violationService.getViolation(req.params.violationId, true);
+
+    if (!violation || (authorizedControllerHash && violation.controllerHash !== authorizedControllerHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Violation not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(violation);
+  } catch (error: any) {
+    logger.error('Error getting violation', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to get violation',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * POST /api/v1/compliance/violations/:violationId/status
+ * Move a violation to investigating, resolved or sanctioned (regulators and admins)
+ */
+complianceRouter.post('/violations/:violationId/status', authenticateUser, requireAdmin, validate({
+  params: schemas.violationIdParams,
+  body: schemas.violationStatus
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const request: ViolationStatusRequest = req.body;
+    res.json(await violationService.updateStatus(req.params.violationId, request, req.user!.id));
+  } catch (error: any) {
+    logger.error('Error updating violation status', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to update violation status',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * POST /api/v1/compliance/violations/:violationId/assign
+ * Assign a violation to a regulator or admin, or unassign it (regulators and admins)
+ */
+complianceRouter.post('/violations/:violationId/assign', authenticateUser, requireAdmin, validate({
+  params: schemas.violationIdParams,
+  body: schemas.violationAssign
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const { assigneeId } = req.body as { assigneeId: string | null };
+    res.json(await violationService.assign(req.params.violationId, assigneeId, req.user!.id));
+  } catch (error: any) {
+    logger.error('Error assigning violation', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to assign violation',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * POST /api/v1/compliance/violations/:violationId/comments
+ * Comment on a violation; controllers can comment on their own
+ */
+complianceRouter.post('/violations/:violationId/comments', authenticateUser, validate({
+  params: schemas.violationIdParams,
+  body: schemas.violationComment
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const authorizedControllerHash = await getAuthorizedControllerHashForCompliance(req);
+    const violation = await violationService.getViolation(req.params.violationId);
+
+    if (!violation || (authorizedControllerHash && violation.controllerHash !== authorizedControllerHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Violation not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.status(201).json(await violationService.addComment(violation.violationId, req.body.body, req.user!.id));
+  } catch (error: any) {
+    logger.error('Error commenting on violation', { error: error.message });
+    const status = getErrorStatus(error);
+    res.status(status).json({
+      code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+      message: error.message || 'Failed to comment on violation',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
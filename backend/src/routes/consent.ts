@@ -7,36 +7,68 @@ import {
   ConsentGrantRequest,
   ConsentVerifyRequest,
   ConsentRevokeRequest,
-  APIError
+  ConsentRenewRequest,
+  ConsentBatchRequest,
+  ConsentQuery,
+  APIError,
+  ApiKeyScope,
+  ProcessingRightStatus,
+  ProcessingRightType,
+  schemas
 } from '@consentire/shared';
-import { pgConsentService } from '../services/pgConsentService';
+import { pgConsentService, ConsentQueryScope } from '../services/pgConsentService';
+import { consentReceiptService } from '../services/consentReceiptService';
 import { authenticateUser, optionalAuth } from '../middleware/supabaseAuth';
+import { authenticateUserOrApiKey, optionalApiKey } from '../middleware/apiKeyAuth';
+import { databaseService } from '../services/databaseService';
+import { getErrorStatus } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { validate } from '../middleware/validation';
 import { logger } from '../utils/logger';
 
 export const consentRouter = Router();
 
 /**
  * POST /api/v1/consent/grant
- * Grant consent (requires authentication)
+ * Grant consent (requires authentication, or an API key with the grant scope
+ * submitting a user-signed grant for its own controller)
  */
-consentRouter.post('/grant', authenticateUser, async (req: Request, res: Response) => {
+consentRouter.post('/grant', authenticateUserOrApiKey(ApiKeyScope.GRANT), validate({
+  body: schemas.consentGrant,
+  response: schemas.consentGrantResponse
+}), idempotent, async (req: Request, res: Response) => {
   try {
     const request: ConsentGrantRequest = req.body;
-    const userId = req.user!.id; // From Supabase auth middleware
-    
-    // Validate request
-    if (!request.controllerId || !request.purpose) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required fields: controllerId, purpose',
-        timestamp: Date.now()
-      } as APIError);
+    let userId = req.user!.id; // From Supabase auth middleware
+
+    // A guardian signing for their ward names the minor as userId (GDPR Art. 8)
+    if (!req.apiKey && request.guardianId === userId && request.userId) {
+      userId = request.userId;
+    }
+
+    if (req.apiKey) {
+      if (request.controllerId !== req.apiKey.controllerHash) {
+        return res.status(403).json({
+          code: 'FORBIDDEN',
+          message: 'API keys can only grant consent for their own controller',
+          timestamp: Date.now()
+        } as APIError);
+      }
+      userId = request.userId;
     }
 
     const result = await pgConsentService.grantConsent(request, userId);
     res.status(201).json(result);
   } catch (error: any) {
     logger.error('Error granting consent', { error: error.message });
+    const status = getErrorStatus(error);
+    if (status !== 500) {
+      return res.status(status).json({
+        code: error.code,
+        message: error.message,
+        timestamp: Date.now()
+      } as APIError);
+    }
     res.status(500).json({
       code: 'INTERNAL_ERROR',
       message: error.message || 'Failed to grant consent',
@@ -46,17 +78,35 @@ consentRouter.post('/grant', authenticateUser, async (req: Request, res: Respons
 });
 
 /**
- * GET /api/v1/consent/verify/:userId/:controllerId/:purpose
- * Verify consent (ZK - no personal data)
+ * GET /api/v1/consent/verify/:userId/:controllerId/:purpose?validAt=&dataCategory=
+ * Verify consent (ZK - no personal data). API keys need the verify scope and may only
+ * verify consents given to their own controller.
  */
-consentRouter.get('/verify/:userId/:controllerId/:purpose', async (req: Request, res: Response) => {
+consentRouter.get('/verify/:userId/:controllerId/:purpose', optionalApiKey(ApiKeyScope.VERIFY), validate({
+  params: schemas.consentVerifyParams,
+  query: schemas.consentVerifyQuery,
+  response: schemas.consentVerifyResponse
+}), async (req: Request, res: Response) => {
   try {
     const { userId, controllerId, purpose } = req.params;
+
+    if (req.apiKey && decodeURIComponent(controllerId) !== req.apiKey.controllerHash) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'API keys can only verify consents for their own controller',
+        timestamp: Date.now()
+      } as APIError);
+    }
     
+    // Optional point-in-time mode: ?validAt=<unix ms | ISO 8601>, parsed by the query schema
+    const { validAt, dataCategory } = req.query as Pick<ConsentVerifyRequest, 'validAt' | 'dataCategory'>;
+
     const request: ConsentVerifyRequest = {
       userId: decodeURIComponent(userId),
       controllerId: decodeURIComponent(controllerId),
-      purpose: decodeURIComponent(purpose)
+      purpose: decodeURIComponent(purpose),
+      validAt,
+      dataCategory
     };
 
     const result = await pgConsentService.verifyConsent(request);
@@ -78,32 +128,40 @@ consentRouter.get('/verify/:userId/:controllerId/:purpose', async (req: Request,
 
 /**
  * POST /api/v1/consent/revoke/:consentId
- * Revoke consent (requires authentication)
+ * Revoke consent, or withdraw only the listed dataCategories (requires authentication)
  */
-consentRouter.post('/revoke/:consentId', authenticateUser, async (req: Request, res: Response) => {
+consentRouter.post('/revoke/:consentId', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  body: schemas.consentRevokeBody,
+  response: schemas.consentRevokeResponse
+}), idempotent, async (req: Request, res: Response) => {
   try {
     const { consentId } = req.params;
-    const { signature } = req.body;
+    const { signature, signedAt, nonce, dataCategories, guardianId } = req.body;
     const userId = req.user!.id; // From Supabase auth middleware
-    
-    if (!signature) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required field: signature',
-        timestamp: Date.now()
-      } as APIError);
-    }
 
     const request: ConsentRevokeRequest = {
       consentId,
       userId,
-      signature
+      signature,
+      signedAt,
+      nonce,
+      dataCategories,
+      guardianId
     };
 
     const result = await pgConsentService.revokeConsent(request, userId);
     res.json(result);
   } catch (error: any) {
     logger.error('Error revoking consent', { error: error.message });
+    const status = getErrorStatus(error);
+    if (status !== 500) {
+      return res.status(status).json({
+        code: error.code,
+        message: error.message,
+        timestamp: Date.now()
+      } as APIError);
+    }
     res.status(500).json({
       code: 'INTERNAL_ERROR',
       message: error.message || 'Failed to revoke consent',
@@ -112,6 +170,280 @@ consentRouter.post('/revoke/:consentId', authenticateUser, async (req: Request,
   }
 });
 
+/**
+ * POST /api/v1/consent/batch
+ * Mixed grant/revoke/verify operations with per-item results (partial failure)
+ * Grants and revokes carry the data subject's signature and share one aggregated anchor
+ */
+consentRouter.post('/batch', authenticateUserOrApiKey(ApiKeyScope.GRANT), validate({
+  body: schemas.consentBatch,
+  response: schemas.consentBatchResponse
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { operations } = req.body as ConsentBatchRequest;
+
+    let controllerHash = req.apiKey?.controllerHash;
+    if (!controllerHash && user.role === 'controller' && user.organizationId) {
+      const controllerResult = await databaseService.query(
+        'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+        [user.organizationId]
+      );
+      controllerHash = controllerResult.rows[0]?.controller_hash;
+    }
+
+    const result = await pgConsentService.processConsentBatch(operations, {
+      userId: user.id,
+      role: user.role || 'user',
+      controllerHash
+    });
+
+    // 207 when some items failed, so clients cannot mistake a partial batch for full success
+    res.status(result.failed > 0 ? 207 : 200).json(result);
+  } catch (error: any) {
+    logger.error('Error processing consent batch', { error: error.message });
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to process consent batch',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+function sendRequestError(res: Response, error: any, fallback: string) {
+  logger.error(fallback, { error: error.message });
+  const status = getErrorStatus(error);
+  res.status(status).json({
+    code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+    message: error.message || fallback,
+    timestamp: Date.now()
+  } as APIError);
+}
+
+/**
+ * POST /api/v1/consent/requests
+ * Double opt-in: a controller asks a user for consent; it stays pending until confirmed
+ */
+consentRouter.post('/requests', authenticateUserOrApiKey(ApiKeyScope.GRANT), validate({
+  body: schemas.consentRequest,
+  response: schemas.consentRequestResponse
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    let controllerHash = req.apiKey?.controllerHash;
+    if (!controllerHash && user.role === 'controller' && user.organizationId) {
+      const controllerResult = await databaseService.query(
+        'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+        [user.organizationId]
+      );
+      controllerHash = controllerResult.rows[0]?.controller_hash;
+    } else if (!controllerHash && user.role === 'admin') {
+      controllerHash = req.body.controllerId;
+    }
+
+    if (!controllerHash) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Only controllers can request consent (admins must pass controllerId)',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const result = await pgConsentService.requestConsent(req.body, controllerHash, user.id);
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to request consent');
+  }
+});
+
+/**
+ * GET /api/v1/consent/requests/me
+ * Pending consent requests awaiting the authenticated user's confirmation
+ */
+consentRouter.get('/requests/me', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const requests = await pgConsentService.getPendingRequests(req.user!.id);
+    res.json({ requests, count: requests.length });
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to get consent requests');
+  }
+});
+
+/**
+ * POST /api/v1/consent/requests/confirm-link
+ * Confirm a pending consent with the signed link token (no login needed)
+ */
+consentRouter.post('/requests/confirm-link', validate({
+  body: schemas.consentConfirmLink,
+  response: schemas.consentConfirmResponse
+}), async (req: Request, res: Response) => {
+  try {
+    const result = await pgConsentService.confirmConsentWithToken(req.body.token);
+    res.json(result);
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to confirm consent');
+  }
+});
+
+/**
+ * POST /api/v1/consent/requests/:consentId/confirm
+ * Confirm a pending consent from the dashboard (signed by the user); this anchors the grant
+ */
+consentRouter.post('/requests/:consentId/confirm', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  body: schemas.consentConfirm,
+  response: schemas.consentConfirmResponse
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const result = await pgConsentService.confirmConsent(req.params.consentId, req.body, req.user!.id);
+    res.json(result);
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to confirm consent');
+  }
+});
+
+/**
+ * POST /api/v1/consent/requests/:consentId/decline
+ * Decline a pending consent request
+ */
+consentRouter.post('/requests/:consentId/decline', authenticateUser, validate({
+  params: schemas.consentIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    await pgConsentService.declineConsentRequest(req.params.consentId, req.user!.id);
+    res.json({ consentId: req.params.consentId, status: 'revoked' });
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to decline consent request');
+  }
+});
+
+/**
+ * POST /api/v1/consent/:consentId/renew
+ * Re-consent: create a successor consent that supersedes :consentId (requires authentication)
+ */
+consentRouter.post('/:consentId/renew', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  body: schemas.consentRenew,
+  response: schemas.consentRenewResponse
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const { consentId } = req.params;
+    const request: ConsentRenewRequest = req.body;
+    const userId = req.user!.id;
+
+    const result = await pgConsentService.renewConsent(consentId, request, userId);
+    res.status(201).json(result);
+  } catch (error: any) {
+    logger.error('Error renewing consent', { error: error.message });
+    const status = getErrorStatus(error);
+    if (status !== 500) {
+      return res.status(status).json({
+        code: error.code,
+        message: error.message,
+        timestamp: Date.now()
+      } as APIError);
+    }
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to renew consent',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * POST /api/v1/consent/:consentId/restrict
+ * Restrict processing of a granted consent (GDPR Art. 18) until the controller lifts it
+ */
+consentRouter.post('/:consentId/restrict', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  body: schemas.restriction
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const result = await pgConsentService.restrictProcessing(req.params.consentId, req.body, req.user!.id);
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to restrict processing');
+  }
+});
+
+/**
+ * POST /api/v1/consent/:consentId/object
+ * Object to processing based on legitimate interests or a public task (GDPR Art. 21)
+ */
+consentRouter.post('/:consentId/object', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  body: schemas.objection
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const result = await pgConsentService.objectToProcessing(req.params.consentId, req.body, req.user!.id);
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to object to processing');
+  }
+});
+
+/**
+ * GET /api/v1/consent/processing-rights/me?type=&status=
+ * The authenticated user's restrictions and objections with the controllers' decisions
+ */
+consentRouter.get('/processing-rights/me', authenticateUser, validate({
+  query: schemas.processingRightsQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { type?: ProcessingRightType; status?: ProcessingRightStatus };
+    const requests = await pgConsentService.listProcessingRights({ userId: req.user!.id, ...query });
+    res.json({ requests, count: requests.length });
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to get processing rights requests');
+  }
+});
+
+/**
+ * GET /api/v1/consent?status=&lawfulBasis=&dataCategory=&grantedFrom=&anchorStatus=&sortBy=&cursor=&limit=
+ * Search consents with cursor pagination. Users see their own consents, controllers their
+ * organization's, regulators and admins everything.
+ */
+consentRouter.get('/', authenticateUser, validate({
+  query: schemas.consentQuery,
+  response: schemas.consentQueryResponse
+}), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const query = req.query as unknown as ConsentQuery;
+    let scope: ConsentQueryScope = {};
+
+    if (user.role === 'controller') {
+      const controllerResult = await databaseService.query(
+        'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+        [user.organizationId]
+      );
+      if (controllerResult.rows.length === 0) {
+        return res.status(403).json({
+          code: 'FORBIDDEN',
+          message: 'No controller registered for this organization',
+          timestamp: Date.now()
+        } as APIError);
+      }
+      scope = { controllerHash: controllerResult.rows[0].controller_hash };
+    } else if (user.role !== 'admin' && user.role !== 'regulator') {
+      if (query.userId && query.userId !== user.id) {
+        return res.status(403).json({
+          code: 'FORBIDDEN',
+          message: 'Access denied: can only search your own consents',
+          timestamp: Date.now()
+        } as APIError);
+      }
+      scope = { userId: user.id };
+    }
+
+    res.json(await pgConsentService.searchConsents(query, scope));
+  } catch (error: any) {
+    sendRequestError(res, error, 'Failed to search consents');
+  }
+});
+
 /**
  * GET /api/v1/consent/user/me
  * Get all active consents for authenticated user
@@ -135,7 +467,9 @@ consentRouter.get('/user/me', authenticateUser, async (req: Request, res: Respon
  * GET /api/v1/consent/user/:userId
  * Get all active consents for a specific user (admin only)
  */
-consentRouter.get('/user/:userId', authenticateUser, async (req: Request, res: Response) => {
+consentRouter.get('/user/:userId', authenticateUser, validate({
+  params: schemas.userIdParams
+}), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     const requestingUserId = req.user!.id;
@@ -160,3 +494,148 @@ consentRouter.get('/user/:userId', authenticateUser, async (req: Request, res: R
     } as APIError);
   }
 });
+
+/**
+ * GET /api/v1/consent/receipts/jwks
+ * Public key set for verifying consent receipt signatures (EdDSA)
+ */
+consentRouter.get('/receipts/jwks', async (req: Request, res: Response) => {
+  try {
+    res.json(await consentReceiptService.getJWKS());
+  } catch (error: any) {
+    logger.error('Error getting receipt keys', { error: error.message });
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to get receipt keys',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/consent/receipts/me?consentId=
+ * Signed consent receipts of the authenticated user
+ */
+consentRouter.get('/receipts/me', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const consentId = typeof req.query.consentId === 'string' ? req.query.consentId : undefined;
+    const receipts = await consentReceiptService.getUserReceipts(req.user!.id, consentId);
+
+    res.json({ receipts, total: receipts.length });
+  } catch (error: any) {
+    logger.error('Error getting consent receipts', { error: error.message });
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to get consent receipts',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/consent/receipts/:receiptId?format=jws
+ * Single receipt; format=jws downloads the compact JWS only
+ * Visible to the data subject, the consent's controller and regulators/admins
+ */
+consentRouter.get('/receipts/:receiptId', authenticateUser, validate({
+  params: schemas.receiptIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const record = await consentReceiptService.getReceipt(req.params.receiptId);
+
+    if (!record) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Receipt not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    let authorized = record.userId === user.id || user.role === 'admin' || user.role === 'regulator';
+    if (!authorized && user.role === 'controller' && user.organizationId) {
+      const controllerResult = await databaseService.query(
+        'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+        [user.organizationId]
+      );
+      authorized = controllerResult.rows[0]?.controller_hash === record.controllerHash;
+    }
+
+    if (!authorized) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Access denied: receipt not visible to this account',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    if (req.query.format === 'jws') {
+      res.setHeader('Content-Type', 'application/jwt');
+      res.setHeader('Content-Disposition', `attachment; filename="consent-receipt-${record.receiptId}.jwt"`);
+      return res.send(record.jws);
+    }
+
+    const { userId, controllerHash, ...receipt } = record;
+    res.json(receipt);
+  } catch (error: any) {
+    logger.error('Error getting consent receipt', { error: error.message });
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to get consent receipt',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
+
+/**
+ * GET /api/v1/consent/:consentId/history
+ * Append-only event history of a consent with each event's anchor result
+ * Visible to the consent owner, the consent's controller and regulators/admins
+ */
+consentRouter.get('/:consentId/history', authenticateUser, validate({
+  params: schemas.consentIdParams,
+  response: schemas.consentHistoryResponse
+}), async (req: Request, res: Response) => {
+  try {
+    const { consentId } = req.params;
+    const user = req.user!;
+    const history = await pgConsentService.getConsentHistory(consentId);
+
+    let authorized = history.userId === user.id || user.role === 'admin' || user.role === 'regulator';
+    if (!authorized && user.role === 'controller' && user.organizationId) {
+      const controllerResult = await databaseService.query(
+        'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+        [user.organizationId]
+      );
+      authorized = controllerResult.rows[0]?.controller_hash === history.controllerHash;
+    }
+
+    if (!authorized) {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Access denied: consent history not visible to this account',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json({
+      consentId: history.consentId,
+      status: history.status,
+      events: history.events
+    });
+  } catch (error: any) {
+    logger.error('Error getting consent history', { error: error.message });
+    if (error.message === 'Consent not found') {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: error.message,
+        timestamp: Date.now()
+      } as APIError);
+    }
+    res.status(500).json({
+      code: 'INTERNAL_ERROR',
+      message: error.message || 'Failed to get consent history',
+      timestamp: Date.now()
+    } as APIError);
+  }
+});
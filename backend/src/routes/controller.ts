@@ -6,10 +6,33 @@ import { Router, Request, Response } from 'express';
 import {
   ControllerRegistrationRequest,
   ControllerRegistrationResponse,
-  APIError
+  APIError,
+  WebhookDeliveryStatus,
+  LiaStatus,
+  DpiaStatus,
+  BreachStatus,
+  ProcessingRightStatus,
+  ProcessingRightType,
+  RetentionRuleStatus,
+  RopaExportFormat,
+  schemas
 } from '@consentire/shared';
 import { authenticateUser, requireAdmin } from '../middleware/supabaseAuth';
+import { getErrorStatus } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { validate } from '../middleware/validation';
 import { pgControllerService } from '../services/pgControllerService';
+import { purposeService } from '../services/purposeService';
+import { apiKeyService } from '../services/apiKeyService';
+import { webhookService } from '../services/webhookService';
+import { liaService } from '../services/liaService';
+import { dpiaService } from '../services/dpiaService';
+import { breachService } from '../services/breachService';
+import { pgConsentService } from '../services/pgConsentService';
+import { retentionService } from '../services/retentionService';
+import { ropaService } from '../services/ropaService';
+import { databaseService } from '../services/databaseService';
+import { ForbiddenError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 export const controllerRouter = Router();
@@ -20,18 +43,12 @@ export const controllerRouter = Router();
  * POST /api/v1/controllers/register
  * Register a new data controller (organization)
  */
-controllerRouter.post('/register', authenticateUser, requireAdmin, async (req: Request, res: Response) => {
+controllerRouter.post('/register', authenticateUser, requireAdmin, validate({
+  body: schemas.controllerRegistration,
+  response: schemas.controllerRegistrationResponse
+}), idempotent, async (req: Request, res: Response) => {
   try {
     const request: ControllerRegistrationRequest = req.body;
-    
-    // Validate request
-    if (!request.organizationName || !request.organizationId || !request.publicKey) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required fields: organizationName, organizationId, publicKey',
-        timestamp: Date.now()
-      } as APIError);
-    }
 
     const response = await pgControllerService.registerController(request, req.user!.id);
     res.status(201).json(response);
@@ -85,7 +102,1031 @@ controllerRouter.get('/stats', authenticateUser, async (req: Request, res: Respo
   }
 });
 
-controllerRouter.get('/:controllerId', authenticateUser, requireAdmin, async (req: Request, res: Response) => {
+/**
+ * Controller hash the caller may manage purposes, API keys and webhooks for (null for admins, who manage any)
+ */
+async function getManagedControllerHash(req: Request): Promise<string | null> {
+  const user = req.user!;
+
+  if (user.role === 'admin') {
+    return null;
+  }
+
+  if (user.role === 'controller' && user.organizationId) {
+    const result = await databaseService.query(
+      'SELECT controller_hash FROM controllers WHERE organization_id = $1',
+      [user.organizationId]
+    );
+    if (result.rows.length > 0) {
+      return result.rows[0].controller_hash;
+    }
+  }
+
+  throw new ForbiddenError('Only controllers and admins can manage controller settings');
+}
+
+/**
+ * Controller hash the caller may read compliance records for (null for admins and regulators, who read any)
+ */
+async function getReadableControllerHash(req: Request): Promise<string | null> {
+  return req.user!.role === 'regulator' ? null : getManagedControllerHash(req);
+}
+
+function sendManagementError(res: Response, error: any, fallback: string) {
+  logger.error(fallback, { error: error.message });
+  const status = getErrorStatus(error);
+  res.status(status).json({
+    code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+    message: error.message || fallback,
+    timestamp: Date.now()
+  } as APIError);
+}
+
+/**
+ * GET /api/v1/controllers/purposes?controllerHash=&includeRetired=true
+ * List registered purposes (controllers default to their own organization)
+ */
+controllerRouter.get('/purposes', authenticateUser, validate({
+  query: schemas.purposeListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const { controllerHash: requestedHash, includeRetired } = req.query as unknown as { controllerHash?: string; includeRetired: boolean };
+    let controllerHash = requestedHash || null;
+    if (!controllerHash && req.user!.role === 'controller') {
+      controllerHash = await getManagedControllerHash(req);
+    }
+
+    const purposes = await purposeService.listPurposes(controllerHash, includeRetired);
+    res.json({ purposes });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list purposes');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/purposes
+ * Register a named purpose (controllers for their own organization, admins for any)
+ */
+controllerRouter.post('/purposes', authenticateUser, validate({
+  body: schemas.purposeRegistration
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const purpose = await purposeService.registerPurpose(req.body, controllerHash, req.user!.id);
+    res.status(201).json(purpose);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to register purpose');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/purposes/:purposeId
+ * Purpose with its full version history
+ */
+controllerRouter.get('/purposes/:purposeId', authenticateUser, validate({
+  params: schemas.purposeIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const purpose = await purposeService.getPurpose(req.params.purposeId, true);
+    if (!purpose) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Purpose not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(purpose);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get purpose');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/purposes/:purposeId
+ * Publish a new version of a purpose (the name cannot change)
+ */
+controllerRouter.put('/purposes/:purposeId', authenticateUser, validate({
+  params: schemas.purposeIdParams,
+  body: schemas.purposeUpdate
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const purpose = await purposeService.updatePurpose(req.params.purposeId, req.body, controllerHash, req.user!.id);
+    res.json(purpose);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to update purpose');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/purposes/:purposeId/retire
+ * Retire a purpose: existing consents are kept, new grants are rejected
+ */
+controllerRouter.post('/purposes/:purposeId/retire', authenticateUser, validate({
+  params: schemas.purposeIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const purpose = await purposeService.retirePurpose(req.params.purposeId, controllerHash);
+    res.json(purpose);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to retire purpose');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/lias?controllerHash=&purposeHash=&status=
+ * Legitimate Interests Assessments at their current version (regulators see all controllers)
+ */
+controllerRouter.get('/lias', authenticateUser, validate({
+  query: schemas.liaListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string; purposeHash?: string; status?: LiaStatus };
+    const readableHash = await getReadableControllerHash(req);
+    const lias = await liaService.listAssessments({
+      controllerHash: readableHash || query.controllerHash,
+      purposeHash: query.purposeHash,
+      status: query.status
+    });
+    res.json({ lias });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list LIAs');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/lias
+ * Record the LIA behind LEGITIMATE_INTERESTS processing for a purpose; the version is anchored
+ */
+controllerRouter.post('/lias', authenticateUser, validate({
+  body: schemas.lia
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const lia = await liaService.createAssessment(req.body, controllerHash, req.user!.id);
+    res.status(201).json(lia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to record LIA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/lias/:liaId
+ * LIA with its full version history
+ */
+controllerRouter.get('/lias/:liaId', authenticateUser, validate({
+  params: schemas.liaIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const readableHash = await getReadableControllerHash(req);
+    const lia = await liaService.getAssessment(req.params.liaId, true);
+    if (!lia || (readableHash && lia.controllerHash !== readableHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'LIA not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(lia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get LIA');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/lias/:liaId
+ * Publish a new anchored version of an LIA (the purpose cannot change)
+ */
+controllerRouter.put('/lias/:liaId', authenticateUser, validate({
+  params: schemas.liaIdParams,
+  body: schemas.liaUpdate
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const lia = await liaService.updateAssessment(req.params.liaId, req.body, controllerHash, req.user!.id);
+    res.json(lia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to update LIA');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/lias/:liaId/withdraw
+ * Withdraw an LIA; its purpose is no longer covered for legitimate-interest records
+ */
+controllerRouter.post('/lias/:liaId/withdraw', authenticateUser, validate({
+  params: schemas.liaIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const lia = await liaService.withdrawAssessment(req.params.liaId, controllerHash);
+    res.json(lia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to withdraw LIA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/dpo?controllerHash=
+ * The controller's designated DPO (controllers default to their own organization)
+ */
+controllerRouter.get('/dpo', authenticateUser, validate({
+  query: schemas.dpoQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const readableHash = await getReadableControllerHash(req);
+    const controllerHash = readableHash || (req.query as { controllerHash?: string }).controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const designation = await dpiaService.getDpoDesignation(controllerHash);
+    if (!designation) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'No DPO is designated for this controller',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(designation);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get DPO designation');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/dpo
+ * Designate the controller's DPO (admin only); only the DPO can sign off DPIAs
+ */
+controllerRouter.put('/dpo', authenticateUser, validate({
+  body: schemas.dpoDesignation
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      throw new ForbiddenError('Only administrators can designate a DPO');
+    }
+
+    const designation = await dpiaService.designateDpo(req.body.controllerHash, req.body.userId, req.user!.id);
+    res.json(designation);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to designate DPO');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/dpias?controllerHash=&purposeHash=&status=
+ * Data Protection Impact Assessments at their current version (regulators see all controllers)
+ */
+controllerRouter.get('/dpias', authenticateUser, validate({
+  query: schemas.dpiaListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string; purposeHash?: string; status?: DpiaStatus };
+    const readableHash = await getReadableControllerHash(req);
+    const dpias = await dpiaService.listAssessments({
+      controllerHash: readableHash || query.controllerHash,
+      purposeHash: query.purposeHash,
+      status: query.status
+    });
+    res.json({ dpias });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list DPIAs');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/dpias
+ * Start a DPIA for a purpose: questionnaire and risk register, saved as a draft
+ */
+controllerRouter.post('/dpias', authenticateUser, validate({
+  body: schemas.dpia
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const dpia = await dpiaService.createAssessment(req.body, controllerHash, req.user!.id);
+    res.status(201).json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to start DPIA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/dpias/:dpiaId
+ * DPIA with its full version history
+ */
+controllerRouter.get('/dpias/:dpiaId', authenticateUser, validate({
+  params: schemas.dpiaIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const readableHash = await getReadableControllerHash(req);
+    const dpia = await dpiaService.getAssessment(req.params.dpiaId, true);
+    if (!dpia || (readableHash && dpia.controllerHash !== readableHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'DPIA not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get DPIA');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/dpias/:dpiaId
+ * Publish a new draft version (e.g. mitigation progress); approved DPIAs need a new sign-off
+ */
+controllerRouter.put('/dpias/:dpiaId', authenticateUser, validate({
+  params: schemas.dpiaIdParams,
+  body: schemas.dpiaUpdate
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const dpia = await dpiaService.updateAssessment(req.params.dpiaId, req.body, controllerHash, req.user!.id);
+    res.json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to update DPIA');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/dpias/:dpiaId/submit
+ * Submit the current draft for DPO sign-off
+ */
+controllerRouter.post('/dpias/:dpiaId/submit', authenticateUser, validate({
+  params: schemas.dpiaIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const dpia = await dpiaService.submitAssessment(req.params.dpiaId, controllerHash, req.user!.id);
+    res.json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to submit DPIA');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/dpias/:dpiaId/sign-off
+ * The designated DPO approves or rejects the submitted version; approvals are anchored
+ */
+controllerRouter.post('/dpias/:dpiaId/sign-off', authenticateUser, validate({
+  params: schemas.dpiaIdParams,
+  body: schemas.dpiaSignOff
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const dpia = await dpiaService.signOff(req.params.dpiaId, req.body, controllerHash, req.user!.id);
+    res.json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to sign off DPIA');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/dpias/:dpiaId/withdraw
+ * Withdraw a DPIA; its versions are kept
+ */
+controllerRouter.post('/dpias/:dpiaId/withdraw', authenticateUser, validate({
+  params: schemas.dpiaIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const dpia = await dpiaService.withdrawAssessment(req.params.dpiaId, controllerHash);
+    res.json(dpia);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to withdraw DPIA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/breaches?controllerHash=&status=
+ * Personal data breaches with their regulator deadline (regulators use /compliance/breaches)
+ */
+controllerRouter.get('/breaches', authenticateUser, validate({
+  query: schemas.breachListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string; status?: BreachStatus };
+    const managedHash = await getManagedControllerHash(req);
+    const breaches = await breachService.listBreaches({
+      controllerHash: managedHash || query.controllerHash,
+      status: query.status
+    });
+    res.json({ breaches });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list breaches');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/breaches
+ * Log a personal data breach; affected data subjects are identified from consents by category
+ * and the 72-hour regulator deadline starts at discovery
+ */
+controllerRouter.post('/breaches', authenticateUser, validate({
+  body: schemas.breachReport
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const breach = await breachService.reportBreach(req.body, controllerHash, req.user!.id);
+    res.status(201).json(breach);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to log breach');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/breaches/:breachId
+ * Breach with its anchored steps
+ */
+controllerRouter.get('/breaches/:breachId', authenticateUser, validate({
+  params: schemas.breachIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const breach = await breachService.getBreach(req.params.breachId, true);
+    if (!breach || (managedHash && breach.controllerHash !== managedHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Breach not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(breach);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get breach');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/breaches/:breachId/notification-form
+ * Notification to the supervisory authority (Art. 33(3) content), filled from the breach record
+ */
+controllerRouter.get('/breaches/:breachId/notification-form', authenticateUser, validate({
+  params: schemas.breachIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const breach = await breachService.getBreach(req.params.breachId, true);
+    if (!breach || (managedHash && breach.controllerHash !== managedHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Breach not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(await breachService.getNotificationForm(breach));
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to generate breach notification form');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/breaches/:breachId/notify-regulator
+ * Record the notification to the supervisory authority; after 72 hours a delay reason is required
+ */
+controllerRouter.post('/breaches/:breachId/notify-regulator', authenticateUser, validate({
+  params: schemas.breachIdParams,
+  body: schemas.breachRegulatorNotification
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const breach = await breachService.notifyRegulator(req.params.breachId, req.body, controllerHash, req.user!.id);
+    res.json(breach);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to record regulator notification');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/breaches/:breachId/notify-subjects
+ * Queue a notice to every affected data subject (Art. 34)
+ */
+controllerRouter.post('/breaches/:breachId/notify-subjects', authenticateUser, validate({
+  params: schemas.breachIdParams,
+  body: schemas.breachSubjectNotification
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const breach = await breachService.notifySubjects(req.params.breachId, req.body, controllerHash, req.user!.id);
+    res.json(breach);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to notify data subjects');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/breaches/:breachId/close
+ * Close a breach once the required notifications are done
+ */
+controllerRouter.post('/breaches/:breachId/close', authenticateUser, validate({
+  params: schemas.breachIdParams,
+  body: schemas.breachClose
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const breach = await breachService.closeBreach(req.params.breachId, req.body, controllerHash, req.user!.id);
+    res.json(breach);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to close breach');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/processing-rights?type=&status=
+ * Restrictions and objections raised by data subjects (regulators see all controllers)
+ */
+controllerRouter.get('/processing-rights', authenticateUser, validate({
+  query: schemas.processingRightsQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { type?: ProcessingRightType; status?: ProcessingRightStatus };
+    const controllerHash = await getReadableControllerHash(req);
+    const requests = await pgConsentService.listProcessingRights({ controllerHash, ...query });
+    res.json({ requests, count: requests.length });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list processing rights requests');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/processing-rights/:requestId/resolve
+ * Lift a restriction, or uphold or reject an objection; the consent change is anchored
+ */
+controllerRouter.post('/processing-rights/:requestId/resolve', authenticateUser, validate({
+  params: schemas.processingRightsRequestIdParams,
+  body: schemas.processingRightsResolution
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const result = await pgConsentService.resolveProcessingRight(req.params.requestId, req.body, controllerHash, req.user!.id);
+    res.json(result);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to resolve processing rights request');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/retention-rules?controllerHash=&status=
+ * Retention rules (regulators see all controllers)
+ */
+controllerRouter.get('/retention-rules', authenticateUser, validate({
+  query: schemas.retentionRuleQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as { controllerHash?: string; status?: RetentionRuleStatus };
+    const readableHash = await getReadableControllerHash(req);
+    const rules = await retentionService.listRules({
+      controllerHash: readableHash || query.controllerHash,
+      status: query.status
+    });
+    res.json({ rules });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list retention rules');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/retention-rules
+ * Attach a retention rule to consents (per purpose or data category) or to audit entries
+ */
+controllerRouter.post('/retention-rules', authenticateUser, validate({
+  body: schemas.retentionRule
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const rule = await retentionService.createRule(req.body, controllerHash, req.user!.id);
+    res.status(201).json(rule);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to create retention rule');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/retention-rules/:ruleId/retire
+ * Retire a retention rule; its deletion certificates are kept
+ */
+controllerRouter.post('/retention-rules/:ruleId/retire', authenticateUser, validate({
+  params: schemas.retentionRuleIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const rule = await retentionService.retireRule(req.params.ruleId, controllerHash);
+    res.json(rule);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to retire retention rule');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/retention-rules/:ruleId/apply
+ * Apply a rule now instead of waiting for the scheduler; returns the anchored deletion certificate
+ */
+controllerRouter.post('/retention-rules/:ruleId/apply', authenticateUser, validate({
+  params: schemas.retentionRuleIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const certificate = await retentionService.applyRule(req.params.ruleId, controllerHash);
+    res.json({ certificate, deleted: certificate?.recordHashes.length ?? 0 });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to apply retention rule');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/deletion-certificates?controllerHash=&ruleId=&limit=
+ * Deletion certificates produced by retention runs (regulators see all controllers)
+ */
+controllerRouter.get('/deletion-certificates', authenticateUser, validate({
+  query: schemas.deletionCertificateQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as unknown as { controllerHash?: string; ruleId?: string; limit: number };
+    const readableHash = await getReadableControllerHash(req);
+    const certificates = await retentionService.listCertificates({
+      controllerHash: readableHash || query.controllerHash,
+      ruleId: query.ruleId,
+      limit: query.limit
+    });
+    res.json({ certificates });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list deletion certificates');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/deletion-certificates/:certificateId
+ * A deletion certificate with its record hashes, e.g. to check the anchored merkle root
+ */
+controllerRouter.get('/deletion-certificates/:certificateId', authenticateUser, validate({
+  params: schemas.deletionCertificateIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const readableHash = await getReadableControllerHash(req);
+    const certificate = await retentionService.getCertificate(req.params.certificateId);
+    if (!certificate || (readableHash && certificate.controllerHash !== readableHash)) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Deletion certificate not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(certificate);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get deletion certificate');
+  }
+});
+
+/**
+ * Controller hash whose ROPA the caller reads: their own, or the one requested by admins and regulators
+ */
+async function getRopaControllerHash(req: Request, res: Response): Promise<string | null> {
+  const readableHash = await getReadableControllerHash(req);
+  const controllerHash = readableHash || (req.query.controllerHash as string | undefined);
+  if (!controllerHash) {
+    res.status(400).json({
+      code: 'VALIDATION_ERROR',
+      message: 'Missing required field: controllerHash',
+      timestamp: Date.now()
+    } as APIError);
+    return null;
+  }
+
+  return controllerHash;
+}
+
+/**
+ * GET /api/v1/controllers/ropa?controllerHash=&version=
+ * Record of Processing Activities (GDPR Art. 30) at the latest or a given version.
+ * Before the first save this is a draft generated from purposes, consents and retention rules.
+ */
+controllerRouter.get('/ropa', authenticateUser, validate({
+  query: schemas.ropaQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getRopaControllerHash(req, res);
+    if (!controllerHash) {
+      return;
+    }
+
+    const { version } = req.query as unknown as { version?: number };
+    res.json(await ropaService.getRopa(controllerHash, version));
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to get ROPA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/ropa/versions?controllerHash=
+ * Every saved ROPA version, newest first
+ */
+controllerRouter.get('/ropa/versions', authenticateUser, validate({
+  query: schemas.ropaQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getRopaControllerHash(req, res);
+    if (!controllerHash) {
+      return;
+    }
+
+    res.json({ versions: await ropaService.listVersions(controllerHash) });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list ROPA versions');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/ropa/export?format=json|csv|html&controllerHash=&version=
+ * Download the ROPA as JSON, CSV (one row per activity) or a printable HTML report
+ */
+controllerRouter.get('/ropa/export', authenticateUser, validate({
+  query: schemas.ropaExportQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getRopaControllerHash(req, res);
+    if (!controllerHash) {
+      return;
+    }
+
+    const { format, version } = req.query as unknown as { format: RopaExportFormat; version?: number };
+    const ropa = await ropaService.getRopa(controllerHash, version);
+    const rendered = ropaService.render(ropa, format);
+
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="ropa-v${ropa.version}.${rendered.extension}"`);
+    res.send(rendered.content);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to export ROPA');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/ropa
+ * Save the edited ROPA as a new version
+ */
+controllerRouter.put('/ropa', authenticateUser, validate({
+  body: schemas.ropa
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const ropa = await ropaService.saveRopa(req.body, controllerHash, req.user!.id);
+    res.json(ropa);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to save ROPA');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/api-keys?includeRevoked=true
+ * List API keys (metadata only, never the secrets)
+ */
+controllerRouter.get('/api-keys', authenticateUser, validate({
+  query: schemas.apiKeyListQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const { includeRevoked } = req.query as unknown as { includeRevoked: boolean };
+    const controllerHash = await getManagedControllerHash(req);
+    const apiKeys = await apiKeyService.listKeys(controllerHash, includeRevoked);
+    res.json({ apiKeys });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list API keys');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/api-keys
+ * Create a scoped API key; the secret is only returned in this response
+ */
+controllerRouter.post('/api-keys', authenticateUser, validate({
+  body: schemas.apiKeyCreate
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const apiKey = await apiKeyService.createKey(req.body, controllerHash, req.user!.id);
+    res.status(201).json(apiKey);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to create API key');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/api-keys/:keyId/rotate
+ * Issue a new secret with the same name and scopes and revoke the old key
+ */
+controllerRouter.post('/api-keys/:keyId/rotate', authenticateUser, validate({
+  params: schemas.apiKeyIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const apiKey = await apiKeyService.rotateKey(req.params.keyId, controllerHash, req.user!.id);
+    res.status(201).json(apiKey);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to rotate API key');
+  }
+});
+
+/**
+ * DELETE /api/v1/controllers/api-keys/:keyId
+ * Revoke an API key
+ */
+controllerRouter.delete('/api-keys/:keyId', authenticateUser, validate({
+  params: schemas.apiKeyIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const apiKey = await apiKeyService.revokeKey(req.params.keyId, controllerHash);
+    res.json(apiKey);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to revoke API key');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/webhooks
+ * List webhook subscriptions (without their secrets)
+ */
+controllerRouter.get('/webhooks', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const subscriptions = await webhookService.listSubscriptions(controllerHash);
+    res.json({ subscriptions });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list webhook subscriptions');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/webhooks
+ * Subscribe an endpoint to consent lifecycle events; the signing secret is only returned here
+ */
+controllerRouter.post('/webhooks', authenticateUser, validate({
+  body: schemas.webhookSubscription
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const managedHash = await getManagedControllerHash(req);
+    const controllerHash = managedHash || req.body.controllerHash;
+    if (!controllerHash) {
+      return res.status(400).json({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing required field: controllerHash',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const subscription = await webhookService.createSubscription(req.body, controllerHash, req.user!.id);
+    res.status(201).json(subscription);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to create webhook subscription');
+  }
+});
+
+/**
+ * PUT /api/v1/controllers/webhooks/:subscriptionId
+ * Change the URL, events, description or active flag of a subscription
+ */
+controllerRouter.put('/webhooks/:subscriptionId', authenticateUser, validate({
+  params: schemas.webhookSubscriptionIdParams,
+  body: schemas.webhookSubscriptionUpdate
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const subscription = await webhookService.updateSubscription(req.params.subscriptionId, req.body, controllerHash);
+    res.json(subscription);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to update webhook subscription');
+  }
+});
+
+/**
+ * DELETE /api/v1/controllers/webhooks/:subscriptionId
+ * Delete a subscription and its delivery log
+ */
+controllerRouter.delete('/webhooks/:subscriptionId', authenticateUser, validate({
+  params: schemas.webhookSubscriptionIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    await webhookService.deleteSubscription(req.params.subscriptionId, controllerHash);
+    res.status(204).send();
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to delete webhook subscription');
+  }
+});
+
+/**
+ * GET /api/v1/controllers/webhooks/:subscriptionId/deliveries?status=&limit=
+ * Delivery log of a subscription, newest first
+ */
+controllerRouter.get('/webhooks/:subscriptionId/deliveries', authenticateUser, validate({
+  params: schemas.webhookSubscriptionIdParams,
+  query: schemas.webhookDeliveryQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const { status, limit } = req.query as unknown as { status?: WebhookDeliveryStatus; limit: number };
+    const controllerHash = await getManagedControllerHash(req);
+    const deliveries = await webhookService.listDeliveries(req.params.subscriptionId, controllerHash, status, limit);
+    res.json({ deliveries });
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to list webhook deliveries');
+  }
+});
+
+/**
+ * POST /api/v1/controllers/webhooks/deliveries/:deliveryId/replay
+ * Send a logged event again as a new delivery
+ */
+controllerRouter.post('/webhooks/deliveries/:deliveryId/replay', authenticateUser, validate({
+  params: schemas.webhookDeliveryIdParams
+}), idempotent, async (req: Request, res: Response) => {
+  try {
+    const controllerHash = await getManagedControllerHash(req);
+    const delivery = await webhookService.replayDelivery(req.params.deliveryId, controllerHash);
+    res.status(201).json(delivery);
+  } catch (error: any) {
+    sendManagementError(res, error, 'Failed to replay webhook delivery');
+  }
+});
+
+controllerRouter.get('/:controllerId', authenticateUser, requireAdmin, validate({
+  params: schemas.controllerIdParams
+}), async (req: Request, res: Response) => {
   try {
     const { controllerId } = req.params;
     const data = await pgControllerService.getController(controllerId);
@@ -8,10 +8,13 @@ import {
   VoteRecord,
   VoteChoice,
   VoteResult,
-  APIError
+  APIError,
+  schemas
 } from '@consentire/shared';
 import { logger } from '../utils/logger';
 import { authenticateUser } from '../middleware/supabaseAuth';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { pgGovernanceService } from '../services/pgGovernanceService';
 
 export const governanceRouter = Router();
@@ -22,17 +25,11 @@ export const governanceRouter = Router();
  * POST /api/v1/governance/proposals
  * Submit a privacy policy proposal
  */
-governanceRouter.post('/proposals', authenticateUser, async (req: Request, res: Response) => {
+governanceRouter.post('/proposals', authenticateUser, validate({
+  body: schemas.privacyProposal
+}), idempotent, async (req: Request, res: Response) => {
   try {
     const proposal: PrivacyProposal = req.body;
-
-    if (!proposal.title || !proposal.description) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required fields: title, description',
-        timestamp: Date.now()
-      } as APIError);
-    }
     const created = await pgGovernanceService.createProposal(proposal, req.user!.id);
     res.status(201).json(created);
   } catch (error: any) {
@@ -67,7 +64,9 @@ governanceRouter.get('/proposals', async (req: Request, res: Response) => {
  * GET /api/v1/governance/proposals/:proposalId
  * Get proposal details
  */
-governanceRouter.get('/proposals/:proposalId', async (req: Request, res: Response) => {
+governanceRouter.get('/proposals/:proposalId', validate({
+  params: schemas.proposalIdParams
+}), async (req: Request, res: Response) => {
   try {
     const { proposalId } = req.params;
     const { proposal, tally } = await pgGovernanceService.getProposalWithTally(proposalId);
@@ -93,17 +92,11 @@ governanceRouter.get('/proposals/:proposalId', async (req: Request, res: Respons
  * POST /api/v1/governance/vote
  * Cast a vote on a proposal
  */
-governanceRouter.post('/vote', authenticateUser, async (req: Request, res: Response) => {
+governanceRouter.post('/vote', authenticateUser, validate({
+  body: schemas.voteRequest
+}), idempotent, async (req: Request, res: Response) => {
   try {
-    const vote: VoteRecord = req.body;
-
-    if (!vote.proposalId || !vote.choice) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required fields: proposalId, choice',
-        timestamp: Date.now()
-      } as APIError);
-    }
+    const vote: Pick<VoteRecord, 'proposalId' | 'choice'> = req.body;
     const result = await pgGovernanceService.castVote(vote.proposalId, req.user!.id, vote.choice);
     res.status(201).json(result);
   } catch (error: any) {
@@ -6,30 +6,46 @@ import { Router, Request, Response } from 'express';
 import {
   UserRegistrationRequest,
   UserRegistrationResponse,
-  APIError
+  APIError,
+  GuardianshipStatus,
+  DataExportFormat,
+  schemas
 } from '@consentire/shared';
 import { generateUserId, generateDID, hash } from '../utils/crypto';
 import { authenticateUser, requireOwnership } from '../middleware/supabaseAuth';
+import { getErrorStatus } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { guardianService } from '../services/guardianService';
+import { dataExportService } from '../services/dataExportService';
+import { erasureService } from '../services/erasureService';
+import { breachService } from '../services/breachService';
+import { pgConsentService } from '../services/pgConsentService';
 import { logger } from '../utils/logger';
 
 export const userRouter = Router();
 
+function sendUserRouteError(res: Response, error: any, fallback: string) {
+  logger.error(fallback, { error: error.message });
+  const status = getErrorStatus(error);
+  res.status(status).json({
+    code: status === 500 ? 'INTERNAL_ERROR' : error.code,
+    message: error.message || fallback,
+    timestamp: Date.now()
+  } as APIError);
+}
+
 // Production: use Supabase user profiles
 
 /**
  * POST /api/v1/users/register
  * Register a new user
  */
-userRouter.post('/register', authenticateUser, async (req: Request, res: Response) => {
+userRouter.post('/register', authenticateUser, validate({
+  body: schemas.userRegistration,
+  response: schemas.userRegistrationResponse
+}), async (req: Request, res: Response) => {
   try {
     const request: UserRegistrationRequest = req.body;
-    if (!request.publicKey) {
-      return res.status(400).json({
-        code: 'VALIDATION_ERROR',
-        message: 'Missing required field: publicKey',
-        timestamp: Date.now()
-      } as APIError);
-    }
 
     // TODO: Implement user profile creation using PostgreSQL pool
     // This endpoint needs to be updated to use a PostgreSQL-based user service
@@ -71,11 +87,272 @@ userRouter.get('/me/profile', authenticateUser, async (req: Request, res: Respon
   }
 });
 
+/**
+ * PUT /api/v1/users/me/signing-key
+ * Register the key consents are signed with, while the account has none that can sign
+ */
+userRouter.put('/me/signing-key', authenticateUser, validate({
+  body: schemas.signingKey
+}), async (req: Request, res: Response) => {
+  try {
+    await pgConsentService.registerSigningKey(req.user!.id, req.body.publicKey);
+    res.status(204).end();
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to register signing key');
+  }
+});
+
+/**
+ * GET /api/v1/users/me/guardianship
+ * Age profile (digital age of consent for the member state) with guardians and wards
+ */
+userRouter.get('/me/guardianship', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    res.json(await guardianService.getOverview(req.user!.id));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to get guardianship overview');
+  }
+});
+
+/**
+ * GET /api/v1/users/me/export?format=zip|json
+ * Everything held about the authenticated user (GDPR Art. 15 / Art. 20): JSON and CSV files in a
+ * ZIP, or the JSON package alone. Each export is recorded in the audit trail.
+ */
+userRouter.get('/me/export', authenticateUser, validate({
+  query: schemas.dataExportQuery
+}), async (req: Request, res: Response) => {
+  try {
+    const { format } = req.query as unknown as { format: DataExportFormat };
+    const exportData = await dataExportService.exportUserData(req.user!.id, format);
+    const filename = `consentire-export-${new Date(exportData.exportedAt).toISOString().split('T')[0]}`;
+
+    res.setHeader('Cache-Control', 'no-store');
+    if (format === 'json') {
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return res.json(exportData);
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+    res.send(dataExportService.createArchive(exportData));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to export user data');
+  }
+});
+
+/**
+ * POST /api/v1/users/me/erasure
+ * Erase the authenticated user (GDPR Art. 17): live consents are revoked, credentials deleted,
+ * the data key destroyed and the user ID replaced by a tombstone. The erasure is anchored.
+ */
+userRouter.post('/me/erasure', authenticateUser, validate({
+  body: schemas.erasureRequest
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await erasureService.eraseUser(req.user!.id));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to erase user');
+  }
+});
+
+/**
+ * GET /api/v1/users/me/breach-notices
+ * Personal data breach notices for the authenticated user (GDPR Art. 34)
+ */
+userRouter.get('/me/breach-notices', authenticateUser, async (req: Request, res: Response) => {
+  try {
+    res.json({ notices: await breachService.listNotices(req.user!.id) });
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to list breach notices');
+  }
+});
+
+/**
+ * POST /api/v1/users/me/breach-notices/:breachId/delivered
+ * Record that a breach notice was shown to the user
+ */
+userRouter.post('/me/breach-notices/:breachId/delivered', authenticateUser, validate({
+  params: schemas.breachIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await breachService.markNoticeDelivered(req.params.breachId, req.user!.id));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to record breach notice delivery');
+  }
+});
+
+/**
+ * POST /api/v1/users/me/breach-notices/:breachId/acknowledge
+ * Acknowledge a breach notice
+ */
+userRouter.post('/me/breach-notices/:breachId/acknowledge', authenticateUser, validate({
+  params: schemas.breachIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await breachService.acknowledgeNotice(req.params.breachId, req.user!.id));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to acknowledge breach notice');
+  }
+});
+
+/**
+ * GET /api/v1/users/erasures/:erasureId
+ * Erasure record with its anchor (admins and regulators)
+ */
+userRouter.get('/erasures/:erasureId', authenticateUser, validate({
+  params: schemas.erasureIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin' && req.user!.role !== 'regulator') {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Only administrators and regulators can read erasure records',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const erasure = await erasureService.getErasure(req.params.erasureId);
+    if (!erasure) {
+      return res.status(404).json({
+        code: 'NOT_FOUND',
+        message: 'Erasure record not found',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(erasure);
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to get erasure record');
+  }
+});
+
+/**
+ * PUT /api/v1/users/me/age-profile
+ * Record date of birth and member state (GDPR Art. 8)
+ */
+userRouter.put('/me/age-profile', authenticateUser, validate({
+  body: schemas.ageProfile
+}), async (req: Request, res: Response) => {
+  try {
+    res.json(await guardianService.setAgeProfile(req.user!.id, req.body, false));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to update age profile');
+  }
+});
+
+/**
+ * PUT /api/v1/users/:userId/age-profile
+ * Correct a user's age profile (admins only)
+ */
+userRouter.put('/:userId/age-profile', authenticateUser, validate({
+  params: schemas.userIdParams,
+  body: schemas.ageProfile
+}), async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Only administrators can change another user\'s age profile',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(await guardianService.setAgeProfile(req.params.userId, req.body, true));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to update age profile');
+  }
+});
+
+/**
+ * GET /api/v1/users/guardianships?status=pending
+ * Guardianships awaiting verification (admins only)
+ */
+userRouter.get('/guardianships', authenticateUser, validate({
+  query: schemas.guardianshipQuery
+}), async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Only administrators can review guardianships',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    const { status } = req.query as unknown as { status: GuardianshipStatus };
+
+    res.json({ guardianships: await guardianService.listGuardianships(status) });
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to list guardianships');
+  }
+});
+
+/**
+ * POST /api/v1/users/guardianships
+ * Declare oneself guardian of a minor (pending until verified); admins create active ones
+ */
+userRouter.post('/guardianships', authenticateUser, validate({
+  body: schemas.guardianship
+}), async (req: Request, res: Response) => {
+  try {
+    const guardianship = await guardianService.declareGuardianship(req.body, {
+      userId: req.user!.id,
+      role: req.user!.role || 'user'
+    });
+    res.status(201).json(guardianship);
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to declare guardianship');
+  }
+});
+
+/**
+ * POST /api/v1/users/guardianships/:guardianshipId/verify
+ * Activate a pending guardianship (admins only)
+ */
+userRouter.post('/guardianships/:guardianshipId/verify', authenticateUser, validate({
+  params: schemas.guardianshipIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      return res.status(403).json({
+        code: 'FORBIDDEN',
+        message: 'Only administrators can verify guardianships',
+        timestamp: Date.now()
+      } as APIError);
+    }
+
+    res.json(await guardianService.verifyGuardianship(req.params.guardianshipId, req.user!.id));
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to verify guardianship');
+  }
+});
+
+/**
+ * DELETE /api/v1/users/guardianships/:guardianshipId
+ * End a guardianship (the guardian, the minor or an admin)
+ */
+userRouter.delete('/guardianships/:guardianshipId', authenticateUser, validate({
+  params: schemas.guardianshipIdParams
+}), async (req: Request, res: Response) => {
+  try {
+    const guardianship = await guardianService.endGuardianship(req.params.guardianshipId, {
+      userId: req.user!.id,
+      role: req.user!.role || 'user'
+    });
+    res.json(guardianship);
+  } catch (error: any) {
+    sendUserRouteError(res, error, 'Failed to end guardianship');
+  }
+});
+
 /**
  * GET /api/v1/users/:userId
  * Get user information
  */
-userRouter.get('/:userId', authenticateUser, requireOwnership('userId'), async (req: Request, res: Response) => {
+userRouter.get('/:userId', authenticateUser, validate({
+  params: schemas.userIdParams
+}), requireOwnership('userId'), async (req: Request, res: Response) => {
   try {
     // TODO: Implement user retrieval using PostgreSQL pool
     res.status(501).json({
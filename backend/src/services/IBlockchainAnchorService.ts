@@ -13,6 +13,12 @@ export interface BlockchainNetworkStatus {
   error?: string;
 }
 
+export interface ConsentBatchAnchorEntry {
+  consentId: string;
+  status: ConsentStatus;
+  leafHash: string;
+}
+
 export interface IBlockchainAnchorService {
   /**
    * Anchor consent grant to blockchain
@@ -24,6 +30,11 @@ export interface IBlockchainAnchorService {
    */
   updateConsentStatus(consentId: string, status: ConsentStatus, metadata?: any): Promise<HGTPResult>;
 
+  /**
+   * Anchor a batch of consent changes as a single transaction over their merkle root
+   */
+  anchorConsentBatch(batchId: string, batchRoot: string, entries: ConsentBatchAnchorEntry[]): Promise<HGTPResult>;
+
   /**
    * Anchor controller verification request
    */
@@ -44,6 +55,16 @@ export interface IBlockchainAnchorService {
     timestamp: number
   ): Promise<HGTPResult>;
 
+  /**
+   * Anchor the content hash of a compliance record (assessment, register entry, certificate, ...)
+   */
+  anchorComplianceRecord(
+    recordType: string,
+    recordId: string,
+    contentHash: string,
+    metadata?: Record<string, unknown>
+  ): Promise<HGTPResult>;
+
   /**
    * Get merkle proof for consent verification
    */
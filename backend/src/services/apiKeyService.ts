@@ -0,0 +1,217 @@
+/**
+ * Controller API Key Service
+ * Scoped keys for machine-to-machine calls; only the SHA-256 of each key is stored
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { ApiKey, ApiKeyCreateRequest, ApiKeyCreateResponse, ApiKeyScope } from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { hash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'ctk_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface AuthenticatedApiKey {
+  keyId: string;
+  controllerHash: string;
+  organizationId: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Whether a bearer token looks like an API key rather than a JWT
+ */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX);
+}
+
+class ApiKeyService {
+
+  /**
+   * Create a key for a controller. The returned secret is not retrievable later.
+   */
+  async createKey(
+    request: ApiKeyCreateRequest,
+    controllerHash: string,
+    createdBy: string,
+    rotatedFrom?: string
+  ): Promise<ApiKeyCreateResponse> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('hex')}`;
+    const keyId = randomUUID();
+    const scopes = [...new Set(request.scopes)];
+
+    await databaseService.query(
+      `INSERT INTO api_keys (
+        key_id, controller_hash, name, key_prefix, key_hash, scopes, created_by, expires_at, rotated_from
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        keyId,
+        controllerHash,
+        request.name,
+        key.substring(0, DISPLAY_PREFIX_LENGTH),
+        hash(key),
+        scopes,
+        createdBy,
+        request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+        rotatedFrom ?? null
+      ]
+    );
+
+    logger.info('API key created', { keyId, controllerHash, scopes });
+
+    return { ...(await this.getKey(keyId))!, key };
+  }
+
+  /**
+   * List a controller's keys (all controllers when controllerHash is null), newest first
+   */
+  async listKeys(controllerHash: string | null, includeRevoked: boolean = false): Promise<ApiKey[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (controllerHash) {
+      params.push(controllerHash);
+      conditions.push(`controller_hash = $${params.length}`);
+    }
+    if (!includeRevoked) {
+      conditions.push('revoked_at IS NULL');
+    }
+
+    const result = await databaseService.query(
+      `SELECT * FROM api_keys
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY created_at DESC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapKey(row));
+  }
+
+  async getKey(keyId: string): Promise<ApiKey | null> {
+    const result = await databaseService.query('SELECT * FROM api_keys WHERE key_id = $1', [keyId]);
+    return result.rows.length > 0 ? this.mapKey(result.rows[0]) : null;
+  }
+
+  /**
+   * Replace a key with a new secret of the same name, scopes and expiry, and revoke the old one
+   */
+  async rotateKey(keyId: string, controllerHash: string | null, rotatedBy: string): Promise<ApiKeyCreateResponse> {
+    const current = await this.getOwnedKey(keyId, controllerHash);
+
+    if (current.revokedAt) {
+      throw new ConflictError('Revoked keys cannot be rotated');
+    }
+
+    const replacement = await this.createKey(
+      {
+        name: current.name,
+        scopes: current.scopes,
+        expiresAt: current.expiresAt && current.expiresAt > Date.now() ? current.expiresAt : undefined
+      },
+      current.controllerHash,
+      rotatedBy,
+      current.keyId
+    );
+    await this.markRevoked(keyId);
+
+    logger.info('API key rotated', { keyId, replacedBy: replacement.keyId });
+
+    return replacement;
+  }
+
+  /**
+   * Revoke a key; requests with it are rejected from now on
+   */
+  async revokeKey(keyId: string, controllerHash: string | null): Promise<ApiKey> {
+    const current = await this.getOwnedKey(keyId, controllerHash);
+
+    if (!current.revokedAt) {
+      await this.markRevoked(keyId);
+      logger.info('API key revoked', { keyId });
+    }
+
+    return (await this.getKey(keyId))!;
+  }
+
+  /**
+   * Resolve a presented key. Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    const result = await databaseService.query(
+      `SELECT k.key_id, k.controller_hash, k.scopes, c.organization_id
+       FROM api_keys k
+       JOIN controllers c ON c.controller_hash = k.controller_hash
+       WHERE k.key_hash = $1
+       AND k.revoked_at IS NULL
+       AND (k.expires_at IS NULL OR k.expires_at > NOW())`,
+      [hash(key)]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+
+    // Track usage without turning every verify call into a write
+    databaseService.query(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE key_id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+      [row.key_id]
+    ).catch((error: any) => logger.warn('Failed to record API key usage', { keyId: row.key_id, error: error.message }));
+
+    return {
+      keyId: row.key_id,
+      controllerHash: row.controller_hash,
+      organizationId: row.organization_id,
+      scopes: row.scopes as ApiKeyScope[]
+    };
+  }
+
+  private async markRevoked(keyId: string): Promise<void> {
+    await databaseService.query(
+      'UPDATE api_keys SET revoked_at = NOW() WHERE key_id = $1 AND revoked_at IS NULL',
+      [keyId]
+    );
+  }
+
+  private async getOwnedKey(keyId: string, controllerHash: string | null): Promise<ApiKey> {
+    const key = await this.getKey(keyId);
+
+    if (!key) {
+      throw new NotFoundError('API key not found');
+    }
+    if (controllerHash && key.controllerHash !== controllerHash) {
+      throw new ForbiddenError('API key belongs to another controller');
+    }
+
+    return key;
+  }
+
+  private mapKey(row: any): ApiKey {
+    return {
+      keyId: row.key_id,
+      controllerHash: row.controller_hash,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes as ApiKeyScope[],
+      createdAt: new Date(row.created_at).getTime(),
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at).getTime() : undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at).getTime() : undefined,
+      rotatedFrom: row.rotated_from ?? undefined
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
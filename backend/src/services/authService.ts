@@ -105,7 +105,8 @@ export class AuthService {
   async verifyToken(token: string): Promise<any> {
     try {
       const decoded = jwt.verify(token, JWT_SECRET);
-      return decoded;
+      // Audience-bound tokens (e.g. consent confirmation links) are not login tokens
+      return typeof decoded === 'object' && decoded.aud === undefined ? decoded : null;
     } catch (error) {
       logger.error('Token verification failed:', error);
       return null;
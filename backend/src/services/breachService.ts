@@ -0,0 +1,554 @@
+/**
+ * Personal Data Breach Service (GDPR Art. 33/34)
+ * Controllers log breaches with the affected data categories; the data subjects concerned are
+ * identified from consents with those categories. The supervisory authority must be notified
+ * within 72 hours of discovery, and data subjects when the risk is high. Every step is anchored
+ * before it is committed, so a step that cannot be anchored is not recorded.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  BreachCloseRequest,
+  BreachNotice,
+  BreachNoticeStatus,
+  BreachNotificationForm,
+  BreachRegulatorNotificationRequest,
+  BreachReportRequest,
+  BreachRiskLevel,
+  BreachStatus,
+  BreachStep,
+  BreachStepType,
+  BreachSubjectNotificationRequest,
+  DataBreach
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { hash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const REGULATOR_DEADLINE_MS = 72 * 60 * 60 * 1000;
+
+const BREACH_COLUMNS = `
+  b.*,
+  (SELECT COUNT(*) FROM breach_affected_subjects s WHERE s.breach_id = b.breach_id)::int AS affected_subject_count,
+  (SELECT COUNT(*) FROM breach_affected_subjects s
+   WHERE s.breach_id = b.breach_id AND s.notice_status IS NOT NULL)::int AS subject_notice_count
+`;
+
+export interface BreachListFilter {
+  controllerHash?: string | null;
+  status?: BreachStatus;
+  notifiedOnly?: boolean;     // Only breaches notified to the supervisory authority
+}
+
+class BreachService {
+
+  /**
+   * Log a breach, identify the affected data subjects and start the 72-hour regulator deadline
+   */
+  async reportBreach(request: BreachReportRequest, controllerHash: string, reportedBy: string): Promise<DataBreach> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const breachId = randomUUID();
+    const regulatorDeadline = request.discoveredAt + REGULATOR_DEADLINE_MS;
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO data_breaches (
+          breach_id, controller_hash, title, description, data_categories, approximate_subject_count,
+          approximate_record_count, risk_level, likely_consequences, measures_taken, dpo_contact, status,
+          occurred_at, discovered_at, regulator_deadline, reported_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'open', $12, $13, $14, $15)`,
+        [
+          breachId,
+          controllerHash,
+          request.title,
+          request.description,
+          request.dataCategories,
+          request.approximateSubjectCount,
+          request.approximateRecordCount ?? null,
+          request.riskLevel,
+          request.likelyConsequences,
+          request.measuresTaken,
+          request.dpoContact,
+          request.occurredAt ? new Date(request.occurredAt).toISOString() : null,
+          new Date(request.discoveredAt).toISOString(),
+          new Date(regulatorDeadline).toISOString(),
+          reportedBy
+        ]
+      );
+
+      // Erased users are only tombstones; there is nobody left to notify
+      const affected = await client.query(
+        `INSERT INTO breach_affected_subjects (breach_id, user_id, consent_ids)
+         SELECT $1, c.user_id, ARRAY_AGG(c.consent_id ORDER BY c.consent_id)
+         FROM consents c
+         WHERE c.controller_hash = $2 AND c.data_categories && $3 AND c.user_id NOT LIKE 'erased\\_%'
+         GROUP BY c.user_id`,
+        [breachId, controllerHash, request.dataCategories]
+      );
+
+      await this.recordStep(client, breachId, BreachStepType.LOGGED, {
+        controllerHash,
+        dataCategories: request.dataCategories,
+        riskLevel: request.riskLevel,
+        approximateSubjectCount: request.approximateSubjectCount,
+        affectedSubjectCount: affected.rowCount ?? 0,
+        discoveredAt: request.discoveredAt,
+        regulatorDeadline
+      }, reportedBy);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.warn('Personal data breach logged', { breachId, controllerHash, riskLevel: request.riskLevel });
+
+    return (await this.getBreach(breachId, true))!;
+  }
+
+  /**
+   * Record the notification to the supervisory authority. After the deadline a reason for the
+   * delay is required (Art. 33(1)). Pass controllerHash null for admins.
+   */
+  async notifyRegulator(
+    breachId: string,
+    request: BreachRegulatorNotificationRequest,
+    controllerHash: string | null,
+    actor: string
+  ): Promise<DataBreach> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+      const row = await this.lockOwnedBreach(client, breachId, controllerHash);
+
+      if (row.status !== BreachStatus.OPEN) {
+        throw new ConflictError(`The supervisory authority can only be notified of open breaches; this one is ${row.status}`);
+      }
+
+      const notifiedAt = Date.now();
+      const regulatorDeadline = new Date(row.regulator_deadline).getTime();
+      const late = notifiedAt > regulatorDeadline;
+      if (late && !request.delayReason) {
+        throw new ValidationError('The 72-hour deadline has passed; delayReason is required');
+      }
+
+      await this.recordStep(client, breachId, BreachStepType.REGULATOR_NOTIFIED, {
+        supervisoryAuthority: request.supervisoryAuthority,
+        regulatorDeadline,
+        late,
+        delayReason: request.delayReason ?? null
+      }, actor, notifiedAt);
+
+      await client.query(
+        `UPDATE data_breaches
+         SET status = 'regulator_notified', regulator_notified_at = $1, supervisory_authority = $2, delay_reason = $3
+         WHERE breach_id = $4`,
+        [new Date(notifiedAt).toISOString(), request.supervisoryAuthority, request.delayReason ?? null, breachId]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Supervisory authority notified of breach', { breachId, late });
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.getBreach(breachId, true))!;
+  }
+
+  /**
+   * Queue a notice to every affected data subject (Art. 34). Notices are delivered in-app.
+   */
+  async notifySubjects(
+    breachId: string,
+    request: BreachSubjectNotificationRequest,
+    controllerHash: string | null,
+    actor: string
+  ): Promise<DataBreach> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+      const row = await this.lockOwnedBreach(client, breachId, controllerHash);
+
+      if (row.status === BreachStatus.CLOSED) {
+        throw new ConflictError('Data subjects cannot be notified of a closed breach');
+      }
+      if (row.subjects_notified_at) {
+        throw new ConflictError('Data subjects have already been notified of this breach');
+      }
+
+      const notifiedAt = Date.now();
+      const queued = await client.query(
+        `UPDATE breach_affected_subjects
+         SET notice_status = $1, queued_at = $2
+         WHERE breach_id = $3 AND user_id NOT LIKE 'erased\\_%'`,
+        [BreachNoticeStatus.QUEUED, new Date(notifiedAt).toISOString(), breachId]
+      );
+
+      await this.recordStep(client, breachId, BreachStepType.SUBJECTS_NOTIFIED, {
+        messageHash: hash(request.message),
+        noticeCount: queued.rowCount ?? 0
+      }, actor, notifiedAt);
+
+      await client.query(
+        `UPDATE data_breaches SET subject_notice_message = $1, subjects_notified_at = $2 WHERE breach_id = $3`,
+        [request.message, new Date(notifiedAt).toISOString(), breachId]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Breach notices queued for data subjects', { breachId, noticeCount: queued.rowCount ?? 0 });
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.getBreach(breachId, true))!;
+  }
+
+  /**
+   * Close a breach. Unless it was unlikely to result in a risk, the supervisory authority must
+   * have been notified; a high-risk breach also needs subject notices or an Art. 34(3) exemption.
+   */
+  async closeBreach(
+    breachId: string,
+    request: BreachCloseRequest,
+    controllerHash: string | null,
+    actor: string
+  ): Promise<DataBreach> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+      const row = await this.lockOwnedBreach(client, breachId, controllerHash);
+
+      if (row.status === BreachStatus.CLOSED) {
+        throw new ConflictError('Breach is already closed');
+      }
+      if (row.status === BreachStatus.OPEN && row.risk_level !== BreachRiskLevel.UNLIKELY) {
+        throw new ConflictError('Notify the supervisory authority before closing this breach');
+      }
+      if (row.risk_level === BreachRiskLevel.HIGH && !row.subjects_notified_at && !request.subjectNoticeExemption) {
+        throw new ValidationError('High-risk breaches need data subject notices or a subjectNoticeExemption before closing');
+      }
+
+      const closedAt = Date.now();
+      await this.recordStep(client, breachId, BreachStepType.CLOSED, {
+        summaryHash: hash(request.summary),
+        subjectNoticeExemption: request.subjectNoticeExemption ?? null
+      }, actor, closedAt);
+
+      await client.query(
+        `UPDATE data_breaches
+         SET status = 'closed', closed_at = $1, closing_summary = $2, subject_notice_exemption = $3
+         WHERE breach_id = $4`,
+        [new Date(closedAt).toISOString(), request.summary, request.subjectNoticeExemption ?? null, breachId]
+      );
+
+      await client.query('COMMIT');
+
+      logger.info('Breach closed', { breachId });
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.getBreach(breachId, true))!;
+  }
+
+  /**
+   * Get a breach, optionally with its anchored steps
+   */
+  async getBreach(breachId: string, includeSteps: boolean = false): Promise<DataBreach | null> {
+    const result = await databaseService.query(
+      `SELECT ${BREACH_COLUMNS} FROM data_breaches b WHERE b.breach_id = $1`,
+      [breachId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const breach = this.mapBreach(result.rows[0]);
+
+    if (includeSteps) {
+      breach.steps = await this.getSteps(breachId);
+    }
+
+    return breach;
+  }
+
+  /**
+   * List breaches, newest discovery first
+   */
+  async listBreaches(filter: BreachListFilter): Promise<DataBreach[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`b.controller_hash = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`b.status = $${params.length}`);
+    }
+    if (filter.notifiedOnly) {
+      conditions.push('b.regulator_notified_at IS NOT NULL');
+    }
+
+    const result = await databaseService.query(
+      `SELECT ${BREACH_COLUMNS}
+       FROM data_breaches b
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY b.discovered_at DESC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapBreach(row));
+  }
+
+  /**
+   * Build the notification to the supervisory authority with the content of Art. 33(3).
+   * Before notification it serves as the draft the controller submits.
+   */
+  async getNotificationForm(breach: DataBreach): Promise<BreachNotificationForm> {
+    const controllerResult = await databaseService.query(
+      'SELECT organization_name FROM controllers WHERE controller_hash = $1',
+      [breach.controllerHash]
+    );
+    const steps = breach.steps || await this.getSteps(breach.breachId);
+
+    return {
+      breachId: breach.breachId,
+      controller: {
+        name: controllerResult.rows[0]?.organization_name ?? breach.controllerHash,
+        controllerHash: breach.controllerHash,
+        dpoContact: breach.dpoContact
+      },
+      supervisoryAuthority: breach.supervisoryAuthority,
+      nature: {
+        title: breach.title,
+        description: breach.description,
+        dataCategories: breach.dataCategories,
+        approximateSubjectCount: breach.approximateSubjectCount,
+        approximateRecordCount: breach.approximateRecordCount,
+        affectedSubjectCount: breach.affectedSubjectCount
+      },
+      likelyConsequences: breach.likelyConsequences,
+      measuresTaken: breach.measuresTaken,
+      riskLevel: breach.riskLevel,
+      timeline: {
+        occurredAt: breach.occurredAt,
+        discoveredAt: breach.discoveredAt,
+        regulatorDeadline: breach.regulatorDeadline,
+        notifiedAt: breach.regulatorNotifiedAt
+      },
+      delayReason: breach.delayReason,
+      subjectsNotified: breach.subjectsNotifiedAt !== undefined,
+      anchors: steps.map(step => ({ step: step.step, hgtpTxHash: step.hgtpTxHash })),
+      generatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Breach notices for a data subject, newest first. Queued notices are marked delivered.
+   */
+  async listNotices(userId: string): Promise<BreachNotice[]> {
+    const result = await databaseService.query(
+      `SELECT s.*, b.controller_hash, b.title, b.subject_notice_message, b.data_categories,
+              b.likely_consequences, b.measures_taken, b.dpo_contact, c.organization_name
+       FROM breach_affected_subjects s
+       JOIN data_breaches b ON b.breach_id = s.breach_id
+       LEFT JOIN controllers c ON c.controller_hash = b.controller_hash
+       WHERE s.user_id = $1 AND s.notice_status IS NOT NULL
+       ORDER BY s.queued_at DESC`,
+      [userId]
+    );
+
+    return result.rows.map((row: any) => this.mapNotice(row));
+  }
+
+  /**
+   * Record that a breach notice was shown to the data subject; acknowledged notices keep their status
+   */
+  async markNoticeDelivered(breachId: string, userId: string): Promise<BreachNotice> {
+    const result = await databaseService.query(
+      `UPDATE breach_affected_subjects
+       SET notice_status = CASE WHEN notice_status = $1 THEN $2 ELSE notice_status END,
+           delivered_at = COALESCE(delivered_at, NOW())
+       WHERE breach_id = $3 AND user_id = $4 AND notice_status IS NOT NULL`,
+      [BreachNoticeStatus.QUEUED, BreachNoticeStatus.DELIVERED, breachId, userId]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Breach notice not found');
+    }
+
+    const notices = await this.listNotices(userId);
+    return notices.find(notice => notice.breachId === breachId)!;
+  }
+
+  /**
+   * Record that the data subject has read a breach notice
+   */
+  async acknowledgeNotice(breachId: string, userId: string): Promise<BreachNotice> {
+    const result = await databaseService.query(
+      `UPDATE breach_affected_subjects
+       SET notice_status = $1,
+           delivered_at = COALESCE(delivered_at, NOW()),
+           acknowledged_at = COALESCE(acknowledged_at, NOW())
+       WHERE breach_id = $2 AND user_id = $3 AND notice_status IS NOT NULL`,
+      [BreachNoticeStatus.ACKNOWLEDGED, breachId, userId]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Breach notice not found');
+    }
+
+    const notices = await this.listNotices(userId);
+    return notices.find(notice => notice.breachId === breachId)!;
+  }
+
+  /**
+   * Hash and anchor a step, then store it; if anchoring fails the caller's transaction rolls back
+   */
+  private async recordStep(
+    client: any,
+    breachId: string,
+    step: BreachStepType,
+    details: Record<string, unknown>,
+    actor: string,
+    occurredAt: number = Date.now()
+  ): Promise<void> {
+    const contentHash = hash(JSON.stringify({ breachId, step, details, actor, occurredAt }));
+    const anchor = await blockchainService.anchorComplianceRecord('breach_step', breachId, contentHash, { step });
+
+    await client.query(
+      `INSERT INTO breach_steps (
+        breach_id, step, details, content_hash, hgtp_tx_hash, anchoring_timestamp, actor, occurred_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        breachId,
+        step,
+        JSON.stringify(details),
+        contentHash,
+        anchor.transactionHash,
+        new Date(anchor.anchoringTimestamp).toISOString(),
+        actor,
+        new Date(occurredAt).toISOString()
+      ]
+    );
+  }
+
+  private async lockOwnedBreach(client: any, breachId: string, controllerHash: string | null): Promise<any> {
+    const result = await client.query(
+      'SELECT * FROM data_breaches WHERE breach_id = $1 FOR UPDATE',
+      [breachId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Breach not found');
+    }
+    if (controllerHash && result.rows[0].controller_hash !== controllerHash) {
+      throw new ForbiddenError('Breach belongs to another controller');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getSteps(breachId: string): Promise<BreachStep[]> {
+    const result = await databaseService.query(
+      'SELECT * FROM breach_steps WHERE breach_id = $1 ORDER BY occurred_at ASC, id ASC',
+      [breachId]
+    );
+
+    return result.rows.map((row: any) => ({
+      step: row.step as BreachStepType,
+      details: row.details || {},
+      contentHash: row.content_hash,
+      hgtpTxHash: row.hgtp_tx_hash,
+      anchoringTimestamp: new Date(row.anchoring_timestamp).getTime(),
+      actor: row.actor,
+      occurredAt: new Date(row.occurred_at).getTime()
+    }));
+  }
+
+  private mapBreach(row: any): DataBreach {
+    const regulatorDeadline = new Date(row.regulator_deadline).getTime();
+    const regulatorNotifiedAt = row.regulator_notified_at ? new Date(row.regulator_notified_at).getTime() : undefined;
+    const deadlineMissed = regulatorNotifiedAt !== undefined
+      ? regulatorNotifiedAt > regulatorDeadline
+      : row.status === BreachStatus.OPEN && row.risk_level !== BreachRiskLevel.UNLIKELY && Date.now() > regulatorDeadline;
+
+    return {
+      breachId: row.breach_id,
+      controllerHash: row.controller_hash,
+      title: row.title,
+      description: row.description,
+      dataCategories: row.data_categories || [],
+      approximateSubjectCount: row.approximate_subject_count,
+      approximateRecordCount: row.approximate_record_count ?? undefined,
+      affectedSubjectCount: row.affected_subject_count ?? 0,
+      riskLevel: row.risk_level as BreachRiskLevel,
+      likelyConsequences: row.likely_consequences,
+      measuresTaken: row.measures_taken,
+      dpoContact: row.dpo_contact,
+      status: row.status as BreachStatus,
+      occurredAt: row.occurred_at ? new Date(row.occurred_at).getTime() : undefined,
+      discoveredAt: new Date(row.discovered_at).getTime(),
+      regulatorDeadline,
+      deadlineMissed,
+      regulatorNotifiedAt,
+      supervisoryAuthority: row.supervisory_authority ?? undefined,
+      delayReason: row.delay_reason ?? undefined,
+      subjectsNotifiedAt: row.subjects_notified_at ? new Date(row.subjects_notified_at).getTime() : undefined,
+      subjectNoticeCount: row.subject_notice_count ?? 0,
+      subjectNoticeExemption: row.subject_notice_exemption ?? undefined,
+      closedAt: row.closed_at ? new Date(row.closed_at).getTime() : undefined,
+      closingSummary: row.closing_summary ?? undefined
+    };
+  }
+
+  private mapNotice(row: any): BreachNotice {
+    return {
+      breachId: row.breach_id,
+      controllerHash: row.controller_hash,
+      controllerName: row.organization_name ?? undefined,
+      title: row.title,
+      message: row.subject_notice_message,
+      dataCategories: row.data_categories || [],
+      likelyConsequences: row.likely_consequences,
+      measuresTaken: row.measures_taken,
+      dpoContact: row.dpo_contact,
+      status: row.notice_status as BreachNoticeStatus,
+      queuedAt: new Date(row.queued_at).getTime(),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at).getTime() : undefined,
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at).getTime() : undefined
+    };
+  }
+}
+
+export const breachService = new BreachService();
@@ -0,0 +1,245 @@
+/**
+ * Compliance Engine
+ * Runs the registered compliance rules for a controller and stores each run, so the score has
+ * a history. The API, the compliance page and the regulator page all read these evaluations.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ComplianceEvaluation,
+  ComplianceRuleResult,
+  ComplianceRuleStatus,
+  ComplianceScoreHistoryEntry,
+  ComplianceStatus,
+  HighRiskPurpose
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { ComplianceRule, defaultComplianceRules } from './complianceRules';
+import { RuleFailure, violationService } from './violationService';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// A stored evaluation younger than this is served instead of running the rules again
+const DEFAULT_MAX_AGE_MS = 15 * 60 * 1000;
+
+const STATUS_CREDIT: Record<ComplianceRuleStatus, number> = {
+  [ComplianceRuleStatus.PASS]: 1,
+  [ComplianceRuleStatus.WARN]: 0.5,
+  [ComplianceRuleStatus.FAIL]: 0
+};
+
+class ComplianceEngine {
+  private rules: ComplianceRule[] = [...defaultComplianceRules];
+  private maxAgeMs: number;
+
+  constructor() {
+    this.maxAgeMs = parseInt(process.env.COMPLIANCE_EVALUATION_MAX_AGE_MS || '') || DEFAULT_MAX_AGE_MS;
+  }
+
+  /**
+   * Add a rule, replacing any registered rule with the same id
+   */
+  registerRule(rule: ComplianceRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  listRules(): ComplianceRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Run every rule for a controller and store the result. A rule that throws fails with the
+   * error as its summary, so one broken evidence query does not hide the other results.
+   * Every rule that fails on its evidence raises or refreshes a violation for regulators.
+   */
+  async evaluate(controllerHash: string): Promise<ComplianceEvaluation> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const evaluatedAt = Date.now();
+    const results: ComplianceRuleResult[] = [];
+    const failures: RuleFailure[] = [];
+
+    for (const rule of this.rules) {
+      let result: ComplianceRuleResult;
+      try {
+        const outcome = await rule.evaluate({ controllerHash, now: evaluatedAt });
+        result = {
+          ruleId: rule.id,
+          article: rule.article,
+          title: rule.title,
+          status: outcome.status,
+          weight: rule.weight,
+          summary: outcome.summary,
+          remediation: outcome.status === ComplianceRuleStatus.PASS ? undefined : rule.remediation,
+          evidence: outcome.evidence
+        };
+        if (outcome.status === ComplianceRuleStatus.FAIL) {
+          failures.push({ rule, result });
+        }
+      } catch (error: any) {
+        logger.error('Compliance rule failed to evaluate', { ruleId: rule.id, controllerHash, error: error.message });
+        result = {
+          ruleId: rule.id,
+          article: rule.article,
+          title: rule.title,
+          status: ComplianceRuleStatus.FAIL,
+          weight: rule.weight,
+          summary: `Evidence could not be collected: ${error.message}`,
+          remediation: rule.remediation,
+          evidence: { metrics: {} }
+        };
+      }
+      results.push(result);
+    }
+
+    const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+    const earned = results.reduce((sum, result) => sum + result.weight * STATUS_CREDIT[result.status], 0);
+    const evaluation: ComplianceEvaluation = {
+      evaluationId: randomUUID(),
+      controllerHash,
+      score: totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 100,
+      results,
+      evaluatedAt
+    };
+
+    await databaseService.query(
+      `INSERT INTO compliance_evaluations (evaluation_id, controller_hash, score, passed, warned, failed, results, evaluated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        evaluation.evaluationId,
+        controllerHash,
+        evaluation.score,
+        this.countStatus(results, ComplianceRuleStatus.PASS),
+        this.countStatus(results, ComplianceRuleStatus.WARN),
+        this.countStatus(results, ComplianceRuleStatus.FAIL),
+        JSON.stringify(results),
+        new Date(evaluatedAt).toISOString()
+      ]
+    );
+
+    logger.info('Compliance evaluated', { controllerHash, score: evaluation.score });
+
+    // The evaluation is stored either way; violations catch up on the next run
+    await violationService.recordRuleFailures(controllerHash, evaluation.evaluationId, failures).catch(error => {
+      logger.error('Failed to record violations', { controllerHash, error: error.message });
+    });
+
+    return evaluation;
+  }
+
+  /**
+   * Latest stored evaluation, or a new one if there is none or it is older than the maximum age
+   */
+  async getCurrentEvaluation(controllerHash: string, refresh: boolean = false): Promise<ComplianceEvaluation> {
+    if (!refresh) {
+      const latest = await this.getLatestEvaluation(controllerHash);
+      if (latest && Date.now() - latest.evaluatedAt < this.maxAgeMs) {
+        return latest;
+      }
+    }
+
+    return this.evaluate(controllerHash);
+  }
+
+  async getLatestEvaluation(controllerHash: string): Promise<ComplianceEvaluation | null> {
+    const result = await databaseService.query(
+      `SELECT * FROM compliance_evaluations WHERE controller_hash = $1 ORDER BY evaluated_at DESC LIMIT 1`,
+      [controllerHash]
+    );
+
+    return result.rows.length > 0 ? this.mapEvaluation(result.rows[0]) : null;
+  }
+
+  /**
+   * Score history of a controller, newest first
+   */
+  async getHistory(controllerHash: string, limit: number): Promise<ComplianceScoreHistoryEntry[]> {
+    const result = await databaseService.query(
+      `SELECT evaluation_id, score, passed, warned, failed, evaluated_at
+       FROM compliance_evaluations WHERE controller_hash = $1
+       ORDER BY evaluated_at DESC LIMIT $2`,
+      [controllerHash, limit]
+    );
+
+    return result.rows.map((row: any) => ({
+      evaluationId: row.evaluation_id,
+      score: row.score,
+      passed: row.passed,
+      warned: row.warned,
+      failed: row.failed,
+      evaluatedAt: new Date(row.evaluated_at).getTime()
+    }));
+  }
+
+  /**
+   * Latest score and evaluation time of every evaluated controller
+   */
+  async getLatestScores(): Promise<Map<string, { score: number; evaluatedAt: number }>> {
+    const result = await databaseService.query(
+      `SELECT DISTINCT ON (controller_hash) controller_hash, score, evaluated_at
+       FROM compliance_evaluations
+       ORDER BY controller_hash, evaluated_at DESC`
+    );
+
+    return new Map(result.rows.map((row: any) => [
+      row.controller_hash,
+      { score: row.score, evaluatedAt: new Date(row.evaluated_at).getTime() }
+    ]));
+  }
+
+  /**
+   * Article view of an evaluation: an article is compliant unless one of its rules failed
+   */
+  toComplianceStatus(evaluation: ComplianceEvaluation): ComplianceStatus {
+    const compliant = (article: string) => !evaluation.results.some(
+      result => result.article === article && result.status === ComplianceRuleStatus.FAIL
+    );
+    const metric = (ruleId: string, name: string) => {
+      const value = evaluation.results.find(result => result.ruleId === ruleId)?.evidence.metrics[name];
+      return typeof value === 'number' ? value : undefined;
+    };
+    const highRiskPurposes = evaluation.results.find(result => result.ruleId === 'art35-dpia')
+      ?.evidence.details?.highRiskPurposes as HighRiskPurpose[] | undefined;
+
+    return {
+      controllerHash: evaluation.controllerHash,
+      gdprArticle7: compliant('Art. 7'),
+      gdprArticle12: compliant('Art. 12'),
+      gdprArticle13: compliant('Art. 13'),
+      gdprArticle17: compliant('Art. 17'),
+      gdprArticle20: compliant('Art. 20'),
+      gdprArticle25: compliant('Art. 25'),
+      gdprArticle30: compliant('Art. 30'),
+      legitimateInterestsWithoutLia: metric('art6-legitimate-interests', 'legitimateInterestsWithoutLia'),
+      purposesWithoutRopaEntry: metric('art30-ropa', 'purposesWithoutRopaEntry'),
+      gdprArticle35: compliant('Art. 35'),
+      highRiskPurposesWithoutDpia: highRiskPurposes,
+      overallCompliance: evaluation.score,
+      lastAudit: evaluation.evaluatedAt,
+      evaluationId: evaluation.evaluationId,
+      rules: evaluation.results
+    };
+  }
+
+  private countStatus(results: ComplianceRuleResult[], status: ComplianceRuleStatus): number {
+    return results.filter(result => result.status === status).length;
+  }
+
+  private mapEvaluation(row: any): ComplianceEvaluation {
+    return {
+      evaluationId: row.evaluation_id,
+      controllerHash: row.controller_hash,
+      score: row.score,
+      results: row.results || [],
+      evaluatedAt: new Date(row.evaluated_at).getTime()
+    };
+  }
+}
+
+export const complianceEngine = new ComplianceEngine();
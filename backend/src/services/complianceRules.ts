@@ -0,0 +1,397 @@
+/**
+ * GDPR Compliance Rules
+ * Each rule checks one obligation for a controller from evidence in the database and reports
+ * pass, warn or fail with the records it looked at. Rules are registered with the compliance
+ * engine; its score is the weighted share of passed rules.
+ */
+
+import {
+  BreachRiskLevel,
+  ComplianceEvidence,
+  ComplianceRuleStatus,
+  ConsentStatus,
+  LegalBasis,
+  RetentionRuleStatus,
+  RetentionTarget,
+  ViolationSeverity
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { liaService } from './liaService';
+import { ropaService } from './ropaService';
+import { dpiaService } from './dpiaService';
+
+// Records referenced per rule; the metrics carry the full counts
+const EVIDENCE_LIMIT = 20;
+
+// Art. 12(3): requests must be answered within one month
+const RESPONSE_DEADLINE_DAYS = 30;
+
+const BREACH_DEADLINE_MS = 72 * 60 * 60 * 1000;
+
+const IN_USE_STATUSES: string[] = [
+  ConsentStatus.GRANTED,
+  ConsentStatus.PENDING,
+  ConsentStatus.RESTRICTED,
+  ConsentStatus.OBJECTED
+];
+
+export interface ComplianceRuleContext {
+  controllerHash: string;
+  now: number;
+}
+
+export interface ComplianceRuleOutcome {
+  status: ComplianceRuleStatus;
+  summary: string;
+  evidence: ComplianceEvidence;
+}
+
+export interface ComplianceRule {
+  id: string;
+  article: string;
+  title: string;
+  weight: number;
+  severity: ViolationSeverity;    // Of the violation raised when the rule fails
+  remediation: string;
+  evaluate(context: ComplianceRuleContext): Promise<ComplianceRuleOutcome>;
+}
+
+function count(result: any): number {
+  return parseInt(result.rows[0]?.count || '0');
+}
+
+function column(result: any, name: string): string[] {
+  return result.rows.map((row: any) => row[name]).filter(Boolean);
+}
+
+const consentRecordsRule: ComplianceRule = {
+  id: 'art7-consent-records',
+  article: 'Art. 7',
+  title: 'Demonstrable consent',
+  weight: 3,
+  severity: ViolationSeverity.HIGH,
+  remediation: 'Re-anchor the listed consents and check that the expiry scheduler is running, so every consent relied on can be demonstrated.',
+  async evaluate({ controllerHash }) {
+    const [consentResult, unanchoredResult, staleResult] = await Promise.all([
+      databaseService.query(
+        `SELECT COUNT(*) AS count FROM consents
+         WHERE controller_hash = $1 AND status = $2 AND lawful_basis = $3`,
+        [controllerHash, ConsentStatus.GRANTED, LegalBasis.CONSENT]
+      ),
+      databaseService.query(
+        `SELECT consent_id, COUNT(*) OVER () AS count FROM consents
+         WHERE controller_hash = $1 AND status = $2 AND lawful_basis = $3 AND hgtp_tx_hash IS NULL
+         ORDER BY granted_at DESC LIMIT $4`,
+        [controllerHash, ConsentStatus.GRANTED, LegalBasis.CONSENT, EVIDENCE_LIMIT]
+      ),
+      databaseService.query(
+        `SELECT consent_id, COUNT(*) OVER () AS count FROM consents
+         WHERE controller_hash = $1 AND status = $2 AND expires_at < NOW()
+         ORDER BY expires_at ASC LIMIT $3`,
+        [controllerHash, ConsentStatus.GRANTED, EVIDENCE_LIMIT]
+      )
+    ]);
+
+    const unanchored = count(unanchoredResult);
+    const stale = count(staleResult);
+    const evidence: ComplianceEvidence = {
+      metrics: { grantedConsents: count(consentResult), unanchoredConsents: unanchored, pastExpiryConsents: stale },
+      consentIds: [...column(unanchoredResult, 'consent_id'), ...column(staleResult, 'consent_id')]
+    };
+
+    if (unanchored > 0) {
+      return { status: ComplianceRuleStatus.FAIL, summary: `${unanchored} granted consents have no anchor`, evidence };
+    }
+    if (stale > 0) {
+      return { status: ComplianceRuleStatus.WARN, summary: `${stale} consents are past expiry but still granted`, evidence };
+    }
+    return { status: ComplianceRuleStatus.PASS, summary: 'Every granted consent is anchored and current', evidence };
+  }
+};
+
+const legitimateInterestsRule: ComplianceRule = {
+  id: 'art6-legitimate-interests',
+  article: 'Art. 6',
+  title: 'Legitimate interests assessed',
+  weight: 2,
+  severity: ViolationSeverity.HIGH,
+  remediation: 'Publish a passed Legitimate Interests Assessment for every purpose relying on legitimate interests.',
+  async evaluate({ controllerHash }) {
+    const uncovered = await liaService.countUncoveredRecords(controllerHash);
+    const evidence: ComplianceEvidence = { metrics: { legitimateInterestsWithoutLia: uncovered } };
+
+    return uncovered > 0
+      ? { status: ComplianceRuleStatus.FAIL, summary: `${uncovered} legitimate-interest records have no current LIA`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Every legitimate-interest record has a current LIA', evidence };
+  }
+};
+
+const responseTimeRule: ComplianceRule = {
+  id: 'art12-response-time',
+  article: 'Art. 12',
+  title: 'Data subject requests answered within a month',
+  weight: 2,
+  severity: ViolationSeverity.HIGH,
+  remediation: 'Resolve the listed restriction and objection requests; they are past the one-month deadline.',
+  async evaluate({ controllerHash }) {
+    const [openResult, overdueResult] = await Promise.all([
+      databaseService.query(
+        `SELECT COUNT(*) AS count FROM processing_rights_requests WHERE controller_hash = $1 AND status = 'open'`,
+        [controllerHash]
+      ),
+      databaseService.query(
+        `SELECT request_id, consent_id, raised_tx_hash, COUNT(*) OVER () AS count
+         FROM processing_rights_requests
+         WHERE controller_hash = $1 AND status = 'open' AND raised_at < NOW() - make_interval(days => $2)
+         ORDER BY raised_at ASC LIMIT $3`,
+        [controllerHash, RESPONSE_DEADLINE_DAYS, EVIDENCE_LIMIT]
+      )
+    ]);
+
+    const overdue = count(overdueResult);
+    const evidence: ComplianceEvidence = {
+      metrics: { openRequests: count(openResult), overdueRequests: overdue },
+      recordIds: column(overdueResult, 'request_id'),
+      consentIds: column(overdueResult, 'consent_id'),
+      anchorHashes: column(overdueResult, 'raised_tx_hash')
+    };
+
+    return overdue > 0
+      ? { status: ComplianceRuleStatus.FAIL, summary: `${overdue} requests are open for more than ${RESPONSE_DEADLINE_DAYS} days`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'No data subject request is overdue', evidence };
+  }
+};
+
+const purposeDisclosureRule: ComplianceRule = {
+  id: 'art13-purpose-disclosure',
+  article: 'Art. 13',
+  title: 'Purposes disclosed in the registry',
+  weight: 1,
+  severity: ViolationSeverity.LOW,
+  remediation: 'Register the purposes the listed consents were collected for, with their description and data categories.',
+  async evaluate({ controllerHash }) {
+    const result = await databaseService.query(
+      `SELECT c.consent_id, COUNT(*) OVER () AS count FROM consents c
+       WHERE c.controller_hash = $1 AND c.status = ANY($2)
+       AND NOT EXISTS (SELECT 1 FROM purposes p WHERE p.controller_hash = c.controller_hash AND p.purpose_hash = c.purpose_hash)
+       ORDER BY c.granted_at DESC LIMIT $3`,
+      [controllerHash, IN_USE_STATUSES, EVIDENCE_LIMIT]
+    );
+
+    const unregistered = count(result);
+    const evidence: ComplianceEvidence = {
+      metrics: { consentsWithUnregisteredPurpose: unregistered },
+      consentIds: column(result, 'consent_id')
+    };
+
+    return unregistered > 0
+      ? { status: ComplianceRuleStatus.WARN, summary: `${unregistered} consents in use are for unregistered purposes`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Every purpose in use is registered', evidence };
+  }
+};
+
+const retentionRule: ComplianceRule = {
+  id: 'art17-retention',
+  article: 'Art. 17',
+  title: 'Revoked and expired consents are deleted',
+  weight: 1,
+  severity: ViolationSeverity.LOW,
+  remediation: 'Add a retention rule for revoked and expired consents so they are deleted once no longer needed.',
+  async evaluate({ controllerHash }) {
+    const [ruleResult, closedResult] = await Promise.all([
+      databaseService.query(
+        `SELECT COUNT(*) AS count FROM retention_rules WHERE controller_hash = $1 AND target = $2 AND status = $3`,
+        [controllerHash, RetentionTarget.CONSENTS, RetentionRuleStatus.ACTIVE]
+      ),
+      databaseService.query(
+        `SELECT COUNT(*) AS count FROM consents WHERE controller_hash = $1 AND status = ANY($2)`,
+        [controllerHash, [ConsentStatus.REVOKED, ConsentStatus.EXPIRED]]
+      )
+    ]);
+
+    const rules = count(ruleResult);
+    const closed = count(closedResult);
+    const evidence: ComplianceEvidence = { metrics: { activeRetentionRules: rules, closedConsents: closed } };
+
+    return rules === 0 && closed > 0
+      ? { status: ComplianceRuleStatus.WARN, summary: `${closed} revoked or expired consents are kept without a retention rule`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Closed consents are covered by retention', evidence };
+  }
+};
+
+const portabilityRule: ComplianceRule = {
+  id: 'art20-consent-receipts',
+  article: 'Art. 20',
+  title: 'Portable consent receipts issued',
+  weight: 1,
+  severity: ViolationSeverity.LOW,
+  remediation: 'Issue signed receipts for the listed consents so data subjects can export and reuse them.',
+  async evaluate({ controllerHash }) {
+    const result = await databaseService.query(
+      `SELECT c.consent_id, COUNT(*) OVER () AS count FROM consents c
+       WHERE c.controller_hash = $1 AND c.status = $2
+       AND NOT EXISTS (SELECT 1 FROM consent_receipts r WHERE r.consent_id = c.consent_id AND r.action = 'grant')
+       ORDER BY c.granted_at DESC LIMIT $3`,
+      [controllerHash, ConsentStatus.GRANTED, EVIDENCE_LIMIT]
+    );
+
+    const missing = count(result);
+    const evidence: ComplianceEvidence = {
+      metrics: { consentsWithoutReceipt: missing },
+      consentIds: column(result, 'consent_id')
+    };
+
+    return missing > 0
+      ? { status: ComplianceRuleStatus.WARN, summary: `${missing} granted consents have no receipt`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Every granted consent has a receipt', evidence };
+  }
+};
+
+const privacyByDesignRule: ComplianceRule = {
+  id: 'art25-privacy-by-design',
+  article: 'Art. 25',
+  title: 'Zero-knowledge verification in use',
+  weight: 1,
+  severity: ViolationSeverity.LOW,
+  remediation: 'Grant consents with zero-knowledge proofs so verification does not reveal the data subject.',
+  async evaluate({ controllerHash }) {
+    const result = await databaseService.query(
+      `SELECT COUNT(*) AS count, COUNT(zk_proof) AS with_proof FROM consents WHERE controller_hash = $1 AND status = $2`,
+      [controllerHash, ConsentStatus.GRANTED]
+    );
+
+    const granted = count(result);
+    const withProof = parseInt(result.rows[0]?.with_proof || '0');
+    const evidence: ComplianceEvidence = { metrics: { grantedConsents: granted, consentsWithZkProof: withProof } };
+
+    return granted > 0 && withProof === 0
+      ? { status: ComplianceRuleStatus.WARN, summary: 'No granted consent uses a zero-knowledge proof', evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: `${withProof} of ${granted} granted consents use zero-knowledge proofs`, evidence };
+  }
+};
+
+const ropaRule: ComplianceRule = {
+  id: 'art30-ropa',
+  article: 'Art. 30',
+  title: 'Records of processing activities',
+  weight: 2,
+  severity: ViolationSeverity.MEDIUM,
+  remediation: 'Save a ROPA version that documents every purpose in use (start from the generated draft).',
+  async evaluate({ controllerHash }) {
+    const [hasRopa, undocumented] = await Promise.all([
+      ropaService.hasRopa(controllerHash),
+      ropaService.countUndocumentedPurposes(controllerHash)
+    ]);
+    const evidence: ComplianceEvidence = { metrics: { hasRopa, purposesWithoutRopaEntry: undocumented } };
+
+    if (!hasRopa) {
+      return { status: ComplianceRuleStatus.FAIL, summary: 'No ROPA has been saved', evidence };
+    }
+    return undocumented > 0
+      ? { status: ComplianceRuleStatus.FAIL, summary: `${undocumented} purposes in use are missing from the ROPA`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'The ROPA documents every purpose in use', evidence };
+  }
+};
+
+const breachNotificationRule: ComplianceRule = {
+  id: 'art33-breach-notification',
+  article: 'Art. 33',
+  title: 'Breaches notified within 72 hours',
+  weight: 3,
+  severity: ViolationSeverity.CRITICAL,
+  remediation: 'Notify the supervisory authority of the listed breaches now, with the reasons for the delay.',
+  async evaluate({ controllerHash }) {
+    const result = await databaseService.query(
+      `SELECT b.breach_id, b.regulator_notified_at IS NULL AS overdue,
+              ARRAY(SELECT s.hgtp_tx_hash FROM breach_steps s WHERE s.breach_id = b.breach_id ORDER BY s.occurred_at) AS anchors
+       FROM data_breaches b
+       WHERE b.controller_hash = $1 AND b.risk_level <> $2
+       AND (
+         (b.regulator_notified_at IS NULL AND b.status = 'open' AND b.regulator_deadline < NOW())
+         OR b.regulator_notified_at > b.regulator_deadline
+       )
+       ORDER BY b.discovered_at DESC`,
+      [controllerHash, BreachRiskLevel.UNLIKELY]
+    );
+
+    const overdue = result.rows.filter((row: any) => row.overdue);
+    const late = result.rows.length - overdue.length;
+    const evidence: ComplianceEvidence = {
+      metrics: { overdueBreaches: overdue.length, lateNotifications: late },
+      recordIds: column(result, 'breach_id').slice(0, EVIDENCE_LIMIT),
+      anchorHashes: result.rows.flatMap((row: any) => row.anchors || []).slice(0, EVIDENCE_LIMIT)
+    };
+
+    if (overdue.length > 0) {
+      return { status: ComplianceRuleStatus.FAIL, summary: `${overdue.length} breaches are past the 72-hour deadline without notification`, evidence };
+    }
+    return late > 0
+      ? { status: ComplianceRuleStatus.WARN, summary: `${late} breaches were notified after the 72-hour deadline`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Every breach was notified in time', evidence };
+  }
+};
+
+const subjectNotificationRule: ComplianceRule = {
+  id: 'art34-subject-notification',
+  article: 'Art. 34',
+  title: 'Data subjects told of high-risk breaches',
+  weight: 2,
+  severity: ViolationSeverity.HIGH,
+  remediation: 'Send notices to the data subjects affected by the listed high-risk breaches without undue delay.',
+  async evaluate({ controllerHash, now }) {
+    const result = await databaseService.query(
+      `SELECT breach_id, discovered_at FROM data_breaches
+       WHERE controller_hash = $1 AND risk_level = $2 AND status <> 'closed' AND subjects_notified_at IS NULL
+       ORDER BY discovered_at ASC`,
+      [controllerHash, BreachRiskLevel.HIGH]
+    );
+
+    const overdue = result.rows.filter((row: any) => now - new Date(row.discovered_at).getTime() > BREACH_DEADLINE_MS);
+    const evidence: ComplianceEvidence = {
+      metrics: { pendingSubjectNotices: result.rows.length, overdueSubjectNotices: overdue.length },
+      recordIds: column(result, 'breach_id').slice(0, EVIDENCE_LIMIT)
+    };
+
+    if (overdue.length > 0) {
+      return { status: ComplianceRuleStatus.FAIL, summary: `${overdue.length} high-risk breaches are older than 72 hours without subject notices`, evidence };
+    }
+    return result.rows.length > 0
+      ? { status: ComplianceRuleStatus.WARN, summary: `${result.rows.length} high-risk breaches still need subject notices`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Data subjects were told of every high-risk breach', evidence };
+  }
+};
+
+const dpiaRule: ComplianceRule = {
+  id: 'art35-dpia',
+  article: 'Art. 35',
+  title: 'High-risk processing assessed',
+  weight: 2,
+  severity: ViolationSeverity.HIGH,
+  remediation: 'Complete and get DPO sign-off on a DPIA for each listed purpose before continuing the processing.',
+  async evaluate({ controllerHash }) {
+    const highRisk = await dpiaService.findHighRiskPurposesWithoutDpia(controllerHash);
+    const evidence: ComplianceEvidence = {
+      metrics: { highRiskPurposesWithoutDpia: highRisk.length },
+      recordIds: highRisk.map(purpose => purpose.purposeHash),
+      details: { highRiskPurposes: highRisk }
+    };
+
+    return highRisk.length > 0
+      ? { status: ComplianceRuleStatus.FAIL, summary: `${highRisk.length} high-risk purposes have no approved DPIA`, evidence }
+      : { status: ComplianceRuleStatus.PASS, summary: 'Every high-risk purpose has an approved DPIA', evidence };
+  }
+};
+
+export const defaultComplianceRules: ComplianceRule[] = [
+  legitimateInterestsRule,
+  consentRecordsRule,
+  responseTimeRule,
+  purposeDisclosureRule,
+  retentionRule,
+  portabilityRule,
+  privacyByDesignRule,
+  ropaRule,
+  breachNotificationRule,
+  subjectNotificationRule,
+  dpiaRule
+];
@@ -0,0 +1,97 @@
+/**
+ * Compliance Scheduler
+ * Periodically evaluates every controller's compliance rules, so the score history keeps
+ * growing and scores stay current for controllers nobody is looking at
+ */
+
+import { complianceEngine } from './complianceEngine';
+import { databaseService } from './databaseService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface ComplianceSweepResult {
+  evaluated: number;
+  failed: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+class ComplianceScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private intervalMs: number;
+
+  constructor() {
+    this.intervalMs = parseInt(process.env.COMPLIANCE_EVALUATION_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS;
+  }
+
+  /**
+   * Start the periodic sweep, running the first one right away (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const sweep = () => {
+      this.runOnce().catch(error => {
+        logger.error('Compliance sweep failed', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(sweep, this.intervalMs);
+    this.timer.unref();
+    sweep();
+
+    logger.info('⏰ Compliance scheduler started', { intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every controller once; a controller that fails is retried on the next run
+   */
+  async runOnce(): Promise<ComplianceSweepResult> {
+    const startedAt = Date.now();
+    let evaluated = 0;
+    let failed = 0;
+
+    if (this.running) {
+      logger.warn('Compliance sweep already in progress, skipping');
+      return { evaluated, failed, startedAt, finishedAt: Date.now() };
+    }
+
+    this.running = true;
+
+    try {
+      const result = await databaseService.query('SELECT controller_hash FROM controllers ORDER BY created_at');
+
+      for (const row of result.rows) {
+        try {
+          await complianceEngine.evaluate(row.controller_hash);
+          evaluated++;
+        } catch (error: any) {
+          failed++;
+          logger.error('Failed to evaluate compliance', { controllerHash: row.controller_hash, error: error.message });
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    logger.info('Compliance sweep completed', { evaluated, failed });
+
+    return { evaluated, failed, startedAt, finishedAt: Date.now() };
+  }
+}
+
+export const complianceScheduler = new ComplianceScheduler();
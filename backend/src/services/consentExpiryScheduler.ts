@@ -0,0 +1,132 @@
+/**
+ * Consent Expiry Scheduler
+ * Periodically transitions past-expiry consents to EXPIRED and anchors each change,
+ * expires double opt-in requests that were not confirmed in time, and converts guardian
+ * consents once the data subject reaches the digital age of consent
+ */
+
+import { pgConsentService } from './pgConsentService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface ExpirySweepResult {
+  expired: number;
+  skipped: number;
+  expiredRequests: number;
+  converted: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+class ConsentExpiryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private intervalMs: number;
+  private batchSize: number;
+
+  constructor() {
+    this.intervalMs = parseInt(process.env.CONSENT_EXPIRY_SWEEP_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS;
+    this.batchSize = parseInt(process.env.CONSENT_EXPIRY_SWEEP_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Start the periodic sweep (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error('Consent expiry sweep failed', { error: error.message });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info('⏰ Consent expiry scheduler started', {
+      intervalMs: this.intervalMs,
+      batchSize: this.batchSize
+    });
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a single sweep. Each consent is transitioned independently, so an interrupted
+   * sweep simply leaves the remaining consents for the next run.
+   */
+  async runOnce(): Promise<ExpirySweepResult> {
+    const startedAt = Date.now();
+    let expired = 0;
+    let skipped = 0;
+    let expiredRequests = 0;
+    let converted = 0;
+
+    if (this.running) {
+      logger.warn('Consent expiry sweep already in progress, skipping');
+      return { expired, skipped, expiredRequests, converted, startedAt, finishedAt: Date.now() };
+    }
+
+    this.running = true;
+
+    try {
+      while (true) {
+        const consentIds = await pgConsentService.findExpiredConsentIds(this.batchSize);
+        if (consentIds.length === 0) {
+          break;
+        }
+
+        let batchExpired = 0;
+        for (const consentId of consentIds) {
+          if (await pgConsentService.expireConsent(consentId)) {
+            batchExpired++;
+          } else {
+            skipped++;
+          }
+        }
+        expired += batchExpired;
+
+        // Stop when nothing in the batch could be transitioned (e.g. anchoring unavailable)
+        if (batchExpired === 0 || consentIds.length < this.batchSize) {
+          break;
+        }
+      }
+
+      // Unconfirmed double opt-in requests are not anchored, so one batch per run is cheap
+      const requestIds = await pgConsentService.findUnconfirmedConsentIds(this.batchSize);
+      for (const consentId of requestIds) {
+        if (await pgConsentService.expireUnconfirmedConsent(consentId)) {
+          expiredRequests++;
+        }
+      }
+
+      const conversionIds = await pgConsentService.findConsentsDueForConversion(this.batchSize);
+      for (const consentId of conversionIds) {
+        if (await pgConsentService.convertGuardianConsent(consentId)) {
+          converted++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (expired > 0 || skipped > 0 || expiredRequests > 0 || converted > 0) {
+      logger.info('Consent expiry sweep completed', { expired, skipped, expiredRequests, converted });
+    }
+
+    return { expired, skipped, expiredRequests, converted, startedAt, finishedAt: Date.now() };
+  }
+}
+
+export const consentExpiryScheduler = new ConsentExpiryScheduler();
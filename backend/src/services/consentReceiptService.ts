@@ -0,0 +1,306 @@
+/**
+ * Consent Receipt Service
+ * Issues Kantara-style consent receipts for grants and revocations, signed as compact JWS
+ * (EdDSA over Ed25519) with the platform key so they can be verified without our API
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ConsentReceipt,
+  ConsentReceiptAction,
+  ConsentReceiptRecord,
+  ConsentStatus,
+  HGTPResult,
+  LegalBasis
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { cryptoService, SignatureAlgorithm } from './cryptoService';
+import { userKeyService } from './userKeyService';
+import { hash } from '../utils/crypto';
+import { logger } from '../utils/logger';
+
+const RECEIPT_VERSION = 'KI-CR-v1.1.0';
+
+export interface ConsentReceiptInput {
+  consentId: string;
+  userId: string;
+  controllerHash: string;
+  action: ConsentReceiptAction;
+  status: ConsentStatus;
+  purpose?: string;                 // Looked up from earlier receipts/audit logs when omitted
+  purposeHash: string;
+  dataCategories: string[];
+  withdrawnCategories?: string[];
+  lawfulBasis: LegalBasis;
+  expiresAt?: string | number | Date | null;
+  anchor: Partial<HGTPResult>;
+  zkProof?: any;
+  issuedAt: number;
+}
+
+export interface ReceiptJWKS {
+  keys: {
+    kty: 'OKP';
+    crv: 'Ed25519';
+    x: string;
+    kid: string;
+    alg: 'EdDSA';
+    use: 'sig';
+  }[];
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+class ConsentReceiptService {
+  private privateKey: string | null = null;
+  private publicKey: string = '';
+  private keyId: string = '';
+
+  /**
+   * Load the platform signing key. Without CONSENT_RECEIPT_PRIVATE_KEY an ephemeral key is
+   * generated, which means receipts issued before a restart no longer verify against the JWKS.
+   */
+  private async getSigningKey(): Promise<{ privateKey: string; publicKey: string; keyId: string }> {
+    if (!this.privateKey) {
+      const configuredKey = process.env.CONSENT_RECEIPT_PRIVATE_KEY;
+
+      if (configuredKey) {
+        this.privateKey = configuredKey;
+        this.publicKey = await cryptoService.derivePublicKey(configuredKey, SignatureAlgorithm.ED25519);
+      } else {
+        const keyPair = await cryptoService.generateKeyPair(SignatureAlgorithm.ED25519);
+        this.privateKey = keyPair.privateKey;
+        this.publicKey = keyPair.publicKey;
+        logger.warn('⚠️ CONSENT_RECEIPT_PRIVATE_KEY not set - signing consent receipts with an ephemeral key', {
+          note: 'Receipts will not verify after a restart; configure a persistent ed25519 key'
+        });
+      }
+
+      this.keyId = hash(this.publicKey).substring(0, 16);
+    }
+
+    return { privateKey: this.privateKey, publicKey: this.publicKey, keyId: this.keyId };
+  }
+
+  /**
+   * Build, sign and store a receipt for a consent grant or revocation
+   */
+  async issueReceipt(input: ConsentReceiptInput): Promise<ConsentReceiptRecord> {
+    const { privateKey, publicKey, keyId } = await this.getSigningKey();
+    const receiptId = randomUUID();
+
+    const controllerResult = await databaseService.query(
+      'SELECT organization_name, organization_id, metadata FROM controllers WHERE controller_hash = $1',
+      [input.controllerHash]
+    );
+    const controller = controllerResult.rows[0];
+    const metadata = controller?.metadata || {};
+    const purpose = input.purpose || await this.resolvePurpose(input.consentId) || input.purposeHash;
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt).toISOString() : null;
+
+    const receipt: ConsentReceipt = {
+      version: RECEIPT_VERSION,
+      jurisdiction: metadata.jurisdiction || 'EU',
+      consentTimestamp: Math.floor(input.issuedAt / 1000),
+      collectionMethod: 'ConsenTide consent API',
+      consentReceiptID: receiptId,
+      publicKey,
+      language: 'en',
+      piiPrincipalId: input.userId,
+      piiControllers: [{
+        piiController: controller?.organization_name || input.controllerHash,
+        piiControllerId: controller?.organization_id || input.controllerHash,
+        controllerHash: input.controllerHash,
+        contact: metadata.contact,
+        email: metadata.email,
+        piiControllerUrl: metadata.website,
+        onBehalf: false
+      }],
+      policyUrl: metadata.privacyPolicyUrl,
+      services: [{
+        service: controller?.organization_name || input.controllerHash,
+        purposes: [{
+          purpose,
+          purposeHash: input.purposeHash,
+          consentType: 'EXPLICIT',
+          piiCategory: input.dataCategories,
+          primaryPurpose: true,
+          termination: expiresAt ? `Expires at ${expiresAt}` : 'Until withdrawn by the data subject',
+          thirdPartyDisclosure: false
+        }]
+      }],
+      sensitive: false,
+      spiCat: [],
+      consentId: input.consentId,
+      action: input.action,
+      status: input.status,
+      lawfulBasis: input.lawfulBasis,
+      withdrawnCategories: input.withdrawnCategories,
+      anchor: {
+        hgtpTxHash: input.anchor.transactionHash || '',
+        anchoringTimestamp: input.anchor.anchoringTimestamp,
+        merkleRoot: input.anchor.merkleRoot,
+        blockHeight: input.anchor.blockHeight
+      },
+      zkProofHash: input.zkProof ? hash(JSON.stringify(input.zkProof)) : undefined
+    };
+
+    const header = { alg: 'EdDSA', typ: 'JWT', kid: keyId };
+    const claims = {
+      ...receipt,
+      iss: process.env.CONSENT_RECEIPT_ISSUER || 'consentire',
+      sub: input.userId,
+      iat: receipt.consentTimestamp,
+      jti: receiptId
+    };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const { signature } = await cryptoService.signMessage(signingInput, privateKey, SignatureAlgorithm.ED25519);
+    const jws = `${signingInput}.${base64url(Buffer.from(signature, 'hex'))}`;
+
+    // The receipt and its JWS name the data subject, so they are stored under the user's data key
+    await databaseService.query(
+      `INSERT INTO consent_receipts (
+        receipt_id, consent_id, user_id, controller_hash, action, purpose, receipt, jws, key_id, issued_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        receiptId,
+        input.consentId,
+        input.userId,
+        input.controllerHash,
+        input.action,
+        purpose,
+        JSON.stringify(await userKeyService.encryptField(input.userId, JSON.stringify(receipt))),
+        await userKeyService.encryptField(input.userId, jws),
+        keyId,
+        new Date(input.issuedAt).toISOString()
+      ]
+    );
+
+    logger.info('Consent receipt issued', { receiptId, consentId: input.consentId, action: input.action });
+
+    return {
+      receiptId,
+      consentId: input.consentId,
+      action: input.action,
+      issuedAt: input.issuedAt,
+      keyId,
+      receipt,
+      jws
+    };
+  }
+
+  /**
+   * Get a stored receipt together with its owner for access checks
+   */
+  async getReceipt(receiptId: string): Promise<(ConsentReceiptRecord & { userId: string; controllerHash: string }) | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM consent_receipts WHERE receipt_id = $1',
+      [receiptId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const receipt = await this.mapReceipt(row);
+    return receipt ? { ...receipt, userId: row.user_id, controllerHash: row.controller_hash } : null;
+  }
+
+  /**
+   * List a user's receipts, newest first
+   */
+  async getUserReceipts(userId: string, consentId?: string): Promise<ConsentReceiptRecord[]> {
+    const params: any[] = [userId];
+    let filter = '';
+    if (consentId) {
+      params.push(consentId);
+      filter = 'AND consent_id = $2';
+    }
+
+    const result = await databaseService.query(
+      `SELECT * FROM consent_receipts
+       WHERE user_id = $1 ${filter}
+       ORDER BY issued_at DESC`,
+      params
+    );
+
+    const receipts = await Promise.all(result.rows.map((row: any) => this.mapReceipt(row)));
+    return receipts.filter((receipt): receipt is ConsentReceiptRecord => receipt !== null);
+  }
+
+  /**
+   * Public key set for verifying receipt signatures
+   */
+  async getJWKS(): Promise<ReceiptJWKS> {
+    const { publicKey, keyId } = await this.getSigningKey();
+
+    return {
+      keys: [{
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: base64url(Buffer.from(publicKey, 'hex')),
+        kid: keyId,
+        alg: 'EdDSA',
+        use: 'sig'
+      }]
+    };
+  }
+
+  /**
+   * Purpose text is only known at grant time: reuse the earliest receipt or grant audit log,
+   * following renewals back to the original consent
+   */
+  private async resolvePurpose(consentId: string): Promise<string | null> {
+    let currentId: string | null = consentId;
+
+    for (let depth = 0; currentId && depth < 10; depth++) {
+      const result: any = await databaseService.query(
+        `SELECT
+           (SELECT purpose FROM consent_receipts WHERE consent_id = $1 AND purpose IS NOT NULL
+            ORDER BY issued_at ASC LIMIT 1) AS receipt_purpose,
+           (SELECT details->>'purpose' FROM audit_logs WHERE consent_id = $1 AND action = 'consent_granted'
+            ORDER BY timestamp ASC LIMIT 1) AS audit_purpose,
+           (SELECT supersedes FROM consents WHERE consent_id = $1) AS supersedes`,
+        [currentId]
+      );
+      const row = result.rows[0];
+
+      if (row?.receipt_purpose || row?.audit_purpose) {
+        return row.receipt_purpose || row.audit_purpose;
+      }
+
+      currentId = row?.supersedes || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Decrypt a stored receipt; null once the data subject has been erased
+   */
+  private async mapReceipt(row: any): Promise<ConsentReceiptRecord | null> {
+    const jws = await userKeyService.decryptField(row.user_id, row.jws);
+    const receipt = typeof row.receipt === 'string'
+      ? await userKeyService.decryptField(row.user_id, row.receipt)
+      : JSON.stringify(row.receipt);
+
+    if (jws === null || receipt === null) {
+      return null;
+    }
+
+    return {
+      receiptId: row.receipt_id,
+      consentId: row.consent_id,
+      action: row.action as ConsentReceiptAction,
+      issuedAt: new Date(row.issued_at).getTime(),
+      keyId: row.key_id,
+      receipt: JSON.parse(receipt),
+      jws
+    };
+  }
+}
+
+export const consentReceiptService = new ConsentReceiptService();
@@ -185,7 +185,8 @@ class CryptographicService {
     dataCategories: string[],
     lawfulBasis: string,
     timestamp: number,
-    nonce?: string
+    nonce?: string,
+    expiresAt?: number
   ): string {
     const nonceValue = nonce || this.generateNonce();
     
@@ -194,8 +195,9 @@ class CryptographicService {
       userId,
       controllerId,
       purpose,
-      dataCategories: dataCategories.sort(), // Ensure consistent ordering
+      dataCategories: [...dataCategories].sort(), // Ensure consistent ordering
       lawfulBasis,
+      expiresAt: expiresAt ?? null,
       timestamp,
       nonce: nonceValue
     };
@@ -205,12 +207,14 @@ class CryptographicService {
 
   /**
    * Create a message for consent revocation
+   * Partial revocations also sign the withdrawn data categories
    */
   createRevocationMessage(
     userId: string,
     consentId: string,
     timestamp: number,
-    nonce?: string
+    nonce?: string,
+    dataCategories?: string[]
   ): string {
     const nonceValue = nonce || this.generateNonce();
     
@@ -218,6 +222,107 @@ class CryptographicService {
       action: 'revoke_consent',
       userId,
       consentId,
+      ...(dataCategories && dataCategories.length > 0
+        ? { dataCategories: [...dataCategories].sort() }
+        : {}),
+      timestamp,
+      nonce: nonceValue
+    };
+    
+    return JSON.stringify(message, null, 0);
+  }
+
+  /**
+   * Create a message for consent renewal
+   */
+  createRenewalMessage(
+    userId: string,
+    consentId: string,
+    dataCategories: string[],
+    expiresAt: number | undefined,
+    timestamp: number,
+    nonce?: string
+  ): string {
+    const nonceValue = nonce || this.generateNonce();
+    
+    const message = {
+      action: 'renew_consent',
+      userId,
+      consentId,
+      dataCategories: [...dataCategories].sort(),
+      expiresAt: expiresAt ?? null,
+      timestamp,
+      nonce: nonceValue
+    };
+    
+    return JSON.stringify(message, null, 0);
+  }
+
+  /**
+   * Create a message for confirming a pending (double opt-in) consent
+   */
+  createConfirmationMessage(
+    userId: string,
+    consentId: string,
+    timestamp: number,
+    nonce?: string
+  ): string {
+    const nonceValue = nonce || this.generateNonce();
+    
+    const message = {
+      action: 'confirm_consent',
+      userId,
+      consentId,
+      timestamp,
+      nonce: nonceValue
+    };
+    
+    return JSON.stringify(message, null, 0);
+  }
+
+  /**
+   * Create a message for restricting processing (GDPR Art. 18)
+   */
+  createRestrictionMessage(
+    userId: string,
+    consentId: string,
+    ground: string,
+    reason: string,
+    timestamp: number,
+    nonce?: string
+  ): string {
+    const nonceValue = nonce || this.generateNonce();
+    
+    const message = {
+      action: 'restrict_processing',
+      userId,
+      consentId,
+      ground,
+      reason,
+      timestamp,
+      nonce: nonceValue
+    };
+    
+    return JSON.stringify(message, null, 0);
+  }
+
+  /**
+   * Create a message for objecting to processing (GDPR Art. 21)
+   */
+  createObjectionMessage(
+    userId: string,
+    consentId: string,
+    reason: string,
+    timestamp: number,
+    nonce?: string
+  ): string {
+    const nonceValue = nonce || this.generateNonce();
+    
+    const message = {
+      action: 'object_to_processing',
+      userId,
+      consentId,
+      reason,
       timestamp,
       nonce: nonceValue
     };
@@ -232,6 +337,27 @@ class CryptographicService {
     return createHash('sha256').update(data, 'utf8').digest('hex');
   }
 
+  /**
+   * Derive the hex public key for a hex private key
+   */
+  async derivePublicKey(
+    privateKey: string,
+    algorithm: SignatureAlgorithm = SignatureAlgorithm.ED25519
+  ): Promise<string> {
+    const privateKeyBytes = Buffer.from(privateKey, 'hex');
+
+    switch (algorithm) {
+      case SignatureAlgorithm.ED25519:
+        return Buffer.from(await ed25519.getPublicKey(privateKeyBytes)).toString('hex');
+
+      case SignatureAlgorithm.SECP256K1:
+        return Buffer.from(secp256k1.getPublicKey(privateKeyBytes)).toString('hex');
+
+      default:
+        throw new Error(`Unsupported algorithm: ${algorithm}`);
+    }
+  }
+
   /**
    * Generate a deterministic key pair from seed
    */
@@ -0,0 +1,234 @@
+/**
+ * Data Subject Export Service
+ * Assembles everything held about a user (GDPR Art. 15 access / Art. 20 portability) and
+ * packages it as JSON plus one CSV per record type inside a ZIP
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ConsentStatus,
+  DataExportFormat,
+  DataSubjectExport,
+  ExportedAuditEntry,
+  ExportedConsent,
+  LegalBasis
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { pgConsentService } from './pgConsentService';
+import { consentReceiptService } from './consentReceiptService';
+import { guardianService } from './guardianService';
+import { createZip } from '../utils/zip';
+import { toCsv } from '../utils/csv';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Timestamps in CSV files are ISO 8601
+function isoDate(timestamp?: number): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
+
+class DataExportService {
+
+  /**
+   * Collect the user's profile, consents with anchors and proofs, consent history, receipts,
+   * restrictions and objections, guardianships and the audit entries about them.
+   * The export is recorded in the audit trail before it is returned.
+   */
+  async exportUserData(userId: string, format: DataExportFormat): Promise<DataSubjectExport> {
+    const userResult = await databaseService.query(
+      `SELECT u.id, u.did, u.public_key, u.wallet_address, u.created_at, a.email
+       FROM users u
+       LEFT JOIN auth_credentials a ON a.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+
+    if (userResult.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const user = userResult.rows[0];
+    const [consents, events, receipts, processingRights, guardianship, auditLog] = await Promise.all([
+      this.getConsents(userId),
+      pgConsentService.getUserConsentEvents(userId),
+      consentReceiptService.getUserReceipts(userId),
+      pgConsentService.listProcessingRights({ userId }),
+      guardianService.getOverview(userId),
+      this.getAuditLog(userId)
+    ]);
+
+    const exportData: DataSubjectExport = {
+      exportId: randomUUID(),
+      exportedAt: Date.now(),
+      userId,
+      profile: {
+        did: user.did,
+        email: user.email ?? undefined,
+        publicKey: user.public_key,
+        walletAddress: user.wallet_address ?? undefined,
+        createdAt: new Date(user.created_at).getTime()
+      },
+      guardianship,
+      consents,
+      events,
+      receipts,
+      processingRights,
+      auditLog
+    };
+
+    // Logged before the package leaves the server, so no export goes unrecorded
+    await databaseService.query(
+      `INSERT INTO audit_logs (user_id, action, details, timestamp)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        userId,
+        'data_exported',
+        JSON.stringify({
+          exportId: exportData.exportId,
+          format,
+          consents: consents.length,
+          events: events.length,
+          receipts: receipts.length,
+          processingRights: processingRights.length,
+          auditEntries: auditLog.length
+        }),
+        new Date(exportData.exportedAt).toISOString()
+      ]
+    );
+
+    logger.info('Data subject export created', { userId, exportId: exportData.exportId, format });
+
+    return exportData;
+  }
+
+  /**
+   * ZIP with export.json and one CSV per record type
+   */
+  createArchive(exportData: DataSubjectExport): Buffer {
+    const consentsCsv = toCsv(
+      ['consent_id', 'controller_hash', 'controller_name', 'purpose_hash', 'purpose', 'purpose_version',
+        'lawful_basis', 'status', 'data_categories', 'granted_at', 'expires_at', 'supersedes', 'superseded_by',
+        'guardian_id', 'converted_at', 'hgtp_tx_hash', 'anchoring_timestamp', 'merkle_root', 'zk_proof', 'merkle_proof'],
+      exportData.consents.map(c => [
+        c.consentId, c.controllerHash, c.controllerName, c.purposeHash, c.purpose, c.purposeVersion,
+        c.lawfulBasis, c.status, c.dataCategories.join(';'), isoDate(c.grantedAt), isoDate(c.expiresAt),
+        c.supersedes, c.supersededBy, c.guardianId, isoDate(c.convertedAt), c.hgtpTxHash,
+        isoDate(c.anchoringTimestamp), c.merkleRoot, c.zkProof, c.merkleProof
+      ])
+    );
+
+    const eventsCsv = toCsv(
+      ['event_id', 'consent_id', 'event_type', 'status', 'data_categories', 'expires_at', 'details',
+        'hgtp_tx_hash', 'anchoring_timestamp', 'merkle_root', 'block_height', 'occurred_at'],
+      exportData.events.map(e => [
+        e.eventId, e.consentId, e.eventType, e.status, e.dataCategories.join(';'), isoDate(e.expiresAt), e.details,
+        e.hgtpTxHash, isoDate(e.anchoringTimestamp), e.merkleRoot, e.blockHeight, isoDate(e.occurredAt)
+      ])
+    );
+
+    const receiptsCsv = toCsv(
+      ['receipt_id', 'consent_id', 'action', 'issued_at', 'key_id', 'jws'],
+      exportData.receipts.map(r => [r.receiptId, r.consentId, r.action, isoDate(r.issuedAt), r.keyId, r.jws])
+    );
+
+    const processingRightsCsv = toCsv(
+      ['request_id', 'consent_id', 'controller_hash', 'type', 'status', 'ground', 'reason', 'resolution_note',
+        'raised_at', 'raised_tx_hash', 'resolved_at', 'resolved_tx_hash'],
+      exportData.processingRights.map(p => [
+        p.requestId, p.consentId, p.controllerHash, p.type, p.status, p.ground, p.reason, p.resolutionNote,
+        isoDate(p.raisedAt), p.raisedTxHash, isoDate(p.resolvedAt), p.resolvedTxHash
+      ])
+    );
+
+    const auditCsv = toCsv(
+      ['id', 'timestamp', 'action', 'consent_id', 'controller_hash', 'details', 'hgtp_tx_hash'],
+      exportData.auditLog.map(a => [
+        a.id, isoDate(a.timestamp), a.action, a.consentId, a.controllerHash, a.details, a.hgtpTxHash
+      ])
+    );
+
+    return createZip([
+      { name: 'export.json', content: JSON.stringify(exportData, null, 2) },
+      { name: 'consents.csv', content: consentsCsv },
+      { name: 'consent_events.csv', content: eventsCsv },
+      { name: 'receipts.csv', content: receiptsCsv },
+      { name: 'processing_rights.csv', content: processingRightsCsv },
+      { name: 'audit_log.csv', content: auditCsv }
+    ], new Date(exportData.exportedAt));
+  }
+
+  private async getConsents(userId: string): Promise<ExportedConsent[]> {
+    const result = await databaseService.query(
+      `SELECT c.*, ctl.organization_name, p.name AS purpose_name
+       FROM consents c
+       LEFT JOIN controllers ctl ON ctl.controller_hash = c.controller_hash
+       LEFT JOIN purposes p ON p.purpose_id = c.purpose_id
+       WHERE c.user_id = $1
+       ORDER BY c.granted_at ASC`,
+      [userId]
+    );
+
+    const consents: ExportedConsent[] = [];
+    for (const row of result.rows) {
+      consents.push({
+        consentId: row.consent_id,
+        controllerHash: row.controller_hash,
+        controllerName: row.organization_name ?? undefined,
+        purposeHash: row.purpose_hash,
+        purpose: row.purpose_name ?? undefined,
+        purposeVersion: row.purpose_version ?? undefined,
+        lawfulBasis: row.lawful_basis as LegalBasis,
+        status: row.status as ConsentStatus,
+        dataCategories: row.data_categories || [],
+        grantedAt: new Date(row.granted_at).getTime(),
+        expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+        supersedes: row.supersedes ?? undefined,
+        supersededBy: row.superseded_by ?? undefined,
+        guardianId: row.guardian_id ?? undefined,
+        convertedAt: row.converted_at ? new Date(row.converted_at).getTime() : undefined,
+        hgtpTxHash: row.hgtp_tx_hash ?? undefined,
+        anchoringTimestamp: row.anchoring_timestamp ? new Date(row.anchoring_timestamp).getTime() : undefined,
+        merkleRoot: row.merkle_root ?? undefined,
+        zkProof: row.zk_proof ?? undefined,
+        merkleProof: row.hgtp_tx_hash ? await this.getMerkleProof(row.consent_id) : undefined
+      });
+    }
+
+    return consents;
+  }
+
+  /**
+   * Proofs are best effort: a consent is still exported when its proof cannot be fetched
+   */
+  private async getMerkleProof(consentId: string) {
+    try {
+      return await blockchainService.getMerkleProof(consentId);
+    } catch (error: any) {
+      logger.warn('Merkle proof unavailable for export', { consentId, error: error.message });
+      return undefined;
+    }
+  }
+
+  private async getAuditLog(userId: string): Promise<ExportedAuditEntry[]> {
+    const result = await databaseService.query(
+      `SELECT id, timestamp, action, consent_id, controller_hash, details, hgtp_tx_hash
+       FROM audit_logs
+       WHERE user_id = $1
+       ORDER BY timestamp ASC, id ASC`,
+      [userId]
+    );
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      action: row.action,
+      consentId: row.consent_id ?? undefined,
+      controllerHash: row.controller_hash ?? undefined,
+      details: row.details || {},
+      hgtpTxHash: row.hgtp_tx_hash ?? undefined,
+      timestamp: new Date(row.timestamp).getTime()
+    }));
+  }
+}
+
+export const dataExportService = new DataExportService();
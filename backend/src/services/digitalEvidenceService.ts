@@ -15,7 +15,7 @@ import {
   HGTPResult,
   MerkleProof
 } from '@consentire/shared';
-import { IBlockchainAnchorService, BlockchainNetworkStatus } from './IBlockchainAnchorService.js';
+import { IBlockchainAnchorService, BlockchainNetworkStatus, ConsentBatchAnchorEntry } from './IBlockchainAnchorService.js';
 
 interface DigitalEvidencePayload {
   data: any;
@@ -185,7 +185,10 @@ class DigitalEvidenceService implements IBlockchainAnchorService {
       [ConsentStatus.GRANTED]: 'grant_consent',
       [ConsentStatus.REVOKED]: 'revoke_consent',
       [ConsentStatus.EXPIRED]: 'expire_consent',
-      [ConsentStatus.PENDING]: 'pending_consent'
+      [ConsentStatus.PENDING]: 'pending_consent',
+      [ConsentStatus.SUPERSEDED]: 'supersede_consent',
+      [ConsentStatus.RESTRICTED]: 'restrict_processing',
+      [ConsentStatus.OBJECTED]: 'object_to_processing'
     };
 
     const action = actionMap[status] || 'update_consent';
@@ -216,6 +219,40 @@ class DigitalEvidenceService implements IBlockchainAnchorService {
     return this.createHGTPResult(response, { consentId, status, metadata });
   }
 
+  /**
+   * Anchor a batch of consent changes as one fingerprint over their merkle root
+   */
+  async anchorConsentBatch(
+    batchId: string,
+    batchRoot: string,
+    entries: ConsentBatchAnchorEntry[]
+  ): Promise<HGTPResult> {
+    logger.info('🔗 Anchoring consent batch to blockchain', {
+      batchId,
+      size: entries.length
+    });
+
+    const payload: DigitalEvidencePayload = {
+      data: {
+        action: 'batch_consent',
+        batchId,
+        batchRoot,
+        entries,
+        timestamp: Date.now()
+      },
+      metadata: {
+        type: 'gdpr_consent_batch',
+        timestamp: Date.now(),
+        organizationId: this.orgId,
+        tenantId: this.tenantId,
+        dataHash: batchRoot
+      }
+    };
+
+    const response = await this.submitPayload(payload);
+    return this.createHGTPResult(response, { batchId, batchRoot });
+  }
+
   /**
    * Anchor controller verification request
    */
@@ -284,6 +321,42 @@ class DigitalEvidenceService implements IBlockchainAnchorService {
     return this.createHGTPResult(response, { regulatorId, auditType });
   }
 
+  /**
+   * Anchor the content hash of a compliance record
+   */
+  async anchorComplianceRecord(
+    recordType: string,
+    recordId: string,
+    contentHash: string,
+    metadata?: Record<string, unknown>
+  ): Promise<HGTPResult> {
+    logger.info('🔗 Anchoring compliance record', {
+      recordType,
+      recordId
+    });
+
+    const payload: DigitalEvidencePayload = {
+      data: {
+        action: 'compliance_record',
+        recordType,
+        recordId,
+        contentHash,
+        ...metadata,
+        timestamp: Date.now()
+      },
+      metadata: {
+        type: `gdpr_${recordType}`,
+        timestamp: Date.now(),
+        organizationId: this.orgId,
+        tenantId: this.tenantId,
+        dataHash: contentHash
+      }
+    };
+
+    const response = await this.submitPayload(payload);
+    return this.createHGTPResult(response, { recordType, recordId });
+  }
+
   /**
    * Get merkle proof for consent verification
    */
@@ -0,0 +1,574 @@
+/**
+ * Data Protection Impact Assessment Service (GDPR Art. 35)
+ * Controllers assess high-risk purposes with a questionnaire and a scored risk register.
+ * Each version is hashed; a submitted version is signed off by the DPO, and approvals are
+ * anchored with the final hash of the version and the sign-off.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ConsentStatus,
+  DataProtectionImpactAssessment,
+  DpiaRequest,
+  DpiaRisk,
+  DpiaRiskInput,
+  DpiaSignOffRequest,
+  DpiaStatus,
+  DpiaVersion,
+  DpoDesignation,
+  HighRiskPurpose,
+  RiskLevel
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { purposeService } from './purposeService';
+import { hash, generatePurposeHash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const DPIA_COLUMNS = `
+  d.dpia_id, d.controller_hash, d.purpose, d.purpose_hash, d.status, d.created_at, d.withdrawn_at,
+  v.version, v.questionnaire, v.risks, v.content_hash, v.created_by, v.created_at AS version_created_at,
+  v.submitted_by, v.submitted_at, v.decision, v.dpo_name, v.dpo_opinion, v.signed_off_by, v.signed_off_at,
+  v.final_hash, v.hgtp_tx_hash, v.anchoring_timestamp
+`;
+
+// Special categories (Art. 9) and criminal offence data (Art. 10), as data category names
+const SPECIAL_CATEGORIES = [
+  'racial_or_ethnic_origin', 'ethnic_origin', 'political_opinions', 'religious_beliefs', 'philosophical_beliefs',
+  'trade_union_membership', 'genetic', 'biometric', 'health', 'sex_life', 'sexual_orientation', 'criminal_convictions'
+];
+
+// Consents whose purpose is still being processed
+const IN_USE_STATUSES: string[] = [
+  ConsentStatus.GRANTED,
+  ConsentStatus.PENDING,
+  ConsentStatus.RESTRICTED,
+  ConsentStatus.OBJECTED
+];
+
+type DpiaContent = Omit<DpiaRequest, 'purpose' | 'controllerHash'>;
+
+export interface DpiaListFilter {
+  controllerHash?: string | null;
+  purposeHash?: string;
+  status?: DpiaStatus;
+}
+
+function riskLevel(score: number): RiskLevel {
+  if (score <= 4) {
+    return RiskLevel.LOW;
+  }
+  return score <= 12 ? RiskLevel.MEDIUM : RiskLevel.HIGH;
+}
+
+function isSpecialCategory(category: string): boolean {
+  return SPECIAL_CATEGORIES.includes(category.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+}
+
+/**
+ * Score a risk register entry; residual scores are only set when both residual values are
+ */
+function scoreRisk(input: DpiaRiskInput): DpiaRisk {
+  const score = input.likelihood * input.severity;
+  const risk: DpiaRisk = {
+    riskId: input.riskId || randomUUID(),
+    description: input.description,
+    likelihood: input.likelihood,
+    severity: input.severity,
+    score,
+    level: riskLevel(score),
+    mitigations: input.mitigations
+  };
+
+  if (input.residualLikelihood !== undefined && input.residualSeverity !== undefined) {
+    risk.residualLikelihood = input.residualLikelihood;
+    risk.residualSeverity = input.residualSeverity;
+    risk.residualScore = input.residualLikelihood * input.residualSeverity;
+    risk.residualLevel = riskLevel(risk.residualScore);
+  }
+
+  return risk;
+}
+
+class DpiaService {
+
+  /**
+   * Start a DPIA for a controller's purpose (version 1, draft)
+   */
+  async createAssessment(request: DpiaRequest, controllerHash: string, createdBy: string): Promise<DataProtectionImpactAssessment> {
+    const purposeHash = generatePurposeHash(request.purpose);
+
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const existing = await databaseService.query(
+      `SELECT dpia_id FROM dpias
+       WHERE controller_hash = $1 AND purpose_hash = $2 AND status <> 'withdrawn'`,
+      [controllerHash, purposeHash]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError('This purpose already has a DPIA; publish a new version instead');
+    }
+
+    const dpiaId = randomUUID();
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO dpias (dpia_id, controller_hash, purpose, purpose_hash, current_version, status)
+         VALUES ($1, $2, $3, $4, 1, 'draft')`,
+        [dpiaId, controllerHash, request.purpose, purposeHash]
+      );
+      await this.insertVersion(client, dpiaId, 1, controllerHash, purposeHash, request, createdBy);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('DPIA started', { dpiaId, controllerHash, purposeHash });
+
+    return (await this.getAssessment(dpiaId))!;
+  }
+
+  /**
+   * Publish a new draft version. Changing an approved DPIA puts it back to draft, so the
+   * purpose needs a new sign-off. Pass controllerHash null for admins.
+   */
+  async updateAssessment(
+    dpiaId: string,
+    request: DpiaContent,
+    controllerHash: string | null,
+    createdBy: string
+  ): Promise<DataProtectionImpactAssessment> {
+    const current = await this.getOwnedAssessment(dpiaId, controllerHash);
+
+    if (current.status === DpiaStatus.WITHDRAWN) {
+      throw new ConflictError('Withdrawn DPIAs cannot be changed');
+    }
+
+    const version = current.version + 1;
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await this.insertVersion(client, dpiaId, version, current.controllerHash, current.purposeHash, request, createdBy);
+      await client.query(
+        `UPDATE dpias SET current_version = $1, status = 'draft' WHERE dpia_id = $2`,
+        [version, dpiaId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('DPIA versioned', { dpiaId, version });
+
+    return (await this.getAssessment(dpiaId))!;
+  }
+
+  /**
+   * Submit the current draft to the DPO for sign-off
+   */
+  async submitAssessment(dpiaId: string, controllerHash: string | null, submittedBy: string): Promise<DataProtectionImpactAssessment> {
+    const current = await this.getOwnedAssessment(dpiaId, controllerHash);
+
+    if (current.status !== DpiaStatus.DRAFT) {
+      throw new ConflictError(`Only draft DPIAs can be submitted; this one is ${current.status}`);
+    }
+
+    await databaseService.query(
+      `UPDATE dpia_versions SET submitted_by = $1, submitted_at = NOW() WHERE dpia_id = $2 AND version = $3`,
+      [submittedBy, dpiaId, current.version]
+    );
+    await databaseService.query(
+      `UPDATE dpias SET status = 'submitted' WHERE dpia_id = $1`,
+      [dpiaId]
+    );
+
+    logger.info('DPIA submitted for sign-off', { dpiaId, version: current.version });
+
+    return (await this.getAssessment(dpiaId))!;
+  }
+
+  /**
+   * Designate a controller's DPO. The DPO must hold a controller account of the same organization,
+   * since sign-off goes through the controller routes.
+   */
+  async designateDpo(controllerHash: string, userId: string, designatedBy: string): Promise<DpoDesignation> {
+    const controllerResult = await databaseService.query(
+      'SELECT organization_id FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const accountResult = await databaseService.query(
+      `SELECT 1 FROM auth_credentials WHERE user_id = $1 AND role = 'controller' AND organization_id = $2`,
+      [userId, controllerResult.rows[0].organization_id]
+    );
+    if (accountResult.rows.length === 0) {
+      throw new ValidationError('The DPO must have a controller account of the same organization');
+    }
+
+    await databaseService.query(
+      `UPDATE controllers SET dpo_user_id = $1, dpo_designated_by = $2, dpo_designated_at = NOW(), updated_at = NOW()
+       WHERE controller_hash = $3`,
+      [userId, designatedBy, controllerHash]
+    );
+
+    await databaseService.query(
+      `INSERT INTO audit_logs (user_id, controller_hash, action, details, timestamp)
+       VALUES ($1, $2, $3, $4, NOW())`,
+      [designatedBy, controllerHash, 'dpo_designated', JSON.stringify({ dpoUserId: userId })]
+    ).catch((error: any) => logger.error('Failed to audit DPO designation', { controllerHash, error: error.message }));
+
+    logger.info('DPO designated', { controllerHash, dpoUserId: userId, designatedBy });
+
+    return (await this.getDpoDesignation(controllerHash))!;
+  }
+
+  async getDpoDesignation(controllerHash: string): Promise<DpoDesignation | null> {
+    const result = await databaseService.query(
+      `SELECT controller_hash, dpo_user_id, dpo_designated_by, dpo_designated_at
+       FROM controllers WHERE controller_hash = $1 AND dpo_user_id IS NOT NULL`,
+      [controllerHash]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      controllerHash: row.controller_hash,
+      dpoUserId: row.dpo_user_id,
+      designatedBy: row.dpo_designated_by,
+      designatedAt: new Date(row.dpo_designated_at).getTime()
+    };
+  }
+
+  /**
+   * Record the DPO's decision on the submitted version. Only the controller's designated DPO can
+   * decide, and not on a version they submitted. Approvals are anchored first; if anchoring fails
+   * the DPIA stays submitted.
+   */
+  async signOff(
+    dpiaId: string,
+    request: DpiaSignOffRequest,
+    controllerHash: string | null,
+    signedOffBy: string
+  ): Promise<DataProtectionImpactAssessment> {
+    const current = await this.getOwnedAssessment(dpiaId, controllerHash);
+
+    if (current.status !== DpiaStatus.SUBMITTED) {
+      throw new ConflictError(`Only submitted DPIAs can be signed off; this one is ${current.status}`);
+    }
+    const dpo = await this.getDpoDesignation(current.controllerHash);
+    if (!dpo) {
+      throw new ConflictError('The controller has no designated DPO to sign off DPIAs');
+    }
+    if (dpo.dpoUserId !== signedOffBy) {
+      throw new ForbiddenError('Only the designated DPO can sign off DPIAs');
+    }
+    if (current.submittedBy === signedOffBy) {
+      throw new ForbiddenError('The DPO sign-off must come from someone other than the submitter');
+    }
+
+    const signedOffAt = Date.now();
+    const finalHash = hash(JSON.stringify({
+      dpiaId,
+      version: current.version,
+      contentHash: current.contentHash,
+      decision: request.decision,
+      dpoName: request.dpoName,
+      opinion: request.opinion,
+      signedOffBy,
+      signedOffAt
+    }));
+
+    const anchor = request.decision === DpiaStatus.APPROVED
+      ? await blockchainService.anchorComplianceRecord('dpia', dpiaId, finalHash, {
+        version: current.version,
+        controllerHash: current.controllerHash,
+        purposeHash: current.purposeHash
+      })
+      : null;
+
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE dpia_versions
+         SET decision = $1, dpo_name = $2, dpo_opinion = $3, signed_off_by = $4, signed_off_at = $5,
+             final_hash = $6, hgtp_tx_hash = $7, anchoring_timestamp = $8
+         WHERE dpia_id = $9 AND version = $10`,
+        [
+          request.decision,
+          request.dpoName,
+          request.opinion,
+          signedOffBy,
+          new Date(signedOffAt).toISOString(),
+          finalHash,
+          anchor?.transactionHash ?? null,
+          anchor ? new Date(anchor.anchoringTimestamp).toISOString() : null,
+          dpiaId,
+          current.version
+        ]
+      );
+      // The status check guards against a new version published while anchoring
+      const updated = await client.query(
+        `UPDATE dpias SET status = $1 WHERE dpia_id = $2 AND status = 'submitted' AND current_version = $3`,
+        [request.decision, dpiaId, current.version]
+      );
+      if (updated.rowCount === 0) {
+        throw new ConflictError('The DPIA changed during sign-off; review the new version');
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('DPIA signed off', { dpiaId, version: current.version, decision: request.decision });
+
+    return (await this.getAssessment(dpiaId))!;
+  }
+
+  /**
+   * Withdraw a DPIA, e.g. when the processing is dropped. Its versions are kept.
+   */
+  async withdrawAssessment(dpiaId: string, controllerHash: string | null): Promise<DataProtectionImpactAssessment> {
+    const current = await this.getOwnedAssessment(dpiaId, controllerHash);
+
+    if (current.status === DpiaStatus.WITHDRAWN) {
+      return current;
+    }
+
+    await databaseService.query(
+      `UPDATE dpias SET status = 'withdrawn', withdrawn_at = NOW() WHERE dpia_id = $1`,
+      [dpiaId]
+    );
+
+    logger.info('DPIA withdrawn', { dpiaId });
+
+    return (await this.getAssessment(dpiaId))!;
+  }
+
+  /**
+   * Get a DPIA at its current version, optionally with all versions
+   */
+  async getAssessment(dpiaId: string, includeVersions: boolean = false): Promise<DataProtectionImpactAssessment | null> {
+    const result = await databaseService.query(
+      `SELECT ${DPIA_COLUMNS}
+       FROM dpias d
+       JOIN dpia_versions v ON v.dpia_id = d.dpia_id AND v.version = d.current_version
+       WHERE d.dpia_id = $1`,
+      [dpiaId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const assessment = this.mapAssessment(result.rows[0]);
+
+    if (includeVersions) {
+      const versionsResult = await databaseService.query(
+        `SELECT v.*, v.created_at AS version_created_at
+         FROM dpia_versions v WHERE v.dpia_id = $1 ORDER BY v.version ASC`,
+        [dpiaId]
+      );
+      assessment.versions = versionsResult.rows.map((row: any) => this.mapVersion(row));
+    }
+
+    return assessment;
+  }
+
+  /**
+   * List DPIAs at their current version, newest first
+   */
+  async listAssessments(filter: DpiaListFilter): Promise<DataProtectionImpactAssessment[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`d.controller_hash = $${params.length}`);
+    }
+    if (filter.purposeHash) {
+      params.push(filter.purposeHash);
+      conditions.push(`d.purpose_hash = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`d.status = $${params.length}`);
+    }
+
+    const result = await databaseService.query(
+      `SELECT ${DPIA_COLUMNS}
+       FROM dpias d
+       JOIN dpia_versions v ON v.dpia_id = d.dpia_id AND v.version = d.current_version
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY d.created_at DESC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapAssessment(row));
+  }
+
+  /**
+   * Purposes in use that involve special-category data (in the purpose's default categories
+   * or in live consents) or large-scale profiling, and have no approved DPIA
+   */
+  async findHighRiskPurposesWithoutDpia(controllerHash: string): Promise<HighRiskPurpose[]> {
+    const [purposes, usageResult, approvedResult] = await Promise.all([
+      purposeService.listPurposes(controllerHash),
+      databaseService.query(
+        `SELECT c.purpose_hash, ARRAY_REMOVE(ARRAY_AGG(DISTINCT category), NULL) AS data_categories
+         FROM consents c
+         LEFT JOIN LATERAL UNNEST(c.data_categories) AS category ON TRUE
+         WHERE c.controller_hash = $1 AND c.status = ANY($2)
+         GROUP BY c.purpose_hash`,
+        [controllerHash, IN_USE_STATUSES]
+      ),
+      databaseService.query(
+        `SELECT purpose_hash FROM dpias WHERE controller_hash = $1 AND status = 'approved'`,
+        [controllerHash]
+      )
+    ]);
+
+    const approved = new Set<string>(approvedResult.rows.map((row: any) => row.purpose_hash));
+    const candidates = new Map<string, HighRiskPurpose>();
+
+    const consider = (purposeHash: string, categories: string[], largeScaleProfiling: boolean, purpose?: string) => {
+      const entry = candidates.get(purposeHash) || { purposeHash, purpose, specialCategories: [], largeScaleProfiling: false };
+      entry.purpose = entry.purpose || purpose;
+      entry.largeScaleProfiling = entry.largeScaleProfiling || largeScaleProfiling;
+      for (const category of categories.filter(isSpecialCategory)) {
+        if (!entry.specialCategories.includes(category)) {
+          entry.specialCategories.push(category);
+        }
+      }
+      candidates.set(purposeHash, entry);
+    };
+
+    for (const purpose of purposes) {
+      consider(purpose.purposeHash, purpose.defaultDataCategories, purpose.largeScaleProfiling ?? false, purpose.name);
+    }
+    for (const row of usageResult.rows) {
+      consider(row.purpose_hash, row.data_categories || [], false);
+    }
+
+    const highRisk = Array.from(candidates.values()).filter(entry =>
+      (entry.specialCategories.length > 0 || entry.largeScaleProfiling) && !approved.has(entry.purposeHash)
+    );
+
+    // Consents may use purposes that were never registered; name them where a retired registration exists
+    const unnamed = highRisk.filter(entry => !entry.purpose).map(entry => entry.purposeHash);
+    const names = await purposeService.resolvePurposeNames(unnamed, controllerHash);
+    for (const entry of highRisk) {
+      entry.purpose = entry.purpose || names.get(entry.purposeHash);
+    }
+
+    return highRisk;
+  }
+
+  /**
+   * Score the risks, hash the version and store it
+   */
+  private async insertVersion(
+    client: any,
+    dpiaId: string,
+    version: number,
+    controllerHash: string,
+    purposeHash: string,
+    content: DpiaContent,
+    createdBy: string
+  ): Promise<void> {
+    const risks = content.risks.map(scoreRisk);
+    const contentHash = hash(JSON.stringify({
+      dpiaId,
+      version,
+      controllerHash,
+      purposeHash,
+      questionnaire: content.questionnaire,
+      risks
+    }));
+
+    await client.query(
+      `INSERT INTO dpia_versions (dpia_id, version, questionnaire, risks, content_hash, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [dpiaId, version, JSON.stringify(content.questionnaire), JSON.stringify(risks), contentHash, createdBy]
+    );
+  }
+
+  private async getOwnedAssessment(dpiaId: string, controllerHash: string | null): Promise<DataProtectionImpactAssessment> {
+    const assessment = await this.getAssessment(dpiaId);
+
+    if (!assessment) {
+      throw new NotFoundError('DPIA not found');
+    }
+    if (controllerHash && assessment.controllerHash !== controllerHash) {
+      throw new ForbiddenError('DPIA belongs to another controller');
+    }
+
+    return assessment;
+  }
+
+  private mapVersion(row: any): DpiaVersion {
+    const risks: DpiaRisk[] = row.risks || [];
+    const levels = risks.map(risk => risk.residualLevel ?? risk.level);
+    const highestResidualLevel = [RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW].find(level => levels.includes(level));
+
+    return {
+      version: row.version,
+      questionnaire: row.questionnaire,
+      risks,
+      contentHash: row.content_hash,
+      highestResidualLevel,
+      priorConsultationRequired: highestResidualLevel === RiskLevel.HIGH,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.version_created_at).getTime(),
+      submittedBy: row.submitted_by ?? undefined,
+      submittedAt: row.submitted_at ? new Date(row.submitted_at).getTime() : undefined,
+      signOff: row.decision ? {
+        decision: row.decision,
+        dpoName: row.dpo_name,
+        opinion: row.dpo_opinion,
+        signedOffBy: row.signed_off_by,
+        signedOffAt: new Date(row.signed_off_at).getTime(),
+        finalHash: row.final_hash,
+        hgtpTxHash: row.hgtp_tx_hash ?? undefined,
+        anchoringTimestamp: row.anchoring_timestamp ? new Date(row.anchoring_timestamp).getTime() : undefined
+      } : undefined
+    };
+  }
+
+  private mapAssessment(row: any): DataProtectionImpactAssessment {
+    return {
+      dpiaId: row.dpia_id,
+      controllerHash: row.controller_hash,
+      purpose: row.purpose,
+      purposeHash: row.purpose_hash,
+      status: row.status as DpiaStatus,
+      registeredAt: new Date(row.created_at).getTime(),
+      withdrawnAt: row.withdrawn_at ? new Date(row.withdrawn_at).getTime() : undefined,
+      ...this.mapVersion(row)
+    };
+  }
+}
+
+export const dpiaService = new DpiaService();
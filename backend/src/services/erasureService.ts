@@ -0,0 +1,303 @@
+/**
+ * Erasure Service (GDPR Art. 17)
+ * Erases a data subject: credentials are deleted, their data key is destroyed so encrypted
+ * personal fields become unreadable, and their identifier is replaced by a tombstone in every
+ * retained record. Consent IDs and anchors are kept, so the evidence chain still verifies.
+ */
+
+import crypto, { randomUUID } from 'crypto';
+import {
+  ConsentEventType,
+  ConsentStatus,
+  ErasureRecord,
+  GuardianshipStatus,
+  WebhookEventType
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { pgConsentService } from './pgConsentService';
+import { userKeyService } from './userKeyService';
+import { webhookService } from './webhookService';
+import { hash } from '../utils/crypto';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Consents that still allow processing; erasure revokes them
+const LIVE_STATUSES: string[] = [
+  ConsentStatus.GRANTED,
+  ConsentStatus.PENDING,
+  ConsentStatus.RESTRICTED,
+  ConsentStatus.OBJECTED
+];
+
+class ErasureService {
+
+  /**
+   * Erase a user account and everything that identifies the person behind it.
+   * The erasure is anchored before anything is changed; if anchoring fails nothing is erased.
+   */
+  async eraseUser(userId: string): Promise<ErasureRecord> {
+    const erasureId = randomUUID();
+    const tombstoneId = `erased_${crypto.randomBytes(16).toString('hex')}`;
+    const erasedAt = Date.now();
+
+    const client = await databaseService.poolConnection.connect();
+    let record: ErasureRecord;
+    let revokedConsents: any[];
+
+    try {
+      await client.query('BEGIN');
+
+      const userResult = await client.query(
+        `SELECT u.id, a.role FROM users u
+         LEFT JOIN auth_credentials a ON a.user_id = u.id
+         WHERE u.id = $1
+         FOR UPDATE OF u`,
+        [userId]
+      );
+      if (userResult.rows.length === 0) {
+        throw new NotFoundError('User not found');
+      }
+      if (userResult.rows[0].role && userResult.rows[0].role !== 'user') {
+        throw new ForbiddenError('Only data subject accounts can be erased; organization accounts are closed by an administrator');
+      }
+
+      const consentResult = await client.query(
+        `SELECT consent_id, user_id, controller_hash, purpose_hash, status, data_categories, expires_at
+         FROM consents WHERE user_id = $1
+         ORDER BY consent_id
+         FOR UPDATE`,
+        [userId]
+      );
+      const consents = consentResult.rows;
+      revokedConsents = consents.filter((c: any) => LIVE_STATUSES.includes(c.status));
+
+      const revokedConsentIds = revokedConsents.map((c: any) => c.consent_id);
+      const contentHash = hash(JSON.stringify({
+        erasureId,
+        tombstoneId,
+        consentIds: consents.map((c: any) => c.consent_id),
+        revokedConsentIds,
+        erasedAt
+      }));
+
+      const anchor = await blockchainService.anchorComplianceRecord('erasure', erasureId, contentHash, {
+        tombstoneId,
+        consentCount: consents.length,
+        revokedCount: revokedConsentIds.length
+      });
+
+      await client.query(
+        `INSERT INTO users (id, email_hash, public_key, did, created_at, updated_at)
+         VALUES ($1, $1, '', $2, NOW(), NOW())`,
+        [tombstoneId, `did:consentire:${tombstoneId}`]
+      );
+
+      await client.query(
+        `UPDATE consents
+         SET user_id = $2,
+             status = CASE WHEN status = ANY($3) THEN 'revoked' ELSE status END,
+             hgtp_tx_hash = CASE WHEN status = ANY($3) THEN $4 ELSE hgtp_tx_hash END,
+             anchoring_timestamp = CASE WHEN status = ANY($3) THEN $5 ELSE anchoring_timestamp END,
+             updated_at = $6
+         WHERE user_id = $1`,
+        [
+          userId,
+          tombstoneId,
+          LIVE_STATUSES,
+          anchor.transactionHash,
+          new Date(anchor.anchoringTimestamp).toISOString(),
+          new Date(erasedAt).toISOString()
+        ]
+      );
+
+      for (const consent of consents) {
+        const revoked = revokedConsentIds.includes(consent.consent_id);
+        await pgConsentService.recordConsentEvent({
+          consentId: consent.consent_id,
+          eventType: ConsentEventType.ERASED,
+          status: revoked ? ConsentStatus.REVOKED : consent.status as ConsentStatus,
+          dataCategories: consent.data_categories || [],
+          expiresAt: consent.expires_at,
+          details: { erasureId, tombstoneId, previousStatus: consent.status },
+          anchor,
+          occurredAt: erasedAt
+        }, client);
+      }
+
+      // Lets replaceIdentifier rewrite event details; the trigger logs each change under this erasure
+      await client.query("SELECT set_config('consentire.consent_event_mutation', $1, true)", [`erasure:${erasureId}`]);
+      await this.replaceIdentifier(client, userId, tombstoneId);
+      await userKeyService.destroyKey(userId, tombstoneId, client);
+
+      await client.query(
+        `INSERT INTO erasure_records (
+          erasure_id, tombstone_id, consent_count, revoked_consent_ids, content_hash,
+          hgtp_tx_hash, anchoring_timestamp, erased_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          erasureId,
+          tombstoneId,
+          consents.length,
+          revokedConsentIds,
+          contentHash,
+          anchor.transactionHash,
+          new Date(anchor.anchoringTimestamp).toISOString(),
+          new Date(erasedAt).toISOString()
+        ]
+      );
+
+      await client.query('DELETE FROM auth_credentials WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM signature_nonces WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM users WHERE id = $1', [userId]);
+
+      await client.query('COMMIT');
+
+      record = {
+        erasureId,
+        tombstoneId,
+        consentCount: consents.length,
+        revokedConsentIds,
+        contentHash,
+        hgtpTxHash: anchor.transactionHash,
+        anchoringTimestamp: anchor.anchoringTimestamp,
+        erasedAt
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await databaseService.query(
+      `INSERT INTO audit_logs (user_id, action, details, hgtp_tx_hash, timestamp)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        tombstoneId,
+        'user_erased',
+        JSON.stringify({
+          erasureId,
+          consentCount: record.consentCount,
+          revokedCount: record.revokedConsentIds.length
+        }),
+        record.hgtpTxHash,
+        new Date(erasedAt).toISOString()
+      ]
+    ).catch((error: any) => logger.error('Failed to audit erasure', { erasureId, error: error.message }));
+
+    // Controllers must stop processing the revoked consents; they only ever see the tombstone
+    for (const consent of revokedConsents) {
+      await webhookService.emit(WebhookEventType.CONSENT_REVOKED, {
+        consentId: consent.consent_id,
+        controllerHash: consent.controller_hash,
+        userId: tombstoneId,
+        purposeHash: consent.purpose_hash,
+        status: ConsentStatus.REVOKED,
+        dataCategories: consent.data_categories || [],
+        hgtpTxHash: record.hgtpTxHash,
+        occurredAt: erasedAt
+      }).catch((error: any) =>
+        logger.error('Failed to queue erasure webhook', { consentId: consent.consent_id, error: error.message })
+      );
+    }
+
+    logger.info('User erased', { erasureId, consentCount: record.consentCount, hgtpTxHash: record.hgtpTxHash });
+
+    return record;
+  }
+
+  /**
+   * Get an erasure record, e.g. to check its anchor
+   */
+  async getErasure(erasureId: string): Promise<ErasureRecord | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM erasure_records WHERE erasure_id = $1',
+      [erasureId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      erasureId: row.erasure_id,
+      tombstoneId: row.tombstone_id,
+      consentCount: row.consent_count,
+      revokedConsentIds: row.revoked_consent_ids || [],
+      contentHash: row.content_hash,
+      hgtpTxHash: row.hgtp_tx_hash,
+      anchoringTimestamp: new Date(row.anchoring_timestamp).getTime(),
+      erasedAt: new Date(row.erased_at).getTime()
+    };
+  }
+
+  /**
+   * Swap the user's ID for the tombstone everywhere it is retained, end their guardianships,
+   * and drop plaintext personal fields written before per-user encryption
+   */
+  private async replaceIdentifier(client: any, userId: string, tombstoneId: string): Promise<void> {
+    await client.query('UPDATE consents SET guardian_id = $2 WHERE guardian_id = $1', [userId, tombstoneId]);
+
+    await client.query(
+      `UPDATE guardianships
+       SET guardian_id = CASE WHEN guardian_id = $1 THEN $2 ELSE guardian_id END,
+           minor_id = CASE WHEN minor_id = $1 THEN $2 ELSE minor_id END,
+           status = $3,
+           ended_at = COALESCE(ended_at, NOW())
+       WHERE guardian_id = $1 OR minor_id = $1`,
+      [userId, tombstoneId, GuardianshipStatus.ENDED]
+    );
+    await client.query('UPDATE guardianships SET created_by = $2 WHERE created_by = $1', [userId, tombstoneId]);
+    await client.query('UPDATE guardianships SET verified_by = $2 WHERE verified_by = $1', [userId, tombstoneId]);
+
+    await client.query(
+      `DELETE FROM consent_receipts WHERE user_id = $1 AND jws NOT LIKE 'enc:v1:%'`,
+      [userId]
+    );
+    await client.query('UPDATE consent_receipts SET user_id = $2 WHERE user_id = $1', [userId, tombstoneId]);
+
+    await client.query(
+      `UPDATE processing_rights_requests
+       SET user_id = $2,
+           reason = CASE WHEN reason LIKE 'enc:v1:%' THEN reason ELSE '' END,
+           resolution_note = CASE WHEN resolution_note LIKE 'enc:v1:%' THEN resolution_note ELSE NULL END
+       WHERE user_id = $1`,
+      [userId, tombstoneId]
+    );
+    await client.query('UPDATE processing_rights_requests SET resolved_by = $2 WHERE resolved_by = $1', [userId, tombstoneId]);
+
+    // IDs are hex hashes, so a textual replace inside JSON details is exact
+    await client.query(
+      `UPDATE audit_logs
+       SET user_id = CASE WHEN user_id = $1 THEN $2 ELSE user_id END,
+           details = REPLACE(details::text, $1, $2)::jsonb
+       WHERE user_id = $1 OR details::text LIKE '%' || $1 || '%'`,
+      [userId, tombstoneId]
+    );
+    await client.query(
+      `UPDATE consent_events
+       SET details = REPLACE(details::text, $1, $2)::jsonb
+       WHERE details::text LIKE '%' || $1 || '%'`,
+      [userId, tombstoneId]
+    );
+    // Logged and replayed webhook payloads carry the user ID of earlier consent events
+    await client.query(
+      `UPDATE webhook_deliveries
+       SET payload = REPLACE(payload::text, $1, $2)::jsonb
+       WHERE payload::text LIKE '%' || $1 || '%'`,
+      [userId, tombstoneId]
+    );
+
+    await client.query('UPDATE breach_affected_subjects SET user_id = $2 WHERE user_id = $1', [userId, tombstoneId]);
+    await client.query('UPDATE violations SET assignee_id = NULL WHERE assignee_id = $1', [userId]);
+    await client.query('UPDATE violations SET created_by = $2 WHERE created_by = $1', [userId, tombstoneId]);
+    await client.query('UPDATE violation_comments SET author_id = $2 WHERE author_id = $1', [userId, tombstoneId]);
+
+    await client.query('UPDATE votes SET voter = $2 WHERE voter = $1', [userId, tombstoneId]);
+    await client.query('DELETE FROM idempotency_keys WHERE actor_id = $1', [userId]);
+  }
+}
+
+export const erasureService = new ErasureService();
@@ -0,0 +1,355 @@
+/**
+ * Guardian Service
+ * Digital age of consent per member state (GDPR Art. 8) and guardian-minor relationships
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  AgeProfile,
+  AgeProfileRequest,
+  Guardianship,
+  GuardianshipOverview,
+  GuardianshipRequest,
+  GuardianshipStatus,
+  GuardianRelationship,
+  LegalBasis
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Art. 8(1): 16 unless the member state lowers it, but not below 13
+const DEFAULT_DIGITAL_CONSENT_AGE = 16;
+const MIN_DIGITAL_CONSENT_AGE = 13;
+const MAX_DIGITAL_CONSENT_AGE = 16;
+
+// Ages set by EU/EEA member states; DIGITAL_CONSENT_AGE_OVERRIDES (e.g. "FR:15,BE:13") takes precedence
+const MEMBER_STATE_DIGITAL_CONSENT_AGES: Record<string, number> = {
+  AT: 14, BE: 13, BG: 14, CY: 14, CZ: 15, DE: 16, DK: 13, EE: 13, ES: 14, FI: 13,
+  FR: 15, GR: 15, HR: 16, HU: 16, IE: 16, IS: 13, IT: 14, LI: 16, LT: 14, LU: 16,
+  LV: 13, MT: 13, NL: 16, NO: 13, PL: 16, PT: 13, RO: 16, SE: 13, SI: 15, SK: 16
+};
+
+export interface ConsentSigner {
+  signerId: string;              // User whose key must have signed
+  guardianId?: string;           // Set when a guardian signs for a minor
+  guardianConsentUntil?: Date;   // When the minor reaches the digital age of consent
+}
+
+export interface GuardianshipActor {
+  userId: string;
+  role: string;
+}
+
+class GuardianService {
+  private consentAges: Record<string, number>;
+  private defaultConsentAge: number;
+
+  constructor() {
+    this.defaultConsentAge = this.parseConsentAge(process.env.DIGITAL_CONSENT_AGE_DEFAULT) ?? DEFAULT_DIGITAL_CONSENT_AGE;
+    this.consentAges = { ...MEMBER_STATE_DIGITAL_CONSENT_AGES };
+
+    for (const entry of (process.env.DIGITAL_CONSENT_AGE_OVERRIDES || '').split(',')) {
+      if (!entry.trim()) {
+        continue;
+      }
+
+      const [state, age] = entry.split(':').map(part => part.trim());
+      const parsed = this.parseConsentAge(age);
+      if (!/^[A-Za-z]{2}$/.test(state || '') || parsed === undefined) {
+        logger.warn('Ignoring invalid digital consent age override', { entry });
+        continue;
+      }
+      this.consentAges[state.toUpperCase()] = parsed;
+    }
+  }
+
+  /**
+   * Digital age of consent for a member state (the default when unknown)
+   */
+  getDigitalConsentAge(memberState?: string): number {
+    return (memberState && this.consentAges[memberState.toUpperCase()]) || this.defaultConsentAge;
+  }
+
+  /**
+   * A user's age profile. Users without a date of birth are not minors, but cannot consent
+   * (see resolveConsentSigner) until their age is known.
+   */
+  async getAgeProfile(userId: string): Promise<AgeProfile> {
+    const result = await databaseService.query(
+      `SELECT to_char(date_of_birth, 'YYYY-MM-DD') AS date_of_birth, member_state
+       FROM users WHERE id = $1`,
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    return this.buildAgeProfile(result.rows[0].date_of_birth, result.rows[0].member_state);
+  }
+
+  /**
+   * Record a user's date of birth and member state. Once set, both can only be corrected by an
+   * administrator, so minors cannot age themselves up or move to a state with a lower age.
+   */
+  async setAgeProfile(userId: string, request: AgeProfileRequest, isAdmin: boolean): Promise<AgeProfile> {
+    const current = await this.getAgeProfile(userId);
+
+    if (current.dateOfBirth && current.dateOfBirth !== request.dateOfBirth && !isAdmin) {
+      throw new ForbiddenError('Date of birth can only be corrected by an administrator');
+    }
+    if (current.memberState && current.memberState !== request.memberState.toUpperCase() && !isAdmin) {
+      throw new ForbiddenError('Member state can only be corrected by an administrator');
+    }
+
+    await databaseService.query(
+      'UPDATE users SET date_of_birth = $1, member_state = $2, updated_at = NOW() WHERE id = $3',
+      [request.dateOfBirth, request.memberState.toUpperCase(), userId]
+    );
+
+    logger.info('Age profile updated', { userId, memberState: request.memberState });
+
+    return this.getAgeProfile(userId);
+  }
+
+  /**
+   * A user's age profile with their guardians and wards
+   */
+  async getOverview(userId: string): Promise<GuardianshipOverview> {
+    const ageProfile = await this.getAgeProfile(userId);
+    const result = await databaseService.query(
+      `SELECT * FROM guardianships
+       WHERE (guardian_id = $1 OR minor_id = $1) AND status <> 'ended'
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+    const guardianships = result.rows.map((row: any) => this.mapGuardianship(row));
+
+    return {
+      ageProfile,
+      guardians: guardianships.filter((guardianship: Guardianship) => guardianship.minorId === userId),
+      wards: guardianships.filter((guardianship: Guardianship) => guardianship.guardianId === userId)
+    };
+  }
+
+  /**
+   * List guardianships by status (admins reviewing declarations)
+   */
+  async listGuardianships(status: GuardianshipStatus): Promise<Guardianship[]> {
+    const result = await databaseService.query(
+      'SELECT * FROM guardianships WHERE status = $1 ORDER BY created_at ASC',
+      [status]
+    );
+
+    return result.rows.map((row: any) => this.mapGuardianship(row));
+  }
+
+  /**
+   * Declare a guardianship. Users declare themselves as guardian and stay pending until an
+   * administrator verifies them; guardianships created by administrators are active at once.
+   */
+  async declareGuardianship(request: GuardianshipRequest, actor: GuardianshipActor): Promise<Guardianship> {
+    const isAdmin = actor.role === 'admin';
+    const guardianId = isAdmin ? request.guardianId : actor.userId;
+
+    if (!guardianId) {
+      throw new ValidationError('guardianId is required when an administrator declares a guardianship');
+    }
+    if (!isAdmin && request.guardianId && request.guardianId !== actor.userId) {
+      throw new ForbiddenError('Users can only declare themselves as guardian');
+    }
+    if (guardianId === request.minorId) {
+      throw new ValidationError('A user cannot be their own guardian');
+    }
+
+    const guardianProfile = await this.getAgeProfile(guardianId);
+    if (guardianProfile.isMinor) {
+      throw new ValidationError('A minor cannot act as guardian');
+    }
+
+    const minorProfile = await this.getAgeProfile(request.minorId);
+    if (!minorProfile.isMinor) {
+      throw new ValidationError('Guardianships can only be declared for users below the digital age of consent');
+    }
+
+    const existing = await databaseService.query(
+      `SELECT 1 FROM guardianships WHERE guardian_id = $1 AND minor_id = $2 AND status <> 'ended'`,
+      [guardianId, request.minorId]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError('A guardianship between these users already exists');
+    }
+
+    const guardianshipId = randomUUID();
+    const result = await databaseService.query(
+      `INSERT INTO guardianships (
+        guardianship_id, guardian_id, minor_id, relationship, status, created_by, verified_by, verified_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        guardianshipId,
+        guardianId,
+        request.minorId,
+        request.relationship,
+        isAdmin ? GuardianshipStatus.ACTIVE : GuardianshipStatus.PENDING,
+        actor.userId,
+        isAdmin ? actor.userId : null,
+        isAdmin ? new Date().toISOString() : null
+      ]
+    );
+
+    logger.info('Guardianship declared', { guardianshipId, guardianId, minorId: request.minorId, verified: isAdmin });
+
+    return this.mapGuardianship(result.rows[0]);
+  }
+
+  /**
+   * Activate a pending guardianship after the administrator has checked it
+   */
+  async verifyGuardianship(guardianshipId: string, verifiedBy: string): Promise<Guardianship> {
+    const result = await databaseService.query(
+      `UPDATE guardianships SET status = 'active', verified_by = $1, verified_at = NOW()
+       WHERE guardianship_id = $2 AND status = 'pending'
+       RETURNING *`,
+      [verifiedBy, guardianshipId]
+    );
+
+    if (result.rows.length === 0) {
+      await this.getGuardianship(guardianshipId);
+      throw new ConflictError('Only pending guardianships can be verified');
+    }
+
+    logger.info('Guardianship verified', { guardianshipId, verifiedBy });
+
+    return this.mapGuardianship(result.rows[0]);
+  }
+
+  /**
+   * End a guardianship. Consents it signed stay valid until revoked or converted.
+   */
+  async endGuardianship(guardianshipId: string, actor: GuardianshipActor): Promise<Guardianship> {
+    const guardianship = await this.getGuardianship(guardianshipId);
+
+    if (actor.role !== 'admin' && actor.userId !== guardianship.guardianId && actor.userId !== guardianship.minorId) {
+      throw new ForbiddenError('Guardianship belongs to other users');
+    }
+    if (guardianship.status === GuardianshipStatus.ENDED) {
+      return guardianship;
+    }
+
+    const result = await databaseService.query(
+      `UPDATE guardianships SET status = 'ended', ended_at = NOW() WHERE guardianship_id = $1 RETURNING *`,
+      [guardianshipId]
+    );
+
+    logger.info('Guardianship ended', { guardianshipId, endedBy: actor.userId });
+
+    return this.mapGuardianship(result.rows[0]);
+  }
+
+  /**
+   * Decide whose signature a consent action for a data subject needs. Minors need an active
+   * guardian's signature; with `minorMaySign` (withdrawals) the minor may also sign themselves.
+   * Consent under Art. 6(1)(a) (`lawfulBasis` consent) is refused while the subject's age is unknown.
+   */
+  async resolveConsentSigner(
+    subjectId: string,
+    guardianId?: string,
+    options: { minorMaySign?: boolean; lawfulBasis?: string } = {}
+  ): Promise<ConsentSigner> {
+    const profile = await this.getAgeProfile(subjectId).catch((error) => {
+      // Unknown users fail the signature check instead
+      if (error instanceof NotFoundError && !guardianId) {
+        return null;
+      }
+      throw error;
+    });
+
+    if (profile && !profile.dateOfBirth && !options.minorMaySign && options.lawfulBasis === LegalBasis.CONSENT) {
+      throw new ForbiddenError('Record your date of birth and member state before consenting');
+    }
+
+    if (!profile?.isMinor) {
+      if (guardianId) {
+        throw new ValidationError('Guardian signatures are only accepted for users below the digital age of consent');
+      }
+      return { signerId: subjectId };
+    }
+
+    if (!guardianId) {
+      if (options.minorMaySign) {
+        return { signerId: subjectId };
+      }
+      throw new ForbiddenError(
+        `Users under ${profile.digitalConsentAge}${profile.memberState ? ` in ${profile.memberState}` : ''} need a guardian's signature to consent`
+      );
+    }
+
+    const active = await databaseService.query(
+      `SELECT 1 FROM guardianships WHERE guardian_id = $1 AND minor_id = $2 AND status = 'active'`,
+      [guardianId, subjectId]
+    );
+    if (active.rows.length === 0) {
+      throw new ForbiddenError('No active guardianship between the guardian and the data subject');
+    }
+
+    return {
+      signerId: guardianId,
+      guardianId,
+      guardianConsentUntil: new Date(profile.reachesDigitalConsentAgeAt!)
+    };
+  }
+
+  async getGuardianship(guardianshipId: string): Promise<Guardianship> {
+    const result = await databaseService.query(
+      'SELECT * FROM guardianships WHERE guardianship_id = $1',
+      [guardianshipId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Guardianship not found');
+    }
+
+    return this.mapGuardianship(result.rows[0]);
+  }
+
+  private buildAgeProfile(dateOfBirth: string | null, memberState: string | null): AgeProfile {
+    const digitalConsentAge = this.getDigitalConsentAge(memberState || undefined);
+
+    if (!dateOfBirth) {
+      return { memberState: memberState || undefined, digitalConsentAge, isMinor: false };
+    }
+
+    const [year, month, day] = dateOfBirth.split('-').map(Number);
+    const reachesDigitalConsentAgeAt = Date.UTC(year + digitalConsentAge, month - 1, day);
+
+    return {
+      dateOfBirth,
+      memberState: memberState || undefined,
+      digitalConsentAge,
+      isMinor: Date.now() < reachesDigitalConsentAgeAt,
+      reachesDigitalConsentAgeAt
+    };
+  }
+
+  private parseConsentAge(value: string | undefined): number | undefined {
+    const age = parseInt(value || '');
+    return age >= MIN_DIGITAL_CONSENT_AGE && age <= MAX_DIGITAL_CONSENT_AGE ? age : undefined;
+  }
+
+  private mapGuardianship(row: any): Guardianship {
+    return {
+      guardianshipId: row.guardianship_id,
+      guardianId: row.guardian_id,
+      minorId: row.minor_id,
+      relationship: row.relationship as GuardianRelationship,
+      status: row.status as GuardianshipStatus,
+      createdAt: new Date(row.created_at).getTime(),
+      verifiedAt: row.verified_at ? new Date(row.verified_at).getTime() : undefined,
+      endedAt: row.ended_at ? new Date(row.ended_at).getTime() : undefined
+    };
+  }
+}
+
+export const guardianService = new GuardianService();
@@ -0,0 +1,132 @@
+/**
+ * Idempotency Key Service
+ * Remembers the first response to each (caller, Idempotency-Key) pair so retried
+ * mutations are answered from the record instead of running twice
+ */
+
+import { databaseService } from './databaseService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TTL_HOURS = 24;
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000; // a claim left by a crashed request can be retaken after this
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+export interface IdempotentRequest {
+  actorId: string;
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string;
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed' }
+  | { outcome: 'replay'; status: number; body: unknown }
+  | { outcome: 'in_progress' }
+  | { outcome: 'mismatch' };
+
+class IdempotencyService {
+  private ttlHours: number;
+  private lastPurgeAt: number = 0;
+
+  constructor() {
+    this.ttlHours = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '') || DEFAULT_TTL_HOURS;
+  }
+
+  /**
+   * Claim a key for a new request, or report what an earlier request with the same key left behind
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    this.purgeExpired();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const inserted = await databaseService.query(
+        `INSERT INTO idempotency_keys (actor_id, idempotency_key, method, path, request_hash, expires_at)
+         VALUES ($1, $2, $3, $4, $5, NOW() + ($6 || ' hours')::interval)
+         ON CONFLICT (actor_id, idempotency_key) DO NOTHING
+         RETURNING idempotency_key`,
+        [request.actorId, request.key, request.method, request.path, request.requestHash, String(this.ttlHours)]
+      );
+
+      if (inserted.rows.length > 0) {
+        return { outcome: 'claimed' };
+      }
+
+      const existing = await databaseService.query(
+        `SELECT method, path, request_hash, response_status, response_body, created_at,
+                expires_at <= NOW() AS expired
+         FROM idempotency_keys
+         WHERE actor_id = $1 AND idempotency_key = $2`,
+        [request.actorId, request.key]
+      );
+
+      const row = existing.rows[0];
+      if (!row) {
+        continue; // released between the insert and the select
+      }
+
+      const stale = row.response_status === null &&
+        Date.now() - new Date(row.created_at).getTime() > IN_PROGRESS_TIMEOUT_MS;
+
+      if (row.expired || stale) {
+        await this.release(request.actorId, request.key);
+        continue;
+      }
+
+      if (row.method !== request.method || row.path !== request.path || row.request_hash !== request.requestHash) {
+        return { outcome: 'mismatch' };
+      }
+
+      if (row.response_status === null) {
+        return { outcome: 'in_progress' };
+      }
+
+      return { outcome: 'replay', status: row.response_status, body: row.response_body ?? undefined };
+    }
+
+    // Another request keeps taking the key between our insert and select
+    return { outcome: 'in_progress' };
+  }
+
+  /**
+   * Store the response of a claimed request so retries replay it
+   */
+  async complete(actorId: string, key: string, status: number, body: unknown): Promise<void> {
+    await databaseService.query(
+      `UPDATE idempotency_keys
+       SET response_status = $3, response_body = $4, completed_at = NOW()
+       WHERE actor_id = $1 AND idempotency_key = $2`,
+      [actorId, key, status, body === undefined ? null : JSON.stringify(body)]
+    );
+  }
+
+  /**
+   * Drop a claim so the request can be retried (server errors and aborted requests)
+   */
+  async release(actorId: string, key: string): Promise<void> {
+    await databaseService.query(
+      'DELETE FROM idempotency_keys WHERE actor_id = $1 AND idempotency_key = $2',
+      [actorId, key]
+    );
+  }
+
+  /**
+   * Delete expired keys, at most once per minute and without delaying the caller
+   */
+  private purgeExpired(): void {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = Date.now();
+
+    databaseService.query('DELETE FROM idempotency_keys WHERE expires_at <= NOW()')
+      .then((result: any) => {
+        if (result.rowCount > 0) {
+          logger.info('Purged expired idempotency keys', { count: result.rowCount });
+        }
+      })
+      .catch((error: any) => logger.warn('Failed to purge idempotency keys', { error: error.message }));
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,331 @@
+/**
+ * Legitimate Interests Assessment Service
+ * Controllers record the purpose, necessity and balancing tests behind processing under
+ * LEGITIMATE_INTERESTS (GDPR Art. 6(1)(f)); every version is hashed and anchored
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  LegalBasis,
+  LegitimateInterestAssessment,
+  LiaRequest,
+  LiaStatus,
+  LiaVersion
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { hash, generatePurposeHash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const LIA_COLUMNS = `
+  l.lia_id, l.controller_hash, l.purpose, l.purpose_hash, l.status, l.created_at, l.withdrawn_at,
+  v.version, v.purpose_test, v.necessity_test, v.balancing_test, v.safeguards, v.passed,
+  v.review_due_at, v.content_hash, v.hgtp_tx_hash, v.anchoring_timestamp, v.created_by,
+  v.created_at AS version_created_at
+`;
+
+// An LIA covers a consent when it is active, anchored, passed all three tests and is not overdue
+// for review (versions stored unanchored before anchoring was required need a new version)
+const CURRENT_LIA_CONDITION = `
+  l.status = 'active' AND v.hgtp_tx_hash IS NOT NULL AND v.passed
+  AND (v.review_due_at IS NULL OR v.review_due_at > NOW())
+`;
+
+type LiaContent = Omit<LiaRequest, 'purpose' | 'controllerHash'>;
+
+export interface LiaListFilter {
+  controllerHash?: string | null;
+  purposeHash?: string;
+  status?: LiaStatus;
+}
+
+class LiaService {
+
+  /**
+   * Record a new LIA for a controller's purpose (version 1)
+   */
+  async createAssessment(request: LiaRequest, controllerHash: string, createdBy: string): Promise<LegitimateInterestAssessment> {
+    const purposeHash = generatePurposeHash(request.purpose);
+
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const existing = await databaseService.query(
+      `SELECT lia_id FROM legitimate_interest_assessments
+       WHERE controller_hash = $1 AND purpose_hash = $2 AND status = 'active'`,
+      [controllerHash, purposeHash]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError('An active LIA already exists for this purpose; publish a new version instead');
+    }
+
+    const liaId = randomUUID();
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO legitimate_interest_assessments (lia_id, controller_hash, purpose, purpose_hash, current_version, status)
+         VALUES ($1, $2, $3, $4, 1, 'active')`,
+        [liaId, controllerHash, request.purpose, purposeHash]
+      );
+      await this.insertVersion(client, liaId, 1, controllerHash, purposeHash, request, createdBy);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('LIA recorded', { liaId, controllerHash, purposeHash });
+
+    return (await this.getAssessment(liaId))!;
+  }
+
+  /**
+   * Publish a new version of an LIA (the purpose cannot change). Pass controllerHash null for admins.
+   */
+  async updateAssessment(
+    liaId: string,
+    request: LiaContent,
+    controllerHash: string | null,
+    createdBy: string
+  ): Promise<LegitimateInterestAssessment> {
+    const current = await this.getOwnedAssessment(liaId, controllerHash);
+
+    if (current.status === LiaStatus.WITHDRAWN) {
+      throw new ConflictError('Withdrawn LIAs cannot be changed');
+    }
+
+    const version = current.version + 1;
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await this.insertVersion(client, liaId, version, current.controllerHash, current.purposeHash, request, createdBy);
+      await client.query(
+        'UPDATE legitimate_interest_assessments SET current_version = $1 WHERE lia_id = $2',
+        [version, liaId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('LIA versioned', { liaId, version });
+
+    return (await this.getAssessment(liaId))!;
+  }
+
+  /**
+   * Withdraw an LIA. Its versions are kept; the purpose needs a new LIA to be covered again.
+   */
+  async withdrawAssessment(liaId: string, controllerHash: string | null): Promise<LegitimateInterestAssessment> {
+    const current = await this.getOwnedAssessment(liaId, controllerHash);
+
+    if (current.status === LiaStatus.WITHDRAWN) {
+      return current;
+    }
+
+    await databaseService.query(
+      `UPDATE legitimate_interest_assessments SET status = 'withdrawn', withdrawn_at = NOW() WHERE lia_id = $1`,
+      [liaId]
+    );
+
+    logger.info('LIA withdrawn', { liaId });
+
+    return (await this.getAssessment(liaId))!;
+  }
+
+  /**
+   * Get an LIA at its current version, optionally with all versions
+   */
+  async getAssessment(liaId: string, includeVersions: boolean = false): Promise<LegitimateInterestAssessment | null> {
+    const result = await databaseService.query(
+      `SELECT ${LIA_COLUMNS}
+       FROM legitimate_interest_assessments l
+       JOIN lia_versions v ON v.lia_id = l.lia_id AND v.version = l.current_version
+       WHERE l.lia_id = $1`,
+      [liaId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const assessment = this.mapAssessment(result.rows[0]);
+
+    if (includeVersions) {
+      const versionsResult = await databaseService.query(
+        `SELECT version, purpose_test, necessity_test, balancing_test, safeguards, passed, review_due_at,
+                content_hash, hgtp_tx_hash, anchoring_timestamp, created_by, created_at AS version_created_at
+         FROM lia_versions WHERE lia_id = $1 ORDER BY version ASC`,
+        [liaId]
+      );
+      assessment.versions = versionsResult.rows.map((row: any) => this.mapVersion(row));
+    }
+
+    return assessment;
+  }
+
+  /**
+   * List LIAs at their current version, newest first
+   */
+  async listAssessments(filter: LiaListFilter): Promise<LegitimateInterestAssessment[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`l.controller_hash = $${params.length}`);
+    }
+    if (filter.purposeHash) {
+      params.push(filter.purposeHash);
+      conditions.push(`l.purpose_hash = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`l.status = $${params.length}`);
+    }
+
+    const result = await databaseService.query(
+      `SELECT ${LIA_COLUMNS}
+       FROM legitimate_interest_assessments l
+       JOIN lia_versions v ON v.lia_id = l.lia_id AND v.version = l.current_version
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY l.created_at DESC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapAssessment(row));
+  }
+
+  /**
+   * Active legitimate-interest consents of a controller that no current LIA covers
+   */
+  async countUncoveredRecords(controllerHash: string): Promise<number> {
+    const result = await databaseService.query(
+      `SELECT COUNT(*) AS count
+       FROM consents c
+       WHERE c.controller_hash = $1 AND c.status = 'granted' AND c.lawful_basis = $2
+       AND NOT EXISTS (
+         SELECT 1
+         FROM legitimate_interest_assessments l
+         JOIN lia_versions v ON v.lia_id = l.lia_id AND v.version = l.current_version
+         WHERE l.controller_hash = c.controller_hash AND l.purpose_hash = c.purpose_hash
+         AND ${CURRENT_LIA_CONDITION}
+       )`,
+      [controllerHash, LegalBasis.LEGITIMATE_INTERESTS]
+    );
+
+    return parseInt(result.rows[0]?.count || '0');
+  }
+
+  /**
+   * Hash and anchor a version, then store it; if anchoring fails the caller's transaction rolls back
+   */
+  private async insertVersion(
+    client: any,
+    liaId: string,
+    version: number,
+    controllerHash: string,
+    purposeHash: string,
+    content: LiaContent,
+    createdBy: string
+  ): Promise<void> {
+    const passed = content.purposeTest.passed && content.necessityTest.passed && content.balancingTest.passed;
+    const contentHash = hash(JSON.stringify({
+      liaId,
+      version,
+      controllerHash,
+      purposeHash,
+      purposeTest: content.purposeTest,
+      necessityTest: content.necessityTest,
+      balancingTest: content.balancingTest,
+      safeguards: content.safeguards,
+      reviewDueAt: content.reviewDueAt ?? null,
+      passed
+    }));
+
+    const anchor = await blockchainService.anchorComplianceRecord('lia', liaId, contentHash, { version, controllerHash, purposeHash });
+
+    await client.query(
+      `INSERT INTO lia_versions (
+        lia_id, version, purpose_test, necessity_test, balancing_test, safeguards, passed,
+        review_due_at, content_hash, hgtp_tx_hash, anchoring_timestamp, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        liaId,
+        version,
+        JSON.stringify(content.purposeTest),
+        JSON.stringify(content.necessityTest),
+        JSON.stringify(content.balancingTest),
+        content.safeguards,
+        passed,
+        content.reviewDueAt ? new Date(content.reviewDueAt).toISOString() : null,
+        contentHash,
+        anchor.transactionHash,
+        new Date(anchor.anchoringTimestamp).toISOString(),
+        createdBy
+      ]
+    );
+  }
+
+  private async getOwnedAssessment(liaId: string, controllerHash: string | null): Promise<LegitimateInterestAssessment> {
+    const assessment = await this.getAssessment(liaId);
+
+    if (!assessment) {
+      throw new NotFoundError('LIA not found');
+    }
+    if (controllerHash && assessment.controllerHash !== controllerHash) {
+      throw new ForbiddenError('LIA belongs to another controller');
+    }
+
+    return assessment;
+  }
+
+  private mapVersion(row: any): LiaVersion {
+    return {
+      version: row.version,
+      purposeTest: row.purpose_test,
+      necessityTest: row.necessity_test,
+      balancingTest: row.balancing_test,
+      safeguards: row.safeguards || [],
+      passed: row.passed,
+      reviewDueAt: row.review_due_at ? new Date(row.review_due_at).getTime() : undefined,
+      contentHash: row.content_hash,
+      hgtpTxHash: row.hgtp_tx_hash ?? undefined,
+      anchoringTimestamp: row.anchoring_timestamp ? new Date(row.anchoring_timestamp).getTime() : undefined,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.version_created_at).getTime()
+    };
+  }
+
+  private mapAssessment(row: any): LegitimateInterestAssessment {
+    const version = this.mapVersion(row);
+    const status = row.status as LiaStatus;
+
+    return {
+      liaId: row.lia_id,
+      controllerHash: row.controller_hash,
+      purpose: row.purpose,
+      purposeHash: row.purpose_hash,
+      status,
+      current: status === LiaStatus.ACTIVE && version.passed &&
+        (version.reviewDueAt === undefined || version.reviewDueAt > Date.now()),
+      registeredAt: new Date(row.created_at).getTime(),
+      withdrawnAt: row.withdrawn_at ? new Date(row.withdrawn_at).getTime() : undefined,
+      ...version
+    };
+  }
+}
+
+export const liaService = new LiaService();
@@ -11,7 +11,7 @@ import {
   HGTPResult,
   MerkleProof
 } from '@consentire/shared';
-import { IBlockchainAnchorService, BlockchainNetworkStatus } from './IBlockchainAnchorService';
+import { IBlockchainAnchorService, BlockchainNetworkStatus, ConsentBatchAnchorEntry } from './IBlockchainAnchorService';
 
 class MockHGTPService implements IBlockchainAnchorService {
   private mockBlockHeight: number = 1000000; // Start from realistic block height
@@ -103,7 +103,10 @@ class MockHGTPService implements IBlockchainAnchorService {
       [ConsentStatus.GRANTED]: 'grant_consent',
       [ConsentStatus.REVOKED]: 'revoke_consent',
       [ConsentStatus.EXPIRED]: 'expire_consent',
-      [ConsentStatus.PENDING]: 'pending_consent'
+      [ConsentStatus.PENDING]: 'pending_consent',
+      [ConsentStatus.SUPERSEDED]: 'supersede_consent',
+      [ConsentStatus.RESTRICTED]: 'restrict_processing',
+      [ConsentStatus.OBJECTED]: 'object_to_processing'
     };
 
     const action = actionMap[status] || 'update_consent';
@@ -122,6 +125,27 @@ class MockHGTPService implements IBlockchainAnchorService {
     });
   }
 
+  /**
+   * Anchor a batch of consent changes (MOCK)
+   */
+  async anchorConsentBatch(
+    batchId: string,
+    batchRoot: string,
+    entries: ConsentBatchAnchorEntry[]
+  ): Promise<HGTPResult> {
+    logger.info('🎭 Mock: Anchoring consent batch', {
+      batchId,
+      size: entries.length,
+      mode: 'DEMO'
+    });
+
+    return this.createMockResult('batch_consent', {
+      batchId,
+      batchRoot,
+      consentIds: entries.map(entry => entry.consentId)
+    });
+  }
+
   /**
    * Anchor controller verification request (MOCK)
    */
@@ -168,6 +192,29 @@ class MockHGTPService implements IBlockchainAnchorService {
     });
   }
 
+  /**
+   * Anchor a compliance record hash (MOCK)
+   */
+  async anchorComplianceRecord(
+    recordType: string,
+    recordId: string,
+    contentHash: string,
+    metadata?: Record<string, unknown>
+  ): Promise<HGTPResult> {
+    logger.info('🎭 Mock: Anchoring compliance record', {
+      recordType,
+      recordId,
+      mode: 'DEMO'
+    });
+
+    return this.createMockResult('compliance_record', {
+      recordType,
+      recordId,
+      contentHash,
+      ...metadata
+    });
+  }
+
   /**
    * Get merkle proof (MOCK)
    */
@@ -10,19 +10,86 @@ import {
   ConsentVerifyResponse,
   ConsentRevokeRequest,
   ConsentRevokeResponse,
-  ConsentStatus
+  ConsentRenewRequest,
+  ConsentRenewResponse,
+  ConsentRequestCreate,
+  ConsentRequestResponse,
+  ConsentConfirmRequest,
+  ConsentConfirmResponse,
+  ConsentConfirmationMethod,
+  PendingConsentRequest,
+  LegalBasis,
+  ConsentStatus,
+  ConsentEvent,
+  ConsentEventType,
+  ConsentHistoryResponse,
+  ConsentGiver,
+  ConsentAnchorStatus,
+  ConsentQuery,
+  ConsentQueryResponse,
+  ConsentSortField,
+  ConsentSummary,
+  ConsentBatchOperation,
+  ConsentBatchItemResult,
+  ConsentBatchResponse,
+  HGTPResult,
+  Purpose,
+  PurposeStatus,
+  WebhookEventData,
+  WebhookEventType,
+  ProcessingRightsRequest,
+  ProcessingRightsResolution,
+  ProcessingRightStatus,
+  ProcessingRightType,
+  RestrictionGround,
+  RestrictionRequest,
+  ObjectionRequest,
+  consentBatchOperationSchema
 } from '@consentire/shared';
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { databaseService } from '../services/databaseService';
 import { realZKService } from './realZKService';
-import { blockchainService, isDemoMode } from './blockchainFacade';
+import { blockchainService } from './blockchainFacade';
+import { ConsentBatchAnchorEntry } from './IBlockchainAnchorService';
+import { consentReceiptService, ConsentReceiptInput } from './consentReceiptService';
+import { purposeService } from './purposeService';
+import { guardianService, ConsentSigner } from './guardianService';
+import { webhookService } from './webhookService';
+import { userKeyService } from './userKeyService';
+import { cryptoService, SignatureAlgorithm } from './cryptoService';
 import { 
   hash, 
   generateConsentId, 
   generateControllerHash, 
-  generatePurposeHash 
+  generatePurposeHash,
+  generateNonce,
+  computeMerkleRoot
 } from '../utils/crypto';
+import { ConflictError, ConsentSignatureError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
+// Maximum clock skew accepted between signedAt and server time
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+// How long a double opt-in request waits for confirmation by default
+const DEFAULT_CONFIRMATION_WINDOW_HOURS = 72;
+const CONFIRMATION_TOKEN_AUDIENCE = 'consent-confirmation';
+
+// Placeholder recorded when grant-time anchoring fails
+const FALLBACK_TX_PREFIX = 'mock_tx_';
+
+// Lawful bases a data subject can object to (GDPR Art. 21(1)); consent is withdrawn instead
+const OBJECTABLE_BASES: string[] = [LegalBasis.LEGITIMATE_INTERESTS, LegalBasis.PUBLIC_TASK];
+const REVOCABLE_STATUSES: string[] = [ConsentStatus.GRANTED, ConsentStatus.RESTRICTED, ConsentStatus.OBJECTED];
+
+// Keyset expressions for GET /consent; nullable columns sort as if infinitely late
+const CONSENT_SORT_EXPRESSIONS: Record<ConsentSortField, string> = {
+  grantedAt: 'c.granted_at',
+  expiresAt: `COALESCE(c.expires_at, 'infinity'::timestamp)`,
+  updatedAt: 'COALESCE(c.updated_at, c.granted_at)'
+};
+
 interface ConsentRecord {
   consent_id: string;
   user_id: string;
@@ -38,6 +105,70 @@ interface ConsentRecord {
   hgtp_tx_hash: string | null;
 }
 
+export interface ConsentEventInput {
+  consentId: string;
+  eventType: ConsentEventType;
+  status: ConsentStatus;
+  dataCategories: string[];
+  expiresAt?: string | Date | null;
+  details?: Record<string, unknown>;
+  anchor?: Partial<HGTPResult>;
+  occurredAt: number;
+}
+
+interface QueryExecutor {
+  query(sql: string, params?: any[]): Promise<any>;
+}
+
+interface PreparedGrant {
+  consentId: string;
+  controllerHash: string;
+  controllerId: string;
+  purposeHash: string;
+  purposeId?: string;
+  purposeVersion?: number;
+  guardianId?: string;
+  guardianConsentUntil?: Date;
+  timestamp: number;
+  zkProof: any;
+}
+
+interface PreparedRevocation {
+  consentRecord: any;
+  withdrawnCategories: string[];
+  remainingCategories: string[];
+}
+
+interface BatchGrant {
+  index: number;
+  request: ConsentGrantRequest;
+  prepared: PreparedGrant;
+}
+
+interface BatchRevocation {
+  index: number;
+  request: ConsentRevokeRequest;
+  prepared: PreparedRevocation;
+}
+
+export interface ConsentQueryScope {
+  userId?: string;           // Restrict to one data subject (user accounts)
+  controllerHash?: string;   // Restrict to one controller (controller accounts)
+}
+
+export interface ProcessingRightsFilter {
+  userId?: string;
+  controllerHash?: string | null;
+  type?: ProcessingRightType;
+  status?: ProcessingRightStatus;
+}
+
+export interface ConsentBatchActor {
+  userId: string;
+  role: string;
+  controllerHash?: string;   // Resolved from the organization for controller accounts
+}
+
 interface AuditLogRecord {
   id?: number;
   consent_id?: string;
@@ -58,57 +189,17 @@ class PgConsentService {
     logger.info('Granting consent via PostgreSQL', { userId, controllerId: request.controllerId });
 
     try {
-      // request.controllerId now contains controller_hash from frontend
-      const controllerHash = request.controllerId;
-      const purposeHash = generatePurposeHash(request.purpose);
-      const timestamp = Date.now();
-      const consentId = generateConsentId(
-        userId,
-        controllerHash,
-        request.purpose,
-        timestamp
-      );
-
-      // Verify controller exists
-      const controllerResult = await databaseService.query(
-        'SELECT id, controller_hash FROM controllers WHERE controller_hash = $1',
-        [controllerHash]
-      );
-
-      if (controllerResult.rows.length === 0) {
-        throw new Error('Controller not found. Please register the organization first.');
-      }
-
-      const controller = controllerResult.rows[0];
-
-      // Check for existing consent
-      const existingConsentResult = await databaseService.query(
-        `SELECT consent_id AS id FROM consents 
-         WHERE user_id = $1 
-         AND controller_hash = $2 
-         AND purpose_hash = $3 
-         AND status = $4`,
-        [userId, controllerHash, purposeHash, 'granted']
-      );
-
-      if (existingConsentResult.rows.length > 0) {
-        throw new Error('Active consent already exists for this purpose');
-      }
-
-      const zkProof = await realZKService.generateConsentProof({
-        controllerHash,
-        purposeHash,
-        timestamp: timestamp.toString(),
-        userId: hash(userId),
-        userSecret: hash(userId + request.lawfulBasis),
-        nonce: hash(timestamp.toString() + userId)
-      });
+      const {
+        consentId, controllerHash, controllerId, purposeHash, purposeId, purposeVersion,
+        guardianId, guardianConsentUntil, timestamp, zkProof
+      } = await this.prepareGrant(request, userId);
 
       const insertResult = await databaseService.query(
         `INSERT INTO consents (
           consent_id, user_id, controller_hash, purpose_hash,
-          data_categories, lawful_basis, status, granted_at, expires_at, zk_proof
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          data_categories, lawful_basis, status, granted_at, expires_at, zk_proof,
+          purpose_id, purpose_version, guardian_id, guardian_consent_until
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         RETURNING *`,
         [
           consentId,
@@ -120,7 +211,11 @@ class PgConsentService {
           'granted',
           new Date(timestamp).toISOString(),
           request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
-          JSON.stringify(zkProof)
+          JSON.stringify(zkProof),
+          purposeId || null,
+          purposeVersion ?? null,
+          guardianId ?? null,
+          guardianConsentUntil?.toISOString() ?? null
         ]
       );
 
@@ -131,6 +226,8 @@ class PgConsentService {
       // Try blockchain anchoring (non-blocking for demo)
       let hgtpTxHash = '';
       let anchoringTimestamp = Date.now();
+      let anchor: Partial<HGTPResult> = {};
+      let anchored = false;
       
       try {
         const hgtpResult = await blockchainService.anchorConsent({
@@ -146,6 +243,8 @@ class PgConsentService {
 
         hgtpTxHash = hgtpResult.transactionHash;
         anchoringTimestamp = hgtpResult.anchoringTimestamp;
+        anchor = hgtpResult;
+        anchored = true;
 
         await databaseService.query(
           'UPDATE consents SET hgtp_tx_hash = $1, anchoring_timestamp = $2 WHERE consent_id = $3',
@@ -160,27 +259,68 @@ class PgConsentService {
           consentId 
         });
         
-        hgtpTxHash = `mock_tx_${consentId.substring(0, 16)}`;
+        hgtpTxHash = `${FALLBACK_TX_PREFIX}${consentId.substring(0, 16)}`;
         
         await databaseService.query(
           'UPDATE consents SET hgtp_tx_hash = $1, anchoring_timestamp = $2 WHERE consent_id = $3',
           [hgtpTxHash, new Date(anchoringTimestamp).toISOString(), consentId]
         );
+        anchor = { transactionHash: hgtpTxHash, anchoringTimestamp };
       }
 
+      await this.recordConsentEvent({
+        consentId,
+        eventType: ConsentEventType.GRANTED,
+        status: ConsentStatus.GRANTED,
+        dataCategories: request.dataCategories,
+        expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+        details: { lawfulBasis: request.lawfulBasis, ...(guardianId ? { guardianId } : {}) },
+        anchor,
+        occurredAt: timestamp
+      });
+
       await this.createAuditLog({
         consent_id: consentId,
         user_id: userId,
-        controller_hash: controller.id,
+        controller_hash: controllerId,
         action: 'consent_granted',
         details: {
           purpose: request.purpose,
           lawfulBasis: request.lawfulBasis,
-          dataCategories: request.dataCategories
+          dataCategories: request.dataCategories,
+          guardianId
         },
         hgtp_tx_hash: hgtpTxHash
       });
 
+      const receiptId = await this.issueReceipt({
+        consentId,
+        userId,
+        controllerHash,
+        action: 'grant',
+        status: ConsentStatus.GRANTED,
+        purpose: request.purpose,
+        purposeHash,
+        dataCategories: request.dataCategories,
+        lawfulBasis: request.lawfulBasis,
+        expiresAt: request.expiresAt,
+        anchor,
+        zkProof,
+        issuedAt: timestamp
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_GRANTED, {
+        consentId,
+        controllerHash,
+        userId,
+        purposeHash,
+        status: ConsentStatus.GRANTED,
+        dataCategories: request.dataCategories,
+        expiresAt: request.expiresAt,
+        hgtpTxHash,
+        occurredAt: timestamp
+      }, ConsentEventType.GRANTED, anchored ? anchor : undefined);
+
       logger.info('Consent granted successfully', { 
         consentId, 
         hgtpTxHash 
@@ -191,7 +331,8 @@ class PgConsentService {
         hgtpTxHash,
         status: ConsentStatus.GRANTED,
         expiresAt: request.expiresAt,
-        grantedAt: timestamp
+        grantedAt: timestamp,
+        receiptId
       };
 
     } catch (error) {
@@ -200,6 +341,132 @@ class PgConsentService {
     }
   }
 
+  /**
+   * Check signature, controller and duplicates for a grant and build its consent ID and ZK proof.
+   * Shared by single and batch grants; nothing is written.
+   */
+  private async prepareGrant(request: ConsentGrantRequest, userId: string): Promise<PreparedGrant> {
+    // Minors below the digital age of consent need their guardian's signature (GDPR Art. 8)
+    const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, {
+      lawfulBasis: request.lawfulBasis
+    });
+
+    await this.verifyUserSignature(
+      signer.signerId,
+      cryptoService.createConsentMessage(
+        userId,
+        request.controllerId,
+        request.purpose,
+        request.dataCategories,
+        request.lawfulBasis,
+        request.signedAt,
+        request.nonce,
+        request.expiresAt
+      ),
+      request.signature,
+      request.signedAt,
+      request.nonce
+    );
+
+    // request.controllerId now contains controller_hash from frontend
+    const controllerHash = request.controllerId;
+    const purposeHash = generatePurposeHash(request.purpose);
+    const timestamp = Date.now();
+    // Derived from the purpose hash like every consent ID; renewals only have the hash
+    const consentId = generateConsentId(userId, controllerHash, purposeHash, timestamp);
+
+    // Verify controller exists
+    const controllerResult = await databaseService.query(
+      'SELECT id, controller_hash FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+
+    if (controllerResult.rows.length === 0) {
+      throw new Error('Controller not found. Please register the organization first.');
+    }
+
+    const controller = controllerResult.rows[0];
+    const purpose = await this.resolveGrantPurpose(request, controllerHash, purposeHash);
+
+    // Check for existing consent
+    const existingConsentResult = await databaseService.query(
+      `SELECT consent_id AS id FROM consents 
+       WHERE user_id = $1 
+       AND controller_hash = $2 
+       AND purpose_hash = $3 
+       AND status = $4`,
+      [userId, controllerHash, purposeHash, 'granted']
+    );
+
+    if (existingConsentResult.rows.length > 0) {
+      throw new Error('Active consent already exists for this purpose');
+    }
+
+    const zkProof = await realZKService.generateConsentProof({
+      controllerHash,
+      purposeHash,
+      timestamp: timestamp.toString(),
+      userId: hash(userId),
+      userSecret: hash(userId + request.lawfulBasis),
+      nonce: hash(timestamp.toString() + userId)
+    });
+
+    return {
+      consentId,
+      controllerHash,
+      controllerId: controller.id,
+      purposeHash,
+      purposeId: purpose?.purposeId,
+      purposeVersion: purpose?.version,
+      guardianId: signer.guardianId,
+      guardianConsentUntil: signer.guardianConsentUntil,
+      timestamp,
+      zkProof
+    };
+  }
+
+  /**
+   * Find the registered purpose a grant refers to (by purposeId, or by matching name) and
+   * check it is active and the expiry respects its maximum retention
+   */
+  private async resolveGrantPurpose(
+    request: Pick<ConsentGrantRequest, 'purposeId' | 'expiresAt'>,
+    controllerHash: string,
+    purposeHash: string
+  ): Promise<Purpose | null> {
+    let purpose: Purpose | null;
+
+    if (request.purposeId) {
+      purpose = await purposeService.getPurpose(request.purposeId);
+
+      if (!purpose || purpose.controllerHash !== controllerHash) {
+        throw new Error('Purpose not registered for this controller');
+      }
+      if (purpose.purposeHash !== purposeHash) {
+        throw new Error('Purpose text does not match the registered purpose name');
+      }
+    } else {
+      purpose = await purposeService.findActivePurpose(controllerHash, purposeHash);
+
+      if (!purpose && process.env.REQUIRE_REGISTERED_PURPOSES === 'true') {
+        throw new Error('Purpose is not registered by this controller');
+      }
+    }
+
+    if (purpose?.status === PurposeStatus.RETIRED) {
+      throw new Error('Purpose has been retired by the controller');
+    }
+
+    if (purpose?.maxRetentionDays) {
+      const latestExpiry = Date.now() + purpose.maxRetentionDays * 24 * 60 * 60 * 1000;
+      if (!request.expiresAt || request.expiresAt > latestExpiry) {
+        throw new Error(`Consent must expire within the purpose's maximum retention of ${purpose.maxRetentionDays} days`);
+      }
+    }
+
+    return purpose;
+  }
+
   /**
    * Verify consent with ZK proof (no personal data exposure)
    */
@@ -213,11 +480,19 @@ class PgConsentService {
       const controllerHash = generateControllerHash(request.controllerId);
       const purposeHash = generatePurposeHash(request.purpose);
 
+      if (request.validAt !== undefined) {
+        return await this.verifyConsentAt(request, controllerHash, purposeHash, request.validAt);
+      }
+
+      // Prefer the live consent (granted, or held by a restriction or objection) over
+      // superseded or revoked predecessors
       const consentResult = await databaseService.query(
         `SELECT * FROM consents 
          WHERE user_id = $1 
          AND controller_hash = $2 
-         AND purpose_hash = $3`,
+         AND purpose_hash = $3
+         ORDER BY (status IN ('granted', 'restricted', 'objected')) DESC, granted_at DESC
+         LIMIT 1`,
         [request.userId, controllerHash, purposeHash]
       );
 
@@ -231,10 +506,9 @@ class PgConsentService {
       const consentRecord = consentResult.rows[0];
 
       if (consentRecord.expires_at && new Date() > new Date(consentRecord.expires_at)) {
-        await databaseService.query(
-          'UPDATE consents SET status = $1 WHERE consent_id = $2',
-          ['expired', consentRecord.consent_id]
-        );
+        if (consentRecord.status === 'granted') {
+          await this.expireConsent(consentRecord.consent_id);
+        }
 
         return {
           isValid: false,
@@ -251,6 +525,15 @@ class PgConsentService {
         };
       }
 
+      if (request.dataCategory && !(consentRecord.data_categories || []).includes(request.dataCategory)) {
+        return {
+          isValid: false,
+          consentId: consentRecord.consent_id,
+          status: ConsentStatus.GRANTED,
+          error: `Consent does not cover data category: ${request.dataCategory}`
+        };
+      }
+
       const zkProof = await realZKService.generateVerificationProof(
         consentRecord.controller_hash,
         consentRecord.purpose_hash,
@@ -266,6 +549,7 @@ class PgConsentService {
         action: 'consent_verified',
         details: {
           purpose: request.purpose,
+          dataCategory: request.dataCategory,
           verificationResult: 'valid'
         }
       });
@@ -280,7 +564,8 @@ class PgConsentService {
         consentId: consentRecord.consent_id,
         zkProof,
         merkleProof,
-        status: ConsentStatus.GRANTED
+        status: ConsentStatus.GRANTED,
+        ...this.describeConsentGiver(consentRecord)
       };
 
     } catch (error) {
@@ -293,25 +578,231 @@ class PgConsentService {
   }
 
   /**
-   * Revoke consent
+   * Point-in-time verification: was any consent for this user/controller/purpose valid at validAt?
+   * Validity is derived from the append-only event history, not the mutable consents row.
    */
-  async revokeConsent(request: ConsentRevokeRequest, userId: string): Promise<ConsentRevokeResponse> {
-    logger.info('Revoking consent via PostgreSQL', { consentId: request.consentId, userId });
+  private async verifyConsentAt(
+    request: ConsentVerifyRequest,
+    controllerHash: string,
+    purposeHash: string,
+    validAt: number
+  ): Promise<ConsentVerifyResponse> {
+    const consentResult = await databaseService.query(
+      `SELECT consent_id, controller_hash, purpose_hash, granted_at, guardian_id, converted_at FROM consents 
+       WHERE user_id = $1 
+       AND controller_hash = $2 
+       AND purpose_hash = $3
+       AND granted_at <= $4
+       ORDER BY granted_at DESC`,
+      [request.userId, controllerHash, purposeHash, new Date(validAt).toISOString()]
+    );
+
+    let latest: { consentId: string; event: ConsentEvent } | null = null;
+
+    for (const consentRecord of consentResult.rows) {
+      const event = await this.getConsentEventAt(consentRecord.consent_id, validAt);
+      if (!event) {
+        continue;
+      }
 
-    try {
-      const consentResult = await databaseService.query(
-        'SELECT * FROM consents WHERE consent_id = $1 AND user_id = $2',
-        [request.consentId, userId]
-      );
+      const unexpired = !event.expiresAt || event.expiresAt > validAt;
+      const coversCategory = !request.dataCategory || event.dataCategories.includes(request.dataCategory);
+      if (event.status === ConsentStatus.GRANTED && unexpired && coversCategory) {
+        const zkProof = await realZKService.generateVerificationProof(
+          consentRecord.controller_hash,
+          consentRecord.purpose_hash,
+          true,
+          new Date(consentRecord.granted_at).getTime()
+        );
+        const merkleProof = await blockchainService.getMerkleProof(consentRecord.consent_id);
+
+        await this.createAuditLog({
+          consent_id: consentRecord.consent_id,
+          user_id: request.userId,
+          action: 'consent_verified',
+          details: {
+            purpose: request.purpose,
+            dataCategory: request.dataCategory,
+            validAt,
+            verificationResult: 'valid'
+          }
+        });
 
-      if (consentResult.rows.length === 0) {
-        throw new Error('Consent not found or access denied');
+        return {
+          isValid: true,
+          consentId: consentRecord.consent_id,
+          zkProof,
+          merkleProof,
+          status: ConsentStatus.GRANTED,
+          validAt,
+          evidence: event,
+          ...this.describeConsentGiver(consentRecord, validAt)
+        };
       }
 
-      const consentRecord = consentResult.rows[0];
+      if (!latest) {
+        latest = { consentId: consentRecord.consent_id, event };
+      }
+    }
 
-      if (consentRecord.status !== 'granted') {
-        throw new Error(`Cannot revoke consent with status: ${consentRecord.status}`);
+    if (!latest) {
+      return {
+        isValid: false,
+        validAt,
+        error: 'Consent not found at requested time'
+      };
+    }
+
+    const { event } = latest;
+    const expired = event.status === ConsentStatus.GRANTED && !!event.expiresAt && event.expiresAt <= validAt;
+    const status = expired ? ConsentStatus.EXPIRED : event.status;
+    const error = event.status === ConsentStatus.GRANTED && !expired
+      ? `Consent did not cover data category ${request.dataCategory} at requested time`
+      : `Consent was ${status} at requested time`;
+
+    return {
+      isValid: false,
+      consentId: latest.consentId,
+      status,
+      validAt,
+      evidence: event,
+      error
+    };
+  }
+
+  /**
+   * Who gave a consent, and when a guardian's consent became the data subject's own (as of `at`)
+   */
+  private describeConsentGiver(consentRecord: any, at: number = Date.now()): { givenBy: ConsentGiver; convertedAt?: number } {
+    if (!consentRecord.guardian_id) {
+      return { givenBy: 'data_subject' };
+    }
+
+    const convertedAt = consentRecord.converted_at ? new Date(consentRecord.converted_at).getTime() : undefined;
+    return {
+      givenBy: 'guardian',
+      convertedAt: convertedAt !== undefined && convertedAt <= at ? convertedAt : undefined
+    };
+  }
+
+  /**
+   * Get the latest event for a consent at or before the given time
+   */
+  private async getConsentEventAt(consentId: string, at: number): Promise<ConsentEvent | null> {
+    const result = await databaseService.query(
+      `SELECT * FROM consent_events
+       WHERE consent_id = $1
+       AND occurred_at <= $2
+       ORDER BY occurred_at DESC, id DESC
+       LIMIT 1`,
+      [consentId, new Date(at).toISOString()]
+    );
+
+    return result.rows.length > 0 ? this.mapConsentEvent(result.rows[0]) : null;
+  }
+
+  /**
+   * Get the full event history of a consent, oldest first
+   */
+  async getConsentHistory(consentId: string): Promise<ConsentHistoryResponse & { userId: string; controllerHash: string }> {
+    const consentResult = await databaseService.query(
+      'SELECT consent_id, user_id, controller_hash, status FROM consents WHERE consent_id = $1',
+      [consentId]
+    );
+
+    if (consentResult.rows.length === 0) {
+      throw new Error('Consent not found');
+    }
+
+    const consentRecord = consentResult.rows[0];
+    const eventsResult = await databaseService.query(
+      `SELECT * FROM consent_events
+       WHERE consent_id = $1
+       ORDER BY occurred_at ASC, id ASC`,
+      [consentId]
+    );
+
+    return {
+      consentId,
+      userId: consentRecord.user_id,
+      controllerHash: consentRecord.controller_hash,
+      status: consentRecord.status as ConsentStatus,
+      events: eventsResult.rows.map((row: any) => this.mapConsentEvent(row))
+    };
+  }
+
+  /**
+   * Every event of every consent a data subject has given, oldest first
+   */
+  async getUserConsentEvents(userId: string): Promise<ConsentEvent[]> {
+    const result = await databaseService.query(
+      `SELECT e.* FROM consent_events e
+       JOIN consents c ON c.consent_id = e.consent_id
+       WHERE c.user_id = $1
+       ORDER BY e.occurred_at ASC, e.id ASC`,
+      [userId]
+    );
+
+    return result.rows.map((row: any) => this.mapConsentEvent(row));
+  }
+
+  /**
+   * Append a lifecycle event to consent_events
+   */
+  async recordConsentEvent(event: ConsentEventInput, executor: QueryExecutor = databaseService): Promise<void> {
+    await executor.query(
+      `INSERT INTO consent_events (
+        consent_id, event_type, status, data_categories, expires_at, details,
+        hgtp_tx_hash, anchoring_timestamp, merkle_root, block_height, occurred_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        event.consentId,
+        event.eventType,
+        event.status,
+        event.dataCategories,
+        event.expiresAt ? new Date(event.expiresAt).toISOString() : null,
+        JSON.stringify(event.details || {}),
+        event.anchor?.transactionHash || null,
+        event.anchor?.anchoringTimestamp ? new Date(event.anchor.anchoringTimestamp).toISOString() : null,
+        event.anchor?.merkleRoot || null,
+        event.anchor?.blockHeight ?? null,
+        new Date(event.occurredAt).toISOString()
+      ]
+    );
+  }
+
+  private mapConsentEvent(row: any): ConsentEvent {
+    return {
+      eventId: row.id,
+      consentId: row.consent_id,
+      eventType: row.event_type as ConsentEventType,
+      status: row.status as ConsentStatus,
+      dataCategories: row.data_categories || [],
+      expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+      details: row.details || {},
+      hgtpTxHash: row.hgtp_tx_hash || undefined,
+      anchoringTimestamp: row.anchoring_timestamp ? new Date(row.anchoring_timestamp).getTime() : undefined,
+      merkleRoot: row.merkle_root || undefined,
+      blockHeight: row.block_height !== null && row.block_height !== undefined ? Number(row.block_height) : undefined,
+      occurredAt: new Date(row.occurred_at).getTime()
+    };
+  }
+
+  /**
+   * Revoke consent
+   */
+  async revokeConsent(request: ConsentRevokeRequest, actorId: string): Promise<ConsentRevokeResponse> {
+    logger.info('Revoking consent via PostgreSQL', { consentId: request.consentId, userId: actorId });
+
+    const userId = await this.resolveSubjectId(request.consentId, actorId, request.guardianId);
+
+    try {
+      const { consentRecord, withdrawnCategories, remainingCategories } =
+        await this.prepareRevocation(request, userId);
+
+      // Withdrawing every category is a full revocation
+      if (remainingCategories.length > 0) {
+        return await this.withdrawDataCategories(consentRecord, withdrawnCategories, remainingCategories, userId);
       }
 
       const revokedAt = Date.now();
@@ -338,17 +829,52 @@ class PgConsentService {
         throw new Error('Failed to revoke consent');
       }
 
+      const processingRightsRequestId = await this.withdrawProcessingRight(
+        request.consentId,
+        userId,
+        revokedAt,
+        hgtpResult.transactionHash
+      );
+
+      await this.recordConsentEvent({
+        consentId: request.consentId,
+        eventType: ConsentEventType.REVOKED,
+        status: ConsentStatus.REVOKED,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details: { reason: 'user_request', processingRightsRequestId },
+        anchor: hgtpResult,
+        occurredAt: revokedAt
+      });
+
       await this.createAuditLog({
         consent_id: request.consentId,
         user_id: userId,
         action: 'consent_revoked',
         details: {
           revokedAt,
-          reason: 'user_request'
+          reason: 'user_request',
+          guardianId: request.guardianId,
+          processingRightsRequestId
         },
         hgtp_tx_hash: hgtpResult.transactionHash
       });
 
+      const receiptId = await this.issueReceipt({
+        ...this.receiptInputFromRecord(consentRecord),
+        action: 'revoke',
+        status: ConsentStatus.REVOKED,
+        withdrawnCategories,
+        anchor: hgtpResult,
+        issuedAt: revokedAt
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_REVOKED, {
+        ...this.webhookDataFromRecord(consentRecord, revokedAt),
+        status: ConsentStatus.REVOKED,
+        hgtpTxHash: hgtpResult.transactionHash
+      }, ConsentEventType.REVOKED, hgtpResult);
+
       logger.info('Consent revoked successfully', { 
         consentId: request.consentId, 
         hgtpTxHash: hgtpResult.transactionHash 
@@ -358,7 +884,8 @@ class PgConsentService {
         consentId: request.consentId,
         status: ConsentStatus.REVOKED,
         revokedAt,
-        hgtpTxHash: hgtpResult.transactionHash
+        hgtpTxHash: hgtpResult.transactionHash,
+        receiptId
       };
 
     } catch (error) {
@@ -368,138 +895,2311 @@ class PgConsentService {
   }
 
   /**
-   * Get user's active consents
+   * Check signature, ownership, status and withdrawn categories for a revocation.
+   * Shared by single and batch revocations; nothing is written.
    */
-  async getActiveConsents(userId: string): Promise<any[]> {
-    try {
-      const result = await databaseService.query(
-        `SELECT *
-         FROM consents
-         WHERE user_id = $1 
-         AND status = $2
-         ORDER BY granted_at DESC`,
-        [userId, 'granted']
-      );
+  private async prepareRevocation(request: ConsentRevokeRequest, userId: string): Promise<PreparedRevocation> {
+    // Minors may always withdraw themselves; their guardian may withdraw for them
+    const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, { minorMaySign: true });
 
-      return result.rows;
-    } catch (error) {
-      logger.error('Failed to get active consents', { error, userId });
-      throw error;
+    await this.verifyUserSignature(
+      signer.signerId,
+      cryptoService.createRevocationMessage(
+        userId,
+        request.consentId,
+        request.signedAt,
+        request.nonce,
+        request.dataCategories
+      ),
+      request.signature,
+      request.signedAt,
+      request.nonce
+    );
+
+    const consentResult = await databaseService.query(
+      'SELECT * FROM consents WHERE consent_id = $1 AND user_id = $2',
+      [request.consentId, userId]
+    );
+
+    if (consentResult.rows.length === 0) {
+      throw new Error('Consent not found or access denied');
     }
-  }
 
-  /**
-   * Create audit log entry
-   */
-  private async createAuditLog(logData: Partial<AuditLogRecord>): Promise<void> {
-    try {
-      await databaseService.query(
-        `INSERT INTO audit_logs (consent_id, user_id, controller_hash, action, details, hgtp_tx_hash, timestamp)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-        [
-          logData.consent_id || null,
-          logData.user_id || null,
-          logData.controller_hash || null,
-          logData.action,
-          JSON.stringify(logData.details || {}),
-          logData.hgtp_tx_hash || null,
-          new Date().toISOString()
-        ]
-      );
-    } catch (error) {
-      logger.error('Failed to create audit log', { error, logData });
+    const consentRecord = consentResult.rows[0];
+
+    // Restricted and objected consents can still be withdrawn; doing so closes the open request
+    if (!REVOCABLE_STATUSES.includes(consentRecord.status)) {
+      throw new Error(`Cannot revoke consent with status: ${consentRecord.status}`);
     }
-  }
 
-  /**
-   * Get compliance metrics for a controller
-   */
-  async getComplianceMetrics(controllerHash: string) {
-    try {
-      const countsResult = await databaseService.query(
-        'SELECT status, lawful_basis, granted_at, zk_proof FROM consents WHERE controller_hash = $1',
-        [controllerHash]
-      );
+    const currentCategories: string[] = consentRecord.data_categories || [];
 
-      const consents = countsResult.rows;
-      const totalConsents = consents.length;
-      const activeConsents = consents.filter((c: any) => c.status === 'granted').length;
-      const revokedConsents = consents.filter((c: any) => c.status === 'revoked').length;
-      const expiredConsents = consents.filter((c: any) => c.status === 'expired').length;
+    if (request.dataCategories && request.dataCategories.length > 0) {
+      if (consentRecord.status !== ConsentStatus.GRANTED) {
+        throw new Error(`Cannot partially withdraw consent with status: ${consentRecord.status}; revoke it in full`);
+      }
 
-      // Check audit logs for this controller
-      const auditResult = await databaseService.query(
-        'SELECT COUNT(*) as count FROM audit_logs WHERE controller_hash = $1',
-        [controllerHash]
-      );
-      const hasAuditLogs = parseInt(auditResult.rows[0]?.count || '0') > 0;
-
-      // GDPR Article Compliance Checks
-      const gdprArticle7 = totalConsents > 0 && consents.every((c: any) => c.lawful_basis); // Consent records exist with lawful basis
-      const gdprArticle12 = totalConsents > 0; // Transparent processing (consent records tracked)
-      const gdprArticle13 = consents.every((c: any) => c.lawful_basis); // Purpose disclosed (lawful basis required)
-      const gdprArticle17 = true; // Right to erasure enabled (revoke endpoint exists)
-      const gdprArticle20 = true; // Data portability enabled (export endpoint exists)
-      const gdprArticle25 = consents.filter((c: any) => c.zk_proof).length > 0; // Privacy by design (ZK proofs used)
-      const gdprArticle30 = hasAuditLogs; // Record of processing activities
-
-      const gdprCompliance = [
-        gdprArticle7, gdprArticle12, gdprArticle13, gdprArticle17,
-        gdprArticle20, gdprArticle25, gdprArticle30
-      ];
-      const gdprComplianceRate = (gdprCompliance.filter(Boolean).length / gdprCompliance.length) * 100;
-
-      // Calculate overall score
-      let complianceScore = 100;
-      if (totalConsents > 0) {
-        const revokedRate = (revokedConsents / totalConsents) * 100;
-        const expiredRate = (expiredConsents / totalConsents) * 100;
-        const baseScore = Math.max(0, 100 - (revokedRate * 0.5) - (expiredRate * 0.3));
-        complianceScore = (baseScore * 0.6) + (gdprComplianceRate * 0.4);
-      } else {
-        complianceScore = gdprComplianceRate;
+      const withdrawn = Array.from(new Set(request.dataCategories));
+      const uncovered = withdrawn.filter(category => !currentCategories.includes(category));
+
+      if (uncovered.length > 0) {
+        throw new Error(`Data categories not covered by consent: ${uncovered.join(', ')}`);
       }
 
       return {
-        controllerHash,
-        complianceScore: Math.round(complianceScore),
-        totalConsents,
-        activeConsents,
-        revokedConsents,
-        expiredConsents,
-        gdprArticle7,
-        gdprArticle12,
-        gdprArticle13,
-        gdprArticle17,
-        gdprArticle20,
-        gdprArticle25,
-        gdprArticle30,
-        lastAudit: Date.now()
+        consentRecord,
+        withdrawnCategories: withdrawn,
+        remainingCategories: currentCategories.filter(category => !withdrawn.includes(category))
       };
-    } catch (error) {
-      logger.error('Failed to get compliance metrics', { error, controllerHash });
-      throw error;
     }
+
+    return { consentRecord, withdrawnCategories: currentCategories, remainingCategories: [] };
   }
 
   /**
-   * Build detailed compliance report for a controller
+   * Apply a batch of grant/revoke/verify operations.
+   * Each operation is validated and checked on its own, so one bad item does not fail the batch.
+   * Accepted grants and revokes are anchored together under one merkle root and written in a
+   * single transaction: if anchoring or the write fails, all of them fail.
    */
-  async getComplianceReport(controllerHash: string) {
-    try {
-      const controllerResult = await databaseService.query(
-        'SELECT * FROM controllers WHERE controller_hash = $1',
-        [controllerHash]
-      );
-
-      if (controllerResult.rows.length === 0) {
-        throw new Error('Controller not found');
+  async processConsentBatch(operations: unknown[], actor: ConsentBatchActor): Promise<ConsentBatchResponse> {
+    const batchId = hash(`${actor.userId}:${Date.now()}:${generateNonce()}`);
+    const results: ConsentBatchItemResult[] = [];
+    const grants: BatchGrant[] = [];
+    const revocations: BatchRevocation[] = [];
+    const claimed = new Set<string>();
+
+    logger.info('Processing consent batch', { batchId, size: operations.length, actor: actor.userId });
+
+    for (let index = 0; index < operations.length; index++) {
+      const parsed = consentBatchOperationSchema.safeParse(operations[index]);
+
+      if (!parsed.success) {
+        results[index] = this.batchFailure(
+          index,
+          this.getRawBatchOperationType(operations[index]),
+          'VALIDATION_ERROR',
+          parsed.error.errors.map(issue => `${issue.path.join('.') || 'operation'}: ${issue.message}`).join('; ')
+        );
+        continue;
       }
 
-      const controller = controllerResult.rows[0];
-      const metrics = await this.getComplianceMetrics(controllerHash);
+      const operation = parsed.data as ConsentBatchOperation;
 
-      const consentsResult = await databaseService.query(
+      try {
+        if (operation.type === 'verify') {
+          results[index] = { index, type: 'verify', success: true, result: await this.verifyConsent(operation) };
+          continue;
+        }
+
+        const accessError = this.getBatchAccessError(operation, actor);
+        if (accessError) {
+          results[index] = this.batchFailure(index, operation.type, 'FORBIDDEN', accessError);
+          continue;
+        }
+
+        if (operation.type === 'grant') {
+          const key = `${operation.userId}:${operation.controllerId}:${generatePurposeHash(operation.purpose)}`;
+          if (claimed.has(key)) {
+            throw new Error('Active consent already exists for this purpose');
+          }
+
+          const prepared = await this.prepareGrant(operation, operation.userId);
+          claimed.add(key);
+          grants.push({ index, request: operation, prepared });
+        } else {
+          if (claimed.has(operation.consentId)) {
+            throw new Error('Consent is already changed by another operation in this batch');
+          }
+
+          // Checked before preparing so another controller's consent IDs fail exactly like unknown ones
+          if (actor.role === 'controller') {
+            const owned = await databaseService.query(
+              'SELECT 1 FROM consents WHERE consent_id = $1 AND user_id = $2 AND controller_hash = $3',
+              [operation.consentId, operation.userId, actor.controllerHash]
+            );
+            if (owned.rows.length === 0) {
+              throw new Error('Consent not found or access denied');
+            }
+          }
+
+          const prepared = await this.prepareRevocation(operation, operation.userId);
+          claimed.add(operation.consentId);
+          revocations.push({ index, request: operation, prepared });
+        }
+      } catch (error: any) {
+        results[index] = this.batchFailure(
+          index,
+          operation.type,
+          error instanceof ConsentSignatureError ? error.code : 'OPERATION_FAILED',
+          error.message
+        );
+      }
+    }
+
+    if (grants.length === 0 && revocations.length === 0) {
+      return this.summarizeBatch(batchId, results);
+    }
+
+    const entries: ConsentBatchAnchorEntry[] = [
+      ...grants.map(({ request, prepared }) => ({
+        consentId: prepared.consentId,
+        status: ConsentStatus.GRANTED,
+        leafHash: hash(JSON.stringify({
+          consentId: prepared.consentId,
+          status: ConsentStatus.GRANTED,
+          dataCategories: request.dataCategories
+        }))
+      })),
+      ...revocations.map(({ request, prepared }) => {
+        const status = prepared.remainingCategories.length > 0 ? ConsentStatus.GRANTED : ConsentStatus.REVOKED;
+        return {
+          consentId: request.consentId,
+          status,
+          leafHash: hash(JSON.stringify({
+            consentId: request.consentId,
+            status,
+            dataCategories: prepared.remainingCategories
+          }))
+        };
+      })
+    ];
+    const batchRoot = computeMerkleRoot(entries.map(entry => entry.leafHash));
+
+    let anchor: HGTPResult;
+    try {
+      anchor = await blockchainService.anchorConsentBatch(batchId, batchRoot, entries);
+    } catch (error: any) {
+      logger.error('Consent batch anchoring failed', { batchId, error: error.message });
+      for (const { index } of grants) {
+        results[index] = this.batchFailure(index, 'grant', 'ANCHORING_FAILED', error.message);
+      }
+      for (const { index } of revocations) {
+        results[index] = this.batchFailure(index, 'revoke', 'ANCHORING_FAILED', error.message);
+      }
+      return this.summarizeBatch(batchId, results);
+    }
+
+    const occurredAt = Date.now();
+    const anchoredAt = new Date(anchor.anchoringTimestamp).toISOString();
+    const batchDetails = { batchId, batchRoot };
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const { request, prepared } of grants) {
+        await client.query(
+          `INSERT INTO consents (
+            consent_id, user_id, controller_hash, purpose_hash, data_categories, lawful_basis,
+            status, granted_at, expires_at, zk_proof, hgtp_tx_hash, anchoring_timestamp,
+            purpose_id, purpose_version, guardian_id, guardian_consent_until
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+          [
+            prepared.consentId,
+            request.userId,
+            prepared.controllerHash,
+            prepared.purposeHash,
+            request.dataCategories,
+            request.lawfulBasis,
+            'granted',
+            new Date(prepared.timestamp).toISOString(),
+            request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+            JSON.stringify(prepared.zkProof),
+            anchor.transactionHash,
+            anchoredAt,
+            prepared.purposeId || null,
+            prepared.purposeVersion ?? null,
+            prepared.guardianId ?? null,
+            prepared.guardianConsentUntil?.toISOString() ?? null
+          ]
+        );
+
+        await this.recordConsentEvent({
+          consentId: prepared.consentId,
+          eventType: ConsentEventType.GRANTED,
+          status: ConsentStatus.GRANTED,
+          dataCategories: request.dataCategories,
+          expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+          details: {
+            lawfulBasis: request.lawfulBasis,
+            ...(prepared.guardianId ? { guardianId: prepared.guardianId } : {}),
+            ...batchDetails
+          },
+          anchor,
+          occurredAt: prepared.timestamp
+        }, client);
+      }
+
+      for (const { request, prepared } of revocations) {
+        const partial = prepared.remainingCategories.length > 0;
+        const updateResult = partial
+          ? await client.query(
+              `UPDATE consents
+               SET data_categories = $1, updated_at = $2, hgtp_tx_hash = $3, anchoring_timestamp = $4
+               WHERE consent_id = $5 AND status = 'granted'`,
+              [prepared.remainingCategories, new Date(occurredAt).toISOString(), anchor.transactionHash, anchoredAt, request.consentId]
+            )
+          : await client.query(
+              `UPDATE consents
+               SET status = 'revoked', updated_at = $1, hgtp_tx_hash = $2, anchoring_timestamp = $3
+               WHERE consent_id = $4 AND status = ANY($5)`,
+              [new Date(occurredAt).toISOString(), anchor.transactionHash, anchoredAt, request.consentId, REVOCABLE_STATUSES]
+            );
+
+        if (updateResult.rowCount === 0) {
+          throw new Error('Consent changed while processing batch, please retry');
+        }
+
+        const processingRightsRequestId = partial
+          ? undefined
+          : await this.withdrawProcessingRight(request.consentId, request.userId, occurredAt, anchor.transactionHash, client);
+
+        await this.recordConsentEvent({
+          consentId: request.consentId,
+          eventType: partial ? ConsentEventType.AMENDED : ConsentEventType.REVOKED,
+          status: partial ? ConsentStatus.GRANTED : ConsentStatus.REVOKED,
+          dataCategories: partial ? prepared.remainingCategories : prepared.withdrawnCategories,
+          expiresAt: prepared.consentRecord.expires_at,
+          details: partial
+            ? { withdrawnCategories: prepared.withdrawnCategories, reason: 'user_request', ...batchDetails }
+            : { reason: 'user_request', processingRightsRequestId, ...batchDetails },
+          anchor,
+          occurredAt
+        }, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error('Consent batch transaction failed', { batchId, error: error.message });
+      for (const { index } of grants) {
+        results[index] = this.batchFailure(index, 'grant', 'TRANSACTION_FAILED', error.message);
+      }
+      for (const { index } of revocations) {
+        results[index] = this.batchFailure(index, 'revoke', 'TRANSACTION_FAILED', error.message);
+      }
+      return this.summarizeBatch(batchId, results);
+    } finally {
+      client.release();
+    }
+
+    for (const { index, request, prepared } of grants) {
+      await this.createAuditLog({
+        consent_id: prepared.consentId,
+        user_id: request.userId,
+        controller_hash: prepared.controllerId,
+        action: 'consent_granted',
+        details: {
+          purpose: request.purpose,
+          lawfulBasis: request.lawfulBasis,
+          dataCategories: request.dataCategories,
+          ...batchDetails
+        },
+        hgtp_tx_hash: anchor.transactionHash
+      });
+
+      const receiptId = await this.issueReceipt({
+        consentId: prepared.consentId,
+        userId: request.userId,
+        controllerHash: prepared.controllerHash,
+        action: 'grant',
+        status: ConsentStatus.GRANTED,
+        purpose: request.purpose,
+        purposeHash: prepared.purposeHash,
+        dataCategories: request.dataCategories,
+        lawfulBasis: request.lawfulBasis,
+        expiresAt: request.expiresAt,
+        anchor,
+        zkProof: prepared.zkProof,
+        issuedAt: prepared.timestamp
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_GRANTED, {
+        consentId: prepared.consentId,
+        controllerHash: prepared.controllerHash,
+        userId: request.userId,
+        purposeHash: prepared.purposeHash,
+        status: ConsentStatus.GRANTED,
+        dataCategories: request.dataCategories,
+        expiresAt: request.expiresAt,
+        hgtpTxHash: anchor.transactionHash,
+        occurredAt: prepared.timestamp
+      }, ConsentEventType.GRANTED, anchor);
+
+      results[index] = {
+        index,
+        type: 'grant',
+        success: true,
+        result: {
+          consentId: prepared.consentId,
+          hgtpTxHash: anchor.transactionHash,
+          status: ConsentStatus.GRANTED,
+          expiresAt: request.expiresAt,
+          grantedAt: prepared.timestamp,
+          receiptId
+        }
+      };
+    }
+
+    for (const { index, request, prepared } of revocations) {
+      const partial = prepared.remainingCategories.length > 0;
+
+      await this.createAuditLog({
+        consent_id: request.consentId,
+        user_id: request.userId,
+        controller_hash: prepared.consentRecord.controller_hash,
+        action: partial ? 'consent_categories_withdrawn' : 'consent_revoked',
+        details: partial
+          ? {
+              withdrawnCategories: prepared.withdrawnCategories,
+              remainingCategories: prepared.remainingCategories,
+              revokedAt: occurredAt,
+              ...batchDetails
+            }
+          : { revokedAt: occurredAt, reason: 'user_request', ...batchDetails },
+        hgtp_tx_hash: anchor.transactionHash
+      });
+
+      const receiptId = await this.issueReceipt({
+        ...this.receiptInputFromRecord(prepared.consentRecord),
+        action: 'revoke',
+        status: partial ? ConsentStatus.GRANTED : ConsentStatus.REVOKED,
+        dataCategories: partial ? prepared.remainingCategories : prepared.withdrawnCategories,
+        withdrawnCategories: prepared.withdrawnCategories,
+        anchor,
+        issuedAt: occurredAt
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_REVOKED, {
+        ...this.webhookDataFromRecord(prepared.consentRecord, occurredAt),
+        status: partial ? ConsentStatus.GRANTED : ConsentStatus.REVOKED,
+        dataCategories: partial ? prepared.remainingCategories : prepared.withdrawnCategories,
+        withdrawnCategories: prepared.withdrawnCategories,
+        hgtpTxHash: anchor.transactionHash
+      }, partial ? ConsentEventType.AMENDED : ConsentEventType.REVOKED, anchor);
+
+      results[index] = {
+        index,
+        type: 'revoke',
+        success: true,
+        result: {
+          consentId: request.consentId,
+          status: partial ? ConsentStatus.GRANTED : ConsentStatus.REVOKED,
+          revokedAt: occurredAt,
+          hgtpTxHash: anchor.transactionHash,
+          ...(partial && {
+            withdrawnCategories: prepared.withdrawnCategories,
+            remainingCategories: prepared.remainingCategories
+          }),
+          receiptId
+        }
+      };
+    }
+
+    logger.info('Consent batch anchored', {
+      batchId,
+      batchRoot,
+      grants: grants.length,
+      revocations: revocations.length,
+      hgtpTxHash: anchor.transactionHash
+    });
+
+    return this.summarizeBatch(batchId, results, anchor.transactionHash, batchRoot);
+  }
+
+  /**
+   * Users may only act for themselves; controllers only for their own organization
+   */
+  private getBatchAccessError(
+    operation: Exclude<ConsentBatchOperation, { type: 'verify' }>,
+    actor: ConsentBatchActor
+  ): string | null {
+    if (actor.role === 'admin') {
+      return null;
+    }
+
+    if (actor.role === 'controller') {
+      if (!actor.controllerHash) {
+        return 'No controller registered for this organization';
+      }
+      if (operation.type === 'grant' && operation.controllerId !== actor.controllerHash) {
+        return 'Controllers can only grant consent for their own organization';
+      }
+      return null;
+    }
+
+    // Guardians may act for their wards; the guardianship is checked when the item is prepared
+    return operation.userId === actor.userId || operation.guardianId === actor.userId
+      ? null
+      : 'Users can only change their own consents';
+  }
+
+  private getRawBatchOperationType(operation: unknown): ConsentBatchItemResult['type'] {
+    const type = typeof operation === 'object' && operation !== null && 'type' in operation
+      ? operation.type
+      : undefined;
+    return type === 'grant' || type === 'revoke' ? type : 'verify';
+  }
+
+  private batchFailure(
+    index: number,
+    type: ConsentBatchOperation['type'],
+    code: string,
+    message: string
+  ): ConsentBatchItemResult {
+    return { index, type, success: false, error: { code, message } };
+  }
+
+  private summarizeBatch(
+    batchId: string,
+    results: ConsentBatchItemResult[],
+    hgtpTxHash?: string,
+    batchRoot?: string
+  ): ConsentBatchResponse {
+    const succeeded = results.filter(result => result.success).length;
+
+    return {
+      batchId,
+      hgtpTxHash,
+      batchRoot,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    };
+  }
+
+  /**
+   * Find granted consents whose expires_at has passed, oldest first
+   */
+  async findExpiredConsentIds(limit: number): Promise<string[]> {
+    const result = await databaseService.query(
+      `SELECT consent_id FROM consents
+       WHERE status = $1
+       AND expires_at IS NOT NULL
+       AND expires_at <= NOW()
+       ORDER BY expires_at ASC, consent_id ASC
+       LIMIT $2`,
+      ['granted', limit]
+    );
+
+    return result.rows.map((row: any) => row.consent_id);
+  }
+
+  /**
+   * Transition a past-expiry consent to EXPIRED and anchor the change.
+   * The row is locked for the duration so concurrent sweeps cannot anchor it twice;
+   * returns false if the consent was already transitioned or anchoring failed (retried next run).
+   */
+  async expireConsent(consentId: string): Promise<boolean> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const consentResult = await client.query(
+        `SELECT consent_id, user_id, controller_hash, purpose_hash, data_categories, expires_at FROM consents
+         WHERE consent_id = $1
+         AND status = $2
+         AND expires_at IS NOT NULL
+         AND expires_at <= NOW()
+         FOR UPDATE SKIP LOCKED`,
+        [consentId, 'granted']
+      );
+
+      if (consentResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const consentRecord = consentResult.rows[0];
+      const expiredAt = Date.now();
+      const hgtpResult = await blockchainService.updateConsentStatus(
+        consentId,
+        ConsentStatus.EXPIRED,
+        { expiresAt: new Date(consentRecord.expires_at).getTime() }
+      );
+
+      await client.query(
+        `UPDATE consents 
+         SET status = $1, updated_at = NOW(), hgtp_tx_hash = $2, anchoring_timestamp = $3
+         WHERE consent_id = $4`,
+        [
+          'expired',
+          hgtpResult.transactionHash,
+          new Date(hgtpResult.anchoringTimestamp).toISOString(),
+          consentId
+        ]
+      );
+
+      await this.recordConsentEvent({
+        consentId,
+        eventType: ConsentEventType.EXPIRED,
+        status: ConsentStatus.EXPIRED,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details: { reason: 'expiry_reached' },
+        anchor: hgtpResult,
+        occurredAt: expiredAt
+      }, client);
+
+      await client.query('COMMIT');
+
+      await this.createAuditLog({
+        consent_id: consentId,
+        user_id: consentRecord.user_id,
+        controller_hash: consentRecord.controller_hash,
+        action: 'consent_expired',
+        details: {
+          expiresAt: new Date(consentRecord.expires_at).getTime(),
+          reason: 'expiry_reached'
+        },
+        hgtp_tx_hash: hgtpResult.transactionHash
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_EXPIRED, {
+        ...this.webhookDataFromRecord(consentRecord, expiredAt),
+        status: ConsentStatus.EXPIRED,
+        hgtpTxHash: hgtpResult.transactionHash
+      }, ConsentEventType.EXPIRED, hgtpResult);
+
+      logger.info('Consent expired', { consentId, hgtpTxHash: hgtpResult.transactionHash });
+      return true;
+    } catch (error: any) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error('Failed to expire consent', { error: error.message, consentId });
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Find guardian consents whose data subject has reached the digital age of consent
+   */
+  async findConsentsDueForConversion(limit: number): Promise<string[]> {
+    const result = await databaseService.query(
+      `SELECT consent_id FROM consents
+       WHERE status = $1
+       AND guardian_id IS NOT NULL
+       AND converted_at IS NULL
+       AND guardian_consent_until <= NOW()
+       ORDER BY guardian_consent_until ASC, consent_id ASC
+       LIMIT $2`,
+      ['granted', limit]
+    );
+
+    return result.rows.map((row: any) => row.consent_id);
+  }
+
+  /**
+   * Convert a guardian's consent into the data subject's own once they reach the digital age
+   * of consent, and anchor the change. From then on only the data subject can act on it.
+   * Returns false if already converted or anchoring failed (retried next run).
+   */
+  async convertGuardianConsent(consentId: string): Promise<boolean> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const consentResult = await client.query(
+        `SELECT consent_id, user_id, controller_hash, data_categories, expires_at, guardian_id, guardian_consent_until
+         FROM consents
+         WHERE consent_id = $1
+         AND status = $2
+         AND guardian_id IS NOT NULL
+         AND converted_at IS NULL
+         AND guardian_consent_until <= NOW()
+         FOR UPDATE SKIP LOCKED`,
+        [consentId, 'granted']
+      );
+
+      if (consentResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const consentRecord = consentResult.rows[0];
+      const convertedAt = Date.now();
+      const hgtpResult = await blockchainService.updateConsentStatus(
+        consentId,
+        ConsentStatus.GRANTED,
+        { convertedAt, givenBy: 'data_subject' }
+      );
+
+      await client.query(
+        `UPDATE consents 
+         SET converted_at = $1, updated_at = $1, hgtp_tx_hash = $2, anchoring_timestamp = $3
+         WHERE consent_id = $4`,
+        [
+          new Date(convertedAt).toISOString(),
+          hgtpResult.transactionHash,
+          new Date(hgtpResult.anchoringTimestamp).toISOString(),
+          consentId
+        ]
+      );
+
+      const details = {
+        reason: 'digital_consent_age_reached',
+        guardianId: consentRecord.guardian_id,
+        reachedAt: new Date(consentRecord.guardian_consent_until).getTime()
+      };
+
+      await this.recordConsentEvent({
+        consentId,
+        eventType: ConsentEventType.CONVERTED,
+        status: ConsentStatus.GRANTED,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details,
+        anchor: hgtpResult,
+        occurredAt: convertedAt
+      }, client);
+
+      await client.query('COMMIT');
+
+      await this.createAuditLog({
+        consent_id: consentId,
+        user_id: consentRecord.user_id,
+        controller_hash: consentRecord.controller_hash,
+        action: 'consent_converted',
+        details,
+        hgtp_tx_hash: hgtpResult.transactionHash
+      });
+
+      logger.info('Guardian consent converted', { consentId, hgtpTxHash: hgtpResult.transactionHash });
+      return true;
+    } catch (error: any) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error('Failed to convert guardian consent', { error: error.message, consentId });
+      return false;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Restrict processing of a granted consent at the data subject's request (GDPR Art. 18).
+   * The consent stays restricted until its controller lifts the restriction.
+   */
+  async restrictProcessing(consentId: string, request: RestrictionRequest, actorId: string): Promise<ProcessingRightsRequest> {
+    const userId = await this.resolveSubjectId(consentId, actorId, request.guardianId);
+    // Like withdrawals, minors may exercise this right themselves
+    const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, { minorMaySign: true });
+
+    await this.verifyUserSignature(
+      signer.signerId,
+      cryptoService.createRestrictionMessage(userId, consentId, request.ground, request.reason, request.signedAt, request.nonce),
+      request.signature,
+      request.signedAt,
+      request.nonce
+    );
+
+    return this.raiseProcessingRight(consentId, userId, ProcessingRightType.RESTRICTION, request.reason, request.ground);
+  }
+
+  /**
+   * Object to processing of a granted consent (GDPR Art. 21). Only processing based on
+   * legitimate interests or a public task can be objected to; consent is withdrawn instead.
+   */
+  async objectToProcessing(consentId: string, request: ObjectionRequest, actorId: string): Promise<ProcessingRightsRequest> {
+    const userId = await this.resolveSubjectId(consentId, actorId, request.guardianId);
+    const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, { minorMaySign: true });
+
+    await this.verifyUserSignature(
+      signer.signerId,
+      cryptoService.createObjectionMessage(userId, consentId, request.reason, request.signedAt, request.nonce),
+      request.signature,
+      request.signedAt,
+      request.nonce
+    );
+
+    return this.raiseProcessingRight(consentId, userId, ProcessingRightType.OBJECTION, request.reason);
+  }
+
+  /**
+   * Decide an open restriction or objection. A lifted restriction or rejected objection returns
+   * the consent to its previous status; an upheld objection leaves it objected for good.
+   * Pass controllerHash null for admins.
+   */
+  async resolveProcessingRight(
+    requestId: string,
+    resolution: ProcessingRightsResolution,
+    controllerHash: string | null,
+    actorId: string
+  ): Promise<ProcessingRightsRequest> {
+    const client = await databaseService.poolConnection.connect();
+    let consentRecord: any;
+    let rightsRequest: ProcessingRightsRequest;
+    let hgtpResult: HGTPResult;
+    let resolvedStatus: ConsentStatus;
+    let eventType: ConsentEventType;
+    const resolvedAt = Date.now();
+
+    try {
+      await client.query('BEGIN');
+
+      const requestResult = await client.query(
+        'SELECT * FROM processing_rights_requests WHERE request_id = $1 FOR UPDATE',
+        [requestId]
+      );
+      if (requestResult.rows.length === 0) {
+        throw new NotFoundError('Processing rights request not found');
+      }
+
+      rightsRequest = await this.mapProcessingRightsRequest(requestResult.rows[0]);
+      if (controllerHash && rightsRequest.controllerHash !== controllerHash) {
+        throw new ForbiddenError('Processing rights request belongs to another controller');
+      }
+      if (rightsRequest.status !== ProcessingRightStatus.OPEN) {
+        throw new ConflictError(`Processing rights request is already ${rightsRequest.status}`);
+      }
+
+      const isRestriction = rightsRequest.type === ProcessingRightType.RESTRICTION;
+      if (isRestriction && resolution.decision !== ProcessingRightStatus.LIFTED) {
+        throw new ValidationError('A restriction can only be lifted');
+      }
+      if (!isRestriction && resolution.decision === ProcessingRightStatus.LIFTED) {
+        throw new ValidationError('An objection is either upheld or rejected');
+      }
+
+      const heldStatus = isRestriction ? ConsentStatus.RESTRICTED : ConsentStatus.OBJECTED;
+      const consentResult = await client.query(
+        'SELECT * FROM consents WHERE consent_id = $1 FOR UPDATE',
+        [rightsRequest.consentId]
+      );
+      consentRecord = consentResult.rows[0];
+      if (!consentRecord || consentRecord.status !== heldStatus) {
+        throw new ConflictError(`Consent is no longer ${heldStatus}`);
+      }
+
+      resolvedStatus = resolution.decision === ProcessingRightStatus.UPHELD
+        ? ConsentStatus.OBJECTED
+        : requestResult.rows[0].previous_status as ConsentStatus;
+      eventType = isRestriction ? ConsentEventType.RESTRICTION_LIFTED : ConsentEventType.OBJECTION_RESOLVED;
+
+      hgtpResult = await blockchainService.updateConsentStatus(rightsRequest.consentId, resolvedStatus, {
+        processingRightsRequestId: requestId,
+        type: rightsRequest.type,
+        decision: resolution.decision
+      });
+
+      await client.query(
+        `UPDATE consents 
+         SET status = $1, updated_at = $2, hgtp_tx_hash = $3, anchoring_timestamp = $4
+         WHERE consent_id = $5`,
+        [
+          resolvedStatus,
+          new Date(resolvedAt).toISOString(),
+          hgtpResult.transactionHash,
+          new Date(hgtpResult.anchoringTimestamp).toISOString(),
+          rightsRequest.consentId
+        ]
+      );
+
+      await client.query(
+        `UPDATE processing_rights_requests
+         SET status = $1, resolution_note = $2, resolved_at = $3, resolved_by = $4, resolved_tx_hash = $5
+         WHERE request_id = $6`,
+        [
+          resolution.decision,
+          await userKeyService.encryptField(rightsRequest.userId, resolution.note, client),
+          new Date(resolvedAt).toISOString(),
+          actorId,
+          hgtpResult.transactionHash,
+          requestId
+        ]
+      );
+
+      await this.recordConsentEvent({
+        consentId: rightsRequest.consentId,
+        eventType,
+        status: resolvedStatus,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details: { processingRightsRequestId: requestId, decision: resolution.decision, resolvedBy: actorId },
+        anchor: hgtpResult,
+        occurredAt: resolvedAt
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.createAuditLog({
+      consent_id: rightsRequest.consentId,
+      user_id: rightsRequest.userId,
+      controller_hash: rightsRequest.controllerHash,
+      action: `consent_${eventType}`,
+      details: { processingRightsRequestId: requestId, decision: resolution.decision, resolvedBy: actorId },
+      hgtp_tx_hash: hgtpResult.transactionHash
+    });
+
+    if (resolvedStatus === ConsentStatus.GRANTED) {
+      await this.notifyWebhooks(WebhookEventType.CONSENT_REINSTATED, {
+        ...this.webhookDataFromRecord(consentRecord, resolvedAt),
+        status: resolvedStatus,
+        processingRightsRequestId: requestId,
+        hgtpTxHash: hgtpResult.transactionHash
+      }, eventType, hgtpResult);
+    }
+
+    logger.info('Processing rights request resolved', {
+      requestId,
+      consentId: rightsRequest.consentId,
+      decision: resolution.decision,
+      hgtpTxHash: hgtpResult.transactionHash
+    });
+
+    return {
+      ...rightsRequest,
+      status: resolution.decision,
+      resolutionNote: resolution.note,
+      resolvedAt,
+      resolvedBy: actorId,
+      resolvedTxHash: hgtpResult.transactionHash
+    };
+  }
+
+  /**
+   * List restrictions and objections, newest first
+   */
+  async listProcessingRights(filter: ProcessingRightsFilter): Promise<ProcessingRightsRequest[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.userId) {
+      params.push(filter.userId);
+      conditions.push(`user_id = $${params.length}`);
+    }
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`controller_hash = $${params.length}`);
+    }
+    if (filter.type) {
+      params.push(filter.type);
+      conditions.push(`type = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const result = await databaseService.query(
+      `SELECT * FROM processing_rights_requests
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY raised_at DESC`,
+      params
+    );
+
+    return Promise.all(result.rows.map((row: any) => this.mapProcessingRightsRequest(row)));
+  }
+
+  /**
+   * Move a granted consent to RESTRICTED or OBJECTED, anchor the change and open the request
+   */
+  private async raiseProcessingRight(
+    consentId: string,
+    userId: string,
+    type: ProcessingRightType,
+    reason: string,
+    ground?: RestrictionGround
+  ): Promise<ProcessingRightsRequest> {
+    const isRestriction = type === ProcessingRightType.RESTRICTION;
+    const status = isRestriction ? ConsentStatus.RESTRICTED : ConsentStatus.OBJECTED;
+    const eventType = isRestriction ? ConsentEventType.RESTRICTED : ConsentEventType.OBJECTED;
+    const requestId = randomUUID();
+    const raisedAt = Date.now();
+
+    const client = await databaseService.poolConnection.connect();
+    let consentRecord: any;
+    let hgtpResult: HGTPResult;
+
+    try {
+      await client.query('BEGIN');
+
+      const consentResult = await client.query(
+        'SELECT * FROM consents WHERE consent_id = $1 AND user_id = $2 FOR UPDATE',
+        [consentId, userId]
+      );
+      if (consentResult.rows.length === 0) {
+        throw new NotFoundError('Consent not found or access denied');
+      }
+
+      consentRecord = consentResult.rows[0];
+      if (consentRecord.status !== ConsentStatus.GRANTED) {
+        throw new ConflictError(`Cannot ${isRestriction ? 'restrict' : 'object to'} consent with status: ${consentRecord.status}`);
+      }
+      if (!isRestriction && !OBJECTABLE_BASES.includes(consentRecord.lawful_basis)) {
+        throw new ValidationError(
+          `Objection applies to processing based on legitimate interests or a public task; withdraw consent based on ${consentRecord.lawful_basis} instead`
+        );
+      }
+
+      hgtpResult = await blockchainService.updateConsentStatus(consentId, status, {
+        processingRightsRequestId: requestId,
+        type,
+        ground
+      });
+
+      await client.query(
+        `UPDATE consents 
+         SET status = $1, updated_at = $2, hgtp_tx_hash = $3, anchoring_timestamp = $4
+         WHERE consent_id = $5`,
+        [
+          status,
+          new Date(raisedAt).toISOString(),
+          hgtpResult.transactionHash,
+          new Date(hgtpResult.anchoringTimestamp).toISOString(),
+          consentId
+        ]
+      );
+
+      await client.query(
+        `INSERT INTO processing_rights_requests (
+          request_id, consent_id, user_id, controller_hash, type, ground, reason, previous_status, raised_at, raised_tx_hash
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          requestId,
+          consentId,
+          userId,
+          consentRecord.controller_hash,
+          type,
+          ground ?? null,
+          await userKeyService.encryptField(userId, reason, client),
+          consentRecord.status,
+          new Date(raisedAt).toISOString(),
+          hgtpResult.transactionHash
+        ]
+      );
+
+      await this.recordConsentEvent({
+        consentId,
+        eventType,
+        status,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details: { processingRightsRequestId: requestId, ground },
+        anchor: hgtpResult,
+        occurredAt: raisedAt
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: userId,
+      controller_hash: consentRecord.controller_hash,
+      action: `consent_${eventType}`,
+      details: { processingRightsRequestId: requestId, ground },
+      hgtp_tx_hash: hgtpResult.transactionHash
+    });
+
+    await this.notifyWebhooks(
+      isRestriction ? WebhookEventType.CONSENT_RESTRICTED : WebhookEventType.CONSENT_OBJECTED,
+      {
+        ...this.webhookDataFromRecord(consentRecord, raisedAt),
+        status,
+        processingRightsRequestId: requestId,
+        hgtpTxHash: hgtpResult.transactionHash
+      },
+      eventType,
+      hgtpResult
+    );
+
+    logger.info('Processing rights request raised', { requestId, consentId, type, hgtpTxHash: hgtpResult.transactionHash });
+
+    return {
+      requestId,
+      consentId,
+      userId,
+      controllerHash: consentRecord.controller_hash,
+      type,
+      status: ProcessingRightStatus.OPEN,
+      ground,
+      reason,
+      raisedAt,
+      raisedTxHash: hgtpResult.transactionHash
+    };
+  }
+
+  /**
+   * Close the open restriction or objection of a consent that is being revoked.
+   * Returns the closed request's ID, if there was one.
+   */
+  private async withdrawProcessingRight(
+    consentId: string,
+    userId: string,
+    withdrawnAt: number,
+    txHash: string,
+    executor: QueryExecutor = databaseService
+  ): Promise<string | undefined> {
+    const result = await executor.query(
+      `UPDATE processing_rights_requests
+       SET status = $1, resolved_at = $2, resolved_by = $3, resolved_tx_hash = $4
+       WHERE consent_id = $5 AND status = $6
+       RETURNING request_id`,
+      [
+        ProcessingRightStatus.WITHDRAWN,
+        new Date(withdrawnAt).toISOString(),
+        userId,
+        txHash,
+        consentId,
+        ProcessingRightStatus.OPEN
+      ]
+    );
+    return result.rows[0]?.request_id;
+  }
+
+  /**
+   * The reason and resolution note are stored under the data subject's key; after erasure they read as empty
+   */
+  private async mapProcessingRightsRequest(row: any): Promise<ProcessingRightsRequest> {
+    const reason = await userKeyService.decryptField(row.user_id, row.reason);
+    const resolutionNote = row.resolution_note ? await userKeyService.decryptField(row.user_id, row.resolution_note) : null;
+
+    return {
+      requestId: row.request_id,
+      consentId: row.consent_id,
+      userId: row.user_id,
+      controllerHash: row.controller_hash,
+      type: row.type as ProcessingRightType,
+      status: row.status as ProcessingRightStatus,
+      ground: row.ground ?? undefined,
+      reason: reason ?? '',
+      resolutionNote: resolutionNote ?? undefined,
+      raisedAt: new Date(row.raised_at).getTime(),
+      raisedTxHash: row.raised_tx_hash ?? undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at).getTime() : undefined,
+      resolvedBy: row.resolved_by ?? undefined,
+      resolvedTxHash: row.resolved_tx_hash ?? undefined
+    };
+  }
+
+  /**
+   * Renew a granted or expired consent by creating a successor that supersedes it.
+   * Both the closure of the old consent and the grant of the new one are anchored.
+   */
+  async renewConsent(consentId: string, request: ConsentRenewRequest, actorId: string): Promise<ConsentRenewResponse> {
+    logger.info('Renewing consent via PostgreSQL', { consentId, userId: actorId });
+
+    const userId = await this.resolveSubjectId(consentId, actorId, request.guardianId);
+
+    try {
+      const consentResult = await databaseService.query(
+        'SELECT * FROM consents WHERE consent_id = $1 AND user_id = $2',
+        [consentId, userId]
+      );
+
+      if (consentResult.rows.length === 0) {
+        throw new Error('Consent not found or access denied');
+      }
+
+      const previous = consentResult.rows[0];
+
+      if (previous.status !== 'granted' && previous.status !== 'expired') {
+        throw new Error(`Cannot renew consent with status: ${previous.status}`);
+      }
+
+      if (previous.status === 'expired') {
+        const activeResult = await databaseService.query(
+          `SELECT consent_id FROM consents 
+           WHERE user_id = $1 
+           AND controller_hash = $2 
+           AND purpose_hash = $3 
+           AND status = $4`,
+          [userId, previous.controller_hash, previous.purpose_hash, 'granted']
+        );
+
+        if (activeResult.rows.length > 0) {
+          throw new Error('Active consent already exists for this purpose');
+        }
+      }
+
+      const dataCategories: string[] = request.dataCategories && request.dataCategories.length > 0
+        ? Array.from(new Set(request.dataCategories))
+        : previous.data_categories || [];
+
+      const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, {
+        lawfulBasis: previous.lawful_basis
+      });
+
+      await this.verifyUserSignature(
+        signer.signerId,
+        cryptoService.createRenewalMessage(
+          userId,
+          consentId,
+          dataCategories,
+          request.expiresAt,
+          request.signedAt,
+          request.nonce
+        ),
+        request.signature,
+        request.signedAt,
+        request.nonce
+      );
+
+      if (request.expiresAt && request.expiresAt <= Date.now()) {
+        throw new Error('Renewed consent must expire in the future');
+      }
+
+      const purpose = await this.resolveGrantPurpose(
+        { purposeId: previous.purpose_id || undefined, expiresAt: request.expiresAt },
+        previous.controller_hash,
+        previous.purpose_hash
+      );
+
+      const timestamp = Date.now();
+      const newConsentId = generateConsentId(userId, previous.controller_hash, previous.purpose_hash, timestamp);
+
+      const zkProof = await realZKService.generateConsentProof({
+        controllerHash: previous.controller_hash,
+        purposeHash: previous.purpose_hash,
+        timestamp: timestamp.toString(),
+        userId: hash(userId),
+        userSecret: hash(userId + previous.lawful_basis),
+        nonce: hash(timestamp.toString() + userId)
+      });
+
+      // Both consents change state in one transaction; the anchors follow the commit, like a grant's
+      const client = await databaseService.poolConnection.connect();
+      try {
+        await client.query('BEGIN');
+
+        const closeResult = await client.query(
+          `UPDATE consents 
+           SET status = $1, superseded_by = $2, updated_at = $3
+           WHERE consent_id = $4 AND status = $5`,
+          ['superseded', newConsentId, new Date(timestamp).toISOString(), consentId, previous.status]
+        );
+
+        if (closeResult.rowCount === 0) {
+          throw new Error('Consent changed while renewing, please retry');
+        }
+
+        await client.query(
+          `INSERT INTO consents (
+            consent_id, user_id, controller_hash, purpose_hash, data_categories, lawful_basis,
+            status, granted_at, expires_at, zk_proof, supersedes,
+            purpose_id, purpose_version, guardian_id, guardian_consent_until
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+          [
+            newConsentId,
+            userId,
+            previous.controller_hash,
+            previous.purpose_hash,
+            dataCategories,
+            previous.lawful_basis,
+            'granted',
+            new Date(timestamp).toISOString(),
+            request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+            JSON.stringify(zkProof),
+            consentId,
+            purpose?.purposeId || null,
+            purpose?.version ?? null,
+            signer.guardianId ?? null,
+            signer.guardianConsentUntil?.toISOString() ?? null
+          ]
+        );
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      const closureResult = await this.anchorRenewalStep(consentId, () => blockchainService.updateConsentStatus(
+        consentId,
+        ConsentStatus.SUPERSEDED,
+        { supersededBy: newConsentId }
+      ));
+      const grantResult = await this.anchorRenewalStep(newConsentId, () => blockchainService.anchorConsent({
+        consentId: newConsentId,
+        controllerHash: previous.controller_hash,
+        purposeHash: previous.purpose_hash,
+        status: ConsentStatus.GRANTED,
+        grantedAt: timestamp,
+        expiresAt: request.expiresAt,
+        hgtpTxHash: '',
+        userId: hash(userId)
+      }));
+
+      await this.recordConsentEvent({
+        consentId,
+        eventType: ConsentEventType.RENEWED,
+        status: ConsentStatus.SUPERSEDED,
+        dataCategories: previous.data_categories || [],
+        expiresAt: previous.expires_at,
+        details: { supersededBy: newConsentId },
+        anchor: closureResult,
+        occurredAt: timestamp
+      });
+
+      await this.recordConsentEvent({
+        consentId: newConsentId,
+        eventType: ConsentEventType.GRANTED,
+        status: ConsentStatus.GRANTED,
+        dataCategories,
+        expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+        details: {
+          lawfulBasis: previous.lawful_basis,
+          supersedes: consentId,
+          ...(signer.guardianId ? { guardianId: signer.guardianId } : {})
+        },
+        anchor: grantResult,
+        occurredAt: timestamp
+      });
+
+      await this.createAuditLog({
+        consent_id: newConsentId,
+        user_id: userId,
+        controller_hash: previous.controller_hash,
+        action: 'consent_renewed',
+        details: {
+          supersedes: consentId,
+          dataCategories,
+          expiresAt: request.expiresAt,
+          supersededTxHash: closureResult.transactionHash
+        },
+        hgtp_tx_hash: grantResult.transactionHash
+      });
+
+      const receiptId = await this.issueReceipt({
+        consentId: newConsentId,
+        userId,
+        controllerHash: previous.controller_hash,
+        action: 'grant',
+        status: ConsentStatus.GRANTED,
+        purposeHash: previous.purpose_hash,
+        dataCategories,
+        lawfulBasis: previous.lawful_basis,
+        expiresAt: request.expiresAt,
+        anchor: grantResult,
+        zkProof,
+        issuedAt: timestamp
+      });
+
+      await this.notifyWebhooks(WebhookEventType.CONSENT_GRANTED, {
+        consentId: newConsentId,
+        controllerHash: previous.controller_hash,
+        userId,
+        purposeHash: previous.purpose_hash,
+        status: ConsentStatus.GRANTED,
+        dataCategories,
+        expiresAt: request.expiresAt,
+        supersedes: consentId,
+        hgtpTxHash: grantResult.transactionHash,
+        occurredAt: timestamp
+      }, ConsentEventType.GRANTED, grantResult);
+
+      logger.info('Consent renewed successfully', {
+        consentId: newConsentId,
+        supersedes: consentId,
+        hgtpTxHash: grantResult.transactionHash
+      });
+
+      return {
+        consentId: newConsentId,
+        hgtpTxHash: grantResult.transactionHash,
+        status: ConsentStatus.GRANTED,
+        expiresAt: request.expiresAt,
+        grantedAt: timestamp,
+        receiptId,
+        supersedes: consentId,
+        supersededTxHash: closureResult.transactionHash
+      };
+    } catch (error) {
+      logger.error('Failed to renew consent', { error, consentId, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw some data categories from a granted consent while keeping the rest.
+   * The change is anchored as consent status metadata and recorded as an AMENDED event.
+   */
+  private async withdrawDataCategories(
+    consentRecord: any,
+    withdrawnCategories: string[],
+    remainingCategories: string[],
+    userId: string
+  ): Promise<ConsentRevokeResponse> {
+    const consentId: string = consentRecord.consent_id;
+    const revokedAt = Date.now();
+
+    const hgtpResult = await blockchainService.updateConsentStatus(
+      consentId,
+      ConsentStatus.GRANTED,
+      {
+        change: 'withdraw_data_categories',
+        withdrawnCategories,
+        remainingCategories
+      }
+    );
+
+    await databaseService.query(
+      `UPDATE consents 
+       SET data_categories = $1, updated_at = $2, hgtp_tx_hash = $3, anchoring_timestamp = $4
+       WHERE consent_id = $5`,
+      [
+        remainingCategories,
+        new Date(revokedAt).toISOString(),
+        hgtpResult.transactionHash,
+        new Date(hgtpResult.anchoringTimestamp).toISOString(),
+        consentId
+      ]
+    );
+
+    await this.recordConsentEvent({
+      consentId,
+      eventType: ConsentEventType.AMENDED,
+      status: ConsentStatus.GRANTED,
+      dataCategories: remainingCategories,
+      expiresAt: consentRecord.expires_at,
+      details: { withdrawnCategories, reason: 'user_request' },
+      anchor: hgtpResult,
+      occurredAt: revokedAt
+    });
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: userId,
+      controller_hash: consentRecord.controller_hash,
+      action: 'consent_categories_withdrawn',
+      details: {
+        withdrawnCategories,
+        remainingCategories,
+        revokedAt
+      },
+      hgtp_tx_hash: hgtpResult.transactionHash
+    });
+
+    const receiptId = await this.issueReceipt({
+      ...this.receiptInputFromRecord(consentRecord),
+      action: 'revoke',
+      status: ConsentStatus.GRANTED,
+      dataCategories: remainingCategories,
+      withdrawnCategories,
+      anchor: hgtpResult,
+      issuedAt: revokedAt
+    });
+
+    await this.notifyWebhooks(WebhookEventType.CONSENT_REVOKED, {
+      ...this.webhookDataFromRecord(consentRecord, revokedAt),
+      status: ConsentStatus.GRANTED,
+      dataCategories: remainingCategories,
+      withdrawnCategories,
+      hgtpTxHash: hgtpResult.transactionHash
+    }, ConsentEventType.AMENDED, hgtpResult);
+
+    logger.info('Consent data categories withdrawn', {
+      consentId,
+      withdrawnCategories,
+      hgtpTxHash: hgtpResult.transactionHash
+    });
+
+    return {
+      consentId,
+      status: ConsentStatus.GRANTED,
+      revokedAt,
+      hgtpTxHash: hgtpResult.transactionHash,
+      withdrawnCategories,
+      remainingCategories,
+      receiptId
+    };
+  }
+
+  /**
+   * Start a double opt-in: record a pending consent for the user to confirm.
+   * Nothing is anchored until the user confirms.
+   */
+  async requestConsent(
+    request: ConsentRequestCreate,
+    controllerHash: string,
+    requestedBy: string
+  ): Promise<ConsentRequestResponse> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const userResult = await databaseService.query('SELECT 1 FROM users WHERE id = $1', [request.userId]);
+    if (userResult.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const purposeHash = generatePurposeHash(request.purpose);
+    const purpose = await this.resolveGrantPurpose(request, controllerHash, purposeHash);
+
+    const existing = await databaseService.query(
+      `SELECT status FROM consents
+       WHERE user_id = $1 AND controller_hash = $2 AND purpose_hash = $3
+       AND (status = 'granted' OR (status = 'pending' AND confirmation_expires_at > NOW()))
+       LIMIT 1`,
+      [request.userId, controllerHash, purposeHash]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError(existing.rows[0].status === 'granted'
+        ? 'Active consent already exists for this purpose'
+        : 'A consent request for this purpose is already awaiting confirmation');
+    }
+
+    const requestedAt = Date.now();
+    const confirmBy = requestedAt + this.getConfirmationWindowMs();
+    const consentId = generateConsentId(request.userId, controllerHash, purposeHash, requestedAt);
+
+    await databaseService.query(
+      `INSERT INTO consents (
+        consent_id, user_id, controller_hash, purpose_hash, data_categories, lawful_basis,
+        status, granted_at, expires_at, purpose_id, purpose_version, confirmation_expires_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        consentId,
+        request.userId,
+        controllerHash,
+        purposeHash,
+        request.dataCategories,
+        request.lawfulBasis,
+        'pending',
+        new Date(requestedAt).toISOString(),
+        request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+        purpose?.purposeId || null,
+        purpose?.version ?? null,
+        new Date(confirmBy).toISOString()
+      ]
+    );
+
+    await this.recordConsentEvent({
+      consentId,
+      eventType: ConsentEventType.REQUESTED,
+      status: ConsentStatus.PENDING,
+      dataCategories: request.dataCategories,
+      expiresAt: request.expiresAt ? new Date(request.expiresAt).toISOString() : null,
+      details: { purpose: request.purpose, lawfulBasis: request.lawfulBasis, requestedBy, confirmBy },
+      occurredAt: requestedAt
+    });
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: request.userId,
+      controller_hash: controllerHash,
+      action: 'consent_requested',
+      details: {
+        purpose: request.purpose,
+        lawfulBasis: request.lawfulBasis,
+        dataCategories: request.dataCategories,
+        requestedBy,
+        confirmBy
+      }
+    });
+
+    logger.info('Consent requested', { consentId, controllerHash, confirmBy });
+
+    return {
+      consentId,
+      status: ConsentStatus.PENDING,
+      requestedAt,
+      confirmBy
+    };
+  }
+
+  /**
+   * Pending consent requests awaiting the user's confirmation, newest first. Each carries the
+   * signed confirmation link when links are configured; the link is only ever issued here.
+   */
+  async getPendingRequests(userId: string): Promise<PendingConsentRequest[]> {
+    const result = await databaseService.query(
+      `SELECT c.*, ctrl.organization_name,
+              (SELECT details->>'purpose' FROM consent_events e
+               WHERE e.consent_id = c.consent_id AND e.event_type = $2
+               ORDER BY e.occurred_at ASC LIMIT 1) AS purpose
+       FROM consents c
+       LEFT JOIN controllers ctrl ON ctrl.controller_hash = c.controller_hash
+       WHERE c.user_id = $1 AND c.status = 'pending' AND c.confirmation_expires_at > NOW()
+       ORDER BY c.granted_at DESC`,
+      [userId, ConsentEventType.REQUESTED]
+    );
+
+    return result.rows.map((row: any) => ({
+      consentId: row.consent_id,
+      controllerHash: row.controller_hash,
+      controllerName: row.organization_name || undefined,
+      purpose: row.purpose || row.purpose_hash,
+      dataCategories: row.data_categories || [],
+      lawfulBasis: row.lawful_basis as LegalBasis,
+      expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+      requestedAt: new Date(row.granted_at).getTime(),
+      confirmBy: new Date(row.confirmation_expires_at).getTime(),
+      confirmationUrl: this.createConfirmationUrl(
+        row.consent_id,
+        userId,
+        new Date(row.confirmation_expires_at).getTime()
+      )
+    }));
+  }
+
+  /**
+   * Confirm a pending consent from the dashboard with the user's signature
+   */
+  async confirmConsent(consentId: string, request: ConsentConfirmRequest, actorId: string): Promise<ConsentConfirmResponse> {
+    const userId = await this.resolveSubjectId(consentId, actorId, request.guardianId);
+    const signer = await guardianService.resolveConsentSigner(userId, request.guardianId, {
+      lawfulBasis: await this.getLawfulBasis(consentId)
+    });
+
+    await this.verifyUserSignature(
+      signer.signerId,
+      cryptoService.createConfirmationMessage(userId, consentId, request.signedAt, request.nonce),
+      request.signature,
+      request.signedAt,
+      request.nonce
+    );
+
+    return this.confirmPendingConsent(consentId, userId, 'dashboard', {
+      signature: request.signature,
+      signedAt: request.signedAt,
+      nonce: request.nonce,
+      guardianId: signer.guardianId
+    }, signer);
+  }
+
+  /**
+   * Confirm a pending consent through the signed link sent to the user
+   */
+  async confirmConsentWithToken(token: string): Promise<ConsentConfirmResponse> {
+    const secret = this.getConfirmationSecret();
+    if (!secret) {
+      throw new Error('Confirmation links are not configured');
+    }
+
+    let payload: any;
+    try {
+      payload = jwt.verify(token, secret, { audience: CONFIRMATION_TOKEN_AUDIENCE });
+    } catch (error: any) {
+      throw new ValidationError(error.name === 'TokenExpiredError'
+        ? 'Confirmation link has expired'
+        : 'Invalid confirmation link');
+    }
+
+    // A link proves only the minor's mailbox, not a guardian's consent
+    const signer = await guardianService.resolveConsentSigner(payload.userId, undefined, {
+      lawfulBasis: await this.getLawfulBasis(payload.consentId)
+    });
+
+    return this.confirmPendingConsent(payload.consentId, payload.userId, 'link', {
+      tokenHash: hash(token)
+    }, signer);
+  }
+
+  /**
+   * Decline a pending consent request. It was never anchored, so nothing is anchored now either.
+   */
+  async declineConsentRequest(consentId: string, userId: string): Promise<void> {
+    const result = await databaseService.query(
+      `UPDATE consents SET status = 'revoked', updated_at = NOW()
+       WHERE consent_id = $1 AND user_id = $2 AND status = 'pending'
+       RETURNING data_categories, expires_at, controller_hash`,
+      [consentId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Pending consent request not found');
+    }
+
+    const consentRecord = result.rows[0];
+
+    await this.recordConsentEvent({
+      consentId,
+      eventType: ConsentEventType.REVOKED,
+      status: ConsentStatus.REVOKED,
+      dataCategories: consentRecord.data_categories || [],
+      expiresAt: consentRecord.expires_at,
+      details: { reason: 'request_declined' },
+      occurredAt: Date.now()
+    });
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: userId,
+      controller_hash: consentRecord.controller_hash,
+      action: 'consent_request_declined',
+      details: { reason: 'user_request' }
+    });
+  }
+
+  /**
+   * Find pending consents whose confirmation window has passed
+   */
+  async findUnconfirmedConsentIds(limit: number): Promise<string[]> {
+    const result = await databaseService.query(
+      `SELECT consent_id FROM consents
+       WHERE status = 'pending' AND confirmation_expires_at <= NOW()
+       ORDER BY confirmation_expires_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row: any) => row.consent_id);
+  }
+
+  /**
+   * Expire a pending consent that was not confirmed in time. Unconfirmed requests were
+   * never anchored, so the transition is only recorded in the history and audit log.
+   */
+  async expireUnconfirmedConsent(consentId: string): Promise<boolean> {
+    const result = await databaseService.query(
+      `UPDATE consents SET status = 'expired', updated_at = NOW()
+       WHERE consent_id = $1 AND status = 'pending' AND confirmation_expires_at <= NOW()
+       RETURNING user_id, controller_hash, data_categories, expires_at, confirmation_expires_at`,
+      [consentId]
+    );
+
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    const consentRecord = result.rows[0];
+    const confirmBy = new Date(consentRecord.confirmation_expires_at).getTime();
+
+    await this.recordConsentEvent({
+      consentId,
+      eventType: ConsentEventType.EXPIRED,
+      status: ConsentStatus.EXPIRED,
+      dataCategories: consentRecord.data_categories || [],
+      expiresAt: consentRecord.expires_at,
+      details: { reason: 'confirmation_window_elapsed', confirmBy },
+      occurredAt: Date.now()
+    });
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: consentRecord.user_id,
+      controller_hash: consentRecord.controller_hash,
+      action: 'consent_request_expired',
+      details: { confirmBy, reason: 'confirmation_window_elapsed' }
+    });
+
+    return true;
+  }
+
+  /**
+   * Turn a pending consent into a granted one. The row stays locked while the grant is
+   * anchored, so a consent confirmed twice (dashboard and link) is only anchored once.
+   */
+  private async confirmPendingConsent(
+    consentId: string,
+    userId: string,
+    confirmedVia: ConsentConfirmationMethod,
+    evidence: Record<string, unknown>,
+    signer: ConsentSigner
+  ): Promise<ConsentConfirmResponse> {
+    const client = await databaseService.poolConnection.connect();
+    let consentRecord: any;
+    let request: { purpose?: string; lawfulBasis?: LegalBasis } = {};
+    let zkProof: any;
+    let anchor: HGTPResult;
+    const confirmedAt = Date.now();
+
+    try {
+      await client.query('BEGIN');
+
+      const consentResult = await client.query(
+        `SELECT c.*,
+                (SELECT details FROM consent_events e
+                 WHERE e.consent_id = c.consent_id AND e.event_type = $2
+                 ORDER BY e.occurred_at ASC LIMIT 1) AS request_details
+         FROM consents c
+         WHERE c.consent_id = $1
+         FOR UPDATE OF c`,
+        [consentId, ConsentEventType.REQUESTED]
+      );
+
+      consentRecord = consentResult.rows[0];
+      if (!consentRecord) {
+        throw new NotFoundError('Consent request not found');
+      }
+      if (consentRecord.user_id !== userId) {
+        throw new ForbiddenError('Consent request belongs to another user');
+      }
+      if (consentRecord.status !== 'pending') {
+        throw new ConflictError(`Consent request is already ${consentRecord.status}`);
+      }
+      if (new Date(consentRecord.confirmation_expires_at).getTime() <= confirmedAt) {
+        throw new ConflictError('Consent request has expired');
+      }
+      if (consentRecord.expires_at && new Date(consentRecord.expires_at).getTime() <= confirmedAt) {
+        throw new ConflictError('Requested consent period has already ended');
+      }
+
+      const duplicate = await client.query(
+        `SELECT 1 FROM consents
+         WHERE user_id = $1 AND controller_hash = $2 AND purpose_hash = $3 AND status = 'granted'`,
+        [userId, consentRecord.controller_hash, consentRecord.purpose_hash]
+      );
+      if (duplicate.rows.length > 0) {
+        throw new ConflictError('Active consent already exists for this purpose');
+      }
+
+      request = consentRecord.request_details || {};
+      zkProof = await realZKService.generateConsentProof({
+        controllerHash: consentRecord.controller_hash,
+        purposeHash: consentRecord.purpose_hash,
+        timestamp: confirmedAt.toString(),
+        userId: hash(userId),
+        userSecret: hash(userId + consentRecord.lawful_basis),
+        nonce: hash(confirmedAt.toString() + userId)
+      });
+
+      // Only the confirmation is anchored: an unconfirmed request carries no consent
+      anchor = await blockchainService.anchorConsent({
+        consentId,
+        controllerHash: consentRecord.controller_hash,
+        purposeHash: consentRecord.purpose_hash,
+        status: ConsentStatus.GRANTED,
+        grantedAt: confirmedAt,
+        expiresAt: consentRecord.expires_at ? new Date(consentRecord.expires_at).getTime() : undefined,
+        hgtpTxHash: '',
+        userId: hash(userId)
+      });
+
+      await client.query(
+        `UPDATE consents
+         SET status = 'granted', granted_at = $1, confirmed_at = $1, zk_proof = $2,
+             hgtp_tx_hash = $3, anchoring_timestamp = $4, updated_at = $1,
+             guardian_id = $5, guardian_consent_until = $6
+         WHERE consent_id = $7`,
+        [
+          new Date(confirmedAt).toISOString(),
+          JSON.stringify(zkProof),
+          anchor.transactionHash,
+          new Date(anchor.anchoringTimestamp).toISOString(),
+          signer.guardianId ?? null,
+          signer.guardianConsentUntil?.toISOString() ?? null,
+          consentId
+        ]
+      );
+
+      await this.recordConsentEvent({
+        consentId,
+        eventType: ConsentEventType.GRANTED,
+        status: ConsentStatus.GRANTED,
+        dataCategories: consentRecord.data_categories || [],
+        expiresAt: consentRecord.expires_at,
+        details: {
+          lawfulBasis: consentRecord.lawful_basis,
+          doubleOptIn: true,
+          confirmedVia,
+          requestedAt: new Date(consentRecord.granted_at).getTime(),
+          ...(signer.guardianId ? { guardianId: signer.guardianId } : {})
+        },
+        anchor,
+        occurredAt: confirmedAt
+      }, client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const requestedAt = new Date(consentRecord.granted_at).getTime();
+    const expiresAt = consentRecord.expires_at ? new Date(consentRecord.expires_at).getTime() : undefined;
+
+    await this.createAuditLog({
+      consent_id: consentId,
+      user_id: userId,
+      controller_hash: consentRecord.controller_hash,
+      action: 'consent_granted',
+      details: {
+        purpose: request.purpose,
+        lawfulBasis: consentRecord.lawful_basis,
+        dataCategories: consentRecord.data_categories,
+        doubleOptIn: true,
+        confirmedVia,
+        requestedAt,
+        evidence
+      },
+      hgtp_tx_hash: anchor.transactionHash
+    });
+
+    const receiptId = await this.issueReceipt({
+      ...this.receiptInputFromRecord(consentRecord),
+      action: 'grant',
+      status: ConsentStatus.GRANTED,
+      purpose: request.purpose,
+      expiresAt,
+      anchor,
+      zkProof,
+      issuedAt: confirmedAt
+    });
+
+    await this.notifyWebhooks(WebhookEventType.CONSENT_GRANTED, {
+      ...this.webhookDataFromRecord(consentRecord, confirmedAt),
+      status: ConsentStatus.GRANTED,
+      hgtpTxHash: anchor.transactionHash
+    }, ConsentEventType.GRANTED, anchor);
+
+    logger.info('Consent request confirmed', { consentId, confirmedVia, hgtpTxHash: anchor.transactionHash });
+
+    return {
+      consentId,
+      hgtpTxHash: anchor.transactionHash,
+      status: ConsentStatus.GRANTED,
+      expiresAt,
+      grantedAt: confirmedAt,
+      receiptId,
+      confirmedVia,
+      requestedAt
+    };
+  }
+
+  private getConfirmationWindowMs(): number {
+    const hours = parseFloat(process.env.CONSENT_CONFIRMATION_WINDOW_HOURS || '') || DEFAULT_CONFIRMATION_WINDOW_HOURS;
+    return hours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Link tokens are signed with their own secret so they can never pass as login tokens
+   */
+  private getConfirmationSecret(): string | null {
+    return process.env.CONSENT_CONFIRMATION_SECRET || null;
+  }
+
+  private createConfirmationUrl(consentId: string, userId: string, confirmBy: number): string | undefined {
+    const secret = this.getConfirmationSecret();
+    if (!secret) {
+      return undefined;
+    }
+
+    const token = jwt.sign(
+      { consentId, userId },
+      secret,
+      { audience: CONFIRMATION_TOKEN_AUDIENCE, expiresIn: Math.max(Math.ceil((confirmBy - Date.now()) / 1000), 1) }
+    );
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5000';
+    return `${baseUrl}/consent/confirm?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Get user's active consents
+   */
+  async getActiveConsents(userId: string): Promise<any[]> {
+    try {
+      const result = await databaseService.query(
+        `SELECT *
+         FROM consents
+         WHERE user_id = $1 
+         AND status = $2
+         ORDER BY granted_at DESC`,
+        [userId, 'granted']
+      );
+
+      return result.rows;
+    } catch (error) {
+      logger.error('Failed to get active consents', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Filtered, sorted consent listing with keyset (cursor) pagination.
+   * The scope is applied on top of the filters, so callers cannot widen it.
+   */
+  async searchConsents(query: ConsentQuery, scope: ConsentQueryScope): Promise<ConsentQueryResponse> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (scope.userId) addCondition('c.user_id = ?', scope.userId);
+    if (scope.controllerHash) addCondition('c.controller_hash = ?', scope.controllerHash);
+    if (query.userId) addCondition('c.user_id = ?', query.userId);
+    if (query.controllerId) addCondition('c.controller_hash = ?', query.controllerId);
+    if (query.status) addCondition('c.status = ?', query.status);
+    if (query.lawfulBasis) addCondition('c.lawful_basis = ?', query.lawfulBasis);
+    if (query.dataCategory) addCondition('? = ANY(c.data_categories)', query.dataCategory);
+    if (query.grantedFrom !== undefined) addCondition('c.granted_at >= ?', new Date(query.grantedFrom).toISOString());
+    if (query.grantedTo !== undefined) addCondition('c.granted_at <= ?', new Date(query.grantedTo).toISOString());
+    if (query.expiresFrom !== undefined) addCondition('c.expires_at >= ?', new Date(query.expiresFrom).toISOString());
+    if (query.expiresTo !== undefined) addCondition('c.expires_at <= ?', new Date(query.expiresTo).toISOString());
+
+    if (query.anchorStatus === ConsentAnchorStatus.UNANCHORED) {
+      conditions.push('c.hgtp_tx_hash IS NULL');
+    } else if (query.anchorStatus) {
+      addCondition(
+        query.anchorStatus === ConsentAnchorStatus.FAILED ? 'c.hgtp_tx_hash LIKE ?' : 'c.hgtp_tx_hash NOT LIKE ?',
+        `${FALLBACK_TX_PREFIX}%`
+      );
+    }
+
+    const sortExpression = CONSENT_SORT_EXPRESSIONS[query.sortBy];
+    const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.cursor) {
+      const [sortKey, consentId] = this.decodeConsentCursor(query.cursor);
+      params.push(sortKey, consentId);
+      conditions.push(
+        `(${sortExpression}, c.consent_id) ${direction === 'ASC' ? '>' : '<'} ($${params.length - 1}::timestamp, $${params.length})`
+      );
+    }
+
+    params.push(query.limit + 1);
+    const result = await databaseService.query(
+      `SELECT c.*, (${sortExpression})::text AS sort_key
+       FROM consents c
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY ${sortExpression} ${direction}, c.consent_id ${direction}
+       LIMIT $${params.length}`,
+      params
+    );
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const purposeNames = await purposeService.resolvePurposeNames(
+      [...new Set<string>(rows.map((row: any) => row.purpose_hash))],
+      scope.controllerHash || null
+    );
+
+    return {
+      consents: rows.map((row: any) => this.mapConsentSummary(row, purposeNames.get(row.purpose_hash))),
+      nextCursor: result.rows.length > query.limit
+        ? Buffer.from(JSON.stringify([last.sort_key, last.consent_id])).toString('base64url')
+        : undefined,
+      limit: query.limit
+    };
+  }
+
+  private decodeConsentCursor(cursor: string): [string, string] {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (Array.isArray(decoded) && decoded.length === 2 && decoded.every(part => typeof part === 'string')) {
+        return decoded as [string, string];
+      }
+    } catch {
+      // Fall through
+    }
+    throw new ValidationError('Invalid cursor');
+  }
+
+  private mapConsentSummary(row: any, purposeName?: string): ConsentSummary {
+    const hgtpTxHash: string | undefined = row.hgtp_tx_hash || undefined;
+
+    return {
+      consentId: row.consent_id,
+      userId: row.user_id,
+      controllerHash: row.controller_hash,
+      purposeHash: row.purpose_hash,
+      purposeName,
+      status: row.status as ConsentStatus,
+      lawfulBasis: row.lawful_basis as LegalBasis,
+      dataCategories: row.data_categories || [],
+      grantedAt: new Date(row.granted_at).getTime(),
+      expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+      updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : undefined,
+      hgtpTxHash,
+      anchorStatus: !hgtpTxHash
+        ? ConsentAnchorStatus.UNANCHORED
+        : hgtpTxHash.startsWith(FALLBACK_TX_PREFIX) ? ConsentAnchorStatus.FAILED : ConsentAnchorStatus.ANCHORED,
+      givenBy: this.describeConsentGiver(row).givenBy
+    };
+  }
+
+  /**
+   * Issue a signed consent receipt. Like audit logging, a failure here never fails the consent change.
+   */
+  private async issueReceipt(input: ConsentReceiptInput): Promise<string | undefined> {
+    try {
+      const receipt = await consentReceiptService.issueReceipt(input);
+      return receipt.receiptId;
+    } catch (error: any) {
+      logger.error('Failed to issue consent receipt', { error: error.message, consentId: input.consentId });
+      return undefined;
+    }
+  }
+
+  /**
+   * Push a consent change to the controller's webhooks, followed by consent.anchored when the
+   * change was anchored. Like receipts, a failure here never fails the consent change.
+   */
+  private async notifyWebhooks(
+    type: WebhookEventType,
+    data: WebhookEventData,
+    anchoredEvent: ConsentEventType,
+    anchor?: Partial<HGTPResult>
+  ): Promise<void> {
+    try {
+      await webhookService.emit(type, data);
+
+      if (anchor?.transactionHash) {
+        await webhookService.emit(WebhookEventType.CONSENT_ANCHORED, {
+          ...data,
+          hgtpTxHash: anchor.transactionHash,
+          anchoredEvent,
+          merkleRoot: anchor.merkleRoot,
+          blockHeight: anchor.blockHeight,
+          occurredAt: anchor.anchoringTimestamp ?? data.occurredAt
+        });
+      }
+    } catch (error: any) {
+      logger.error('Failed to queue consent webhooks', { error: error.message, consentId: data.consentId, type });
+    }
+  }
+
+  private webhookDataFromRecord(consentRecord: any, occurredAt: number): WebhookEventData {
+    return {
+      consentId: consentRecord.consent_id,
+      controllerHash: consentRecord.controller_hash,
+      userId: consentRecord.user_id,
+      purposeHash: consentRecord.purpose_hash,
+      status: consentRecord.status as ConsentStatus,
+      dataCategories: consentRecord.data_categories || [],
+      expiresAt: consentRecord.expires_at ? new Date(consentRecord.expires_at).getTime() : undefined,
+      occurredAt
+    };
+  }
+
+  private receiptInputFromRecord(consentRecord: any): Omit<ConsentReceiptInput, 'action' | 'status' | 'anchor' | 'issuedAt'> {
+    return {
+      consentId: consentRecord.consent_id,
+      userId: consentRecord.user_id,
+      controllerHash: consentRecord.controller_hash,
+      purposeHash: consentRecord.purpose_hash,
+      dataCategories: consentRecord.data_categories || [],
+      lawfulBasis: consentRecord.lawful_basis,
+      expiresAt: consentRecord.expires_at,
+      zkProof: consentRecord.zk_proof
+    };
+  }
+
+  /**
+   * Anchor one side of a committed renewal and store the anchor on its consent. A failed
+   * anchor gets the fallback hash, as for a grant, so the renewal itself stands.
+   */
+  private async anchorRenewalStep(
+    consentId: string,
+    submit: () => Promise<HGTPResult>
+  ): Promise<Partial<HGTPResult> & Pick<HGTPResult, 'transactionHash' | 'anchoringTimestamp'>> {
+    let anchor: Partial<HGTPResult> & Pick<HGTPResult, 'transactionHash' | 'anchoringTimestamp'>;
+
+    try {
+      anchor = await submit();
+    } catch (blockchainError: any) {
+      logger.warn('Blockchain anchoring failed, using mock TX hash', {
+        error: blockchainError.message,
+        consentId
+      });
+      anchor = { transactionHash: `${FALLBACK_TX_PREFIX}${consentId.substring(0, 16)}`, anchoringTimestamp: Date.now() };
+    }
+
+    await databaseService.query(
+      'UPDATE consents SET hgtp_tx_hash = $1, anchoring_timestamp = $2 WHERE consent_id = $3',
+      [anchor.transactionHash, new Date(anchor.anchoringTimestamp).toISOString(), consentId]
+    );
+
+    return anchor;
+  }
+
+  /**
+   * The data subject of an existing consent: the caller, or the minor whose guardian
+   * (the caller) acts for them. The guardianship itself is checked with the signature.
+   */
+  private async resolveSubjectId(consentId: string, actorId: string, guardianId?: string): Promise<string> {
+    if (!guardianId || guardianId !== actorId) {
+      return actorId;
+    }
+
+    const result = await databaseService.query('SELECT user_id FROM consents WHERE consent_id = $1', [consentId]);
+    return result.rows[0]?.user_id ?? actorId;
+  }
+
+  /**
+   * The lawful basis of an existing consent, which decides whether an age profile is required to sign
+   */
+  private async getLawfulBasis(consentId: string): Promise<string | undefined> {
+    const result = await databaseService.query('SELECT lawful_basis FROM consents WHERE consent_id = $1', [consentId]);
+    return result.rows[0]?.lawful_basis;
+  }
+
+  /**
+   * Register the key a user signs consents with. Only accepted while the account has no key that
+   * can sign (seeded accounts carry placeholders); a signing key is never replaced this way.
+   */
+  async registerSigningKey(userId: string, publicKey: string): Promise<void> {
+    const normalizedKey = publicKey.toLowerCase();
+    if (!this.findSignatureAlgorithm(normalizedKey)) {
+      throw new ValidationError('Public key is not a valid ed25519 or secp256k1 key');
+    }
+
+    const userResult = await databaseService.query('SELECT public_key FROM users WHERE id = $1', [userId]);
+    if (userResult.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const currentKey: string | null = userResult.rows[0].public_key;
+    if (currentKey && this.findSignatureAlgorithm(currentKey)) {
+      if (currentKey.toLowerCase() === normalizedKey) {
+        return;
+      }
+      throw new ConflictError('A signing key is already registered');
+    }
+
+    // Matching on the old key keeps a concurrent registration from being overwritten
+    const updated = await databaseService.query(
+      'UPDATE users SET public_key = $2, updated_at = NOW() WHERE id = $1 AND public_key IS NOT DISTINCT FROM $3',
+      [userId, normalizedKey, currentKey]
+    );
+    if (updated.rowCount === 0) {
+      throw new ConflictError('A signing key is already registered');
+    }
+    logger.info('Signing key registered', { userId });
+  }
+
+  /**
+   * Verify a user's signature over a canonical consent payload against users.public_key.
+   * The key algorithm is inferred from the key length (32 bytes ed25519, 33/65 bytes secp256k1).
+   * Each nonce is accepted once per user, so a captured signature cannot be replayed.
+   */
+  private async verifyUserSignature(
+    userId: string,
+    message: string,
+    signature: string,
+    signedAt: number,
+    nonce: string
+  ): Promise<void> {
+    if (!signedAt || Math.abs(Date.now() - signedAt) > SIGNATURE_MAX_AGE_MS) {
+      throw new ConsentSignatureError('Signature timestamp is missing or outside the accepted window');
+    }
+
+    const userResult = await databaseService.query(
+      'SELECT public_key FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (userResult.rows.length === 0 || !userResult.rows[0].public_key) {
+      throw new ConsentSignatureError('No registered public key for user');
+    }
+
+    const publicKey: string = userResult.rows[0].public_key;
+    const algorithm = this.findSignatureAlgorithm(publicKey);
+
+    if (!algorithm) {
+      throw new ConsentSignatureError('Registered public key is not a valid ed25519 or secp256k1 key');
+    }
+
+    const verification = await cryptoService.verifySignature(message, signature, publicKey, algorithm);
+
+    if (!verification.isValid) {
+      logger.warn('Consent signature rejected', { userId, algorithm });
+      throw new ConsentSignatureError('Signature does not match the registered public key');
+    }
+
+    // A nonce only needs to be remembered while its signature is inside the accepted window
+    await databaseService.query('DELETE FROM signature_nonces WHERE expires_at < NOW()');
+    const nonceResult = await databaseService.query(
+      `INSERT INTO signature_nonces (user_id, nonce, expires_at) VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, nonce) DO NOTHING`,
+      [userId, nonce, new Date(signedAt + SIGNATURE_MAX_AGE_MS).toISOString()]
+    );
+
+    if (nonceResult.rowCount === 0) {
+      logger.warn('Replayed consent signature rejected', { userId });
+      throw new ConsentSignatureError('Signature nonce has already been used');
+    }
+  }
+
+  private findSignatureAlgorithm(publicKey: string): SignatureAlgorithm | undefined {
+    return [SignatureAlgorithm.ED25519, SignatureAlgorithm.SECP256K1]
+      .find(candidate => cryptoService.validatePublicKey(publicKey, candidate));
+  }
+
+  /**
+   * Create audit log entry
+   */
+  private async createAuditLog(logData: Partial<AuditLogRecord>): Promise<void> {
+    try {
+      await databaseService.query(
+        `INSERT INTO audit_logs (consent_id, user_id, controller_hash, action, details, hgtp_tx_hash, timestamp)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          logData.consent_id || null,
+          logData.user_id || null,
+          logData.controller_hash || null,
+          logData.action,
+          JSON.stringify(logData.details || {}),
+          logData.hgtp_tx_hash || null,
+          new Date().toISOString()
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to create audit log', { error, logData });
+    }
+  }
+
+  /**
+   * Consent counts for a controller; article checks and the score come from the compliance engine
+   */
+  async getComplianceMetrics(controllerHash: string) {
+    try {
+      const countsResult = await databaseService.query(
+        'SELECT status, COUNT(*) AS count FROM consents WHERE controller_hash = $1 GROUP BY status',
+        [controllerHash]
+      );
+
+      const counts = new Map<string, number>(
+        countsResult.rows.map((row: any) => [row.status, parseInt(row.count)])
+      );
+
+      return {
+        controllerHash,
+        totalConsents: Array.from(counts.values()).reduce((sum, value) => sum + value, 0),
+        activeConsents: counts.get('granted') || 0,
+        revokedConsents: counts.get('revoked') || 0,
+        expiredConsents: counts.get('expired') || 0
+      };
+    } catch (error) {
+      logger.error('Failed to get compliance metrics', { error, controllerHash });
+      throw error;
+    }
+  }
+
+  /**
+   * Build detailed compliance report for a controller
+   */
+  async getComplianceReport(controllerHash: string) {
+    try {
+      const controllerResult = await databaseService.query(
+        'SELECT * FROM controllers WHERE controller_hash = $1',
+        [controllerHash]
+      );
+
+      if (controllerResult.rows.length === 0) {
+        throw new Error('Controller not found');
+      }
+
+      const controller = controllerResult.rows[0];
+      const metrics = await this.getComplianceMetrics(controllerHash);
+
+      const consentsResult = await databaseService.query(
         `SELECT * FROM consents 
          WHERE controller_hash = $1 
          ORDER BY granted_at DESC 
@@ -509,12 +3209,13 @@ class PgConsentService {
 
       const consents = consentsResult.rows;
 
+      // Grant audit entries reference controllers.id, later entries the controller hash
       const auditLogsResult = await databaseService.query(
         `SELECT * FROM audit_logs 
-         WHERE controller_id = $1 
-         ORDER BY created_at DESC 
+         WHERE controller_hash = $1 OR controller_hash = $2
+         ORDER BY timestamp DESC 
          LIMIT 200`,
-        [controller.id]
+        [controllerHash, controller.id]
       );
 
       const auditLogs = auditLogsResult.rows;
@@ -525,13 +3226,20 @@ class PgConsentService {
         expired: consents.filter((c: any) => c.status === 'expired').length
       };
 
+      const purposeNames = await purposeService.resolvePurposeNames(
+        Array.from(new Set(consents.map((c: any) => c.purpose_hash as string))),
+        controllerHash
+      );
+
       const recentConsents = consents.slice(0, 25).map((record: any) => ({
-        consentId: record.id,
-        purpose: record.purpose,
+        consentId: record.consent_id,
+        purpose: purposeNames.get(record.purpose_hash) || null,
+        purposeHash: record.purpose_hash,
+        purposeId: record.purpose_id || null,
         status: record.status,
         grantedAt: record.granted_at,
         expiresAt: record.expires_at,
-        revokedAt: record.revoked_at,
+        revokedAt: record.status === 'revoked' ? record.updated_at : null,
         hgtpTxHash: record.hgtp_tx_hash,
         lawfulBasis: record.lawful_basis,
         dataCategories: record.data_categories
@@ -544,7 +3252,7 @@ class PgConsentService {
         userId: log.user_id,
         details: log.details,
         hgtpTxHash: log.hgtp_tx_hash,
-        timestamp: log.created_at
+        timestamp: log.timestamp
       }));
 
       return {
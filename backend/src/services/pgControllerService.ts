@@ -7,6 +7,7 @@ import {
   ControllerRegistrationResponse
 } from '@consentire/shared';
 import { generateControllerHash } from '../utils/crypto';
+import { complianceEngine } from './complianceEngine';
 import { logger } from '../utils/logger';
 import { Pool } from 'pg';
 
@@ -89,23 +90,30 @@ class PgControllerService {
         SELECT 
           c.id,
           c.organization_name as name,
+          c.organization_id,
           c.controller_hash,
-          COUNT(DISTINCT CASE WHEN co.status = 'granted' THEN co.consent_id END) as total_consents,
-          c.created_at as last_audit
+          COUNT(DISTINCT CASE WHEN co.status = 'granted' THEN co.consent_id END) as total_consents
         FROM controllers c
         LEFT JOIN consents co ON c.controller_hash = co.controller_hash
-        GROUP BY c.id, c.organization_name, c.controller_hash, c.created_at
+        GROUP BY c.id, c.organization_name, c.organization_id, c.controller_hash, c.created_at
         ORDER BY c.created_at DESC
       `);
-      
-      return result.rows.map(row => ({
-        id: row.id,
-        name: row.organization_name || row.name,
-        controller_hash: row.controller_hash,
-        complianceScore: Math.floor(Math.random() * 30) + 70, // Mock score for now
-        totalConsents: parseInt(row.total_consents) || 0,
-        lastAudit: row.last_audit
-      }));
+
+      // Stored scores only; controllers the compliance scheduler has not reached yet have none
+      const scores = await complianceEngine.getLatestScores();
+
+      return result.rows.map(row => {
+        const latest = scores.get(row.controller_hash);
+        return {
+          id: row.id,
+          name: row.organization_name || row.name,
+          organization_id: row.organization_id,
+          controller_hash: row.controller_hash,
+          complianceScore: latest ? latest.score : null,
+          totalConsents: parseInt(row.total_consents) || 0,
+          lastAudit: latest ? new Date(latest.evaluatedAt).toISOString() : null
+        };
+      });
     } catch (error) {
       logger.error('getAllControllers failed', { error });
       throw error;
@@ -120,20 +128,22 @@ class PgControllerService {
       const result = await this.pool.query(`
         SELECT 
           COUNT(DISTINCT c.id) as total_controllers,
-          COUNT(DISTINCT CASE WHEN co.status = 'granted' THEN co.consent_id END) as active_consents,
-          AVG(CASE 
-            WHEN COUNT(co.consent_id) > 0 THEN 85
-            ELSE 70
-          END) as compliance_score
+          COUNT(DISTINCT CASE WHEN co.status = 'granted' THEN co.consent_id END) as active_consents
         FROM controllers c
         LEFT JOIN consents co ON c.controller_hash = co.controller_hash
       `);
-      
+
+      // Average of each controller's latest stored score
+      const scores = Array.from((await complianceEngine.getLatestScores()).values());
+      const complianceScore = scores.length > 0
+        ? Math.round(scores.reduce((sum, entry) => sum + entry.score, 0) / scores.length)
+        : 0;
+
       const stats = result.rows[0];
       return {
         totalControllers: parseInt(stats.total_controllers) || 0,
         activeConsents: parseInt(stats.active_consents) || 0,
-        complianceScore: parseFloat(stats.compliance_score) || 75.0,
+        complianceScore,
         lastUpdated: new Date().toISOString()
       };
     } catch (error) {
@@ -0,0 +1,313 @@
+/**
+ * Purpose Registry Service
+ * Controllers register, version and retire named processing purposes
+ */
+
+import {
+  LegalBasis,
+  Purpose,
+  PurposeRegistrationRequest,
+  PurposeStatus,
+  PurposeUpdateRequest,
+  PurposeVersion
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { hash, generatePurposeHash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const PURPOSE_COLUMNS = `
+  p.purpose_id, p.controller_hash, p.name, p.purpose_hash, p.status, p.created_at, p.retired_at,
+  v.version, v.description, v.default_data_categories, v.default_lawful_basis,
+  v.max_retention_days, v.large_scale_profiling, v.created_at AS version_created_at
+`;
+
+class PurposeService {
+
+  /**
+   * Register a new purpose for a controller (version 1)
+   */
+  async registerPurpose(
+    request: PurposeRegistrationRequest,
+    controllerHash: string,
+    createdBy: string
+  ): Promise<Purpose> {
+    const purposeHash = generatePurposeHash(request.name);
+    const purposeId = hash(`${controllerHash}:${purposeHash}:${Date.now()}`);
+
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const existing = await databaseService.query(
+      `SELECT purpose_id FROM purposes
+       WHERE controller_hash = $1 AND purpose_hash = $2 AND status = 'active'`,
+      [controllerHash, purposeHash]
+    );
+    if (existing.rows.length > 0) {
+      throw new ConflictError(`An active purpose named "${request.name}" already exists`);
+    }
+
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO purposes (purpose_id, controller_hash, name, purpose_hash, current_version, status)
+         VALUES ($1, $2, $3, $4, 1, 'active')`,
+        [purposeId, controllerHash, request.name, purposeHash]
+      );
+      await client.query(
+        `INSERT INTO purpose_versions (
+          purpose_id, version, description, default_data_categories, default_lawful_basis,
+          max_retention_days, large_scale_profiling, created_by
+        ) VALUES ($1, 1, $2, $3, $4, $5, $6, $7)`,
+        [
+          purposeId,
+          request.description,
+          request.defaultDataCategories,
+          request.defaultLawfulBasis,
+          request.maxRetentionDays ?? null,
+          request.largeScaleProfiling ?? false,
+          createdBy
+        ]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Purpose registered', { purposeId, controllerHash });
+
+    return (await this.getPurpose(purposeId))!;
+  }
+
+  /**
+   * Publish a new version of a purpose. Unset fields carry over from the current version.
+   * Pass controllerHash null for admins.
+   */
+  async updatePurpose(
+    purposeId: string,
+    request: PurposeUpdateRequest,
+    controllerHash: string | null,
+    createdBy: string
+  ): Promise<Purpose> {
+    const current = await this.getOwnedPurpose(purposeId, controllerHash);
+
+    if (current.status === PurposeStatus.RETIRED) {
+      throw new ConflictError('Retired purposes cannot be changed');
+    }
+
+    const version = current.version + 1;
+    const maxRetentionDays = request.maxRetentionDays === undefined
+      ? current.maxRetentionDays ?? null
+      : request.maxRetentionDays;
+
+    const client = await databaseService.poolConnection.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO purpose_versions (
+          purpose_id, version, description, default_data_categories, default_lawful_basis,
+          max_retention_days, large_scale_profiling, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          purposeId,
+          version,
+          request.description ?? current.description,
+          request.defaultDataCategories ?? current.defaultDataCategories,
+          request.defaultLawfulBasis ?? current.defaultLawfulBasis,
+          maxRetentionDays,
+          request.largeScaleProfiling ?? current.largeScaleProfiling ?? false,
+          createdBy
+        ]
+      );
+      await client.query(
+        'UPDATE purposes SET current_version = $1 WHERE purpose_id = $2',
+        [version, purposeId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Purpose versioned', { purposeId, version });
+
+    return (await this.getPurpose(purposeId))!;
+  }
+
+  /**
+   * Retire a purpose. Existing consents keep their link; new grants are rejected.
+   */
+  async retirePurpose(purposeId: string, controllerHash: string | null): Promise<Purpose> {
+    const current = await this.getOwnedPurpose(purposeId, controllerHash);
+
+    if (current.status === PurposeStatus.RETIRED) {
+      return current;
+    }
+
+    await databaseService.query(
+      `UPDATE purposes SET status = 'retired', retired_at = $1 WHERE purpose_id = $2`,
+      [new Date().toISOString(), purposeId]
+    );
+
+    logger.info('Purpose retired', { purposeId });
+
+    return (await this.getPurpose(purposeId))!;
+  }
+
+  /**
+   * Get a purpose at its current version, optionally with all versions
+   */
+  async getPurpose(purposeId: string, includeVersions: boolean = false): Promise<Purpose | null> {
+    const result = await databaseService.query(
+      `SELECT ${PURPOSE_COLUMNS}
+       FROM purposes p
+       JOIN purpose_versions v ON v.purpose_id = p.purpose_id AND v.version = p.current_version
+       WHERE p.purpose_id = $1`,
+      [purposeId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const purpose = this.mapPurpose(result.rows[0]);
+
+    if (includeVersions) {
+      const versionsResult = await databaseService.query(
+        `SELECT version, description, default_data_categories, default_lawful_basis,
+                max_retention_days, large_scale_profiling, created_at AS version_created_at
+         FROM purpose_versions WHERE purpose_id = $1 ORDER BY version ASC`,
+        [purposeId]
+      );
+      purpose.versions = versionsResult.rows.map((row: any) => this.mapVersion(row));
+    }
+
+    return purpose;
+  }
+
+  /**
+   * List a controller's purposes (all controllers when controllerHash is null)
+   */
+  async listPurposes(controllerHash: string | null, includeRetired: boolean = false): Promise<Purpose[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (controllerHash) {
+      params.push(controllerHash);
+      conditions.push(`p.controller_hash = $${params.length}`);
+    }
+    if (!includeRetired) {
+      conditions.push(`p.status = 'active'`);
+    }
+
+    const result = await databaseService.query(
+      `SELECT ${PURPOSE_COLUMNS}
+       FROM purposes p
+       JOIN purpose_versions v ON v.purpose_id = p.purpose_id AND v.version = p.current_version
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY p.name ASC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapPurpose(row));
+  }
+
+  /**
+   * Find the active registered purpose matching a controller's purpose hash
+   */
+  async findActivePurpose(controllerHash: string, purposeHash: string): Promise<Purpose | null> {
+    const result = await databaseService.query(
+      `SELECT ${PURPOSE_COLUMNS}
+       FROM purposes p
+       JOIN purpose_versions v ON v.purpose_id = p.purpose_id AND v.version = p.current_version
+       WHERE p.controller_hash = $1 AND p.purpose_hash = $2 AND p.status = 'active'`,
+      [controllerHash, purposeHash]
+    );
+
+    return result.rows.length > 0 ? this.mapPurpose(result.rows[0]) : null;
+  }
+
+  /**
+   * Resolve purpose hashes to registered names, scoped to a controller when given.
+   * Hashes without a registered purpose are left out of the map.
+   */
+  async resolvePurposeNames(purposeHashes: string[], controllerHash: string | null): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    if (purposeHashes.length === 0) {
+      return names;
+    }
+
+    const params: any[] = [purposeHashes];
+    let scope = '';
+    if (controllerHash) {
+      params.push(controllerHash);
+      scope = 'AND controller_hash = $2';
+    }
+
+    // Prefer the active purpose when a name was retired and registered again
+    const result = await databaseService.query(
+      `SELECT DISTINCT ON (purpose_hash) purpose_hash, name
+       FROM purposes
+       WHERE purpose_hash = ANY($1) ${scope}
+       ORDER BY purpose_hash, (status = 'active') DESC, created_at DESC`,
+      params
+    );
+
+    for (const row of result.rows) {
+      names.set(row.purpose_hash, row.name);
+    }
+
+    return names;
+  }
+
+  private async getOwnedPurpose(purposeId: string, controllerHash: string | null): Promise<Purpose> {
+    const purpose = await this.getPurpose(purposeId);
+
+    if (!purpose) {
+      throw new NotFoundError('Purpose not found');
+    }
+    if (controllerHash && purpose.controllerHash !== controllerHash) {
+      throw new ForbiddenError('Purpose belongs to another controller');
+    }
+
+    return purpose;
+  }
+
+  private mapVersion(row: any): PurposeVersion {
+    return {
+      version: row.version,
+      description: row.description,
+      defaultDataCategories: row.default_data_categories || [],
+      defaultLawfulBasis: row.default_lawful_basis as LegalBasis,
+      maxRetentionDays: row.max_retention_days ?? undefined,
+      largeScaleProfiling: row.large_scale_profiling ?? false,
+      createdAt: new Date(row.version_created_at).getTime()
+    };
+  }
+
+  private mapPurpose(row: any): Purpose {
+    return {
+      purposeId: row.purpose_id,
+      controllerHash: row.controller_hash,
+      name: row.name,
+      purposeHash: row.purpose_hash,
+      status: row.status as PurposeStatus,
+      retiredAt: row.retired_at ? new Date(row.retired_at).getTime() : undefined,
+      registeredAt: new Date(row.created_at).getTime(),
+      ...this.mapVersion(row)
+    };
+  }
+}
+
+export const purposeService = new PurposeService();
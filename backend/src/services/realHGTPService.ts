@@ -13,7 +13,7 @@ import {
   HGTPResult,
   MerkleProof
 } from '@consentire/shared';
-import { IBlockchainAnchorService, BlockchainNetworkStatus } from './IBlockchainAnchorService';
+import { IBlockchainAnchorService, BlockchainNetworkStatus, ConsentBatchAnchorEntry } from './IBlockchainAnchorService';
 
 export interface HGTPTransaction {
   namespace: string;
@@ -340,6 +340,114 @@ class RealHGTPService implements IBlockchainAnchorService {
     }
   }
 
+  /**
+   * Anchor a batch of consent changes on HGTP as a single transaction
+   */
+  async anchorConsentBatch(
+    batchId: string,
+    batchRoot: string,
+    entries: ConsentBatchAnchorEntry[]
+  ): Promise<HGTPResult> {
+    // If service is disabled, return mock data
+    if (!this.isEnabled) {
+      logger.warn('⚠️  HGTP Service disabled - returning mock transaction hash', { 
+        batchId,
+        message: 'Configure Constellation credentials to enable real blockchain anchoring'
+      });
+      return {
+        transactionHash: `mock-tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        merkleRoot: `mock-merkle-${Date.now()}`,
+        blockHeight: 0,
+        anchoringTimestamp: Date.now()
+      };
+    }
+
+    logger.info('Anchoring consent batch to HGTP', { batchId, size: entries.length });
+
+    try {
+      const transactionData = {
+        namespace: 'gdpr-consent',
+        action: 'batch_consent',
+        batchId,
+        batchRoot,
+        entries,
+        timestamp: Date.now()
+      };
+
+      const transaction = await this.createSignedTransaction(transactionData);
+
+      // Submit to Constellation Mainnet (PRODUCTION MODE)
+      if (!this.isConnected) {
+        throw new Error('Not connected to Constellation Mainnet - cannot anchor consent batch');
+      }
+
+      const result = await this.submitToConstellation(transaction);
+      logger.info('✅ Consent batch anchored to Constellation Mainnet DAG', {
+        batchId,
+        transactionHash: result.transactionHash,
+        mode: 'PRODUCTION'
+      });
+
+      return result;
+
+    } catch (error) {
+      logger.error('Failed to anchor consent batch to HGTP', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Anchor the content hash of a compliance record (PRODUCTION MODE)
+   */
+  async anchorComplianceRecord(
+    recordType: string,
+    recordId: string,
+    contentHash: string,
+    metadata?: Record<string, unknown>
+  ): Promise<HGTPResult> {
+    if (!this.isEnabled) {
+      logger.warn('⚠️  HGTP Service disabled - returning mock transaction hash', { recordType, recordId });
+      return {
+        transactionHash: `mock-record-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        merkleRoot: `mock-merkle-${Date.now()}`,
+        blockHeight: 0,
+        anchoringTimestamp: Date.now()
+      };
+    }
+
+    logger.info('Anchoring compliance record to HGTP', { recordType, recordId });
+
+    try {
+      const transactionData = {
+        namespace: 'gdpr-consent',
+        action: 'compliance_record',
+        recordType,
+        recordId,
+        contentHash,
+        ...metadata,
+        timestamp: Date.now()
+      };
+
+      const transaction = await this.createSignedTransaction(transactionData);
+
+      if (!this.isConnected) {
+        throw new Error('Not connected to Constellation Mainnet - cannot anchor compliance record');
+      }
+
+      const result = await this.submitToConstellation(transaction);
+      logger.info('✅ Compliance record anchored to Constellation Mainnet', {
+        recordType,
+        recordId,
+        transactionHash: result.transactionHash
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to anchor compliance record', { error, recordType, recordId });
+      throw error;
+    }
+  }
+
   /**
    * Get merkle proof for consent (PRODUCTION MODE)
    */
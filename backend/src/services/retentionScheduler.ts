@@ -0,0 +1,116 @@
+/**
+ * Retention Scheduler
+ * Periodically applies every active retention rule, deleting records past retention in
+ * batches; each batch leaves an anchored deletion certificate
+ */
+
+import { RetentionRuleStatus } from '@consentire/shared';
+import { retentionService } from './retentionService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface RetentionSweepResult {
+  certificates: number;
+  deleted: number;
+  failedRules: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+class RetentionScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private intervalMs: number;
+  private batchSize: number;
+
+  constructor() {
+    this.intervalMs = parseInt(process.env.RETENTION_SWEEP_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS;
+    this.batchSize = parseInt(process.env.RETENTION_SWEEP_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Start the periodic sweep (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error('Retention sweep failed', { error: error.message });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info('⏰ Retention scheduler started', {
+      intervalMs: this.intervalMs,
+      batchSize: this.batchSize
+    });
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a single sweep. A rule that fails (e.g. anchoring unavailable) deletes nothing
+   * and is retried on the next run; the other rules still apply.
+   */
+  async runOnce(): Promise<RetentionSweepResult> {
+    const startedAt = Date.now();
+    let certificates = 0;
+    let deleted = 0;
+    let failedRules = 0;
+
+    if (this.running) {
+      logger.warn('Retention sweep already in progress, skipping');
+      return { certificates, deleted, failedRules, startedAt, finishedAt: Date.now() };
+    }
+
+    this.running = true;
+
+    try {
+      const rules = await retentionService.listRules({ status: RetentionRuleStatus.ACTIVE });
+
+      for (const rule of rules) {
+        try {
+          while (true) {
+            const certificate = await retentionService.applyRule(rule.ruleId, null, this.batchSize);
+            if (!certificate) {
+              break;
+            }
+
+            certificates++;
+            deleted += certificate.recordHashes.length;
+
+            if (certificate.recordHashes.length < this.batchSize) {
+              break;
+            }
+          }
+        } catch (error: any) {
+          failedRules++;
+          logger.error('Failed to apply retention rule', { ruleId: rule.ruleId, error: error.message });
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (certificates > 0 || failedRules > 0) {
+      logger.info('Retention sweep completed', { certificates, deleted, failedRules });
+    }
+
+    return { certificates, deleted, failedRules, startedAt, finishedAt: Date.now() };
+  }
+}
+
+export const retentionScheduler = new RetentionScheduler();
@@ -0,0 +1,415 @@
+/**
+ * Retention Service (GDPR Art. 5(1)(e) storage limitation)
+ * Controllers attach retention rules to their consents, optionally per purpose or data category,
+ * or to their audit entries. Applying a rule deletes the records past retention in one
+ * transaction and leaves an anchored deletion certificate with counts and record hashes.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ConsentStatus,
+  DeletionCertificate,
+  ProcessingRightStatus,
+  RetentionRule,
+  RetentionRuleRequest,
+  RetentionRuleStatus,
+  RetentionTarget
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { blockchainService } from './blockchainFacade';
+import { hash, computeMerkleRoot, generatePurposeHash } from '../utils/crypto';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+const DEFAULT_STATUSES: ConsentStatus[] = [
+  ConsentStatus.REVOKED,
+  ConsentStatus.EXPIRED,
+  ConsentStatus.SUPERSEDED
+];
+
+export interface RetentionRuleFilter {
+  controllerHash?: string | null;
+  status?: RetentionRuleStatus;
+}
+
+export interface DeletionCertificateFilter {
+  controllerHash?: string | null;
+  ruleId?: string;
+  limit?: number;
+}
+
+class RetentionService {
+
+  /**
+   * Attach a retention rule to a controller's consents or audit entries
+   */
+  async createRule(request: RetentionRuleRequest, controllerHash: string, createdBy: string): Promise<RetentionRule> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const isConsentRule = request.target === RetentionTarget.CONSENTS;
+    const ruleId = randomUUID();
+
+    await databaseService.query(
+      `INSERT INTO retention_rules (
+        rule_id, controller_hash, target, purpose, purpose_hash, data_category, statuses, retention_days, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        ruleId,
+        controllerHash,
+        request.target,
+        request.purpose ?? null,
+        request.purpose ? generatePurposeHash(request.purpose) : null,
+        request.dataCategory ?? null,
+        isConsentRule ? request.statuses ?? DEFAULT_STATUSES : [],
+        request.retentionDays,
+        createdBy
+      ]
+    );
+
+    logger.info('Retention rule created', { ruleId, controllerHash, target: request.target, retentionDays: request.retentionDays });
+
+    return (await this.getRule(ruleId))!;
+  }
+
+  /**
+   * Retire a rule; its certificates are kept
+   */
+  async retireRule(ruleId: string, controllerHash: string | null): Promise<RetentionRule> {
+    const rule = await this.getOwnedRule(ruleId, controllerHash);
+
+    if (rule.status === RetentionRuleStatus.RETIRED) {
+      return rule;
+    }
+
+    await databaseService.query(
+      `UPDATE retention_rules SET status = 'retired', retired_at = NOW() WHERE rule_id = $1`,
+      [ruleId]
+    );
+
+    logger.info('Retention rule retired', { ruleId });
+
+    return (await this.getRule(ruleId))!;
+  }
+
+  async getRule(ruleId: string): Promise<RetentionRule | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM retention_rules WHERE rule_id = $1',
+      [ruleId]
+    );
+
+    return result.rows.length > 0 ? this.mapRule(result.rows[0]) : null;
+  }
+
+  /**
+   * List retention rules, newest first
+   */
+  async listRules(filter: RetentionRuleFilter): Promise<RetentionRule[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`controller_hash = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const result = await databaseService.query(
+      `SELECT * FROM retention_rules
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY created_at DESC`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapRule(row));
+  }
+
+  /**
+   * Apply a rule to at most batchSize records past retention. Returns the certificate,
+   * or null when nothing was due. If anchoring fails nothing is deleted.
+   */
+  async applyRule(
+    ruleId: string,
+    controllerHash: string | null = null,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ): Promise<DeletionCertificate | null> {
+    const rule = await this.getOwnedRule(ruleId, controllerHash);
+
+    if (rule.status !== RetentionRuleStatus.ACTIVE) {
+      throw new ConflictError('Retired retention rules cannot be applied');
+    }
+
+    const certificateId = randomUUID();
+    const deletedAt = Date.now();
+    const client = await databaseService.poolConnection.connect();
+    let certificate: DeletionCertificate;
+
+    try {
+      await client.query('BEGIN');
+
+      const deleted = rule.target === RetentionTarget.CONSENTS
+        ? await this.deleteConsents(client, rule, batchSize, certificateId)
+        : await this.deleteAuditLogs(client, rule, batchSize);
+
+      if (deleted.recordHashes.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const merkleRoot = computeMerkleRoot(deleted.recordHashes);
+      const contentHash = hash(JSON.stringify({
+        certificateId,
+        ruleId,
+        controllerHash: rule.controllerHash,
+        target: rule.target,
+        counts: deleted.counts,
+        merkleRoot,
+        deletedAt
+      }));
+
+      const anchor = await blockchainService.anchorComplianceRecord('deletion_certificate', certificateId, contentHash, {
+        ruleId,
+        controllerHash: rule.controllerHash,
+        merkleRoot,
+        recordCount: deleted.recordHashes.length
+      });
+
+      await client.query(
+        `INSERT INTO deletion_certificates (
+          certificate_id, rule_id, controller_hash, target, consent_count, event_count, receipt_count,
+          processing_rights_count, audit_log_count, record_hashes, merkle_root, content_hash,
+          hgtp_tx_hash, anchoring_timestamp, deleted_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          certificateId,
+          ruleId,
+          rule.controllerHash,
+          rule.target,
+          deleted.counts.consents,
+          deleted.counts.consentEvents,
+          deleted.counts.receipts,
+          deleted.counts.processingRights,
+          deleted.counts.auditLogs,
+          deleted.recordHashes,
+          merkleRoot,
+          contentHash,
+          anchor.transactionHash,
+          new Date(anchor.anchoringTimestamp).toISOString(),
+          new Date(deletedAt).toISOString()
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      certificate = {
+        certificateId,
+        ruleId,
+        controllerHash: rule.controllerHash,
+        target: rule.target,
+        counts: deleted.counts,
+        recordHashes: deleted.recordHashes,
+        merkleRoot,
+        contentHash,
+        hgtpTxHash: anchor.transactionHash,
+        anchoringTimestamp: anchor.anchoringTimestamp,
+        deletedAt
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await databaseService.query(
+      `INSERT INTO audit_logs (controller_hash, action, details, hgtp_tx_hash, timestamp)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        rule.controllerHash,
+        'retention_applied',
+        JSON.stringify({ certificateId, ruleId, target: rule.target, counts: certificate.counts }),
+        certificate.hgtpTxHash,
+        new Date(deletedAt).toISOString()
+      ]
+    ).catch((error: any) => logger.error('Failed to audit retention run', { certificateId, error: error.message }));
+
+    logger.info('Retention rule applied', { ruleId, certificateId, counts: certificate.counts });
+
+    return certificate;
+  }
+
+  async getCertificate(certificateId: string): Promise<DeletionCertificate | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM deletion_certificates WHERE certificate_id = $1',
+      [certificateId]
+    );
+
+    return result.rows.length > 0 ? this.mapCertificate(result.rows[0]) : null;
+  }
+
+  /**
+   * List deletion certificates, newest first
+   */
+  async listCertificates(filter: DeletionCertificateFilter): Promise<DeletionCertificate[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`controller_hash = $${params.length}`);
+    }
+    if (filter.ruleId) {
+      params.push(filter.ruleId);
+      conditions.push(`rule_id = $${params.length}`);
+    }
+    params.push(filter.limit ?? 50);
+
+    const result = await databaseService.query(
+      `SELECT * FROM deletion_certificates
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY deleted_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapCertificate(row));
+  }
+
+  /**
+   * Closed consents past retention, with their history, receipts, restrictions and objections,
+   * and audit entries. Consents with an open restriction or objection are kept until it is resolved.
+   */
+  private async deleteConsents(client: any, rule: RetentionRule, batchSize: number, certificateId: string) {
+    const params: any[] = [rule.controllerHash, rule.statuses, rule.retentionDays, ProcessingRightStatus.OPEN];
+    const conditions: string[] = [];
+
+    if (rule.purposeHash) {
+      params.push(rule.purposeHash);
+      conditions.push(`AND c.purpose_hash = $${params.length}`);
+    }
+    if (rule.dataCategory) {
+      params.push(rule.dataCategory);
+      conditions.push(`AND $${params.length} = ANY(c.data_categories)`);
+    }
+    params.push(batchSize);
+
+    const candidates = await client.query(
+      `SELECT c.consent_id FROM consents c
+       WHERE c.controller_hash = $1
+       AND c.status = ANY($2)
+       AND COALESCE(c.updated_at, c.granted_at) < NOW() - make_interval(days => $3)
+       ${conditions.join('\n       ')}
+       AND NOT EXISTS (
+         SELECT 1 FROM processing_rights_requests r WHERE r.consent_id = c.consent_id AND r.status = $4
+       )
+       ORDER BY c.consent_id
+       LIMIT $${params.length}
+       FOR UPDATE OF c SKIP LOCKED`,
+      params
+    );
+
+    const consentIds: string[] = candidates.rows.map((row: any) => row.consent_id);
+    const counts = { consents: 0, consentEvents: 0, receipts: 0, processingRights: 0, auditLogs: 0 };
+
+    if (consentIds.length > 0) {
+      // Lets this transaction delete consent history; the trigger logs each event under this certificate
+      await client.query("SELECT set_config('consentire.consent_event_mutation', $1, true)", [`retention:${certificateId}`]);
+      counts.consentEvents = (await client.query('DELETE FROM consent_events WHERE consent_id = ANY($1)', [consentIds])).rowCount;
+      counts.receipts = (await client.query('DELETE FROM consent_receipts WHERE consent_id = ANY($1)', [consentIds])).rowCount;
+      counts.processingRights = (await client.query('DELETE FROM processing_rights_requests WHERE consent_id = ANY($1)', [consentIds])).rowCount;
+      counts.auditLogs = (await client.query('DELETE FROM audit_logs WHERE consent_id = ANY($1)', [consentIds])).rowCount;
+      counts.consents = (await client.query('DELETE FROM consents WHERE consent_id = ANY($1)', [consentIds])).rowCount;
+    }
+
+    // Consent IDs are already hashes and are what the original anchors refer to
+    return { counts, recordHashes: consentIds };
+  }
+
+  /**
+   * The controller's audit entries older than the retention period
+   */
+  private async deleteAuditLogs(client: any, rule: RetentionRule, batchSize: number) {
+    const result = await client.query(
+      `DELETE FROM audit_logs
+       WHERE id IN (
+         SELECT id FROM audit_logs
+         WHERE controller_hash = $1 AND timestamp < NOW() - make_interval(days => $2)
+         ORDER BY id
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [rule.controllerHash, rule.retentionDays, batchSize]
+    );
+
+    const rows = [...result.rows].sort((a: any, b: any) => a.id - b.id);
+    return {
+      counts: { consents: 0, consentEvents: 0, receipts: 0, processingRights: 0, auditLogs: rows.length },
+      recordHashes: rows.map((row: any) => hash(JSON.stringify(row)))
+    };
+  }
+
+  private async getOwnedRule(ruleId: string, controllerHash: string | null): Promise<RetentionRule> {
+    const rule = await this.getRule(ruleId);
+
+    if (!rule) {
+      throw new NotFoundError('Retention rule not found');
+    }
+    if (controllerHash && rule.controllerHash !== controllerHash) {
+      throw new ForbiddenError('Retention rule belongs to another controller');
+    }
+
+    return rule;
+  }
+
+  private mapRule(row: any): RetentionRule {
+    return {
+      ruleId: row.rule_id,
+      controllerHash: row.controller_hash,
+      target: row.target as RetentionTarget,
+      purpose: row.purpose ?? undefined,
+      purposeHash: row.purpose_hash ?? undefined,
+      dataCategory: row.data_category ?? undefined,
+      statuses: (row.statuses || []) as ConsentStatus[],
+      retentionDays: row.retention_days,
+      status: row.status as RetentionRuleStatus,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at).getTime(),
+      retiredAt: row.retired_at ? new Date(row.retired_at).getTime() : undefined
+    };
+  }
+
+  private mapCertificate(row: any): DeletionCertificate {
+    return {
+      certificateId: row.certificate_id,
+      ruleId: row.rule_id,
+      controllerHash: row.controller_hash,
+      target: row.target as RetentionTarget,
+      counts: {
+        consents: row.consent_count,
+        consentEvents: row.event_count,
+        receipts: row.receipt_count,
+        processingRights: row.processing_rights_count,
+        auditLogs: row.audit_log_count
+      },
+      recordHashes: row.record_hashes || [],
+      merkleRoot: row.merkle_root,
+      contentHash: row.content_hash,
+      hgtpTxHash: row.hgtp_tx_hash,
+      anchoringTimestamp: new Date(row.anchoring_timestamp).getTime(),
+      deletedAt: new Date(row.deleted_at).getTime()
+    };
+  }
+}
+
+export const retentionService = new RetentionService();
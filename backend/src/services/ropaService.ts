@@ -0,0 +1,360 @@
+/**
+ * Records of Processing Activities Service (GDPR Art. 30)
+ * Controllers keep a versioned ROPA. Until the first version is saved, a draft is generated
+ * from their registered purposes, the consents in use and their retention rules.
+ */
+
+import {
+  ConsentStatus,
+  LegalBasis,
+  ProcessingActivity,
+  RecordOfProcessingActivities,
+  RetentionRuleStatus,
+  RetentionTarget,
+  RopaExportFormat,
+  RopaRequest
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { purposeService } from './purposeService';
+import { retentionService } from './retentionService';
+import { hash, generatePurposeHash } from '../utils/crypto';
+import { toCsv } from '../utils/csv';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Consents whose purpose is still being processed and therefore must be documented
+const IN_USE_STATUSES: string[] = [
+  ConsentStatus.GRANTED,
+  ConsentStatus.PENDING,
+  ConsentStatus.RESTRICTED,
+  ConsentStatus.OBJECTED
+];
+
+// Measures every controller on the platform gets; controllers add their own
+const PLATFORM_SECURITY_MEASURES = [
+  'Consent records hashed and anchored on the Constellation Hypergraph',
+  'Personal fields encrypted with a per-data-subject key (AES-256-GCM)',
+  'Role-based access control and an audit trail of every consent change'
+];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+class RopaService {
+
+  /**
+   * The controller's ROPA at a version, or the latest version. Without a saved version the
+   * generated draft (version 0) is returned.
+   */
+  async getRopa(controllerHash: string, version?: number): Promise<RecordOfProcessingActivities> {
+    const result = await databaseService.query(
+      `SELECT * FROM ropa_versions
+       WHERE controller_hash = $1 ${version ? 'AND version = $2' : ''}
+       ORDER BY version DESC
+       LIMIT 1`,
+      version ? [controllerHash, version] : [controllerHash]
+    );
+
+    if (result.rows.length > 0) {
+      return this.mapRopa(result.rows[0]);
+    }
+    if (version) {
+      throw new NotFoundError('ROPA version not found');
+    }
+
+    return this.generateDraft(controllerHash);
+  }
+
+  /**
+   * All saved versions, newest first
+   */
+  async listVersions(controllerHash: string): Promise<RecordOfProcessingActivities[]> {
+    const result = await databaseService.query(
+      'SELECT * FROM ropa_versions WHERE controller_hash = $1 ORDER BY version DESC',
+      [controllerHash]
+    );
+
+    return result.rows.map((row: any) => this.mapRopa(row));
+  }
+
+  /**
+   * Save the controller's edited ROPA as a new version
+   */
+  async saveRopa(request: RopaRequest, controllerHash: string, createdBy: string): Promise<RecordOfProcessingActivities> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const activities: ProcessingActivity[] = request.activities.map(activity => ({
+      ...activity,
+      purposeHash: activity.purposeHash || generatePurposeHash(activity.purpose)
+    }));
+    const contentHash = hash(JSON.stringify({ controllerHash, controller: request.controller, activities }));
+
+    let result;
+    try {
+      result = await databaseService.query(
+        `INSERT INTO ropa_versions (controller_hash, version, controller_details, activities, content_hash, created_by)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5
+         FROM ropa_versions WHERE controller_hash = $1
+         RETURNING *`,
+        [controllerHash, JSON.stringify(request.controller), JSON.stringify(activities), contentHash, createdBy]
+      );
+    } catch (error: any) {
+      // Two saves raced for the same version number
+      if (error.code === '23505') {
+        throw new ConflictError('The ROPA was changed concurrently; reload it and save again');
+      }
+      throw error;
+    }
+
+    const ropa = this.mapRopa(result.rows[0]);
+    logger.info('ROPA version saved', { controllerHash, version: ropa.version, activities: activities.length });
+
+    return ropa;
+  }
+
+  /**
+   * Purposes in use (active registered purposes and purposes of live consents) that the
+   * latest saved ROPA does not document. Everything counts as undocumented without a ROPA.
+   */
+  async countUndocumentedPurposes(controllerHash: string): Promise<number> {
+    const result = await databaseService.query(
+      `WITH in_use AS (
+         SELECT purpose_hash FROM purposes WHERE controller_hash = $1 AND status = 'active'
+         UNION
+         SELECT purpose_hash FROM consents WHERE controller_hash = $1 AND status = ANY($2)
+       ),
+       documented AS (
+         SELECT activity->>'purposeHash' AS purpose_hash
+         FROM ropa_versions r, jsonb_array_elements(r.activities) AS activity
+         WHERE r.controller_hash = $1
+         AND r.version = (SELECT MAX(version) FROM ropa_versions WHERE controller_hash = $1)
+       )
+       SELECT COUNT(*) AS count FROM in_use
+       WHERE purpose_hash NOT IN (SELECT purpose_hash FROM documented WHERE purpose_hash IS NOT NULL)`,
+      [controllerHash, IN_USE_STATUSES]
+    );
+
+    return parseInt(result.rows[0]?.count || '0');
+  }
+
+  /**
+   * Whether the controller has saved a ROPA at all
+   */
+  async hasRopa(controllerHash: string): Promise<boolean> {
+    const result = await databaseService.query(
+      'SELECT 1 FROM ropa_versions WHERE controller_hash = $1 LIMIT 1',
+      [controllerHash]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Render a ROPA for download
+   */
+  render(ropa: RecordOfProcessingActivities, format: RopaExportFormat): { content: string; contentType: string; extension: string } {
+    switch (format) {
+      case 'csv':
+        return { content: this.toCsv(ropa), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+      case 'html':
+        return { content: this.toHtml(ropa), contentType: 'text/html; charset=utf-8', extension: 'html' };
+      default:
+        return { content: JSON.stringify(ropa, null, 2), contentType: 'application/json', extension: 'json' };
+    }
+  }
+
+  /**
+   * Draft from the registry and live consents: one activity per purpose in use, with the data
+   * categories seen, the prevailing lawful basis and the retention rules that apply
+   */
+  private async generateDraft(controllerHash: string): Promise<RecordOfProcessingActivities> {
+    const controllerResult = await databaseService.query(
+      'SELECT organization_name FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const [purposes, rules, usageResult] = await Promise.all([
+      purposeService.listPurposes(controllerHash),
+      retentionService.listRules({ controllerHash, status: RetentionRuleStatus.ACTIVE }),
+      databaseService.query(
+        `SELECT c.purpose_hash,
+                MODE() WITHIN GROUP (ORDER BY c.lawful_basis) AS lawful_basis,
+                ARRAY_REMOVE(ARRAY_AGG(DISTINCT category), NULL) AS data_categories,
+                BOOL_OR(c.guardian_id IS NOT NULL) AS has_guardian_consents
+         FROM consents c
+         LEFT JOIN LATERAL UNNEST(c.data_categories) AS category ON TRUE
+         WHERE c.controller_hash = $1 AND c.status = ANY($2)
+         GROUP BY c.purpose_hash`,
+        [controllerHash, IN_USE_STATUSES]
+      )
+    ]);
+
+    const usage = new Map<string, any>(usageResult.rows.map((row: any) => [row.purpose_hash, row]));
+    const unregisteredHashes = Array.from(usage.keys()).filter(h => !purposes.some(p => p.purposeHash === h));
+    const names = await purposeService.resolvePurposeNames(unregisteredHashes, controllerHash);
+
+    const entries = [
+      ...purposes.map(p => ({
+        purposeHash: p.purposeHash,
+        purpose: p.name,
+        description: p.description,
+        lawfulBasis: p.defaultLawfulBasis,
+        dataCategories: p.defaultDataCategories,
+        maxRetentionDays: p.maxRetentionDays
+      })),
+      ...unregisteredHashes.map(h => ({
+        purposeHash: h,
+        purpose: names.get(h) || `Unregistered purpose ${h.slice(0, 12)}`,
+        description: undefined,
+        lawfulBasis: usage.get(h).lawful_basis as LegalBasis,
+        dataCategories: [] as string[],
+        maxRetentionDays: undefined
+      }))
+    ];
+
+    const activities: ProcessingActivity[] = entries.map(entry => {
+      const used = usage.get(entry.purposeHash);
+      const dataCategories = Array.from(new Set([...entry.dataCategories, ...(used?.data_categories || [])]));
+
+      const retention = rules
+        .filter(rule => rule.target === RetentionTarget.CONSENTS)
+        .filter(rule => !rule.purposeHash || rule.purposeHash === entry.purposeHash)
+        .filter(rule => !rule.dataCategory || dataCategories.includes(rule.dataCategory))
+        .map(rule =>
+          `Deleted ${rule.retentionDays} days after the consent is ${rule.statuses.join(', ')}` +
+          (rule.dataCategory ? ` (${rule.dataCategory})` : '')
+        );
+      if (entry.maxRetentionDays) {
+        retention.unshift(`Consent lapses after ${entry.maxRetentionDays} days`);
+      }
+
+      return {
+        name: entry.description ? `${entry.purpose}: ${entry.description}` : entry.purpose,
+        purpose: entry.purpose,
+        purposeHash: entry.purposeHash,
+        lawfulBasis: entry.lawfulBasis,
+        dataSubjectCategories: used?.has_guardian_consents
+          ? ['Registered users', 'Children (with parental consent)']
+          : ['Registered users'],
+        dataCategories,
+        recipients: [],
+        internationalTransfers: [],
+        retention: retention.length > 0 ? retention.join('; ') : 'No retention rule set',
+        securityMeasures: [...PLATFORM_SECURITY_MEASURES]
+      };
+    });
+
+    return {
+      controllerHash,
+      version: 0,
+      controller: { name: controllerResult.rows[0].organization_name },
+      activities,
+      createdAt: Date.now()
+    };
+  }
+
+  private toCsv(ropa: RecordOfProcessingActivities): string {
+    return toCsv(
+      ['activity', 'purpose', 'purpose_hash', 'lawful_basis', 'data_subject_categories', 'data_categories',
+        'recipients', 'international_transfers', 'retention', 'security_measures'],
+      ropa.activities.map(a => [
+        a.name, a.purpose, a.purposeHash, a.lawfulBasis, a.dataSubjectCategories.join('; '),
+        a.dataCategories.join('; '), a.recipients.join('; '),
+        a.internationalTransfers.map(t => `${t.destination} (${t.safeguard})`).join('; '),
+        a.retention, a.securityMeasures.join('; ')
+      ])
+    );
+  }
+
+  /**
+   * Self-contained HTML report laid out for printing
+   */
+  private toHtml(ropa: RecordOfProcessingActivities): string {
+    const list = (items: string[]) => items.length > 0
+      ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+      : '<p class="none">None</p>';
+    const row = (label: string, value: string) => `<tr><th>${label}</th><td>${value}</td></tr>`;
+
+    const controllerRows = [
+      row('Controller', escapeHtml(ropa.controller.name)),
+      ropa.controller.contact ? row('Contact', escapeHtml(ropa.controller.contact)) : '',
+      ropa.controller.representative ? row('Representative', escapeHtml(ropa.controller.representative)) : '',
+      ropa.controller.dataProtectionOfficer ? row('Data protection officer', escapeHtml(ropa.controller.dataProtectionOfficer)) : '',
+      row('Controller hash', `<code>${escapeHtml(ropa.controllerHash)}</code>`),
+      row('Version', ropa.version === 0 ? 'Draft (not saved)' : String(ropa.version)),
+      ropa.contentHash ? row('Content hash', `<code>${escapeHtml(ropa.contentHash)}</code>`) : '',
+      row('Recorded', new Date(ropa.createdAt).toISOString())
+    ].join('');
+
+    const activitySections = ropa.activities.map((a, index) => `
+    <section>
+      <h2>${index + 1}. ${escapeHtml(a.name)}</h2>
+      <table>
+        ${row('Purpose', escapeHtml(a.purpose))}
+        ${row('Lawful basis', escapeHtml(a.lawfulBasis))}
+        ${row('Categories of data subjects', list(a.dataSubjectCategories))}
+        ${row('Categories of personal data', list(a.dataCategories))}
+        ${row('Recipients', list(a.recipients))}
+        ${row('International transfers', list(a.internationalTransfers.map(t => `${t.destination}: ${t.safeguard}`)))}
+        ${row('Retention', escapeHtml(a.retention))}
+        ${row('Security measures', list(a.securityMeasures))}
+      </table>
+    </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Record of Processing Activities - ${escapeHtml(ropa.controller.name)}</title>
+  <style>
+    body { font-family: Georgia, serif; color: #111; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 1.6rem; margin-bottom: 0.2rem; }
+    h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #999; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; vertical-align: top; padding: 0.35rem 0.5rem; border: 1px solid #ccc; }
+    th { width: 30%; background: #f4f4f4; }
+    ul { margin: 0; padding-left: 1.2rem; }
+    code { font-size: 0.8rem; word-break: break-all; }
+    .none { margin: 0; color: #666; }
+    @media print { body { margin: 0; } section { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>Record of Processing Activities</h1>
+  <p>GDPR Article 30(1)</p>
+  <table>${controllerRows}</table>
+  ${activitySections}
+</body>
+</html>
+`;
+  }
+
+  private mapRopa(row: any): RecordOfProcessingActivities {
+    return {
+      controllerHash: row.controller_hash,
+      version: row.version,
+      controller: row.controller_details,
+      activities: row.activities || [],
+      contentHash: row.content_hash,
+      createdBy: row.created_by ?? undefined,
+      createdAt: new Date(row.created_at).getTime()
+    };
+  }
+}
+
+export const ropaService = new RopaService();
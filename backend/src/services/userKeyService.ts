@@ -0,0 +1,137 @@
+/**
+ * Per-user Data Key Service
+ * Personal fields are encrypted (AES-256-GCM) with a key of their own per data subject, stored
+ * wrapped by the platform key. Destroying a user's key on erasure makes every copy of those
+ * fields unreadable, including copies in backups (crypto-shredding).
+ */
+
+import crypto from 'crypto';
+import { databaseService } from './databaseService';
+import { logger } from '../utils/logger';
+
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+
+interface QueryExecutor {
+  query(sql: string, params?: any[]): Promise<any>;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Whether a stored value was written by encryptField (older rows hold plaintext)
+ */
+export function isEncryptedField(value: string): boolean {
+  return value.startsWith(CIPHERTEXT_PREFIX);
+}
+
+class UserKeyService {
+  private wrappingKey: Buffer | null = null;
+
+  /**
+   * Platform key that wraps the per-user keys. Falls back to one derived from JWT_SECRET.
+   */
+  private getWrappingKey(): Buffer {
+    if (!this.wrappingKey) {
+      const configuredKey = process.env.USER_DATA_KEY_ENCRYPTION_KEY;
+
+      if (configuredKey && /^[0-9a-fA-F]{64}$/.test(configuredKey)) {
+        this.wrappingKey = Buffer.from(configuredKey, 'hex');
+      } else {
+        logger.warn('⚠️ USER_DATA_KEY_ENCRYPTION_KEY not set - wrapping user data keys with a key derived from JWT_SECRET');
+        const secret = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
+        this.wrappingKey = crypto.createHash('sha256').update(`user-data-keys:${secret}`).digest();
+      }
+    }
+
+    return this.wrappingKey;
+  }
+
+  /**
+   * Encrypt a personal field with the user's key, creating the key on first use
+   */
+  async encryptField(userId: string, plaintext: string, executor: QueryExecutor = databaseService): Promise<string> {
+    const key = await this.getOrCreateKey(userId, executor);
+    return CIPHERTEXT_PREFIX + seal(key, Buffer.from(plaintext, 'utf8'));
+  }
+
+  /**
+   * Decrypt a personal field. Plaintext from before encryption is returned unchanged;
+   * null means the user's key was destroyed by erasure.
+   */
+  async decryptField(userId: string, value: string): Promise<string | null> {
+    if (!isEncryptedField(value)) {
+      return value;
+    }
+
+    const key = await this.getKey(userId);
+    if (!key) {
+      return null;
+    }
+
+    try {
+      return open(key, value.slice(CIPHERTEXT_PREFIX.length)).toString('utf8');
+    } catch (error: any) {
+      logger.error('Failed to decrypt personal field', { userId, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Destroy the user's key and re-key the row to the erasure tombstone. Fields encrypted
+   * with it can no longer be read.
+   */
+  async destroyKey(userId: string, tombstoneId: string, executor: QueryExecutor = databaseService): Promise<boolean> {
+    const result = await executor.query(
+      `UPDATE user_keys SET user_id = $2, wrapped_key = NULL, destroyed_at = NOW()
+       WHERE user_id = $1 AND wrapped_key IS NOT NULL`,
+      [userId, tombstoneId]
+    );
+
+    return result.rowCount > 0;
+  }
+
+  private async getKey(userId: string, executor: QueryExecutor = databaseService): Promise<Buffer | null> {
+    const result = await executor.query(
+      'SELECT wrapped_key FROM user_keys WHERE user_id = $1',
+      [userId]
+    );
+
+    const wrappedKey = result.rows[0]?.wrapped_key;
+    return wrappedKey ? open(this.getWrappingKey(), wrappedKey) : null;
+  }
+
+  private async getOrCreateKey(userId: string, executor: QueryExecutor): Promise<Buffer> {
+    const existing = await this.getKey(userId, executor);
+    if (existing) {
+      return existing;
+    }
+
+    const key = crypto.randomBytes(32);
+    await executor.query(
+      `INSERT INTO user_keys (user_id, wrapped_key) VALUES ($1, $2)
+       ON CONFLICT (user_id) DO NOTHING`,
+      [userId, seal(this.getWrappingKey(), key)]
+    );
+
+    // A concurrent request may have created the key first; use whichever was stored
+    const stored = await this.getKey(userId, executor);
+    if (!stored) {
+      throw new Error('User data key is not available');
+    }
+    return stored;
+  }
+}
+
+export const userKeyService = new UserKeyService();
@@ -0,0 +1,376 @@
+/**
+ * Violation Service
+ * GDPR violations under regulator oversight. Regulators raise violations by hand, and the
+ * compliance engine raises one for every rule that fails; while it stays unresolved, later
+ * failures of the same rule refresh it instead of opening a new one. Violations move through
+ * open → investigating → resolved/sanctioned, and every status change is kept as a comment.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ComplianceRuleResult,
+  Violation,
+  ViolationComment,
+  ViolationCounts,
+  ViolationEvidence,
+  ViolationRequest,
+  ViolationSeverity,
+  ViolationStatus,
+  ViolationStatusRequest
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { ComplianceRule } from './complianceRules';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const ALLOWED_TRANSITIONS: Record<ViolationStatus, ViolationStatus[]> = {
+  [ViolationStatus.OPEN]: [ViolationStatus.INVESTIGATING, ViolationStatus.RESOLVED],
+  [ViolationStatus.INVESTIGATING]: [ViolationStatus.RESOLVED, ViolationStatus.SANCTIONED],
+  [ViolationStatus.RESOLVED]: [],
+  [ViolationStatus.SANCTIONED]: []
+};
+
+const OVERSIGHT_ROLES = ['regulator', 'admin'];
+
+export interface ViolationListFilter {
+  controllerHash?: string | null;
+  status?: ViolationStatus;
+  severity?: ViolationSeverity;
+  article?: string;
+  ruleId?: string;
+  assigneeId?: string;
+  limit: number;
+}
+
+export interface RuleFailure {
+  rule: ComplianceRule;
+  result: ComplianceRuleResult;
+}
+
+class ViolationService {
+
+  /**
+   * Raise or refresh a violation for each failed rule of an evaluation
+   */
+  async recordRuleFailures(controllerHash: string, evaluationId: string, failures: RuleFailure[]): Promise<void> {
+    for (const { rule, result } of failures) {
+      const evidence = JSON.stringify(this.toEvidence(result));
+      const description = `${result.summary}. ${rule.remediation}`;
+
+      const updated = await databaseService.query(
+        `UPDATE violations
+         SET description = $3, evidence = $4, evaluation_id = $5, last_detected_at = NOW(), updated_at = NOW()
+         WHERE controller_hash = $1 AND rule_id = $2 AND status IN ('open', 'investigating')`,
+        [controllerHash, rule.id, description, evidence, evaluationId]
+      );
+      if ((updated.rowCount ?? 0) > 0) {
+        continue;
+      }
+
+      const inserted = await databaseService.query(
+        `INSERT INTO violations (
+          violation_id, controller_hash, article, rule_id, title, description, severity, evidence, evaluation_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (controller_hash, rule_id) WHERE rule_id IS NOT NULL AND status IN ('open', 'investigating')
+        DO NOTHING`,
+        [randomUUID(), controllerHash, rule.article, rule.id, rule.title, description, rule.severity, evidence, evaluationId]
+      );
+
+      if ((inserted.rowCount ?? 0) > 0) {
+        logger.info('Violation raised by compliance rule', { controllerHash, ruleId: rule.id, severity: rule.severity });
+      }
+    }
+  }
+
+  /**
+   * Raise a violation by hand
+   */
+  async createViolation(request: ViolationRequest, createdBy: string): Promise<Violation> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [request.controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    const violationId = randomUUID();
+
+    await databaseService.query(
+      `INSERT INTO violations (
+        violation_id, controller_hash, article, title, description, severity, evidence, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        violationId,
+        request.controllerHash,
+        request.article,
+        request.title,
+        request.description,
+        request.severity,
+        JSON.stringify(request.evidence || {}),
+        createdBy
+      ]
+    );
+
+    logger.info('Violation raised', { violationId, controllerHash: request.controllerHash, createdBy });
+
+    return (await this.getViolation(violationId, true))!;
+  }
+
+  /**
+   * Get a violation, optionally with its comments
+   */
+  async getViolation(violationId: string, includeComments: boolean = false): Promise<Violation | null> {
+    const result = await databaseService.query(
+      `SELECT v.*, c.organization_name
+       FROM violations v JOIN controllers c ON c.controller_hash = v.controller_hash
+       WHERE v.violation_id = $1`,
+      [violationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const violation = this.mapViolation(result.rows[0]);
+
+    if (includeComments) {
+      violation.comments = await this.getComments(violationId);
+    }
+
+    return violation;
+  }
+
+  /**
+   * List violations, most recently detected first
+   */
+  async listViolations(filter: ViolationListFilter): Promise<Violation[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.controllerHash) {
+      params.push(filter.controllerHash);
+      conditions.push(`v.controller_hash = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`v.status = $${params.length}`);
+    }
+    if (filter.severity) {
+      params.push(filter.severity);
+      conditions.push(`v.severity = $${params.length}`);
+    }
+    if (filter.article) {
+      params.push(filter.article);
+      conditions.push(`v.article = $${params.length}`);
+    }
+    if (filter.ruleId) {
+      params.push(filter.ruleId);
+      conditions.push(`v.rule_id = $${params.length}`);
+    }
+    if (filter.assigneeId) {
+      params.push(filter.assigneeId);
+      conditions.push(`v.assignee_id = $${params.length}`);
+    }
+
+    params.push(filter.limit);
+
+    const result = await databaseService.query(
+      `SELECT v.*, c.organization_name
+       FROM violations v JOIN controllers c ON c.controller_hash = v.controller_hash
+       ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+       ORDER BY v.last_detected_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapViolation(row));
+  }
+
+  /**
+   * Violation counts by status and severity, for one controller or all of them
+   */
+  async countViolations(controllerHash: string | null): Promise<ViolationCounts> {
+    const result = await databaseService.query(
+      `SELECT status, severity, COUNT(*)::int AS count
+       FROM violations
+       ${controllerHash ? 'WHERE controller_hash = $1' : ''}
+       GROUP BY status, severity`,
+      controllerHash ? [controllerHash] : []
+    );
+
+    const counts: ViolationCounts = {
+      total: 0,
+      byStatus: {
+        [ViolationStatus.OPEN]: 0,
+        [ViolationStatus.INVESTIGATING]: 0,
+        [ViolationStatus.RESOLVED]: 0,
+        [ViolationStatus.SANCTIONED]: 0
+      },
+      bySeverity: {
+        [ViolationSeverity.CRITICAL]: 0,
+        [ViolationSeverity.HIGH]: 0,
+        [ViolationSeverity.MEDIUM]: 0,
+        [ViolationSeverity.LOW]: 0
+      }
+    };
+
+    for (const row of result.rows) {
+      counts.total += row.count;
+      counts.byStatus[row.status as ViolationStatus] += row.count;
+      counts.bySeverity[row.severity as ViolationSeverity] += row.count;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Move a violation along its workflow; the change is recorded as a comment
+   */
+  async updateStatus(violationId: string, request: ViolationStatusRequest, actor: string): Promise<Violation> {
+    const client = await databaseService.poolConnection.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await this.lockViolation(client, violationId);
+      const fromStatus = current.status as ViolationStatus;
+
+      if (!ALLOWED_TRANSITIONS[fromStatus].includes(request.status)) {
+        throw new ConflictError(`Violation cannot move from ${fromStatus} to ${request.status}`);
+      }
+
+      const closing = request.status === ViolationStatus.RESOLVED || request.status === ViolationStatus.SANCTIONED;
+
+      await client.query(
+        `UPDATE violations
+         SET status = $2, resolved_at = ${closing ? 'NOW()' : 'resolved_at'}, updated_at = NOW()
+         WHERE violation_id = $1`,
+        [violationId, request.status]
+      );
+      await client.query(
+        `INSERT INTO violation_comments (violation_id, author_id, body, from_status, to_status)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [violationId, actor, request.comment || `Status changed to ${request.status}`, fromStatus, request.status]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Violation status changed', { violationId, status: request.status, actor });
+
+    return (await this.getViolation(violationId, true))!;
+  }
+
+  /**
+   * Assign a violation to a regulator or admin, or unassign it with null
+   */
+  async assign(violationId: string, assigneeId: string | null, actor: string): Promise<Violation> {
+    if (assigneeId) {
+      const assigneeResult = await databaseService.query(
+        'SELECT role FROM auth_credentials WHERE user_id = $1',
+        [assigneeId]
+      );
+      if (assigneeResult.rows.length === 0 || !OVERSIGHT_ROLES.includes(assigneeResult.rows[0].role)) {
+        throw new ValidationError('Violations can only be assigned to regulators or admins');
+      }
+    }
+
+    const result = await databaseService.query(
+      'UPDATE violations SET assignee_id = $2, updated_at = NOW() WHERE violation_id = $1',
+      [violationId, assigneeId]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Violation not found');
+    }
+
+    logger.info('Violation assigned', { violationId, assigneeId, actor });
+
+    return (await this.getViolation(violationId, true))!;
+  }
+
+  async addComment(violationId: string, body: string, authorId: string): Promise<ViolationComment> {
+    const violation = await this.getViolation(violationId);
+    if (!violation) {
+      throw new NotFoundError('Violation not found');
+    }
+
+    const result = await databaseService.query(
+      `INSERT INTO violation_comments (violation_id, author_id, body) VALUES ($1, $2, $3) RETURNING *`,
+      [violationId, authorId, body]
+    );
+    await databaseService.query('UPDATE violations SET updated_at = NOW() WHERE violation_id = $1', [violationId]);
+
+    return this.mapComment(result.rows[0]);
+  }
+
+  private async lockViolation(client: any, violationId: string): Promise<any> {
+    const result = await client.query(
+      'SELECT * FROM violations WHERE violation_id = $1 FOR UPDATE',
+      [violationId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Violation not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async getComments(violationId: string): Promise<ViolationComment[]> {
+    const result = await databaseService.query(
+      'SELECT * FROM violation_comments WHERE violation_id = $1 ORDER BY created_at ASC, id ASC',
+      [violationId]
+    );
+
+    return result.rows.map((row: any) => this.mapComment(row));
+  }
+
+  /**
+   * Evidence links of a rule result; metrics and details stay with the evaluation
+   */
+  private toEvidence(result: ComplianceRuleResult): ViolationEvidence {
+    const { consentIds, auditLogIds, anchorHashes, recordIds } = result.evidence;
+    return { consentIds, auditLogIds, anchorHashes, recordIds };
+  }
+
+  private mapViolation(row: any): Violation {
+    return {
+      violationId: row.violation_id,
+      controllerHash: row.controller_hash,
+      controllerName: row.organization_name ?? undefined,
+      article: row.article,
+      ruleId: row.rule_id ?? undefined,
+      title: row.title,
+      description: row.description,
+      severity: row.severity as ViolationSeverity,
+      status: row.status as ViolationStatus,
+      evidence: row.evidence || {},
+      evaluationId: row.evaluation_id ?? undefined,
+      assigneeId: row.assignee_id ?? undefined,
+      createdBy: row.created_by ?? undefined,
+      detectedAt: new Date(row.detected_at).getTime(),
+      lastDetectedAt: new Date(row.last_detected_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime(),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at).getTime() : undefined
+    };
+  }
+
+  private mapComment(row: any): ViolationComment {
+    return {
+      commentId: row.id,
+      authorId: row.author_id,
+      body: row.body,
+      fromStatus: row.from_status ?? undefined,
+      toStatus: row.to_status ?? undefined,
+      createdAt: new Date(row.created_at).getTime()
+    };
+  }
+}
+
+export const violationService = new ViolationService();
@@ -0,0 +1,94 @@
+/**
+ * Webhook Delivery Scheduler
+ * Periodically retries webhook deliveries whose backoff has elapsed
+ */
+
+import { webhookService } from './webhookService';
+import { logger } from '../utils/logger';
+
+const DEFAULT_INTERVAL_MS = 30 * 1000; // 30 seconds
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface WebhookRetrySweepResult {
+  attempted: number;
+  startedAt: number;
+  finishedAt: number;
+}
+
+class WebhookDeliveryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private intervalMs: number;
+  private batchSize: number;
+
+  constructor() {
+    this.intervalMs = parseInt(process.env.WEBHOOK_RETRY_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS;
+    this.batchSize = parseInt(process.env.WEBHOOK_RETRY_BATCH_SIZE || '') || DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Start the periodic sweep (no-op if already started)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error('Webhook retry sweep failed', { error: error.message });
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info('⏰ Webhook delivery scheduler started', {
+      intervalMs: this.intervalMs,
+      batchSize: this.batchSize
+    });
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Retry one batch of due deliveries. Each attempt reschedules itself on failure,
+   * so anything not reached here is picked up by the next run.
+   */
+  async runOnce(): Promise<WebhookRetrySweepResult> {
+    const startedAt = Date.now();
+    let attempted = 0;
+
+    if (this.running) {
+      logger.warn('Webhook retry sweep already in progress, skipping');
+      return { attempted, startedAt, finishedAt: Date.now() };
+    }
+
+    this.running = true;
+
+    try {
+      const deliveryIds = await webhookService.findDueDeliveryIds(this.batchSize);
+      for (const deliveryId of deliveryIds) {
+        if (await webhookService.attemptDelivery(deliveryId)) {
+          attempted++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (attempted > 0) {
+      logger.info('Webhook retry sweep completed', { attempted });
+    }
+
+    return { attempted, startedAt, finishedAt: Date.now() };
+  }
+}
+
+export const webhookDeliveryScheduler = new WebhookDeliveryScheduler();
@@ -0,0 +1,457 @@
+/**
+ * Webhook Service
+ * Pushes consent lifecycle events to controller endpoints with HMAC-signed payloads,
+ * retries failed deliveries with exponential backoff and keeps a delivery log
+ */
+
+import axios from 'axios';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { LookupAddress, LookupOptions, lookup as dnsLookup } from 'dns';
+import { Agent } from 'https';
+import {
+  isPrivateNetworkHost,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionCreateResponse,
+  WebhookSubscriptionRequest
+} from '@consentire/shared';
+import { databaseService } from './databaseService';
+import { NotFoundError, ForbiddenError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// A claimed delivery is not picked up again by the retry sweep before this lease runs out
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * DNS lookup that fails when a name resolves to a private or loopback address. Used as the
+ * socket lookup of delivery requests, so the checked address is the one connected to.
+ */
+function publicOnlyLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateNetworkHost(address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private or loopback address`), { code: 'EPRIVATEADDR' }), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+function resolvePublicHost(hostname: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    publicOnlyLookup(hostname, { all: true }, error => (error ? reject(error) : resolve()));
+  });
+}
+
+class WebhookService {
+  private maxAttempts: number;
+  private timeoutMs: number;
+  private deliveryAgent = new Agent({ lookup: publicOnlyLookup });
+
+  constructor() {
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '') || DEFAULT_MAX_ATTEMPTS;
+    this.timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '') || DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Subscribe a controller endpoint. The returned secret is not retrievable later.
+   */
+  async createSubscription(
+    request: WebhookSubscriptionRequest,
+    controllerHash: string,
+    createdBy: string
+  ): Promise<WebhookSubscriptionCreateResponse> {
+    const controllerResult = await databaseService.query(
+      'SELECT 1 FROM controllers WHERE controller_hash = $1',
+      [controllerHash]
+    );
+    if (controllerResult.rows.length === 0) {
+      throw new NotFoundError('Controller not found');
+    }
+
+    await this.assertPublicEndpoint(request.url);
+
+    const subscriptionId = randomUUID();
+    const secret = `whsec_${randomBytes(32).toString('hex')}`;
+
+    await databaseService.query(
+      `INSERT INTO webhook_subscriptions (
+        subscription_id, controller_hash, url, events, secret, description, active, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        subscriptionId,
+        controllerHash,
+        request.url,
+        [...new Set(request.events)],
+        secret,
+        request.description ?? null,
+        request.active ?? true,
+        createdBy
+      ]
+    );
+
+    logger.info('Webhook subscription created', { subscriptionId, controllerHash, events: request.events });
+
+    return { ...(await this.getSubscription(subscriptionId))!, secret };
+  }
+
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM webhook_subscriptions WHERE subscription_id = $1',
+      [subscriptionId]
+    );
+    return result.rows.length > 0 ? this.mapSubscription(result.rows[0]) : null;
+  }
+
+  /**
+   * List a controller's subscriptions (all controllers when controllerHash is null)
+   */
+  async listSubscriptions(controllerHash: string | null): Promise<WebhookSubscription[]> {
+    const result = controllerHash
+      ? await databaseService.query(
+          'SELECT * FROM webhook_subscriptions WHERE controller_hash = $1 ORDER BY created_at DESC',
+          [controllerHash]
+        )
+      : await databaseService.query('SELECT * FROM webhook_subscriptions ORDER BY created_at DESC');
+
+    return result.rows.map((row: any) => this.mapSubscription(row));
+  }
+
+  async updateSubscription(
+    subscriptionId: string,
+    request: Partial<WebhookSubscriptionRequest>,
+    controllerHash: string | null
+  ): Promise<WebhookSubscription> {
+    const current = await this.getOwnedSubscription(subscriptionId, controllerHash);
+
+    if (request.url) {
+      await this.assertPublicEndpoint(request.url);
+    }
+
+    await databaseService.query(
+      `UPDATE webhook_subscriptions
+       SET url = $1, events = $2, description = $3, active = $4, updated_at = NOW()
+       WHERE subscription_id = $5`,
+      [
+        request.url ?? current.url,
+        request.events ? [...new Set(request.events)] : current.events,
+        request.description ?? current.description ?? null,
+        request.active ?? current.active,
+        subscriptionId
+      ]
+    );
+
+    return (await this.getSubscription(subscriptionId))!;
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  async deleteSubscription(subscriptionId: string, controllerHash: string | null): Promise<void> {
+    await this.getOwnedSubscription(subscriptionId, controllerHash);
+    await databaseService.query('DELETE FROM webhook_subscriptions WHERE subscription_id = $1', [subscriptionId]);
+    logger.info('Webhook subscription deleted', { subscriptionId });
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    controllerHash: string | null,
+    status?: WebhookDeliveryStatus,
+    limit: number = 50
+  ): Promise<WebhookDelivery[]> {
+    await this.getOwnedSubscription(subscriptionId, controllerHash);
+
+    const params: any[] = [subscriptionId, Math.min(Math.max(limit, 1), 200)];
+    let filter = '';
+    if (status) {
+      params.push(status);
+      filter = 'AND status = $3';
+    }
+
+    const result = await databaseService.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE subscription_id = $1 ${filter}
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      params
+    );
+
+    return result.rows.map((row: any) => this.mapDelivery(row));
+  }
+
+  /**
+   * Queue an event for every active subscription of the consent's controller and try to
+   * deliver it right away. Failed attempts are left to the retry sweep.
+   */
+  async emit(type: WebhookEventType, data: WebhookEventData): Promise<void> {
+    const subscriptions = await databaseService.query(
+      `SELECT subscription_id FROM webhook_subscriptions
+       WHERE controller_hash = $1 AND active = TRUE AND $2 = ANY(events)`,
+      [data.controllerHash, type]
+    );
+
+    if (subscriptions.rows.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: randomUUID(),
+      type,
+      createdAt: Date.now(),
+      data
+    };
+
+    for (const row of subscriptions.rows) {
+      const deliveryId = await this.queueDelivery(row.subscription_id, event);
+      this.deliverInBackground(deliveryId);
+    }
+  }
+
+  /**
+   * Send a delivered or failed event again as a new delivery (same event id, so receivers can deduplicate)
+   */
+  async replayDelivery(deliveryId: string, controllerHash: string | null): Promise<WebhookDelivery> {
+    const original = await this.getDelivery(deliveryId);
+    if (!original) {
+      throw new NotFoundError('Webhook delivery not found');
+    }
+    await this.getOwnedSubscription(original.subscriptionId, controllerHash);
+
+    const replayId = await this.queueDelivery(original.subscriptionId, original.payload, deliveryId);
+    await this.attemptDelivery(replayId);
+
+    logger.info('Webhook delivery replayed', { deliveryId, replayId });
+
+    return (await this.getDelivery(replayId))!;
+  }
+
+  /**
+   * Deliveries whose next attempt is due, oldest first
+   */
+  async findDueDeliveryIds(limit: number): Promise<string[]> {
+    const result = await databaseService.query(
+      `SELECT delivery_id FROM webhook_deliveries
+       WHERE status = $1 AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at ASC
+       LIMIT $2`,
+      [WebhookDeliveryStatus.PENDING, limit]
+    );
+
+    return result.rows.map((row: any) => row.delivery_id);
+  }
+
+  /**
+   * Make one attempt at a pending delivery and schedule the next one on failure.
+   * Returns false when the delivery was not due or was claimed by another attempt.
+   */
+  async attemptDelivery(deliveryId: string): Promise<boolean> {
+    const claimed = await databaseService.query(
+      `UPDATE webhook_deliveries d
+       SET next_attempt_at = NOW() + ($2 || ' milliseconds')::interval
+       FROM webhook_subscriptions s
+       WHERE d.delivery_id = $1
+       AND s.subscription_id = d.subscription_id
+       AND d.status = $3
+       AND d.next_attempt_at <= NOW()
+       RETURNING d.payload, d.attempts, d.event_type, s.url, s.secret, s.active`,
+      [deliveryId, String(ATTEMPT_LEASE_MS), WebhookDeliveryStatus.PENDING]
+    );
+
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    const { payload, event_type, url, secret, active } = claimed.rows[0];
+    const attempts = claimed.rows[0].attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    if (!active) {
+      error = 'Subscription is disabled';
+    } else if (!url.startsWith('https://') || isPrivateNetworkHost(new URL(url).hostname)) {
+      error = 'Webhook URL must be https and must not point to a private or loopback address';
+    } else {
+      const body = JSON.stringify(payload);
+      try {
+        const response = await axios.post(url, body, {
+          timeout: this.timeoutMs,
+          maxRedirects: 0,
+          proxy: false,
+          httpsAgent: this.deliveryAgent,
+          validateStatus: () => true,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'ConsenTide-Webhooks/1.0',
+            'X-ConsenTide-Event': event_type,
+            'X-ConsenTide-Delivery': deliveryId,
+            'X-ConsenTide-Signature': signWebhookPayload(secret, body, Math.floor(Date.now() / 1000))
+          }
+        });
+        responseStatus = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          error = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (requestError: any) {
+        error = requestError.message || 'Request failed';
+      }
+    }
+
+    if (!error) {
+      await databaseService.query(
+        `UPDATE webhook_deliveries
+         SET status = $1, attempts = $2, last_attempt_at = NOW(), delivered_at = NOW(),
+             next_attempt_at = NULL, response_status = $3, last_error = NULL
+         WHERE delivery_id = $4`,
+        [WebhookDeliveryStatus.SUCCEEDED, attempts, responseStatus, deliveryId]
+      );
+      return true;
+    }
+
+    const exhausted = attempts >= this.maxAttempts;
+    const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+    await databaseService.query(
+      `UPDATE webhook_deliveries
+       SET status = $1, attempts = $2, last_attempt_at = NOW(), response_status = $3, last_error = $4,
+           next_attempt_at = $5
+       WHERE delivery_id = $6`,
+      [
+        exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+        attempts,
+        responseStatus,
+        error,
+        exhausted ? null : new Date(Date.now() + delayMs).toISOString(),
+        deliveryId
+      ]
+    );
+
+    logger.warn('Webhook delivery failed', { deliveryId, attempts, error, gaveUp: exhausted });
+    return true;
+  }
+
+  /**
+   * Reject endpoints whose host resolves to a private or loopback address. Deliveries check
+   * the resolved address again, since DNS can change after the subscription is saved.
+   */
+  private async assertPublicEndpoint(url: string): Promise<void> {
+    try {
+      await resolvePublicHost(new URL(url).hostname.replace(/^\[|\]$/g, ''));
+    } catch (error: any) {
+      throw new ValidationError(
+        error.code === 'EPRIVATEADDR'
+          ? 'Webhook URL must not point to a private or loopback address'
+          : `Webhook URL host could not be resolved: ${error.message}`
+      );
+    }
+  }
+
+  private async queueDelivery(subscriptionId: string, event: WebhookEvent, replayOf?: string): Promise<string> {
+    const deliveryId = randomUUID();
+
+    await databaseService.query(
+      `INSERT INTO webhook_deliveries (
+        delivery_id, subscription_id, event_id, event_type, payload, status, next_attempt_at, replay_of
+      ) VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)`,
+      [
+        deliveryId,
+        subscriptionId,
+        event.id,
+        event.type,
+        JSON.stringify(event),
+        WebhookDeliveryStatus.PENDING,
+        replayOf ?? null
+      ]
+    );
+
+    return deliveryId;
+  }
+
+  private deliverInBackground(deliveryId: string): void {
+    this.attemptDelivery(deliveryId).catch((error: any) => {
+      logger.error('Webhook delivery attempt errored', { deliveryId, error: error.message });
+    });
+  }
+
+  private async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const result = await databaseService.query(
+      'SELECT * FROM webhook_deliveries WHERE delivery_id = $1',
+      [deliveryId]
+    );
+    return result.rows.length > 0 ? this.mapDelivery(result.rows[0]) : null;
+  }
+
+  private async getOwnedSubscription(subscriptionId: string, controllerHash: string | null): Promise<WebhookSubscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription not found');
+    }
+    if (controllerHash && subscription.controllerHash !== controllerHash) {
+      throw new ForbiddenError('Webhook subscription belongs to another controller');
+    }
+
+    return subscription;
+  }
+
+  private mapSubscription(row: any): WebhookSubscription {
+    return {
+      subscriptionId: row.subscription_id,
+      controllerHash: row.controller_hash,
+      url: row.url,
+      events: row.events as WebhookEventType[],
+      description: row.description ?? undefined,
+      active: row.active,
+      createdAt: new Date(row.created_at).getTime(),
+      updatedAt: new Date(row.updated_at).getTime()
+    };
+  }
+
+  private mapDelivery(row: any): WebhookDelivery {
+    return {
+      deliveryId: row.delivery_id,
+      subscriptionId: row.subscription_id,
+      eventId: row.event_id,
+      eventType: row.event_type as WebhookEventType,
+      payload: row.payload,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts,
+      lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at).getTime() : undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).getTime() : undefined,
+      responseStatus: row.response_status ?? undefined,
+      lastError: row.last_error ?? undefined,
+      replayOf: row.replay_of ?? undefined,
+      createdAt: new Date(row.created_at).getTime(),
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at).getTime() : undefined
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
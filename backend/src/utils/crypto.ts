@@ -24,6 +24,26 @@ export function generateConsentId(
   return hash(input);
 }
 
+/**
+ * Compute a SHA-256 merkle root over hex leaf hashes (last node is paired with itself on odd levels)
+ */
+export function computeMerkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    throw new Error('Cannot compute merkle root of an empty set');
+  }
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hash(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
 /**
  * Generate controller hash
  */
@@ -0,0 +1,27 @@
+/**
+ * CSV helpers for downloadable exports
+ */
+
+export type CsvValue = string | number | boolean | null | undefined | object;
+
+// Leading characters a spreadsheet reads as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * RFC 4180 CSV; objects and arrays are written as JSON. Text that a spreadsheet would run as a
+ * formula is prefixed with a single quote; numbers are written as they are.
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  const cell = (value: CsvValue): string => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [header, ...rows].map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
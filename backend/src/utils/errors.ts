@@ -0,0 +1,64 @@
+/**
+ * Application error types
+ * The error handler maps each `name` to an HTTP status and uses `code` in the response
+ */
+
+/**
+ * Raised when a user's signature over a consent payload cannot be verified
+ */
+export class ConsentSignatureError extends Error {
+  readonly code = 'INVALID_SIGNATURE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsentSignatureError';
+  }
+}
+
+/**
+ * Raised when a requested resource does not exist
+ */
+export class NotFoundError extends Error {
+  readonly code = 'NOT_FOUND';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Raised when the caller may not act on a resource
+ */
+export class ForbiddenError extends Error {
+  readonly code = 'FORBIDDEN';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Raised when a request is well-formed but conflicts with current state
+ */
+export class ConflictError extends Error {
+  readonly code = 'CONFLICT';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Raised when request data fails a business rule
+ */
+export class ValidationError extends Error {
+  readonly code = 'VALIDATION_ERROR';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -7,6 +7,14 @@ import { logger } from './logger';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Any fixed key; serializes schema runs when several instances start at once
+const SCHEMA_LOCK_KEY = 7325011;
+
+/**
+ * Apply database/schema.sql on every start. Every statement in it is idempotent (IF NOT EXISTS,
+ * ADD COLUMN IF NOT EXISTS, guarded backfills), so a fresh database gets the full schema and an
+ * existing one gets the tables, columns and indexes added since it was created.
+ */
 export async function initializeDatabaseSchema(): Promise<void> {
   if (!process.env.DATABASE_URL) {
     logger.warn('DATABASE_URL not set, skipping schema initialization');
@@ -21,40 +29,33 @@ export async function initializeDatabaseSchema(): Promise<void> {
     const client = await pool.connect();
     
     try {
-      const tableCheck = await client.query(`
-        SELECT COUNT(*) as count 
-        FROM information_schema.tables 
-        WHERE table_schema = 'public' AND table_name = 'users';
-      `);
-      
-      if (parseInt(tableCheck.rows[0].count) > 0) {
-        logger.info('✅ Database already initialized');
-        return;
-      }
-
-      logger.info('🔧 Initializing database schema...');
+      logger.info('🔧 Applying database schema...');
       
       const schemaPath = join(__dirname, '../../..', 'database', 'schema.sql');
       const schemaSQL = readFileSync(schemaPath, 'utf8');
       
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock($1)', [SCHEMA_LOCK_KEY]);
       await client.query(schemaSQL);
       
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_controllers_metadata_email 
         ON controllers((metadata->>'email'));
       `);
+      await client.query('COMMIT');
       
-      logger.info('✅ Database schema initialized successfully');
+      logger.info('✅ Database schema is up to date');
       
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
     } finally {
       client.release();
     }
   } catch (error: any) {
-    if (error.code === '42P07') {
-      logger.info('ℹ️  Database schema already exists');
-    } else {
-      logger.error('Failed to initialize database schema:', error);
-    }
+    // Serving requests against a partial schema fails in confusing ways, so refuse to start
+    logger.error('Failed to apply database schema:', error);
+    throw error;
   } finally {
     await pool.end();
   }
@@ -5,6 +5,7 @@
 
 -- Create database (if not exists)
 -- Note: Railway creates the database automatically, just run the schema
+-- The backend re-applies this file on every start, so every statement must be safe to run again
 
 -- ==============================================
 -- USERS TABLE
@@ -15,10 +16,33 @@ CREATE TABLE IF NOT EXISTS users (
     public_key TEXT NOT NULL,
     did VARCHAR(255) UNIQUE NOT NULL,
     wallet_address VARCHAR(255),
+    date_of_birth DATE,
+    member_state CHAR(2),
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Age profile for the digital age of consent (for databases created before GDPR Art. 8 support)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS member_state CHAR(2);
+
+-- ==============================================
+-- GUARDIANSHIPS TABLE (GDPR Art. 8 parental consent)
+-- ==============================================
+CREATE TABLE IF NOT EXISTS guardianships (
+    guardianship_id VARCHAR(64) PRIMARY KEY,
+    guardian_id VARCHAR(64) NOT NULL REFERENCES users(id),
+    minor_id VARCHAR(64) NOT NULL REFERENCES users(id),
+    relationship VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    created_by VARCHAR(64) NOT NULL,
+    verified_by VARCHAR(64),
+    verified_at TIMESTAMP,
+    ended_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CHECK (guardian_id <> minor_id)
+);
+
 -- ==============================================
 -- CONTROLLERS TABLE
 -- ==============================================
@@ -33,6 +57,11 @@ CREATE TABLE IF NOT EXISTS controllers (
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Designated DPO (GDPR Art. 37), the only account that can sign off the controller's DPIAs
+ALTER TABLE controllers ADD COLUMN IF NOT EXISTS dpo_user_id VARCHAR(64);
+ALTER TABLE controllers ADD COLUMN IF NOT EXISTS dpo_designated_by VARCHAR(64);
+ALTER TABLE controllers ADD COLUMN IF NOT EXISTS dpo_designated_at TIMESTAMP;
+
 -- ==============================================
 -- AUTH CREDENTIALS TABLE (AUTHENTICATION)
 -- ==============================================
@@ -48,6 +77,140 @@ CREATE TABLE IF NOT EXISTS auth_credentials (
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
+-- ==============================================
+-- SIGNATURE NONCES TABLE
+-- ==============================================
+-- Nonces of accepted user signatures, kept until the signature would be too old to replay anyway
+CREATE TABLE IF NOT EXISTS signature_nonces (
+    user_id VARCHAR(64) NOT NULL,
+    nonce VARCHAR(128) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (user_id, nonce)
+);
+
+-- ==============================================
+-- PURPOSE REGISTRY TABLES
+-- ==============================================
+-- Name is fixed per purpose so purpose_hash stays stable; settings are versioned
+CREATE TABLE IF NOT EXISTS purposes (
+    purpose_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    name TEXT NOT NULL,
+    purpose_hash VARCHAR(64) NOT NULL,
+    current_version INTEGER NOT NULL DEFAULT 1,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    created_at TIMESTAMP DEFAULT NOW(),
+    retired_at TIMESTAMP,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS purpose_versions (
+    purpose_id VARCHAR(64) NOT NULL,
+    version INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    default_data_categories TEXT[] NOT NULL,
+    default_lawful_basis VARCHAR(30) NOT NULL,
+    max_retention_days INTEGER,
+    large_scale_profiling BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (purpose_id, version),
+    FOREIGN KEY (purpose_id) REFERENCES purposes(purpose_id)
+);
+
+-- High-risk flag (for databases created before DPIAs)
+ALTER TABLE purpose_versions ADD COLUMN IF NOT EXISTS large_scale_profiling BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ==============================================
+-- LEGITIMATE INTERESTS ASSESSMENT TABLES
+-- ==============================================
+-- One active LIA per controller and purpose; every version is hashed and anchored
+CREATE TABLE IF NOT EXISTS legitimate_interest_assessments (
+    lia_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    purpose TEXT NOT NULL,
+    purpose_hash VARCHAR(64) NOT NULL,
+    current_version INTEGER NOT NULL DEFAULT 1,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    created_at TIMESTAMP DEFAULT NOW(),
+    withdrawn_at TIMESTAMP,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS lia_versions (
+    lia_id VARCHAR(64) NOT NULL,
+    version INTEGER NOT NULL,
+    purpose_test JSONB NOT NULL,
+    necessity_test JSONB NOT NULL,
+    balancing_test JSONB NOT NULL,
+    safeguards TEXT[] NOT NULL,
+    passed BOOLEAN NOT NULL,
+    review_due_at TIMESTAMP,
+    content_hash VARCHAR(64) NOT NULL,
+    hgtp_tx_hash VARCHAR(64),
+    anchoring_timestamp TIMESTAMP,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (lia_id, version),
+    FOREIGN KEY (lia_id) REFERENCES legitimate_interest_assessments(lia_id)
+);
+
+-- ==============================================
+-- CONTROLLER API KEYS TABLE
+-- ==============================================
+-- Only the SHA-256 of each key is stored; the key is shown once on creation
+CREATE TABLE IF NOT EXISTS api_keys (
+    key_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL,
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes TEXT[] NOT NULL,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP,
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    rotated_from VARCHAR(64),
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+-- ==============================================
+-- WEBHOOK TABLES
+-- ==============================================
+-- The secret is kept in clear because every delivery is HMAC-signed with it
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    subscription_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    url TEXT NOT NULL,
+    events TEXT[] NOT NULL,
+    secret VARCHAR(128) NOT NULL,
+    description VARCHAR(200),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    delivery_id VARCHAR(64) PRIMARY KEY,
+    subscription_id VARCHAR(64) NOT NULL,
+    event_id VARCHAR(64) NOT NULL,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TIMESTAMP,
+    next_attempt_at TIMESTAMP,
+    response_status INTEGER,
+    last_error TEXT,
+    replay_of VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    delivered_at TIMESTAMP,
+    FOREIGN KEY (subscription_id) REFERENCES webhook_subscriptions(subscription_id) ON DELETE CASCADE
+);
+
 -- ==============================================
 -- CONSENTS TABLE
 -- ==============================================
@@ -66,12 +229,38 @@ CREATE TABLE IF NOT EXISTS consents (
     anchoring_timestamp TIMESTAMP,
     merkle_root VARCHAR(64),
     zk_proof JSONB,
+    supersedes VARCHAR(64),
+    superseded_by VARCHAR(64),
+    purpose_id VARCHAR(64),
+    purpose_version INTEGER,
+    confirmation_expires_at TIMESTAMP,
+    confirmed_at TIMESTAMP,
+    guardian_id VARCHAR(64),
+    guardian_consent_until TIMESTAMP,
+    converted_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW(),
     FOREIGN KEY (user_id) REFERENCES users(id),
     FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
 );
 
+-- Renewal links (for databases created before consent renewal)
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS supersedes VARCHAR(64);
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS superseded_by VARCHAR(64);
+
+-- Purpose registry links (for databases created before the purpose registry)
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS purpose_id VARCHAR(64);
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS purpose_version INTEGER;
+
+-- Double opt-in: pending consents must be confirmed before confirmation_expires_at
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS confirmation_expires_at TIMESTAMP;
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+
+-- Parental consent: guardian_id signed for a minor until guardian_consent_until, then converted_at
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS guardian_id VARCHAR(64);
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS guardian_consent_until TIMESTAMP;
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS converted_at TIMESTAMP;
+
 -- ==============================================
 -- AUDIT LOGS TABLE
 -- ==============================================
@@ -86,6 +275,332 @@ CREATE TABLE IF NOT EXISTS audit_logs (
     hgtp_tx_hash VARCHAR(64)
 );
 
+-- ==============================================
+-- CONSENT EVENTS TABLE (APPEND-ONLY HISTORY)
+-- ==============================================
+-- No foreign key to consents: the anchored history outlives the consent row
+CREATE TABLE IF NOT EXISTS consent_events (
+    id SERIAL PRIMARY KEY,
+    consent_id VARCHAR(64) NOT NULL,
+    event_type VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    data_categories TEXT[],
+    expires_at TIMESTAMP,
+    details JSONB,
+    hgtp_tx_hash VARCHAR(64),
+    anchoring_timestamp TIMESTAMP,
+    merkle_root VARCHAR(64),
+    block_height BIGINT,
+    occurred_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Every change the append-only trigger lets through, with the transaction that asked for it
+CREATE TABLE IF NOT EXISTS consent_event_mutations (
+    id SERIAL PRIMARY KEY,
+    event_id INTEGER NOT NULL,
+    consent_id VARCHAR(64) NOT NULL,
+    operation VARCHAR(10) NOT NULL,
+    reason VARCHAR(100) NOT NULL,
+    mutated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Only two mutations are allowed, each while its transaction sets consentire.consent_event_mutation
+-- with set_config(..., true): 'erasure:<erasureId>' may rewrite details (to replace an erased
+-- user's ID) and 'retention:<certificateId>' may delete events of consents past retention
+CREATE OR REPLACE FUNCTION reject_consent_event_mutation() RETURNS trigger AS $$
+DECLARE
+    mutation TEXT := COALESCE(current_setting('consentire.consent_event_mutation', true), '');
+BEGIN
+    IF (TG_OP = 'DELETE' AND mutation LIKE 'retention:_%')
+       OR (TG_OP = 'UPDATE' AND mutation LIKE 'erasure:_%' AND to_jsonb(NEW) - 'details' = to_jsonb(OLD) - 'details') THEN
+        INSERT INTO consent_event_mutations (event_id, consent_id, operation, reason)
+        VALUES (OLD.id, OLD.consent_id, TG_OP, mutation);
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'consent_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS consent_events_append_only ON consent_events;
+CREATE TRIGGER consent_events_append_only
+    BEFORE UPDATE OR DELETE ON consent_events
+    FOR EACH ROW EXECUTE FUNCTION reject_consent_event_mutation();
+
+-- ==============================================
+-- CONSENT RECEIPTS TABLE (SIGNED KANTARA RECEIPTS)
+-- ==============================================
+CREATE TABLE IF NOT EXISTS consent_receipts (
+    receipt_id VARCHAR(64) PRIMARY KEY,
+    consent_id VARCHAR(64) NOT NULL,
+    user_id VARCHAR(64) NOT NULL,
+    controller_hash VARCHAR(64) NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    purpose TEXT,
+    receipt JSONB NOT NULL,
+    jws TEXT NOT NULL,
+    key_id VARCHAR(32) NOT NULL,
+    issued_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- ==============================================
+-- PROCESSING RIGHTS TABLE (GDPR Art. 18 RESTRICTION / Art. 21 OBJECTION)
+-- ==============================================
+-- previous_status is what the consent returns to when the controller lifts or rejects the request
+CREATE TABLE IF NOT EXISTS processing_rights_requests (
+    request_id VARCHAR(64) PRIMARY KEY,
+    consent_id VARCHAR(64) NOT NULL,
+    user_id VARCHAR(64) NOT NULL,
+    controller_hash VARCHAR(64) NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    ground VARCHAR(40),
+    reason TEXT NOT NULL,
+    previous_status VARCHAR(20) NOT NULL,
+    resolution_note TEXT,
+    raised_at TIMESTAMP DEFAULT NOW(),
+    raised_tx_hash VARCHAR(64),
+    resolved_at TIMESTAMP,
+    resolved_by VARCHAR(64),
+    resolved_tx_hash VARCHAR(64),
+    FOREIGN KEY (consent_id) REFERENCES consents(consent_id)
+);
+
+-- ==============================================
+-- USER DATA KEYS TABLE (CRYPTO-SHREDDING)
+-- ==============================================
+-- Per-user AES key (wrapped by the platform key) for personal fields; erasure nulls wrapped_key
+CREATE TABLE IF NOT EXISTS user_keys (
+    user_id VARCHAR(64) PRIMARY KEY,
+    wrapped_key TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    destroyed_at TIMESTAMP
+);
+
+-- ==============================================
+-- ERASURE RECORDS TABLE (GDPR Art. 17)
+-- ==============================================
+-- Only the tombstone is kept, never the erased user's ID
+CREATE TABLE IF NOT EXISTS erasure_records (
+    erasure_id VARCHAR(64) PRIMARY KEY,
+    tombstone_id VARCHAR(64) UNIQUE NOT NULL,
+    consent_count INTEGER NOT NULL,
+    revoked_consent_ids TEXT[] NOT NULL DEFAULT '{}',
+    content_hash VARCHAR(64) NOT NULL,
+    hgtp_tx_hash VARCHAR(64) NOT NULL,
+    anchoring_timestamp TIMESTAMP NOT NULL,
+    erased_at TIMESTAMP NOT NULL
+);
+
+-- ==============================================
+-- RETENTION RULES TABLE (GDPR Art. 5(1)(e))
+-- ==============================================
+-- A consent rule without purpose_hash or data_category applies to all of the controller's consents
+CREATE TABLE IF NOT EXISTS retention_rules (
+    rule_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    target VARCHAR(20) NOT NULL,
+    purpose TEXT,
+    purpose_hash VARCHAR(64),
+    data_category VARCHAR(100),
+    statuses TEXT[] NOT NULL DEFAULT '{}',
+    retention_days INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    retired_at TIMESTAMP,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+-- ==============================================
+-- DELETION CERTIFICATES TABLE
+-- ==============================================
+-- One certificate per retention run that deleted something; anchored before the deletion commits
+CREATE TABLE IF NOT EXISTS deletion_certificates (
+    certificate_id VARCHAR(64) PRIMARY KEY,
+    rule_id VARCHAR(64) NOT NULL,
+    controller_hash VARCHAR(64) NOT NULL,
+    target VARCHAR(20) NOT NULL,
+    consent_count INTEGER NOT NULL DEFAULT 0,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    receipt_count INTEGER NOT NULL DEFAULT 0,
+    processing_rights_count INTEGER NOT NULL DEFAULT 0,
+    audit_log_count INTEGER NOT NULL DEFAULT 0,
+    record_hashes TEXT[] NOT NULL DEFAULT '{}',
+    merkle_root VARCHAR(64) NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    hgtp_tx_hash VARCHAR(64) NOT NULL,
+    anchoring_timestamp TIMESTAMP NOT NULL,
+    deleted_at TIMESTAMP NOT NULL,
+    FOREIGN KEY (rule_id) REFERENCES retention_rules(rule_id)
+);
+
+-- ==============================================
+-- RECORDS OF PROCESSING ACTIVITIES TABLE (GDPR Art. 30)
+-- ==============================================
+-- Every save is a new version; the latest version is the controller's current record
+CREATE TABLE IF NOT EXISTS ropa_versions (
+    controller_hash VARCHAR(64) NOT NULL,
+    version INTEGER NOT NULL,
+    controller_details JSONB NOT NULL,
+    activities JSONB NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (controller_hash, version),
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+-- ==============================================
+-- DATA PROTECTION IMPACT ASSESSMENT TABLES (GDPR Art. 35)
+-- ==============================================
+-- One open DPIA per controller and purpose; approved versions are anchored with their final hash
+CREATE TABLE IF NOT EXISTS dpias (
+    dpia_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    purpose TEXT NOT NULL,
+    purpose_hash VARCHAR(64) NOT NULL,
+    current_version INTEGER NOT NULL DEFAULT 1,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft',
+    created_at TIMESTAMP DEFAULT NOW(),
+    withdrawn_at TIMESTAMP,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS dpia_versions (
+    dpia_id VARCHAR(64) NOT NULL,
+    version INTEGER NOT NULL,
+    questionnaire JSONB NOT NULL,
+    risks JSONB NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    created_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    submitted_by VARCHAR(64),
+    submitted_at TIMESTAMP,
+    decision VARCHAR(20),
+    dpo_name TEXT,
+    dpo_opinion TEXT,
+    signed_off_by VARCHAR(64),
+    signed_off_at TIMESTAMP,
+    final_hash VARCHAR(64),
+    hgtp_tx_hash VARCHAR(64),
+    anchoring_timestamp TIMESTAMP,
+    PRIMARY KEY (dpia_id, version),
+    FOREIGN KEY (dpia_id) REFERENCES dpias(dpia_id)
+);
+
+-- ==============================================
+-- PERSONAL DATA BREACH TABLES (GDPR Art. 33/34)
+-- ==============================================
+-- The regulator deadline is 72 hours after discovery; every handling step is anchored
+CREATE TABLE IF NOT EXISTS data_breaches (
+    breach_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    data_categories TEXT[] NOT NULL,
+    approximate_subject_count INTEGER NOT NULL,
+    approximate_record_count INTEGER,
+    risk_level VARCHAR(20) NOT NULL,
+    likely_consequences TEXT NOT NULL,
+    measures_taken TEXT NOT NULL,
+    dpo_contact TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    occurred_at TIMESTAMP,
+    discovered_at TIMESTAMP NOT NULL,
+    regulator_deadline TIMESTAMP NOT NULL,
+    regulator_notified_at TIMESTAMP,
+    supervisory_authority TEXT,
+    delay_reason TEXT,
+    subject_notice_message TEXT,
+    subjects_notified_at TIMESTAMP,
+    subject_notice_exemption TEXT,
+    closing_summary TEXT,
+    closed_at TIMESTAMP,
+    reported_by VARCHAR(64),
+    created_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS breach_steps (
+    id SERIAL PRIMARY KEY,
+    breach_id VARCHAR(64) NOT NULL,
+    step VARCHAR(30) NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}',
+    content_hash VARCHAR(64) NOT NULL,
+    hgtp_tx_hash VARCHAR(64) NOT NULL,
+    anchoring_timestamp TIMESTAMP NOT NULL,
+    actor VARCHAR(64) NOT NULL,
+    occurred_at TIMESTAMP NOT NULL,
+    FOREIGN KEY (breach_id) REFERENCES data_breaches(breach_id)
+);
+
+-- Data subjects identified from consents with the breached categories; notice_status is set once notices are queued
+CREATE TABLE IF NOT EXISTS breach_affected_subjects (
+    breach_id VARCHAR(64) NOT NULL,
+    user_id VARCHAR(64) NOT NULL,
+    consent_ids TEXT[] NOT NULL DEFAULT '{}',
+    notice_status VARCHAR(20),
+    queued_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    acknowledged_at TIMESTAMP,
+    PRIMARY KEY (breach_id, user_id),
+    FOREIGN KEY (breach_id) REFERENCES data_breaches(breach_id)
+);
+
+-- ==============================================
+-- COMPLIANCE EVALUATIONS TABLE
+-- ==============================================
+-- One row per run of the compliance rules for a controller; the rows are the score history
+CREATE TABLE IF NOT EXISTS compliance_evaluations (
+    evaluation_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    score INTEGER NOT NULL,
+    passed INTEGER NOT NULL,
+    warned INTEGER NOT NULL,
+    failed INTEGER NOT NULL,
+    results JSONB NOT NULL,
+    evaluated_at TIMESTAMP NOT NULL,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+-- ==============================================
+-- VIOLATIONS TABLES
+-- ==============================================
+-- A failing compliance rule keeps at most one unresolved violation per controller, refreshed on each failure
+CREATE TABLE IF NOT EXISTS violations (
+    violation_id VARCHAR(64) PRIMARY KEY,
+    controller_hash VARCHAR(64) NOT NULL,
+    article VARCHAR(50) NOT NULL,
+    rule_id VARCHAR(100),
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    severity VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    evidence JSONB NOT NULL DEFAULT '{}',
+    evaluation_id VARCHAR(64),
+    assignee_id VARCHAR(64),
+    created_by VARCHAR(64),
+    detected_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    last_detected_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMP,
+    FOREIGN KEY (controller_hash) REFERENCES controllers(controller_hash)
+);
+
+CREATE TABLE IF NOT EXISTS violation_comments (
+    id SERIAL PRIMARY KEY,
+    violation_id VARCHAR(64) NOT NULL,
+    author_id VARCHAR(64) NOT NULL,
+    body TEXT NOT NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    created_at TIMESTAMP DEFAULT NOW(),
+    FOREIGN KEY (violation_id) REFERENCES violations(violation_id)
+);
+
 -- ==============================================
 -- GOVERNANCE PROPOSALS TABLE
 -- ==============================================
@@ -113,6 +628,24 @@ CREATE TABLE IF NOT EXISTS votes (
     UNIQUE(voter, proposal_id)
 );
 
+-- ==============================================
+-- IDEMPOTENCY KEYS TABLE
+-- ==============================================
+-- Keys are scoped to the caller; response_status is NULL while the first request is in flight
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    actor_id VARCHAR(128) NOT NULL,
+    idempotency_key VARCHAR(255) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    path TEXT NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    PRIMARY KEY (actor_id, idempotency_key)
+);
+
 -- ==============================================
 -- INDEXES FOR PERFORMANCE
 -- ==============================================
@@ -122,17 +655,61 @@ CREATE INDEX IF NOT EXISTS idx_users_email_hash ON users(email_hash);
 CREATE INDEX IF NOT EXISTS idx_users_did ON users(did);
 CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at);
 
+-- Guardianships indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guardianships_open_pair ON guardianships(guardian_id, minor_id) WHERE status <> 'ended';
+CREATE INDEX IF NOT EXISTS idx_guardianships_minor_id ON guardianships(minor_id);
+
 -- Auth credentials indexes
 CREATE INDEX IF NOT EXISTS idx_auth_credentials_email ON auth_credentials(email);
 CREATE INDEX IF NOT EXISTS idx_auth_credentials_user_id ON auth_credentials(user_id);
 CREATE INDEX IF NOT EXISTS idx_auth_credentials_role ON auth_credentials(role);
 CREATE INDEX IF NOT EXISTS idx_auth_credentials_organization_id ON auth_credentials(organization_id);
+CREATE INDEX IF NOT EXISTS idx_signature_nonces_expires_at ON signature_nonces(expires_at);
 
 -- Controllers indexes
 CREATE INDEX IF NOT EXISTS idx_controllers_organization_id ON controllers(organization_id);
 CREATE INDEX IF NOT EXISTS idx_controllers_controller_hash ON controllers(controller_hash);
 CREATE INDEX IF NOT EXISTS idx_controllers_created_at ON controllers(created_at);
 
+-- Purpose registry indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purposes_active_name ON purposes(controller_hash, purpose_hash) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_purposes_controller_hash ON purposes(controller_hash);
+
+-- LIA indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lias_active_purpose ON legitimate_interest_assessments(controller_hash, purpose_hash) WHERE status = 'active';
+
+-- Retention indexes
+CREATE INDEX IF NOT EXISTS idx_retention_rules_controller ON retention_rules(controller_hash, status);
+CREATE INDEX IF NOT EXISTS idx_deletion_certificates_rule_id ON deletion_certificates(rule_id, deleted_at);
+CREATE INDEX IF NOT EXISTS idx_deletion_certificates_controller ON deletion_certificates(controller_hash, deleted_at);
+
+-- DPIA indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dpias_open_purpose ON dpias(controller_hash, purpose_hash) WHERE status <> 'withdrawn';
+
+-- Breach indexes
+CREATE INDEX IF NOT EXISTS idx_data_breaches_controller ON data_breaches(controller_hash, discovered_at);
+CREATE INDEX IF NOT EXISTS idx_data_breaches_deadline ON data_breaches(regulator_deadline) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_breach_steps_breach_id ON breach_steps(breach_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_breach_affected_subjects_user_id ON breach_affected_subjects(user_id);
+
+-- Compliance evaluation indexes
+CREATE INDEX IF NOT EXISTS idx_compliance_evaluations_controller ON compliance_evaluations(controller_hash, evaluated_at DESC);
+
+-- Violation indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_violations_open_rule ON violations(controller_hash, rule_id)
+    WHERE rule_id IS NOT NULL AND status IN ('open', 'investigating');
+CREATE INDEX IF NOT EXISTS idx_violations_status ON violations(status, severity);
+CREATE INDEX IF NOT EXISTS idx_violations_controller ON violations(controller_hash, detected_at);
+CREATE INDEX IF NOT EXISTS idx_violation_comments_violation_id ON violation_comments(violation_id, created_at);
+
+-- API keys indexes
+CREATE INDEX IF NOT EXISTS idx_api_keys_controller_hash ON api_keys(controller_hash);
+
+-- Webhook indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_controller_hash ON webhook_subscriptions(controller_hash);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_id ON webhook_deliveries(subscription_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
 -- Consents indexes
 CREATE INDEX IF NOT EXISTS idx_consents_user_id ON consents(user_id);
 CREATE INDEX IF NOT EXISTS idx_consents_controller_hash ON consents(controller_hash);
@@ -141,6 +718,11 @@ CREATE INDEX IF NOT EXISTS idx_consents_status ON consents(status);
 CREATE INDEX IF NOT EXISTS idx_consents_granted_at ON consents(granted_at);
 CREATE INDEX IF NOT EXISTS idx_consents_expires_at ON consents(expires_at);
 CREATE INDEX IF NOT EXISTS idx_consents_hgtp_tx_hash ON consents(hgtp_tx_hash);
+CREATE INDEX IF NOT EXISTS idx_consents_supersedes ON consents(supersedes);
+CREATE INDEX IF NOT EXISTS idx_consents_purpose_id ON consents(purpose_id);
+CREATE INDEX IF NOT EXISTS idx_consents_pending ON consents(confirmation_expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_consents_guardian_conversion ON consents(guardian_consent_until)
+    WHERE guardian_id IS NOT NULL AND converted_at IS NULL;
 
 -- Audit logs indexes
 CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
@@ -149,6 +731,19 @@ CREATE INDEX IF NOT EXISTS idx_audit_logs_consent_id ON audit_logs(consent_id);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_controller_hash ON audit_logs(controller_hash);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
 
+-- Consent events indexes
+CREATE INDEX IF NOT EXISTS idx_consent_events_consent_id ON consent_events(consent_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_consent_events_event_type ON consent_events(event_type);
+
+-- Consent receipts indexes
+CREATE INDEX IF NOT EXISTS idx_consent_receipts_user_id ON consent_receipts(user_id, issued_at);
+CREATE INDEX IF NOT EXISTS idx_consent_receipts_consent_id ON consent_receipts(consent_id);
+
+-- Processing rights indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_rights_open ON processing_rights_requests(consent_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_processing_rights_user_id ON processing_rights_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_processing_rights_controller ON processing_rights_requests(controller_hash, status);
+
 -- Governance indexes
 CREATE INDEX IF NOT EXISTS idx_governance_proposals_voting_deadline ON governance_proposals(voting_deadline);
 CREATE INDEX IF NOT EXISTS idx_governance_proposals_created_at ON governance_proposals(created_at);
@@ -158,6 +753,29 @@ CREATE INDEX IF NOT EXISTS idx_votes_proposal_id ON votes(proposal_id);
 CREATE INDEX IF NOT EXISTS idx_votes_voter ON votes(voter);
 CREATE INDEX IF NOT EXISTS idx_votes_timestamp ON votes(timestamp);
 
+-- Idempotency keys indexes
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- ==============================================
+-- BACKFILL CONSENT EVENTS FOR PRE-EXISTING CONSENTS
+-- ==============================================
+-- Consents revoked or expired before consent_events existed have lost their grant anchor,
+-- so only the current anchor is attached to the terminal event.
+INSERT INTO consent_events (consent_id, event_type, status, data_categories, expires_at, details, hgtp_tx_hash, anchoring_timestamp, occurred_at)
+SELECT c.consent_id, 'granted', 'granted', c.data_categories, c.expires_at, '{"backfilled": true}'::jsonb,
+       CASE WHEN c.status = 'granted' THEN c.hgtp_tx_hash END,
+       CASE WHEN c.status = 'granted' THEN c.anchoring_timestamp END,
+       c.granted_at
+FROM consents c
+WHERE NOT EXISTS (SELECT 1 FROM consent_events e WHERE e.consent_id = c.consent_id);
+
+INSERT INTO consent_events (consent_id, event_type, status, data_categories, expires_at, details, hgtp_tx_hash, anchoring_timestamp, occurred_at)
+SELECT c.consent_id, c.status, c.status, c.data_categories, c.expires_at, '{"backfilled": true}'::jsonb,
+       c.hgtp_tx_hash, c.anchoring_timestamp, COALESCE(c.updated_at, c.anchoring_timestamp, NOW())
+FROM consents c
+WHERE c.status IN ('revoked', 'expired')
+AND NOT EXISTS (SELECT 1 FROM consent_events e WHERE e.consent_id = c.consent_id AND e.event_type = c.status);
+
 -- ==============================================
 -- DEMO DATA (OPTIONAL - FOR TESTING)
 -- ==============================================
@@ -16,6 +16,8 @@ import {
   CheckBadgeIcon
 } from '@heroicons/react/24/outline'
 import { api } from '@/lib/api'
+import { ApiKeyScope, ComplianceScoreHistoryEntry, ComplianceStatus, ControllerApiKey } from '@/lib/types'
+import { ComplianceRuleList } from '@/components/ComplianceRuleList'
 
 type TabType = 'overview' | 'compliance' | 'api' | 'analytics'
 
@@ -29,9 +31,9 @@ interface ComplianceStats {
 interface ControllerInfo {
   id: string
   name: string
-  complianceScore: number
+  complianceScore: number | null   // null until the compliance scheduler has evaluated it
   totalConsents: number
-  lastAudit: string
+  lastAudit: string | null
 }
 
 interface GDPRArticle {
@@ -60,9 +62,10 @@ export default function CompliancePage() {
   const [loading, setLoading] = useState(true)
   const [signedIn, setSignedIn] = useState(false)
   const [isController, setIsController] = useState(false)
-  const [apiKey, setApiKey] = useState<string>('')
-  const [showApiKey, setShowApiKey] = useState(false)
-  const [gdprCompliance, setGdprCompliance] = useState<any>(null)
+  const [apiKeys, setApiKeys] = useState<ControllerApiKey[]>([])
+  const [newApiKey, setNewApiKey] = useState<ControllerApiKey | null>(null)
+  const [gdprCompliance, setGdprCompliance] = useState<ComplianceStatus | null>(null)
+  const [complianceHistory, setComplianceHistory] = useState<ComplianceScoreHistoryEntry[]>([])
   const [currentControllerHash, setCurrentControllerHash] = useState<string | undefined>(undefined)
 
   const gdprArticleDetails = [
@@ -129,7 +132,7 @@ export default function CompliancePage() {
         
         if (user.role === 'controller') {
           await loadComplianceData()
-          generateApiKey(user.id)
+          await loadApiKeys()
         } else {
           setLoading(false)
         }
@@ -168,8 +171,12 @@ export default function CompliancePage() {
             
             if (userController) {
               setCurrentControllerHash(userController.controller_hash)
-              const complianceRes = await api.get(`/compliance/status/${userController.controller_hash}`)
+              const [complianceRes, historyRes] = await Promise.all([
+                api.get(`/compliance/status/${userController.controller_hash}`),
+                api.get(`/compliance/history/${userController.controller_hash}?limit=30`)
+              ])
               setGdprCompliance(complianceRes.data)
+              setComplianceHistory(historyRes.data.history || [])
             } else {
               console.error(`No controller found for organizationId: ${user.organizationId}`)
             }
@@ -194,9 +201,45 @@ export default function CompliancePage() {
     }
   }
 
-  const generateApiKey = (userId: string) => {
-    const key = `ctd_${userId.substring(0, 8)}_${Math.random().toString(36).substring(2, 15)}`
-    setApiKey(key)
+  const loadApiKeys = async () => {
+    try {
+      const response = await api.get('/controllers/api-keys')
+      setApiKeys(response.data.apiKeys || [])
+    } catch (error) {
+      console.error('Failed to load API keys:', error)
+    }
+  }
+
+  const handleCreateApiKey = async (name: string, scopes: ApiKeyScope[]) => {
+    try {
+      const response = await api.post('/controllers/api-keys', { name, scopes })
+      setNewApiKey(response.data)
+      await loadApiKeys()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to create API key')
+    }
+  }
+
+  const handleRotateApiKey = async (keyId: string) => {
+    if (!confirm('Rotate this key? The current key stops working immediately.')) return
+    try {
+      const response = await api.post(`/controllers/api-keys/${keyId}/rotate`)
+      setNewApiKey(response.data)
+      await loadApiKeys()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to rotate API key')
+    }
+  }
+
+  const handleRevokeApiKey = async (keyId: string) => {
+    if (!confirm('Revoke this key? Requests using it will be rejected.')) return
+    try {
+      await api.delete(`/controllers/api-keys/${keyId}`)
+      if (newApiKey?.keyId === keyId) setNewApiKey(null)
+      await loadApiKeys()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to revoke API key')
+    }
   }
 
   const handleSignOut = () => {
@@ -317,14 +360,18 @@ export default function CompliancePage() {
                 )}
 
                 {activeTab === 'compliance' && (
-                  <ComplianceTab compliance={gdprCompliance} articleDetails={gdprArticleDetails} />
+                  <ComplianceTab compliance={gdprCompliance} history={complianceHistory} articleDetails={gdprArticleDetails} />
                 )}
 
                 {activeTab === 'api' && (
-                  <APIIntegrationTab 
-                    apiKey={apiKey}
-                    showApiKey={showApiKey}
-                    onToggleKey={() => setShowApiKey(!showApiKey)}
+                  <APIIntegrationTab
+                    apiKeys={apiKeys}
+                    newApiKey={newApiKey}
+                    controllerHash={currentControllerHash}
+                    onCreate={handleCreateApiKey}
+                    onRotate={handleRotateApiKey}
+                    onRevoke={handleRevokeApiKey}
+                    onDismissNewKey={() => setNewApiKey(null)}
                     onCopy={copyToClipboard}
                   />
                 )}
@@ -439,19 +486,23 @@ function OverviewTab({
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      controller.complianceScore >= 90 ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/30' :
-                      controller.complianceScore >= 70 ? 'bg-yellow-500/20 text-yellow-300 border border-yellow-500/30' :
-                      'bg-red-500/20 text-red-300 border border-red-500/30'
-                    }`}>
-                      {controller.complianceScore}%
-                    </span>
+                    {controller.complianceScore === null ? (
+                      <span className="text-sm text-slate-400">Not evaluated</span>
+                    ) : (
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        controller.complianceScore >= 90 ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/30' :
+                        controller.complianceScore >= 70 ? 'bg-yellow-500/20 text-yellow-300 border border-yellow-500/30' :
+                        'bg-red-500/20 text-red-300 border border-red-500/30'
+                      }`}>
+                        {controller.complianceScore}%
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-100">
                     {controller.totalConsents.toLocaleString()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-100">
-                    {new Date(controller.lastAudit).toLocaleDateString()}
+                    {controller.lastAudit ? new Date(controller.lastAudit).toLocaleDateString() : '—'}
                   </td>
                 </tr>
               ))}
@@ -465,9 +516,11 @@ function OverviewTab({
 
 function ComplianceTab({ 
   compliance, 
+  history,
   articleDetails 
 }: { 
-  compliance: any, 
+  compliance: ComplianceStatus | null, 
+  history: ComplianceScoreHistoryEntry[],
   articleDetails: any[] 
 }) {
   const overallScore = compliance?.overallCompliance || 0
@@ -487,7 +540,7 @@ function ComplianceTab({
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-lg font-semibold text-slate-100 mb-2">Overall GDPR Compliance</h3>
-                <p className="text-sm text-slate-400">Real-time score based on consent data</p>
+                <p className="text-sm text-slate-400">Weighted score of the compliance rules, evaluated {new Date(compliance.lastAudit).toLocaleString()}</p>
               </div>
               <div className="text-right">
                 <div className="text-4xl font-bold bg-gradient-to-r from-violet-400 to-sky-400 bg-clip-text text-transparent">{overallScore}%</div>
@@ -500,7 +553,7 @@ function ComplianceTab({
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {articleDetails.map((detail) => {
-              const isCompliant = compliance[detail.key] || false
+              const isCompliant = Boolean(compliance[detail.key as keyof ComplianceStatus])
               return (
                 <div key={detail.article} className="border border-white/10 bg-white/5 backdrop-blur-xl rounded-xl p-6 hover:bg-white/10 transition">
                   <div className="flex items-start justify-between mb-3">
@@ -530,6 +583,29 @@ function ComplianceTab({
               )
             })}
           </div>
+
+          {compliance.rules && compliance.rules.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-lg font-semibold text-slate-100 mb-3">Rule Results</h3>
+              <ComplianceRuleList rules={compliance.rules} />
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <div className="mt-6 border border-white/10 bg-white/5 backdrop-blur-xl rounded-xl p-6">
+              <h3 className="text-lg font-semibold text-slate-100 mb-4">Score History</h3>
+              <div className="flex items-end space-x-1 h-32">
+                {[...history].reverse().map((entry) => (
+                  <div
+                    key={entry.evaluationId}
+                    title={`${new Date(entry.evaluatedAt).toLocaleString()}: ${entry.score}% (${entry.failed} failed, ${entry.warned} warnings)`}
+                    className={`flex-1 rounded-t ${entry.score >= 90 ? 'bg-emerald-500/70' : entry.score >= 75 ? 'bg-yellow-500/70' : 'bg-red-500/70'}`}
+                    style={{ height: `${Math.max(entry.score, 2)}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
         </>
       )}
     </div>
@@ -537,29 +613,44 @@ function ComplianceTab({
 }
 
 function APIIntegrationTab({
-  apiKey,
-  showApiKey,
-  onToggleKey,
+  apiKeys,
+  newApiKey,
+  controllerHash,
+  onCreate,
+  onRotate,
+  onRevoke,
+  onDismissNewKey,
   onCopy
 }: {
-  apiKey: string
-  showApiKey: boolean
-  onToggleKey: () => void
+  apiKeys: ControllerApiKey[]
+  newApiKey: ControllerApiKey | null
+  controllerHash?: string
+  onCreate: (name: string, scopes: ApiKeyScope[]) => void
+  onRotate: (keyId: string) => void
+  onRevoke: (keyId: string) => void
+  onDismissNewKey: () => void
   onCopy: (text: string) => void
 }) {
+  const [keyName, setKeyName] = useState('')
+  const [keyScopes, setKeyScopes] = useState<ApiKeyScope[]>([ApiKeyScope.VERIFY])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setKeyScopes(keyScopes.includes(scope)
+      ? keyScopes.filter(s => s !== scope)
+      : [...keyScopes, scope])
+  }
+
+  const handleCreate = () => {
+    if (!keyName.trim() || keyScopes.length === 0) return
+    onCreate(keyName.trim(), keyScopes)
+    setKeyName('')
+  }
+
   const codeExample = `// Verify user consent via ConsenTide API
-const response = await fetch('https://api.consentire.io/v1/consent/verify', {
-  method: 'POST',
-  headers: {
-    'Authorization': 'Bearer ${showApiKey ? apiKey : 'YOUR_API_KEY'}',
-    'Content-Type': 'application/json'
-  },
-  body: JSON.stringify({
-    userId: 'user_123',
-    controllerId: 'ctrl_456',
-    purpose: 'marketing_emails'
-  })
-});
+const response = await fetch(
+  \`https://api.consentire.io/v1/consent/verify/\${userId}/${controllerHash || 'YOUR_CONTROLLER_HASH'}/\${encodeURIComponent('marketing_emails')}\`,
+  { headers: { 'X-API-Key': process.env.CONSENTIRE_API_KEY } }
+);
 
 const { isValid } = await response.json();
 if (isValid) {
@@ -576,35 +667,106 @@ if (isValid) {
       <div className="border border-white/10 bg-white/5 backdrop-blur-xl rounded-xl p-6 mb-6">
         <div className="flex items-center space-x-2 mb-4">
           <KeyIcon className="h-6 w-6 text-violet-400" />
-          <h3 className="text-lg font-semibold text-slate-100">API Key</h3>
+          <h3 className="text-lg font-semibold text-slate-100">API Keys</h3>
         </div>
-        <p className="text-sm text-slate-400 mb-4">Use this key to authenticate API requests from your application</p>
-        
-        <div className="flex items-center space-x-2 mb-4">
+        <p className="text-sm text-slate-400 mb-4">Scoped keys authenticate requests from your backend services</p>
+
+        {newApiKey?.key && (
+          <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-xl p-4 mb-4">
+            <p className="text-sm text-emerald-300 mb-2">
+              <strong>{newApiKey.name}:</strong> copy this key now. It will not be shown again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={newApiKey.key}
+                readOnly
+                className="flex-1 px-4 py-2 border border-white/10 rounded-xl bg-white/5 text-slate-100 font-mono text-sm"
+              />
+              <button
+                onClick={() => onCopy(newApiKey.key!)}
+                className="px-4 py-2 bg-gradient-to-r from-violet-500 to-sky-500 text-white rounded-xl hover:from-violet-600 hover:to-sky-600 transition flex items-center space-x-2 shadow-[0_8px_30px_rgba(90,97,255,0.35)]"
+              >
+                <ClipboardDocumentIcon className="h-4 w-4" />
+                <span>Copy</span>
+              </button>
+              <button
+                onClick={onDismissNewKey}
+                className="px-4 py-2 border border-white/10 bg-white/5 rounded-xl hover:bg-white/10 text-slate-300 transition"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
           <input
-            type={showApiKey ? 'text' : 'password'}
-            value={apiKey}
-            readOnly
-            className="flex-1 px-4 py-2 border border-white/10 rounded-xl bg-white/5 text-slate-100 font-mono text-sm focus:border-violet-500/50 focus:ring-2 focus:ring-violet-500/20 transition"
+            type="text"
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+            placeholder="Key name, e.g. checkout-service"
+            className="flex-1 min-w-[200px] px-4 py-2 border border-white/10 rounded-xl bg-white/5 text-slate-100 text-sm focus:border-violet-500/50 focus:ring-2 focus:ring-violet-500/20 transition"
           />
+          {Object.values(ApiKeyScope).map((scope) => (
+            <label key={scope} className="flex items-center space-x-1 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={keyScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+              />
+              <span>{scope}</span>
+            </label>
+          ))}
           <button
-            onClick={onToggleKey}
-            className="px-4 py-2 border border-white/10 bg-white/5 rounded-xl hover:bg-white/10 text-slate-300 transition"
-          >
-            {showApiKey ? 'Hide' : 'Show'}
-          </button>
-          <button
-            onClick={() => onCopy(apiKey)}
-            className="px-4 py-2 bg-gradient-to-r from-violet-500 to-sky-500 text-white rounded-xl hover:from-violet-600 hover:to-sky-600 transition flex items-center space-x-2 shadow-[0_8px_30px_rgba(90,97,255,0.35)]"
+            onClick={handleCreate}
+            disabled={!keyName.trim() || keyScopes.length === 0}
+            className="px-4 py-2 bg-gradient-to-r from-violet-500 to-sky-500 text-white rounded-xl hover:from-violet-600 hover:to-sky-600 transition disabled:opacity-50"
           >
-            <ClipboardDocumentIcon className="h-4 w-4" />
-            <span>Copy</span>
+            Create Key
           </button>
         </div>
 
+        {apiKeys.length === 0 ? (
+          <p className="text-sm text-slate-500 mb-4">No API keys yet</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {apiKeys.map((key) => (
+              <div key={key.keyId} className="flex items-center justify-between p-3 bg-white/5 border border-white/10 rounded-xl">
+                <div>
+                  <p className="text-sm font-medium text-slate-100">{key.name}</p>
+                  <p className="text-xs text-slate-400 font-mono">
+                    {key.keyPrefix}… · {key.scopes.join(', ')}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Created {new Date(key.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {key.lastUsedAt ? `Last used ${new Date(key.lastUsedAt).toLocaleString()}` : 'Never used'}
+                    {key.expiresAt ? ` · Expires ${new Date(key.expiresAt).toLocaleDateString()}` : ''}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => onRotate(key.keyId)}
+                    className="px-3 py-1.5 text-xs border border-white/10 bg-white/5 rounded-lg hover:bg-white/10 text-slate-300 transition"
+                  >
+                    Rotate
+                  </button>
+                  <button
+                    onClick={() => onRevoke(key.keyId)}
+                    className="px-3 py-1.5 text-xs border border-red-500/30 bg-red-500/10 rounded-lg hover:bg-red-500/20 text-red-300 transition"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
           <p className="text-sm text-yellow-300">
-            <strong>Security Warning:</strong> Keep this API key secret. Never expose it in client-side code or public repositories.
+            <strong>Security Warning:</strong> Keep API keys secret. Never expose them in client-side code or public repositories.
           </p>
         </div>
       </div>
@@ -625,20 +787,20 @@ if (isValid) {
             <h4 className="font-medium text-slate-100 mb-2">2. Available Endpoints</h4>
             <div className="space-y-2">
               <div className="flex items-center justify-between p-3 bg-white/5 border border-white/10 rounded-xl">
-                <code className="text-sm font-mono text-violet-400">POST /v1/consent/verify</code>
-                <span className="text-xs text-slate-400">Verify consent validity</span>
+                <code className="text-sm font-mono text-violet-400">GET /v1/consent/verify/:userId/:controllerId/:purpose</code>
+                <span className="text-xs text-slate-400">Verify consent validity (verify scope)</span>
               </div>
               <div className="flex items-center justify-between p-3 bg-white/5 border border-white/10 rounded-xl">
-                <code className="text-sm font-mono text-violet-400">GET /v1/consent/user/:userId</code>
-                <span className="text-xs text-slate-400">Get user consents</span>
+                <code className="text-sm font-mono text-violet-400">POST /v1/consent/grant</code>
+                <span className="text-xs text-slate-400">Submit a user-signed grant (grant scope)</span>
               </div>
               <div className="flex items-center justify-between p-3 bg-white/5 border border-white/10 rounded-xl">
-                <code className="text-sm font-mono text-violet-400">POST /v1/consent/grant</code>
-                <span className="text-xs text-slate-400">Grant new consent</span>
+                <code className="text-sm font-mono text-violet-400">POST /v1/consent/batch</code>
+                <span className="text-xs text-slate-400">Batch grants, revokes and checks (grant scope)</span>
               </div>
               <div className="flex items-center justify-between p-3 bg-white/5 border border-white/10 rounded-xl">
-                <code className="text-sm font-mono text-violet-400">POST /v1/consent/revoke/:id</code>
-                <span className="text-xs text-slate-400">Revoke consent</span>
+                <code className="text-sm font-mono text-violet-400">GET /v1/analytics/*</code>
+                <span className="text-xs text-slate-400">Consent analytics (analytics scope)</span>
               </div>
             </div>
           </div>
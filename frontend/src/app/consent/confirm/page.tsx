@@ -0,0 +1,117 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import {
+  CheckBadgeIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline'
+import { api } from '@/lib/api'
+
+interface ConfirmedConsent {
+  consentId: string
+  status: string
+  grantedAt: number
+  hgtpTxHash?: string
+}
+
+function ConfirmConsent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [state, setState] = useState<'confirming' | 'confirmed' | 'failed'>('confirming')
+  const [consent, setConsent] = useState<ConfirmedConsent | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!token) {
+      setState('failed')
+      setError('This confirmation link is missing its token.')
+      return
+    }
+
+    api.post('/consent/requests/confirm-link', { token })
+      .then((response) => {
+        setConsent(response.data)
+        setState('confirmed')
+      })
+      .catch((err: any) => {
+        setError(err.response?.data?.message || err.message)
+        setState('failed')
+      })
+  }, [token])
+
+  if (state === 'confirming') {
+    return (
+      <div className="text-center">
+        <div className="mx-auto mb-4 h-10 w-10 animate-spin rounded-full border-2 border-violet-400 border-t-transparent" />
+        <p className="text-slate-400">Confirming your consent...</p>
+      </div>
+    )
+  }
+
+  if (state === 'failed') {
+    return (
+      <div className="text-center">
+        <ExclamationTriangleIcon className="mx-auto mb-4 h-12 w-12 text-amber-400" />
+        <h1 className="mb-2 text-2xl font-semibold text-white">Could not confirm consent</h1>
+        <p className="text-slate-400">{error}</p>
+        <p className="mt-4 text-sm text-slate-500">
+          You can still review pending requests from your dashboard.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center">
+      <CheckCircleIcon className="mx-auto mb-4 h-12 w-12 text-emerald-400" />
+      <h1 className="mb-2 text-2xl font-semibold text-white">Consent confirmed</h1>
+      <p className="text-slate-400">
+        Your consent is now active and can be withdrawn at any time from your dashboard.
+      </p>
+      {consent && (
+        <div className="mt-6 rounded-xl border border-white/10 bg-white/5 p-4 text-left text-xs text-slate-400">
+          <p>Consent ID: <span className="font-mono text-slate-300">{consent.consentId.substring(0, 24)}...</span></p>
+          <p className="mt-1">Granted: {new Date(consent.grantedAt).toLocaleString()}</p>
+          {consent.hgtpTxHash && (
+            <p className="mt-1">Anchor: <span className="font-mono text-slate-300">{consent.hgtpTxHash.substring(0, 24)}...</span></p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ConfirmConsentPage() {
+  return (
+    <div className="relative min-h-screen overflow-hidden bg-[#05060A] text-slate-100">
+      <div className="pointer-events-none fixed inset-0 z-0 bg-[radial-gradient(circle_at_20%_80%,_rgba(56,189,248,0.08),_transparent_40%),radial-gradient(circle_at_80%_20%,_rgba(168,85,247,0.08),_transparent_50%)]" />
+
+      <header className="sticky top-0 z-40 border-b border-white/10 bg-[#05060A]/70 backdrop-blur-xl">
+        <div className="mx-auto flex max-w-6xl items-center px-6 py-4">
+          <Link href="/" className="flex items-center space-x-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-gradient-to-br from-violet-500/60 to-sky-500/60">
+              <CheckBadgeIcon className="h-6 w-6" />
+            </div>
+            <p className="text-xs uppercase tracking-[0.4em] text-slate-400">consentire</p>
+          </Link>
+        </div>
+      </header>
+
+      <div className="relative z-10 flex min-h-[calc(100vh-5rem)] items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md rounded-2xl border border-white/10 bg-white/5 p-8 backdrop-blur-sm">
+          <Suspense fallback={<p className="text-center text-slate-400">Loading...</p>}>
+            <ConfirmConsent />
+          </Suspense>
+          <div className="mt-8 text-center">
+            <Link href="/dashboard" className="text-sm text-violet-400 hover:text-violet-300">
+              Go to dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
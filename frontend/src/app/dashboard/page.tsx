@@ -21,12 +21,25 @@ import {
   ConsentState,
   ConsentStatus,
   ConsentGrantRequest,
-  LegalBasis
+  ConsentReceiptRecord,
+  LegalBasis,
+  PendingConsentRequest,
+  RegisteredPurpose
 } from '@/lib/types'
 import { DemoModeBanner } from '@/components/DemoModeBanner'
+import {
+  confirmationMessage,
+  grantMessage,
+  renewalMessage,
+  revocationMessage,
+  signConsentMessage
+} from '@/lib/signing'
 
 type TabType = 'consents' | 'organizations' | 'settings' | 'export'
 
+// The grant form's request; the signature is added when it is submitted
+type UnsignedGrantRequest = Omit<ConsentGrantRequest, 'signature' | 'signedAt' | 'nonce'>
+
 interface OrganizationData {
   id: string
   name: string
@@ -53,6 +66,8 @@ export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('consents')
   const [consents, setConsents] = useState<ConsentState[]>([])
   const [organizations, setOrganizations] = useState<OrganizationData[]>([])
+  const [receipts, setReceipts] = useState<ConsentReceiptRecord[]>([])
+  const [pendingRequests, setPendingRequests] = useState<PendingConsentRequest[]>([])
   const [showGrantForm, setShowGrantForm] = useState(false)
   const [loading, setLoading] = useState(false)
   const [signedIn, setSignedIn] = useState(false)
@@ -74,7 +89,9 @@ export default function Dashboard() {
         setUserRole(user.role || 'user')
         
         await loadConsents()
+        await loadPendingRequests()
         await loadOrganizations()
+        await loadReceipts()
       } catch (error) {
         console.error('Failed to load user data:', error)
         setSignedIn(false)
@@ -108,7 +125,8 @@ export default function Dashboard() {
         expiresAt: r.expires_at ? new Date(r.expires_at).getTime() : undefined,
         hgtpTxHash: r.hgtp_tx_hash || '',
         userId: r.user_id,
-        anchoringTimestamp: r.anchoring_timestamp ? new Date(r.anchoring_timestamp).getTime() : undefined
+        anchoringTimestamp: r.anchoring_timestamp ? new Date(r.anchoring_timestamp).getTime() : undefined,
+        dataCategories: r.data_categories || []
       }))
       setConsents(mapped)
     } catch (error) {
@@ -125,12 +143,75 @@ export default function Dashboard() {
     }
   }
 
-  const handleGrantConsent = async (data: ConsentGrantRequest) => {
+  const loadReceipts = async () => {
+    try {
+      const response = await api.get('/consent/receipts/me')
+      setReceipts(response.data.receipts || [])
+    } catch (error) {
+      console.error('Failed to load consent receipts:', error)
+    }
+  }
+
+  const loadPendingRequests = async () => {
+    try {
+      const response = await api.get('/consent/requests/me')
+      setPendingRequests(response.data.requests || [])
+    } catch (error) {
+      console.error('Failed to load consent requests:', error)
+    }
+  }
+
+  const handleConfirmRequest = async (consentId: string) => {
+    setLoading(true)
+    try {
+      const signed = await signConsentMessage(userId!, (signedAt, nonce) =>
+        confirmationMessage(userId!, consentId, signedAt, nonce)
+      )
+      await api.post(`/consent/requests/${consentId}/confirm`, signed)
+      await loadPendingRequests()
+      await loadConsents()
+      await loadOrganizations()
+      await loadReceipts()
+      alert('Consent confirmed successfully!')
+    } catch (error: any) {
+      alert(`Failed to confirm consent: ${error.response?.data?.message || error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeclineRequest = async (consentId: string) => {
+    if (!confirm('Decline this consent request?')) return
+
     setLoading(true)
     try {
-      await api.post('/consent/grant', data)
+      await api.post(`/consent/requests/${consentId}/decline`)
+      await loadPendingRequests()
+    } catch (error: any) {
+      alert(`Failed to decline request: ${error.response?.data?.message || error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleGrantConsent = async (data: UnsignedGrantRequest) => {
+    setLoading(true)
+    try {
+      const signed = await signConsentMessage(data.userId, (signedAt, nonce) => grantMessage(
+        data.userId,
+        data.controllerId,
+        data.purpose,
+        data.dataCategories,
+        data.lawfulBasis,
+        data.expiresAt,
+        signedAt,
+        nonce
+      ))
+      const request: ConsentGrantRequest = { ...data, ...signed }
+      await api.post('/consent/grant', request)
       await loadConsents()
       await loadOrganizations()
+      await loadReceipts()
       setShowGrantForm(false)
       alert('Consent granted successfully!')
     } catch (error: any) {
@@ -140,18 +221,26 @@ export default function Dashboard() {
     }
   }
 
-  const handleRevokeConsent = async (consentId: string) => {
-    if (!confirm('Are you sure you want to revoke this consent?')) return
+  const handleRevokeConsent = async (consentId: string, dataCategories?: string[]) => {
+    const prompt = dataCategories
+      ? `Withdraw consent for "${dataCategories.join(', ')}" only?`
+      : 'Are you sure you want to revoke this consent?'
+    if (!confirm(prompt)) return
     
     setLoading(true)
     try {
+      const signed = await signConsentMessage(userId!, (signedAt, nonce) =>
+        revocationMessage(userId!, consentId, dataCategories, signedAt, nonce)
+      )
       await api.post(`/consent/revoke/${consentId}`, {
         userId,
-        signature: `sig_${Date.now()}`
+        ...signed,
+        dataCategories
       })
       await loadConsents()
       await loadOrganizations()
-      alert('Consent revoked successfully!')
+      await loadReceipts()
+      alert(dataCategories ? 'Data category withdrawn successfully!' : 'Consent revoked successfully!')
     } catch (error: any) {
       alert(`Failed to revoke consent: ${error.response?.data?.message || error.message}`)
     } finally {
@@ -159,56 +248,74 @@ export default function Dashboard() {
     }
   }
 
-  const handleExportData = (format: 'json' | 'csv') => {
-    const data = {
-      userId,
-      exportedAt: new Date().toISOString(),
-      consents: consents.map(c => ({
-        consentId: c.consentId,
-        controllerHash: c.controllerHash,
-        status: c.status,
-        grantedAt: new Date(c.grantedAt).toISOString(),
-        expiresAt: c.expiresAt ? new Date(c.expiresAt).toISOString() : null,
-        hgtpTxHash: c.hgtpTxHash
-      })),
-      organizations: organizations.map(o => ({
-        id: o.id,
-        name: o.name,
-        complianceScore: o.complianceScore
-      }))
+  const handleRenewConsent = async (consentId: string) => {
+    if (!confirm('Renew this consent for another year?')) return
+
+    setLoading(true)
+    try {
+      // Renewal keeps the consent's current categories, which are part of the signed payload
+      const dataCategories = consents.find(consent => consent.consentId === consentId)?.dataCategories || []
+      const expiresAt = Date.now() + 365 * 24 * 60 * 60 * 1000
+      const signed = await signConsentMessage(userId!, (signedAt, nonce) =>
+        renewalMessage(userId!, consentId, dataCategories, expiresAt, signedAt, nonce)
+      )
+      await api.post(`/consent/${consentId}/renew`, {
+        dataCategories: dataCategories.length > 0 ? dataCategories : undefined,
+        expiresAt,
+        ...signed
+      })
+      await loadConsents()
+      await loadReceipts()
+      alert('Consent renewed successfully!')
+    } catch (error: any) {
+      alert(`Failed to renew consent: ${error.response?.data?.message || error.message}`)
+    } finally {
+      setLoading(false)
     }
+  }
 
-    if (format === 'json') {
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `consentire-data-${new Date().toISOString().split('T')[0]}.json`
-      a.click()
-      URL.revokeObjectURL(url)
-    } else {
-      const csv = [
-        ['Consent ID', 'Controller Hash', 'Status', 'Granted At', 'Expires At', 'HGTP TX Hash'],
-        ...consents.map(c => [
-          c.consentId,
-          c.controllerHash,
-          c.status,
-          new Date(c.grantedAt).toISOString(),
-          c.expiresAt ? new Date(c.expiresAt).toISOString() : '',
-          c.hgtpTxHash
-        ])
-      ].map(row => row.join(',')).join('\n')
-
-      const blob = new Blob([csv], { type: 'text/csv' })
-      const url = URL.createObjectURL(blob)
+  const handleExportData = async (format: 'zip' | 'json') => {
+    setLoading(true)
+    try {
+      const response = await api.get('/users/me/export', {
+        params: { format },
+        responseType: 'blob'
+      })
+      const url = URL.createObjectURL(response.data)
       const a = document.createElement('a')
       a.href = url
-      a.download = `consentire-consents-${new Date().toISOString().split('T')[0]}.csv`
+      a.download = `consentire-export-${new Date().toISOString().split('T')[0]}.${format}`
       a.click()
       URL.revokeObjectURL(url)
+    } catch (error: any) {
+      alert(`Failed to export data: ${error.message}`)
+    } finally {
+      setLoading(false)
     }
   }
 
+  const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleDownloadReceipt = (receipt: ConsentReceiptRecord) => {
+    downloadFile(receipt.jws, `consent-receipt-${receipt.receiptId}.jwt`, 'application/jwt')
+  }
+
+  const handleDownloadAllReceipts = () => {
+    downloadFile(
+      JSON.stringify(receipts, null, 2),
+      `consentire-receipts-${new Date().toISOString().split('T')[0]}.json`,
+      'application/json'
+    )
+  }
+
   const tabs = [
     { id: 'consents' as TabType, name: 'My Consents', icon: ShieldCheckIcon },
     { id: 'organizations' as TabType, name: 'Organizations with My Data', icon: BuildingOfficeIcon },
@@ -303,7 +410,11 @@ export default function Dashboard() {
                 {activeTab === 'consents' && (
                   <MyConsentsTab
                     consents={consents}
+                    pendingRequests={pendingRequests}
+                    onConfirmRequest={handleConfirmRequest}
+                    onDeclineRequest={handleDeclineRequest}
                     onRevoke={handleRevokeConsent}
+                    onRenew={handleRenewConsent}
                     onGrantNew={() => setShowGrantForm(true)}
                   />
                 )}
@@ -317,7 +428,13 @@ export default function Dashboard() {
                 )}
 
                 {activeTab === 'export' && (
-                  <DataExportTab onExport={handleExportData} consents={consents} />
+                  <DataExportTab
+                    onExport={handleExportData}
+                    consents={consents}
+                    receipts={receipts}
+                    onDownloadReceipt={handleDownloadReceipt}
+                    onDownloadAllReceipts={handleDownloadAllReceipts}
+                  />
                 )}
               </div>
             </div>
@@ -376,11 +493,19 @@ export default function Dashboard() {
 
 function MyConsentsTab({ 
   consents, 
+  pendingRequests,
+  onConfirmRequest,
+  onDeclineRequest,
   onRevoke, 
+  onRenew,
   onGrantNew 
 }: { 
   consents: ConsentState[], 
-  onRevoke: (id: string) => void,
+  pendingRequests: PendingConsentRequest[],
+  onConfirmRequest: (id: string) => void,
+  onDeclineRequest: (id: string) => void,
+  onRevoke: (id: string, dataCategories?: string[]) => void,
+  onRenew: (id: string) => void,
   onGrantNew: () => void
 }) {
   return (
@@ -399,6 +524,54 @@ function MyConsentsTab({
         </button>
       </div>
 
+      {pendingRequests.length > 0 && (
+        <div className="mb-6 border border-amber-500/30 bg-amber-500/10 rounded-2xl p-4">
+          <h3 className="text-sm font-semibold text-amber-300 mb-3">
+            Awaiting your confirmation ({pendingRequests.length})
+          </h3>
+          <div className="space-y-3">
+            {pendingRequests.map((request) => (
+              <div key={request.consentId} className="flex items-start justify-between gap-4 p-3 bg-white/5 border border-white/10 rounded-xl">
+                <div>
+                  <p className="text-sm font-medium text-slate-100">
+                    {request.controllerName || `${request.controllerHash.substring(0, 12)}...`} asks for: {request.purpose}
+                  </p>
+                  <p className="text-xs text-slate-400 mt-1">
+                    Data: {request.dataCategories.join(', ')} · Basis: {request.lawfulBasis.replace('_', ' ')}
+                    {request.expiresAt ? ` · Until ${new Date(request.expiresAt).toLocaleDateString()}` : ''}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Confirm by {new Date(request.confirmBy).toLocaleString()}
+                    {request.confirmationUrl && (
+                      <>
+                        {' · '}
+                        <a href={request.confirmationUrl} className="text-sky-400 hover:text-sky-300">
+                          Confirmation link
+                        </a>
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <button
+                    onClick={() => onConfirmRequest(request.consentId)}
+                    className="px-3 py-1.5 text-xs bg-gradient-to-r from-violet-500 to-sky-500 text-white rounded-lg hover:from-violet-600 hover:to-sky-600 transition"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    onClick={() => onDeclineRequest(request.consentId)}
+                    className="px-3 py-1.5 text-xs border border-white/10 bg-white/5 rounded-lg hover:bg-white/10 text-slate-300 transition"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {consents.length === 0 ? (
         <div className="text-center py-12">
           <ShieldCheckIcon className="h-16 w-16 text-slate-500 mx-auto mb-4" />
@@ -417,6 +590,7 @@ function MyConsentsTab({
               key={consent.consentId}
               consent={consent}
               onRevoke={onRevoke}
+              onRenew={onRenew}
             />
           ))}
         </div>
@@ -482,6 +656,29 @@ function PrivacySettingsTab() {
     const saved = localStorage.getItem('privacy_data_retention')
     return saved || '1year'
   })
+  const [ageProfile, setAgeProfile] = useState<{ dateOfBirth?: string, memberState?: string } | null>(null)
+  const [dateOfBirth, setDateOfBirth] = useState('')
+  const [memberState, setMemberState] = useState('')
+
+  useEffect(() => {
+    api.get('/users/me/guardianship')
+      .then(response => {
+        setAgeProfile(response.data.ageProfile)
+        setMemberState(response.data.ageProfile.memberState || '')
+      })
+      .catch(error => console.error('Failed to load age profile:', error))
+  }, [])
+
+  // Once recorded, date of birth and member state can only be corrected by an administrator
+  const saveAgeProfile = async () => {
+    try {
+      const response = await api.put('/users/me/age-profile', { dateOfBirth, memberState: memberState.toUpperCase() })
+      setAgeProfile(response.data)
+      alert('Age profile saved')
+    } catch (error: any) {
+      alert(`Failed to save age profile: ${error.response?.data?.message || error.message}`)
+    }
+  }
 
   const saveSettings = () => {
     localStorage.setItem('privacy_auto_revoke', JSON.stringify(autoRevoke))
@@ -490,6 +687,22 @@ function PrivacySettingsTab() {
     alert('Privacy settings saved successfully!')
   }
 
+  const eraseAccount = async () => {
+    if (!confirm('Erase your account? Your active consents are revoked and your personal data is destroyed. This cannot be undone.')) {
+      return
+    }
+
+    try {
+      const response = await api.post('/users/me/erasure', { confirm: true })
+      alert(`Your account was erased.\nErasure ID: ${response.data.erasureId}\nAnchor: ${response.data.hgtpTxHash}`)
+      localStorage.removeItem('token')
+      localStorage.removeItem('user')
+      window.location.href = '/login'
+    } catch (error: any) {
+      alert(`Failed to erase account: ${error.response?.data?.message || error.message}`)
+    }
+  }
+
   return (
     <div>
       <div className="mb-6">
@@ -498,6 +711,39 @@ function PrivacySettingsTab() {
       </div>
 
       <div className="space-y-6">
+        {ageProfile && !ageProfile.dateOfBirth && (
+          <div className="p-4 border border-amber-500/30 bg-amber-500/10 rounded-xl">
+            <h3 className="font-semibold text-amber-300">Age Profile</h3>
+            <p className="text-sm text-slate-400 mb-3">
+              Record your date of birth and country before giving consent. Only an administrator can change them afterwards.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="date"
+                value={dateOfBirth}
+                onChange={(e) => setDateOfBirth(e.target.value)}
+                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-slate-100"
+              />
+              <input
+                type="text"
+                value={memberState}
+                onChange={(e) => setMemberState(e.target.value)}
+                placeholder="Country code, e.g. FR"
+                maxLength={2}
+                disabled={!!ageProfile.memberState}
+                className="px-3 py-2 w-48 bg-white/5 border border-white/10 rounded-lg text-slate-100"
+              />
+              <button
+                onClick={saveAgeProfile}
+                disabled={!dateOfBirth || memberState.length !== 2}
+                className="px-4 py-2 bg-gradient-to-r from-violet-500 to-sky-500 text-white rounded-lg disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="flex items-center justify-between p-4 border border-white/10 bg-white/5 rounded-xl">
           <div>
             <h3 className="font-semibold text-slate-100">Auto-Revoke Expired Consents</h3>
@@ -560,6 +806,20 @@ function PrivacySettingsTab() {
             Save Privacy Settings
           </button>
         </div>
+
+        <div className="p-4 border border-red-500/30 bg-red-500/5 rounded-xl">
+          <h3 className="font-semibold text-red-300 mb-1">Erase My Account</h3>
+          <p className="text-sm text-slate-400 mb-4">
+            GDPR Article 17: revokes your active consents, deletes your login and destroys the key protecting your
+            personal data. Blockchain anchors stay verifiable but no longer identify you. Export your data first if you need a copy.
+          </p>
+          <button
+            onClick={eraseAccount}
+            className="px-4 py-2 border border-red-500/50 text-red-300 rounded-xl font-semibold hover:bg-red-500/10 transition"
+          >
+            Erase My Account
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -567,10 +827,16 @@ function PrivacySettingsTab() {
 
 function DataExportTab({ 
   onExport, 
-  consents 
+  consents,
+  receipts,
+  onDownloadReceipt,
+  onDownloadAllReceipts
 }: { 
-  onExport: (format: 'json' | 'csv') => void,
-  consents: ConsentState[]
+  onExport: (format: 'zip' | 'json') => void,
+  consents: ConsentState[],
+  receipts: ConsentReceiptRecord[],
+  onDownloadReceipt: (receipt: ConsentReceiptRecord) => void,
+  onDownloadAllReceipts: () => void
 }) {
   return (
     <div>
@@ -587,7 +853,9 @@ function DataExportTab({
               <h3 className="text-sm font-medium text-violet-300 mb-2">GDPR Article 20: Right to Data Portability</h3>
               <p className="text-sm text-slate-300">
                 You have the right to receive your personal data in a structured, commonly used, and machine-readable format.
-                Export your consent records below to exercise this right.
+                The export contains your consents with their blockchain anchors and proofs, their full history,
+                your receipts, restriction and objection requests, and the audit entries about you. Each export is
+                recorded in the audit trail.
               </p>
             </div>
           </div>
@@ -595,32 +863,86 @@ function DataExportTab({
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <button
-            onClick={() => onExport('json')}
+            onClick={() => onExport('zip')}
             className="p-6 border border-white/10 bg-white/5 rounded-xl hover:border-violet-500/50 hover:bg-white/10 transition text-left backdrop-blur group"
           >
             <DocumentTextIcon className="h-10 w-10 text-violet-400 mb-3 group-hover:text-violet-300 transition" />
-            <h3 className="font-semibold text-slate-100 mb-2">Export as JSON</h3>
-            <p className="text-sm text-slate-400">Machine-readable format for developer integration</p>
+            <h3 className="font-semibold text-slate-100 mb-2">Complete Package (ZIP)</h3>
+            <p className="text-sm text-slate-400">JSON plus CSV files for spreadsheets and data analysis</p>
             <div className="mt-4 flex items-center text-sm text-violet-400 font-medium">
               <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
-              Download JSON
+              Download ZIP
             </div>
           </button>
 
           <button
-            onClick={() => onExport('csv')}
+            onClick={() => onExport('json')}
             className="p-6 border border-white/10 bg-white/5 rounded-xl hover:border-sky-500/50 hover:bg-white/10 transition text-left backdrop-blur group"
           >
             <DocumentTextIcon className="h-10 w-10 text-sky-400 mb-3 group-hover:text-sky-300 transition" />
-            <h3 className="font-semibold text-slate-100 mb-2">Export as CSV</h3>
-            <p className="text-sm text-slate-400">Spreadsheet format for Excel and data analysis</p>
+            <h3 className="font-semibold text-slate-100 mb-2">Export as JSON</h3>
+            <p className="text-sm text-slate-400">Machine-readable format for developer integration</p>
             <div className="mt-4 flex items-center text-sm text-sky-400 font-medium">
               <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
-              Download CSV
+              Download JSON
             </div>
           </button>
         </div>
 
+        <div className="border border-white/10 bg-white/5 rounded-xl p-6 backdrop-blur">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="font-semibold text-slate-100">Signed Consent Receipts</h3>
+              <p className="text-sm text-slate-400 mt-1">
+                Kantara-format receipts signed by the platform key (JWS). Verify them offline against the published key set.
+              </p>
+            </div>
+            {receipts.length > 0 && (
+              <button
+                onClick={onDownloadAllReceipts}
+                className="flex items-center text-sm text-violet-400 font-medium hover:text-violet-300 transition"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                Download all
+              </button>
+            )}
+          </div>
+
+          {receipts.length === 0 ? (
+            <p className="text-sm text-slate-500">No receipts yet. A receipt is issued for every grant and revocation.</p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {receipts.map((receipt) => {
+                const purpose = receipt.receipt.services[0]?.purposes[0]
+                return (
+                  <li key={receipt.receiptId} className="flex items-center justify-between py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-slate-100 truncate">
+                        <span className={receipt.action === 'grant' ? 'text-emerald-400' : 'text-red-400'}>
+                          {receipt.action === 'grant' ? 'Granted' : 'Revoked'}
+                        </span>
+                        {' · '}
+                        {receipt.receipt.piiControllers[0]?.piiController}
+                        {purpose ? ` · ${purpose.purpose}` : ''}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(receipt.issuedAt).toLocaleString()} · {receipt.receiptId}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onDownloadReceipt(receipt)}
+                      className="ml-4 flex items-center text-sm text-sky-400 font-medium hover:text-sky-300 transition"
+                    >
+                      <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                      JWS
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
         <div className="border border-white/10 bg-white/5 rounded-xl p-6 backdrop-blur">
           <h3 className="font-semibold text-slate-100 mb-4">Export Summary</h3>
           <div className="grid grid-cols-2 gap-4 text-sm">
@@ -655,10 +977,12 @@ function DataExportTab({
 
 function ConsentCard({
   consent,
-  onRevoke
+  onRevoke,
+  onRenew
 }: {
   consent: ConsentState,
-  onRevoke: (id: string) => void
+  onRevoke: (id: string, dataCategories?: string[]) => void,
+  onRenew: (id: string) => void
 }) {
   const getStatusIcon = (status: ConsentStatus) => {
     switch (status) {
@@ -693,6 +1017,28 @@ function ConsentCard({
             {consent.expiresAt && (
               <p><strong className="text-slate-300">Expires:</strong> {formatDate(consent.expiresAt)}</p>
             )}
+            {consent.dataCategories && consent.dataCategories.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <strong className="text-slate-300">Data:</strong>
+                {consent.dataCategories.map((category) => (
+                  <span
+                    key={category}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border border-white/10 bg-white/5 text-slate-300"
+                  >
+                    {category}
+                    {consent.status === ConsentStatus.GRANTED && consent.dataCategories!.length > 1 && (
+                      <button
+                        onClick={() => onRevoke(consent.consentId, [category])}
+                        className="text-slate-500 hover:text-red-400 transition"
+                        title={`Withdraw consent for ${category}`}
+                      >
+                        <XCircleIcon className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
             {consent.hgtpTxHash && (
               <div className="flex items-center gap-2 mt-3 p-2 border border-violet-500/30 bg-gradient-to-r from-violet-500/10 to-transparent rounded-xl backdrop-blur">
                 <DocumentTextIcon className="h-4 w-4 text-violet-400 flex-shrink-0" />
@@ -719,12 +1065,20 @@ function ConsentCard({
           </div>
         </div>
         {consent.status === ConsentStatus.GRANTED && (
-          <button
-            onClick={() => onRevoke(consent.consentId)}
-            className="bg-gradient-to-r from-red-500 to-pink-500 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:from-red-600 hover:to-pink-600 transition shadow-[0_8px_30px_rgba(239,68,68,0.35)]"
-          >
-            Revoke
-          </button>
+          <div className="flex flex-col gap-2">
+            <button
+              onClick={() => onRevoke(consent.consentId)}
+              className="bg-gradient-to-r from-red-500 to-pink-500 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:from-red-600 hover:to-pink-600 transition shadow-[0_8px_30px_rgba(239,68,68,0.35)]"
+            >
+              Revoke
+            </button>
+            <button
+              onClick={() => onRenew(consent.consentId)}
+              className="border border-white/10 bg-white/5 text-slate-200 px-4 py-2 rounded-xl text-sm font-semibold hover:bg-white/10 transition"
+            >
+              Renew
+            </button>
+          </div>
         )}
       </div>
     </div>
@@ -740,17 +1094,53 @@ function GrantConsentForm({
 }: { 
   userId: string,
   organizations: OrganizationData[],
-  onSubmit: (data: ConsentGrantRequest) => void,
+  onSubmit: (data: UnsignedGrantRequest) => void,
   onCancel: () => void,
   loading: boolean
 }) {
   const [formData, setFormData] = useState({
     controllerId: '',
+    purposeId: '',
     purpose: '',
     dataCategories: [] as string[],
     lawfulBasis: LegalBasis.CONSENT,
     expiresAt: ''
   })
+  const [purposes, setPurposes] = useState<RegisteredPurpose[]>([])
+
+  useEffect(() => {
+    setPurposes([])
+    if (!formData.controllerId) return
+
+    api.get(`/controllers/purposes?controllerHash=${formData.controllerId}`)
+      .then(response => setPurposes(response.data.purposes || []))
+      .catch(error => console.error('Failed to load purposes:', error))
+  }, [formData.controllerId])
+
+  const selectPurpose = (purposeId: string) => {
+    const purpose = purposes.find(p => p.purposeId === purposeId)
+    if (!purpose) {
+      setFormData({ ...formData, purposeId: '', purpose: '' })
+      return
+    }
+
+    // Prefill the purpose defaults; the expiry must stay within its maximum retention
+    const expiresAt = purpose.maxRetentionDays
+      ? new Date(Date.now() + purpose.maxRetentionDays * 24 * 60 * 60 * 1000 - new Date().getTimezoneOffset() * 60000)
+          .toISOString()
+          .slice(0, 16)
+      : formData.expiresAt
+    setFormData({
+      ...formData,
+      purposeId: purpose.purposeId,
+      purpose: purpose.name,
+      dataCategories: purpose.defaultDataCategories,
+      lawfulBasis: purpose.defaultLawfulBasis,
+      expiresAt
+    })
+  }
+
+  const selectedPurpose = purposes.find(p => p.purposeId === formData.purposeId)
 
   const availableCategories = [
     { id: 'email', label: 'Email Address', description: 'Your email for communications' },
@@ -790,7 +1180,7 @@ function GrantConsentForm({
       dataCategories: formData.dataCategories,
       lawfulBasis: formData.lawfulBasis,
       expiresAt: formData.expiresAt ? new Date(formData.expiresAt).getTime() : undefined,
-      signature: `sig_${Date.now()}`
+      purposeId: formData.purposeId || undefined
     })
   }
 
@@ -808,7 +1198,7 @@ function GrantConsentForm({
             <select
               required
               value={formData.controllerId}
-              onChange={(e) => setFormData({ ...formData, controllerId: e.target.value })}
+              onChange={(e) => setFormData({ ...formData, controllerId: e.target.value, purposeId: '', purpose: '' })}
               className="w-full px-3 py-2.5 border border-white/10 bg-white/5 text-slate-100 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 backdrop-blur"
             >
               <option value="">Select an organization...</option>
@@ -825,8 +1215,29 @@ function GrantConsentForm({
             <label className="block text-sm font-medium text-slate-300 mb-2">
               Purpose <span className="text-red-400">*</span>
             </label>
+            {purposes.length > 0 && (
+              <select
+                value={formData.purposeId}
+                onChange={(e) => selectPurpose(e.target.value)}
+                className="w-full mb-2 px-3 py-2.5 border border-white/10 bg-white/5 text-slate-100 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 backdrop-blur"
+              >
+                <option value="">Other (describe below)...</option>
+                {purposes.map((purpose) => (
+                  <option key={purpose.purposeId} value={purpose.purposeId}>
+                    {purpose.name} (v{purpose.version})
+                  </option>
+                ))}
+              </select>
+            )}
+            {selectedPurpose && (
+              <p className="text-xs text-slate-400 mb-2">
+                {selectedPurpose.description}
+                {selectedPurpose.maxRetentionDays ? ` · Kept at most ${selectedPurpose.maxRetentionDays} days` : ''}
+              </p>
+            )}
             <textarea
               required
+              readOnly={!!selectedPurpose}
               value={formData.purpose}
               onChange={(e) => setFormData({ ...formData, purpose: e.target.value })}
               className="w-full px-3 py-2.5 border border-white/10 bg-white/5 text-slate-100 placeholder-slate-500 rounded-xl focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 backdrop-blur"
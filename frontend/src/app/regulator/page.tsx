@@ -11,10 +11,12 @@ import {
   ClockIcon,
   CheckCircleIcon,
   XCircleIcon,
-  CheckBadgeIcon
+  CheckBadgeIcon,
+  BellAlertIcon
 } from '@heroicons/react/24/outline'
 import { api } from '@/lib/api'
-import { ComplianceStatus } from '@/lib/types'
+import { ComplianceStatus, DataBreach, Violation, ViolationCounts, ViolationStatus } from '@/lib/types'
+import { ComplianceRuleList } from '@/components/ComplianceRuleList'
 
 function BackgroundTexture() {
   return (
@@ -27,31 +29,22 @@ function BackgroundTexture() {
   )
 }
 
-type TabType = 'audit' | 'violations' | 'investigation' | 'compliance'
+type TabType = 'audit' | 'violations' | 'breaches' | 'investigation' | 'compliance'
 
 interface ControllerInfo {
   id: string
   name: string
-  complianceScore: number
+  complianceScore: number | null   // null until the compliance scheduler has evaluated it
   totalConsents: number
-  lastAudit: string
-}
-
-interface Violation {
-  id: string
-  controllerId: string
-  controllerName: string
-  articleViolated: string
-  severity: 'critical' | 'high' | 'medium' | 'low'
-  description: string
-  detectedAt: string
-  status: 'open' | 'investigating' | 'resolved'
+  lastAudit: string | null
 }
 
 export default function RegulatorPage() {
   const [activeTab, setActiveTab] = useState<TabType>('audit')
   const [controllers, setControllers] = useState<ControllerInfo[]>([])
   const [violations, setViolations] = useState<Violation[]>([])
+  const [violationCounts, setViolationCounts] = useState<ViolationCounts | null>(null)
+  const [breaches, setBreaches] = useState<DataBreach[]>([])
   const [searchTerm, setSearchTerm] = useState<string>('')
   const [controllerHash, setControllerHash] = useState<string>('')
   const [compliance, setCompliance] = useState<ComplianceStatus | null>(null)
@@ -79,6 +72,7 @@ export default function RegulatorPage() {
         if (user.role === 'regulator') {
           await loadAuditData()
           await loadViolations()
+          await loadBreaches()
         }
       } catch (error) {
         console.error('Failed to load user data:', error)
@@ -103,39 +97,28 @@ export default function RegulatorPage() {
   }
 
   const loadViolations = async () => {
-    const mockViolations: Violation[] = [
-      {
-        id: 'v1',
-        controllerId: 'ctrl_io_org_001',
-        controllerName: 'Demo Organization IO',
-        articleViolated: 'Article 7',
-        severity: 'high',
-        description: 'Consent obtained without clear affirmative action',
-        detectedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'investigating'
-      },
-      {
-        id: 'v2',
-        controllerId: 'ctrl_de9a42acbfd5e5fba38627114e458bf3',
-        controllerName: 'Demo Corporation',
-        articleViolated: 'Article 17',
-        severity: 'critical',
-        description: 'Data erasure request not processed within 30 days',
-        detectedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'open'
-      },
-      {
-        id: 'v3',
-        controllerId: 'ctrl_io_org_001',
-        controllerName: 'Demo Organization IO',
-        articleViolated: 'Article 13',
-        severity: 'medium',
-        description: 'Privacy notice not provided at data collection time',
-        detectedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-        status: 'resolved'
-      }
-    ]
-    setViolations(mockViolations)
+    try {
+      const [listResponse, countsResponse] = await Promise.all([
+        api.get('/compliance/violations'),
+        api.get('/compliance/violations/counts')
+      ])
+      setViolations(listResponse.data.violations || [])
+      setViolationCounts(countsResponse.data)
+    } catch (error) {
+      console.error('Failed to load violations:', error)
+      setViolations([])
+      setViolationCounts(null)
+    }
+  }
+
+  const loadBreaches = async () => {
+    try {
+      const response = await api.get('/compliance/breaches')
+      setBreaches(response.data.breaches || [])
+    } catch (error) {
+      console.error('Failed to load breach notifications:', error)
+      setBreaches([])
+    }
   }
 
   const loadCompliance = async () => {
@@ -143,12 +126,13 @@ export default function RegulatorPage() {
     
     setLoading(true)
     try {
+      // The detailed report is admin-only; the rule results come with the status
       const [statusRes, reportRes] = await Promise.all([
         api.get(`/compliance/status/${controllerHash}`),
-        api.get(`/compliance/report/${controllerHash}`)
+        api.get(`/compliance/report/${controllerHash}`).catch(() => null)
       ])
       setCompliance(statusRes.data)
-      setReport(reportRes.data)
+      setReport(reportRes?.data ?? null)
     } catch (error) {
       console.error('Failed to load compliance status:', error)
       alert('Failed to load compliance status')
@@ -195,6 +179,7 @@ export default function RegulatorPage() {
   const tabs = [
     { id: 'audit' as TabType, name: 'Audit Overview', icon: ChartBarIcon },
     { id: 'violations' as TabType, name: 'Violation Tracking', icon: ExclamationTriangleIcon },
+    { id: 'breaches' as TabType, name: 'Breach Notifications', icon: BellAlertIcon },
     { id: 'investigation' as TabType, name: 'Investigation Tools', icon: DocumentMagnifyingGlassIcon },
     { id: 'compliance' as TabType, name: 'Compliance Check', icon: ShieldCheckIcon }
   ]
@@ -204,10 +189,11 @@ export default function RegulatorPage() {
     c.id.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
-  const criticalCount = violations.filter(v => v.severity === 'critical').length
-  const openCount = violations.filter(v => v.status === 'open').length
-  const avgCompliance = controllers.length > 0 
-    ? Math.round(controllers.reduce((acc, c) => acc + c.complianceScore, 0) / controllers.length)
+  const criticalCount = violationCounts?.bySeverity.critical ?? 0
+  const openCount = violationCounts?.byStatus.open ?? 0
+  const scoredControllers = controllers.filter(c => c.complianceScore !== null)
+  const avgCompliance = scoredControllers.length > 0
+    ? Math.round(scoredControllers.reduce((acc, c) => acc + c.complianceScore!, 0) / scoredControllers.length)
     : 0
 
   return (
@@ -340,7 +326,11 @@ export default function RegulatorPage() {
                 )}
 
                 {activeTab === 'violations' && (
-                  <ViolationTrackingTab violations={violations} />
+                  <ViolationTrackingTab violations={violations} counts={violationCounts} onChange={loadViolations} />
+                )}
+
+                {activeTab === 'breaches' && (
+                  <BreachNotificationsTab breaches={breaches} />
                 )}
 
                 {activeTab === 'investigation' && (
@@ -428,35 +418,45 @@ function AuditOverviewTab({
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="flex items-center">
-                    <div className="w-full bg-white/10 rounded-full h-2 w-20 mr-2">
-                      <div
-                        className={`h-2 rounded-full ${
-                          controller.complianceScore >= 90 ? 'bg-emerald-500' :
-                          controller.complianceScore >= 70 ? 'bg-yellow-500' :
-                          'bg-red-500'
-                        }`}
-                        style={{ width: `${controller.complianceScore}%` }}
-                      />
+                  {controller.complianceScore === null ? (
+                    <span className="text-sm text-slate-400">Not evaluated</span>
+                  ) : (
+                    <div className="flex items-center">
+                      <div className="w-full bg-white/10 rounded-full h-2 w-20 mr-2">
+                        <div
+                          className={`h-2 rounded-full ${
+                            controller.complianceScore >= 90 ? 'bg-emerald-500' :
+                            controller.complianceScore >= 70 ? 'bg-yellow-500' :
+                            'bg-red-500'
+                          }`}
+                          style={{ width: `${controller.complianceScore}%` }}
+                        />
+                      </div>
+                      <span className="text-sm font-semibold text-white">{controller.complianceScore}%</span>
                     </div>
-                    <span className="text-sm font-semibold text-white">{controller.complianceScore}%</span>
-                  </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-100">
                   {controller.totalConsents.toLocaleString()}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-100">
-                  {new Date(controller.lastAudit).toLocaleDateString()}
+                  {controller.lastAudit ? new Date(controller.lastAudit).toLocaleDateString() : '—'}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                    controller.complianceScore >= 80 ? 'bg-emerald-500/20 text-emerald-300' : 
-                    controller.complianceScore >= 60 ? 'bg-yellow-500/20 text-yellow-300' :
-                    'bg-red-500/20 text-red-300'
-                  }`}>
-                    {controller.complianceScore >= 80 ? 'Compliant' : 
-                     controller.complianceScore >= 60 ? 'Under Review' : 'Non-Compliant'}
-                  </span>
+                  {controller.complianceScore === null ? (
+                    <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-white/10 text-slate-300">
+                      Pending
+                    </span>
+                  ) : (
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      controller.complianceScore >= 80 ? 'bg-emerald-500/20 text-emerald-300' :
+                      controller.complianceScore >= 60 ? 'bg-yellow-500/20 text-yellow-300' :
+                      'bg-red-500/20 text-red-300'
+                    }`}>
+                      {controller.complianceScore >= 80 ? 'Compliant' :
+                       controller.complianceScore >= 60 ? 'Under Review' : 'Non-Compliant'}
+                    </span>
+                  )}
                 </td>
               </tr>
             ))}
@@ -467,7 +467,28 @@ function AuditOverviewTab({
   )
 }
 
-function ViolationTrackingTab({ violations }: { violations: Violation[] }) {
+// Status moves a regulator can make from each status; resolving and sanctioning need a note
+const NEXT_STATUSES: Record<ViolationStatus, { status: ViolationStatus; label: string }[]> = {
+  open: [{ status: 'investigating', label: 'Start Investigation' }, { status: 'resolved', label: 'Resolve' }],
+  investigating: [{ status: 'resolved', label: 'Resolve' }, { status: 'sanctioned', label: 'Sanction' }],
+  resolved: [],
+  sanctioned: []
+}
+
+function ViolationTrackingTab({
+  violations,
+  counts,
+  onChange
+}: {
+  violations: Violation[]
+  counts: ViolationCounts | null
+  onChange: () => Promise<void>
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, Violation>>({})
+  const [note, setNote] = useState('')
+  const [busy, setBusy] = useState(false)
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'bg-red-500/20 text-red-300 border-red-500/30'
@@ -483,68 +504,414 @@ function ViolationTrackingTab({ violations }: { violations: Violation[] }) {
       case 'open': return 'bg-red-500/20 text-red-300'
       case 'investigating': return 'bg-yellow-500/20 text-yellow-300'
       case 'resolved': return 'bg-emerald-500/20 text-emerald-300'
+      case 'sanctioned': return 'bg-violet-500/20 text-violet-300'
       default: return 'bg-slate-500/20 text-slate-300'
     }
   }
 
+  const currentUserId = () => {
+    const userStr = localStorage.getItem('user')
+    return userStr ? JSON.parse(userStr).id as string : null
+  }
+
+  const loadDetail = async (violationId: string) => {
+    try {
+      const response = await api.get(`/compliance/violations/${violationId}`)
+      setDetails(prev => ({ ...prev, [violationId]: response.data }))
+    } catch (error) {
+      console.error('Failed to load violation:', error)
+    }
+  }
+
+  const toggle = async (violationId: string) => {
+    setNote('')
+    if (expanded === violationId) {
+      setExpanded(null)
+      return
+    }
+    setExpanded(violationId)
+    if (!details[violationId]) {
+      await loadDetail(violationId)
+    }
+  }
+
+  // Runs an action on the expanded violation, then reloads it and the list
+  const act = async (violationId: string, action: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await action()
+      setNote('')
+      await loadDetail(violationId)
+      await onChange()
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to update violation')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changeStatus = (violationId: string, status: ViolationStatus) => act(violationId, () =>
+    api.post(`/compliance/violations/${violationId}/status`, { status, comment: note.trim() || undefined })
+  )
+
+  const assignToMe = (violationId: string) => act(violationId, () =>
+    api.post(`/compliance/violations/${violationId}/assign`, { assigneeId: currentUserId() })
+  )
+
+  const addComment = (violationId: string) => act(violationId, () =>
+    api.post(`/compliance/violations/${violationId}/comments`, { body: note.trim() })
+  )
+
   return (
     <div>
       <div className="mb-6">
         <h2 className="text-xl font-bold text-white">GDPR Violation Tracking</h2>
-        <p className="text-sm text-slate-400 mt-1">Monitor and investigate potential compliance violations</p>
+        <p className="text-sm text-slate-400 mt-1">Violations raised by failed compliance rules or by regulators, with their evidence and investigation history</p>
       </div>
 
       {/* Violation Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className="border border-red-500/30 bg-red-500/10 rounded-xl p-4">
           <p className="text-sm text-red-300 font-medium mb-1">Critical Violations</p>
-          <p className="text-3xl font-bold text-red-200">
-            {violations.filter(v => v.severity === 'critical').length}
-          </p>
+          <p className="text-3xl font-bold text-red-200">{counts?.bySeverity.critical ?? 0}</p>
         </div>
         <div className="border border-yellow-500/30 bg-yellow-500/10 rounded-xl p-4">
           <p className="text-sm text-yellow-300 font-medium mb-1">Under Investigation</p>
-          <p className="text-3xl font-bold text-yellow-200">
-            {violations.filter(v => v.status === 'investigating').length}
-          </p>
+          <p className="text-3xl font-bold text-yellow-200">{counts?.byStatus.investigating ?? 0}</p>
         </div>
         <div className="border border-emerald-500/30 bg-emerald-500/10 rounded-xl p-4">
-          <p className="text-sm text-emerald-300 font-medium mb-1">Resolved This Month</p>
+          <p className="text-sm text-emerald-300 font-medium mb-1">Resolved or Sanctioned</p>
           <p className="text-3xl font-bold text-emerald-200">
-            {violations.filter(v => v.status === 'resolved').length}
+            {(counts?.byStatus.resolved ?? 0) + (counts?.byStatus.sanctioned ?? 0)}
           </p>
         </div>
       </div>
 
+      {violations.length === 0 && (
+        <div className="border border-white/10 bg-white/5 rounded-xl p-8 text-center text-slate-400">
+          No violations recorded
+        </div>
+      )}
+
       {/* Violations List */}
       <div className="space-y-4">
-        {violations.map((violation) => (
-          <div key={violation.id} className={`border-2 rounded-xl p-6 bg-white/5 ${getSeverityColor(violation.severity)}`}>
-            <div className="flex items-start justify-between mb-3">
-              <div className="flex-1">
-                <div className="flex items-center space-x-3 mb-2">
-                  <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase ${getSeverityColor(violation.severity)}`}>
-                    {violation.severity}
-                  </span>
-                  <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase ${getStatusColor(violation.status)}`}>
-                    {violation.status}
-                  </span>
+        {violations.map((violation) => {
+          const detail = details[violation.violationId]
+          const evidence = detail?.evidence || violation.evidence
+          return (
+            <div key={violation.violationId} className={`border-2 rounded-xl p-6 bg-white/5 ${getSeverityColor(violation.severity)}`}>
+              <div className="flex items-start justify-between mb-3">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase ${getSeverityColor(violation.severity)}`}>
+                      {violation.severity}
+                    </span>
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase ${getStatusColor(violation.status)}`}>
+                      {violation.status}
+                    </span>
+                    {violation.ruleId && (
+                      <span className="px-3 py-1 rounded-full text-xs font-semibold uppercase bg-slate-500/20 text-slate-300">
+                        Automated
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-1">
+                    GDPR {violation.article}: {violation.title}
+                  </h3>
+                  <p className="text-sm text-slate-300 mb-2">{violation.description}</p>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-400">
+                    <span><strong className="text-slate-300">Controller:</strong> {violation.controllerName || `${violation.controllerHash.slice(0, 12)}...`}</span>
+                    <span><strong className="text-slate-300">Detected:</strong> {new Date(violation.detectedAt).toLocaleDateString()}</span>
+                    {violation.lastDetectedAt > violation.detectedAt && (
+                      <span><strong className="text-slate-300">Last seen:</strong> {new Date(violation.lastDetectedAt).toLocaleDateString()}</span>
+                    )}
+                    <span>
+                      <strong className="text-slate-300">Assignee:</strong>{' '}
+                      {violation.assigneeId ? (violation.assigneeId === currentUserId() ? 'You' : violation.assigneeId) : 'Unassigned'}
+                    </span>
+                  </div>
                 </div>
-                <h3 className="text-lg font-semibold text-white mb-1">
-                  GDPR {violation.articleViolated} Violation
-                </h3>
-                <p className="text-sm text-slate-300 mb-2">{violation.description}</p>
-                <div className="flex items-center space-x-4 text-sm text-slate-400">
-                  <span><strong className="text-slate-300">Controller:</strong> {violation.controllerName}</span>
-                  <span><strong className="text-slate-300">Detected:</strong> {new Date(violation.detectedAt).toLocaleDateString()}</span>
+                <button
+                  onClick={() => toggle(violation.violationId)}
+                  className="bg-gradient-to-r from-violet-500 to-sky-500 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:from-violet-600 hover:to-sky-600 transition shadow-[0_8px_30px_rgba(90,97,255,0.35)]"
+                >
+                  {expanded === violation.violationId ? 'Hide' : 'Investigate'}
+                </button>
+              </div>
+
+              {expanded === violation.violationId && detail && (
+                <div className="mt-4 border-t border-white/10 pt-4 space-y-4 text-sm">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {evidence.consentIds && evidence.consentIds.length > 0 && (
+                      <div>
+                        <p className="text-slate-400 mb-1">Consents</p>
+                        <div className="flex flex-wrap gap-2">
+                          {evidence.consentIds.map(id => (
+                            <span key={id} className="px-2 py-1 rounded-lg font-mono text-xs bg-white/10 text-slate-300">{id.slice(0, 16)}...</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {evidence.auditLogIds && evidence.auditLogIds.length > 0 && (
+                      <div>
+                        <p className="text-slate-400 mb-1">Audit entries</p>
+                        <div className="flex flex-wrap gap-2">
+                          {evidence.auditLogIds.map(id => (
+                            <span key={id} className="px-2 py-1 rounded-lg font-mono text-xs bg-white/10 text-slate-300">#{id}</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {evidence.anchorHashes && evidence.anchorHashes.length > 0 && (
+                      <div>
+                        <p className="text-slate-400 mb-1">Anchors</p>
+                        <div className="flex flex-wrap gap-2">
+                          {evidence.anchorHashes.map(anchor => (
+                            <span key={anchor} className="px-2 py-1 rounded-lg font-mono text-xs bg-white/10 text-slate-300">{anchor.slice(0, 16)}...</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {evidence.recordIds && evidence.recordIds.length > 0 && (
+                      <div>
+                        <p className="text-slate-400 mb-1">Records</p>
+                        <div className="flex flex-wrap gap-2">
+                          {evidence.recordIds.map(id => (
+                            <span key={id} className="px-2 py-1 rounded-lg font-mono text-xs bg-white/10 text-slate-300">{id.slice(0, 16)}...</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <p className="text-slate-400 mb-2">History</p>
+                    {(detail.comments || []).length === 0 && (
+                      <p className="text-slate-500">No comments yet</p>
+                    )}
+                    <div className="space-y-2">
+                      {(detail.comments || []).map(comment => (
+                        <div key={comment.commentId} className="border border-white/10 bg-white/5 rounded-lg px-3 py-2">
+                          <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+                            <span>
+                              {comment.authorId === currentUserId() ? 'You' : comment.authorId}
+                              {comment.toStatus && ` · ${comment.fromStatus} → ${comment.toStatus}`}
+                            </span>
+                            <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                          </div>
+                          <p className="text-slate-200">{comment.body}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Comment or resolution note"
+                      rows={3}
+                      className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-slate-100 placeholder-slate-500 focus:border-violet-500/60 focus:outline-none"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => addComment(violation.violationId)}
+                        disabled={busy || !note.trim()}
+                        className="px-3 py-2 rounded-xl border border-white/10 bg-white/5 text-slate-200 font-semibold hover:bg-white/10 transition disabled:opacity-50"
+                      >
+                        Add Comment
+                      </button>
+                      {violation.assigneeId !== currentUserId() && (
+                        <button
+                          onClick={() => assignToMe(violation.violationId)}
+                          disabled={busy}
+                          className="px-3 py-2 rounded-xl border border-white/10 bg-white/5 text-slate-200 font-semibold hover:bg-white/10 transition disabled:opacity-50"
+                        >
+                          Assign to Me
+                        </button>
+                      )}
+                      {NEXT_STATUSES[violation.status].map(next => (
+                        <button
+                          key={next.status}
+                          onClick={() => changeStatus(violation.violationId, next.status)}
+                          disabled={busy || (next.status !== 'investigating' && !note.trim())}
+                          title={next.status !== 'investigating' ? 'Needs a note' : undefined}
+                          className="px-3 py-2 rounded-xl bg-gradient-to-r from-violet-500 to-sky-500 text-white font-semibold hover:from-violet-600 hover:to-sky-600 transition disabled:opacity-50"
+                        >
+                          {next.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function BreachNotificationsTab({ breaches }: { breaches: DataBreach[] }) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, DataBreach>>({})
+
+  const getRiskColor = (riskLevel: string) => {
+    switch (riskLevel) {
+      case 'high': return 'bg-red-500/20 text-red-300 border-red-500/30'
+      case 'risk': return 'bg-orange-500/20 text-orange-300 border-orange-500/30'
+      default: return 'bg-sky-500/20 text-sky-300 border-sky-500/30'
+    }
+  }
+
+  // Hours between discovery and notification, against the 72-hour limit
+  const formatNotificationDelay = (breach: DataBreach) => {
+    if (!breach.regulatorNotifiedAt) return 'Not notified'
+    const hours = Math.round((breach.regulatorNotifiedAt - breach.discoveredAt) / (60 * 60 * 1000))
+    return `${hours}h after discovery`
+  }
+
+  const toggle = async (breachId: string) => {
+    if (expanded === breachId) {
+      setExpanded(null)
+      return
+    }
+    setExpanded(breachId)
+    if (details[breachId]) return
+
+    try {
+      const response = await api.get(`/compliance/breaches/${breachId}/form`)
+      setDetails(prev => ({ ...prev, [breachId]: response.data.breach }))
+    } catch (error) {
+      console.error('Failed to load breach notification:', error)
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-white">Breach Notifications</h2>
+        <p className="text-sm text-slate-400 mt-1">Personal data breaches notified under GDPR Art. 33, with their anchored handling steps</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="border border-violet-500/30 bg-violet-500/10 rounded-xl p-4">
+          <p className="text-sm text-violet-300 font-medium mb-1">Notifications Received</p>
+          <p className="text-3xl font-bold text-violet-200">{breaches.length}</p>
+        </div>
+        <div className="border border-red-500/30 bg-red-500/10 rounded-xl p-4">
+          <p className="text-sm text-red-300 font-medium mb-1">Notified After 72 Hours</p>
+          <p className="text-3xl font-bold text-red-200">
+            {breaches.filter(b => b.deadlineMissed).length}
+          </p>
+        </div>
+        <div className="border border-orange-500/30 bg-orange-500/10 rounded-xl p-4">
+          <p className="text-sm text-orange-300 font-medium mb-1">High Risk to Data Subjects</p>
+          <p className="text-3xl font-bold text-orange-200">
+            {breaches.filter(b => b.riskLevel === 'high').length}
+          </p>
+        </div>
+      </div>
+
+      {breaches.length === 0 && (
+        <div className="border border-white/10 bg-white/5 rounded-xl p-8 text-center text-slate-400">
+          No breach notifications received
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {breaches.map((breach) => {
+          const detail = details[breach.breachId]
+          return (
+            <div key={breach.breachId} className="border border-white/10 bg-white/5 rounded-xl p-6">
+              <div className="flex items-start justify-between mb-3">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold uppercase border ${getRiskColor(breach.riskLevel)}`}>
+                      {breach.riskLevel === 'high' ? 'high risk' : breach.riskLevel}
+                    </span>
+                    <span className="px-3 py-1 rounded-full text-xs font-semibold uppercase bg-slate-500/20 text-slate-300">
+                      {breach.status.replace('_', ' ')}
+                    </span>
+                    {breach.deadlineMissed && (
+                      <span className="px-3 py-1 rounded-full text-xs font-semibold uppercase bg-red-500/20 text-red-300">
+                        Late
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="text-lg font-semibold text-white mb-1">{breach.title}</h3>
+                  <p className="text-sm text-slate-300 mb-2">{breach.description}</p>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-400">
+                    <span><strong className="text-slate-300">Controller:</strong> {breach.controllerHash.slice(0, 12)}...</span>
+                    <span><strong className="text-slate-300">Discovered:</strong> {new Date(breach.discoveredAt).toLocaleString()}</span>
+                    <span><strong className="text-slate-300">Notified:</strong> {formatNotificationDelay(breach)}</span>
+                    <span><strong className="text-slate-300">Subjects:</strong> ~{breach.approximateSubjectCount.toLocaleString()}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {breach.dataCategories.map(category => (
+                      <span key={category} className="px-2 py-1 rounded-lg text-xs bg-white/10 text-slate-300">{category}</span>
+                    ))}
+                  </div>
+                  {breach.delayReason && (
+                    <p className="text-sm text-red-300 mt-3">
+                      <strong>Reason for delay:</strong> {breach.delayReason}
+                    </p>
+                  )}
                 </div>
+                <button
+                  onClick={() => toggle(breach.breachId)}
+                  className="bg-gradient-to-r from-violet-500 to-sky-500 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:from-violet-600 hover:to-sky-600 transition shadow-[0_8px_30px_rgba(90,97,255,0.35)]"
+                >
+                  {expanded === breach.breachId ? 'Hide' : 'Details'}
+                </button>
               </div>
-              <button className="bg-gradient-to-r from-violet-500 to-sky-500 text-white px-4 py-2 rounded-xl text-sm font-semibold hover:from-violet-600 hover:to-sky-600 transition shadow-[0_8px_30px_rgba(90,97,255,0.35)]">
-                Investigate
-              </button>
+
+              {expanded === breach.breachId && detail && (
+                <div className="mt-4 border-t border-white/10 pt-4 space-y-4 text-sm">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-slate-400 mb-1">Likely consequences</p>
+                      <p className="text-slate-200">{detail.likelyConsequences}</p>
+                    </div>
+                    <div>
+                      <p className="text-slate-400 mb-1">Measures taken</p>
+                      <p className="text-slate-200">{detail.measuresTaken}</p>
+                    </div>
+                    <div>
+                      <p className="text-slate-400 mb-1">DPO contact</p>
+                      <p className="text-slate-200">{detail.dpoContact}</p>
+                    </div>
+                    <div>
+                      <p className="text-slate-400 mb-1">Data subjects notified</p>
+                      <p className="text-slate-200">
+                        {detail.subjectsNotifiedAt
+                          ? `${detail.subjectNoticeCount} notices on ${new Date(detail.subjectsNotifiedAt).toLocaleString()}`
+                          : detail.subjectNoticeExemption || 'No'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-slate-400 mb-2">Anchored steps</p>
+                    <div className="space-y-2">
+                      {(detail.steps || []).map(step => (
+                        <div key={`${step.step}-${step.occurredAt}`} className="flex items-center justify-between border border-white/10 bg-white/5 rounded-lg px-3 py-2">
+                          <div className="flex items-center space-x-2">
+                            <CheckCircleIcon className="h-4 w-4 text-emerald-400" />
+                            <span className="text-slate-200 capitalize">{step.step.replace('_', ' ')}</span>
+                            <span className="text-slate-500">{new Date(step.occurredAt).toLocaleString()}</span>
+                          </div>
+                          <span className="font-mono text-xs text-slate-400">{step.hgtpTxHash.slice(0, 16)}...</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
-          </div>
-        ))}
+          )
+        })}
       </div>
     </div>
   )
@@ -720,7 +1087,8 @@ function ComplianceCheckTab({
               { article: 'Article 17', title: 'Right to Erasure', compliant: compliance.gdprArticle17 },
               { article: 'Article 20', title: 'Data Portability', compliant: compliance.gdprArticle20 },
               { article: 'Article 25', title: 'Privacy by Design', compliant: compliance.gdprArticle25 },
-              { article: 'Article 30', title: 'Processing Records', compliant: compliance.gdprArticle30 }
+              { article: 'Article 30', title: 'Processing Records', compliant: compliance.gdprArticle30 },
+              { article: 'Article 35', title: 'Impact Assessments', compliant: compliance.gdprArticle35 ?? true }
             ].map((item) => (
               <div key={item.article} className="border border-white/10 bg-white/5 rounded-xl p-4">
                 <div className="flex items-center justify-between mb-2">
@@ -741,6 +1109,14 @@ function ComplianceCheckTab({
             ))}
           </div>
 
+          {/* Rule Results */}
+          {compliance.rules && compliance.rules.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-white mb-3">Rule Results</h3>
+              <ComplianceRuleList rules={compliance.rules} />
+            </div>
+          )}
+
           {/* Report Details */}
           {report && (
             <div className="border border-white/10 bg-white/5 rounded-xl p-6">
@@ -0,0 +1,58 @@
+'use client'
+
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon } from '@heroicons/react/24/outline'
+import { ComplianceRuleResult } from '@/lib/types'
+
+const STATUS_STYLES = {
+  pass: { icon: CheckCircleIcon, iconClass: 'text-emerald-400', badge: 'bg-emerald-500/20 text-emerald-300', label: 'Pass' },
+  warn: { icon: ExclamationTriangleIcon, iconClass: 'text-yellow-400', badge: 'bg-yellow-500/20 text-yellow-300', label: 'Warning' },
+  fail: { icon: XCircleIcon, iconClass: 'text-red-400', badge: 'bg-red-500/20 text-red-300', label: 'Fail' }
+}
+
+// Failed rules first, then warnings
+const STATUS_ORDER = { fail: 0, warn: 1, pass: 2 }
+
+export function ComplianceRuleList({ rules }: { rules: ComplianceRuleResult[] }) {
+  const sorted = [...rules].sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status])
+
+  return (
+    <div className="space-y-3">
+      {sorted.map((rule) => {
+        const style = STATUS_STYLES[rule.status]
+        const Icon = style.icon
+        const references = (rule.evidence.consentIds?.length || 0)
+          + (rule.evidence.recordIds?.length || 0)
+          + (rule.evidence.anchorHashes?.length || 0)
+
+        return (
+          <div key={rule.ruleId} className="border border-white/10 bg-white/5 rounded-xl p-4">
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-3">
+                <Icon className={`h-5 w-5 mt-0.5 ${style.iconClass}`} />
+                <div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-sm font-semibold text-slate-400">{rule.article}</span>
+                    <span className="font-semibold text-slate-100">{rule.title}</span>
+                  </div>
+                  <p className="text-sm text-slate-300">{rule.summary}</p>
+                  {rule.remediation && (
+                    <p className="text-sm text-slate-400 mt-2">
+                      <strong className="text-slate-300">Remediation:</strong> {rule.remediation}
+                    </p>
+                  )}
+                  {references > 0 && (
+                    <p className="text-xs text-slate-500 mt-2">{references} evidence references</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-col items-end space-y-1">
+                <span className={`px-2 py-1 rounded text-xs font-semibold ${style.badge}`}>{style.label}</span>
+                <span className="text-xs text-slate-500">weight {rule.weight}</span>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
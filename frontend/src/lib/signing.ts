@@ -0,0 +1,129 @@
+/**
+ * Consent signatures for the dashboard
+ * The user's Ed25519 key is generated in this browser and registered on first use; the
+ * messages must match the canonical payloads the backend verifies (see docs/API.md).
+ */
+
+import * as ed25519 from '@noble/ed25519'
+import { api } from './api'
+
+export interface SignedFields {
+  signature: string
+  signedAt: number
+  nonce: string
+}
+
+const storageKey = (userId: string) => `consentire:signingKey:${userId}`
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)))
+
+/**
+ * The user's private key, generated and registered with the backend if this browser has none
+ */
+async function getPrivateKey(userId: string): Promise<Uint8Array> {
+  const stored = window.localStorage.getItem(storageKey(userId))
+  if (stored) {
+    return fromHex(stored)
+  }
+
+  const privateKey = ed25519.utils.randomPrivateKey()
+  const publicKey = await ed25519.getPublicKeyAsync(privateKey)
+
+  try {
+    await api.put('/users/me/signing-key', { publicKey: toHex(publicKey) })
+  } catch (error: any) {
+    if (error.response?.status === 409) {
+      throw new Error('Your signing key is registered in another browser')
+    }
+    throw error
+  }
+
+  window.localStorage.setItem(storageKey(userId), toHex(privateKey))
+  return privateKey
+}
+
+/**
+ * Sign the message built for a fresh timestamp and nonce
+ */
+export async function signConsentMessage(
+  userId: string,
+  buildMessage: (signedAt: number, nonce: string) => string
+): Promise<SignedFields> {
+  const privateKey = await getPrivateKey(userId)
+  const signedAt = Date.now()
+  const nonce = crypto.randomUUID().replace(/-/g, '')
+  const signature = await ed25519.signAsync(new TextEncoder().encode(buildMessage(signedAt, nonce)), privateKey)
+
+  return { signature: toHex(signature), signedAt, nonce }
+}
+
+export function grantMessage(
+  userId: string,
+  controllerId: string,
+  purpose: string,
+  dataCategories: string[],
+  lawfulBasis: string,
+  expiresAt: number | undefined,
+  timestamp: number,
+  nonce: string
+): string {
+  return JSON.stringify({
+    action: 'grant_consent',
+    userId,
+    controllerId,
+    purpose,
+    dataCategories: [...dataCategories].sort(),
+    lawfulBasis,
+    expiresAt: expiresAt ?? null,
+    timestamp,
+    nonce
+  })
+}
+
+export function revocationMessage(
+  userId: string,
+  consentId: string,
+  dataCategories: string[] | undefined,
+  timestamp: number,
+  nonce: string
+): string {
+  return JSON.stringify({
+    action: 'revoke_consent',
+    userId,
+    consentId,
+    ...(dataCategories && dataCategories.length > 0 ? { dataCategories: [...dataCategories].sort() } : {}),
+    timestamp,
+    nonce
+  })
+}
+
+export function renewalMessage(
+  userId: string,
+  consentId: string,
+  dataCategories: string[],
+  expiresAt: number | undefined,
+  timestamp: number,
+  nonce: string
+): string {
+  return JSON.stringify({
+    action: 'renew_consent',
+    userId,
+    consentId,
+    dataCategories: [...dataCategories].sort(),
+    expiresAt: expiresAt ?? null,
+    timestamp,
+    nonce
+  })
+}
+
+export function confirmationMessage(userId: string, consentId: string, timestamp: number, nonce: string): string {
+  return JSON.stringify({
+    action: 'confirm_consent',
+    userId,
+    consentId,
+    timestamp,
+    nonce
+  })
+}
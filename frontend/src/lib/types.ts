@@ -11,7 +11,10 @@ export enum ConsentStatus {
   GRANTED = "granted",
   REVOKED = "revoked",
   EXPIRED = "expired",
-  PENDING = "pending"
+  PENDING = "pending",
+  SUPERSEDED = "superseded",
+  RESTRICTED = "restricted",
+  OBJECTED = "objected"
 }
 
 export interface ConsentState {
@@ -24,6 +27,7 @@ export interface ConsentState {
   hgtpTxHash: string;
   userId: string;
   anchoringTimestamp?: number;
+  dataCategories?: string[];
 }
 
 export interface ConsentGrantRequest {
@@ -34,6 +38,154 @@ export interface ConsentGrantRequest {
   lawfulBasis: LegalBasis;
   expiresAt?: number;
   signature: string;
+  signedAt: number;
+  nonce: string;
+  purposeId?: string;
+  guardianId?: string;
+}
+
+export interface RegisteredPurpose {
+  purposeId: string;
+  controllerHash: string;
+  name: string;
+  description: string;
+  version: number;
+  defaultDataCategories: string[];
+  defaultLawfulBasis: LegalBasis;
+  maxRetentionDays?: number;
+}
+
+export interface PendingConsentRequest {
+  consentId: string;
+  controllerHash: string;
+  controllerName?: string;
+  purpose: string;
+  dataCategories: string[];
+  lawfulBasis: LegalBasis;
+  expiresAt?: number;
+  requestedAt: number;
+  confirmBy: number;
+  confirmationUrl?: string;
+}
+
+export enum ApiKeyScope {
+  VERIFY = "verify",
+  GRANT = "grant",
+  ANALYTICS = "analytics"
+}
+
+export interface ControllerApiKey {
+  keyId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  key?: string;       // Only present right after creation or rotation
+}
+
+export interface ConsentReceiptRecord {
+  receiptId: string;
+  consentId: string;
+  action: 'grant' | 'revoke';
+  issuedAt: number;
+  keyId: string;
+  receipt: {
+    piiControllers: { piiController: string }[];
+    services: { purposes: { purpose: string; piiCategory: string[] }[] }[];
+    status: ConsentStatus;
+    withdrawnCategories?: string[];
+    anchor: { hgtpTxHash: string };
+  };
+  jws: string;
+}
+
+export type BreachStepType = 'logged' | 'regulator_notified' | 'subjects_notified' | 'closed';
+
+export interface BreachStep {
+  step: BreachStepType;
+  details: Record<string, unknown>;
+  contentHash: string;
+  hgtpTxHash: string;
+  anchoringTimestamp: number;
+  actor: string;
+  occurredAt: number;
+}
+
+export interface DataBreach {
+  breachId: string;
+  controllerHash: string;
+  title: string;
+  description: string;
+  dataCategories: string[];
+  approximateSubjectCount: number;
+  approximateRecordCount?: number;
+  affectedSubjectCount: number;
+  riskLevel: 'unlikely' | 'risk' | 'high';
+  likelyConsequences: string;
+  measuresTaken: string;
+  dpoContact: string;
+  status: 'open' | 'regulator_notified' | 'closed';
+  occurredAt?: number;
+  discoveredAt: number;
+  regulatorDeadline: number;
+  deadlineMissed: boolean;
+  regulatorNotifiedAt?: number;
+  supervisoryAuthority?: string;
+  delayReason?: string;
+  subjectsNotifiedAt?: number;
+  subjectNoticeCount: number;
+  subjectNoticeExemption?: string;
+  closedAt?: number;
+  closingSummary?: string;
+  steps?: BreachStep[];
+}
+
+export type ViolationSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type ViolationStatus = 'open' | 'investigating' | 'resolved' | 'sanctioned';
+
+export interface ViolationComment {
+  commentId: number;
+  authorId: string;
+  body: string;
+  fromStatus?: ViolationStatus;
+  toStatus?: ViolationStatus;
+  createdAt: number;
+}
+
+export interface Violation {
+  violationId: string;
+  controllerHash: string;
+  controllerName?: string;
+  article: string;
+  ruleId?: string;
+  title: string;
+  description: string;
+  severity: ViolationSeverity;
+  status: ViolationStatus;
+  evidence: {
+    consentIds?: string[];
+    auditLogIds?: number[];
+    anchorHashes?: string[];
+    recordIds?: string[];
+  };
+  evaluationId?: string;
+  assigneeId?: string;
+  createdBy?: string;
+  detectedAt: number;
+  lastDetectedAt: number;
+  updatedAt: number;
+  resolvedAt?: number;
+  comments?: ViolationComment[];
+}
+
+export interface ViolationCounts {
+  total: number;
+  byStatus: Record<ViolationStatus, number>;
+  bySeverity: Record<ViolationSeverity, number>;
 }
 
 export interface APIError {
@@ -42,11 +194,40 @@ export interface APIError {
   details?: unknown;
 }
 
+export type ComplianceRuleStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceEvidence {
+  metrics: Record<string, number | boolean>;
+  consentIds?: string[];
+  auditLogIds?: number[];
+  anchorHashes?: string[];
+  recordIds?: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface ComplianceRuleResult {
+  ruleId: string;
+  article: string;
+  title: string;
+  status: ComplianceRuleStatus;
+  weight: number;
+  summary: string;
+  remediation?: string;
+  evidence: ComplianceEvidence;
+}
+
+export interface ComplianceScoreHistoryEntry {
+  evaluationId: string;
+  score: number;
+  passed: number;
+  warned: number;
+  failed: number;
+  evaluatedAt: number;
+}
+
 export interface ComplianceStatus {
   controllerHash: string;
-  score: number;
   lastAudit: number;
-  violations: string[];
   overallCompliance: number;
   gdprArticle7: boolean;
   gdprArticle12: boolean;
@@ -55,4 +236,7 @@ export interface ComplianceStatus {
   gdprArticle20: boolean;
   gdprArticle25: boolean;
   gdprArticle30: boolean;
+  gdprArticle35?: boolean;
+  evaluationId?: string;
+  rules?: ComplianceRuleResult[];
 }
@@ -14,7 +14,25 @@ export enum ConsentStatus {
   GRANTED = "granted",
   REVOKED = "revoked",
   EXPIRED = "expired",
-  PENDING = "pending"
+  PENDING = "pending",
+  SUPERSEDED = "superseded",
+  RESTRICTED = "restricted",   // Processing restricted at the data subject's request (GDPR Art. 18)
+  OBJECTED = "objected"        // The data subject objected to processing (GDPR Art. 21)
+}
+
+export enum ConsentEventType {
+  REQUESTED = "requested",   // Double opt-in request awaiting the user's confirmation
+  GRANTED = "granted",
+  RENEWED = "renewed",
+  REVOKED = "revoked",
+  EXPIRED = "expired",
+  AMENDED = "amended",
+  CONVERTED = "converted",   // Guardian consent became the data subject's own at the digital age of consent
+  RESTRICTED = "restricted",
+  RESTRICTION_LIFTED = "restriction_lifted",
+  OBJECTED = "objected",
+  OBJECTION_RESOLVED = "objection_resolved",
+  ERASED = "erased"          // The data subject was erased; their identifier is now a tombstone
 }
 
 export enum VoteChoice {
@@ -40,6 +58,7 @@ export interface ConsentRecord {
   grantedAt: number;          // Unix timestamp
   expiresAt?: number;         // Optional expiration
   lastAccessed: number;       // For audit
+  supersedes?: string;        // consentId this consent renewed
   
   // Zero-Knowledge Proof
   zkProof: ZKProof;          // SNARK proof of consent validity
@@ -104,7 +123,11 @@ export interface ConsentGrantRequest {
   dataCategories: string[];
   lawfulBasis: LegalBasis;
   expiresAt?: number;
-  signature: string;         // User's cryptographic signature
+  signature: string;         // User's signature over the canonical grant payload
+  signedAt: number;          // Timestamp included in the signed payload
+  nonce: string;             // Random nonce included in the signed payload
+  purposeId?: string;        // Registered purpose; `purpose` must then be its name
+  guardianId?: string;       // Minors only: the guardian whose signature is in `signature`
 }
 
 /**
@@ -116,6 +139,88 @@ export interface ConsentGrantResponse {
   status: ConsentStatus;
   expiresAt?: number;
   grantedAt: number;
+  receiptId?: string;        // Signed consent receipt issued for this grant
+}
+
+/**
+ * Request to renew (re-consent) an existing consent
+ * Creates a successor consent that supersedes the original
+ */
+export interface ConsentRenewRequest {
+  expiresAt?: number;
+  dataCategories?: string[]; // Defaults to the superseded consent's categories
+  signature: string;         // User's signature over the canonical renew payload
+  signedAt: number;
+  nonce: string;
+  guardianId?: string;       // Minors only: the guardian whose signature is in `signature`
+}
+
+/**
+ * Response from consent renewal
+ */
+export interface ConsentRenewResponse extends ConsentGrantResponse {
+  supersedes: string;        // consentId of the superseded consent
+  supersededTxHash: string;  // Anchor of the superseded consent's closure
+}
+
+/**
+ * Controller-initiated consent request (double opt-in).
+ * The consent stays pending until the user confirms it.
+ */
+export interface ConsentRequestCreate {
+  userId: string;
+  controllerId?: string;     // Admins only; controllers always request for their own organization
+  purpose: string;
+  dataCategories: string[];
+  lawfulBasis: LegalBasis;
+  expiresAt?: number;
+  purposeId?: string;
+}
+
+/**
+ * Response from a consent request
+ */
+export interface ConsentRequestResponse {
+  consentId: string;
+  status: ConsentStatus;     // Always pending
+  requestedAt: number;
+  confirmBy: number;         // Unconfirmed requests expire after this
+}
+
+/**
+ * Pending consent request as shown to the user
+ */
+export interface PendingConsentRequest {
+  consentId: string;
+  controllerHash: string;
+  controllerName?: string;
+  purpose: string;
+  dataCategories: string[];
+  lawfulBasis: LegalBasis;
+  expiresAt?: number;
+  requestedAt: number;
+  confirmBy: number;
+  confirmationUrl?: string;  // Signed link for confirming without logging in; only issued to the user
+}
+
+/**
+ * User confirmation of a pending consent from the dashboard
+ */
+export interface ConsentConfirmRequest {
+  signature: string;         // User's signature over the canonical confirm payload
+  signedAt: number;
+  nonce: string;
+  guardianId?: string;       // Minors only: the guardian whose signature is in `signature`
+}
+
+export type ConsentConfirmationMethod = 'dashboard' | 'link';
+
+/**
+ * Response from confirming a pending consent
+ */
+export interface ConsentConfirmResponse extends ConsentGrantResponse {
+  confirmedVia: ConsentConfirmationMethod;
+  requestedAt: number;
 }
 
 /**
@@ -125,6 +230,8 @@ export interface ConsentVerifyRequest {
   userId: string;
   controllerId: string;
   purpose: string;
+  validAt?: number;          // Evaluate validity at this point in time instead of now
+  dataCategory?: string;     // Only valid if the consent covers this data category
 }
 
 /**
@@ -136,16 +243,26 @@ export interface ConsentVerifyResponse {
   zkProof?: ZKProof;
   merkleProof?: MerkleProof;
   status?: ConsentStatus;
+  validAt?: number;
+  evidence?: ConsentEvent;   // Event establishing the status at validAt
+  givenBy?: ConsentGiver;
+  convertedAt?: number;      // When a guardian's consent became the data subject's own
   error?: string;
 }
 
+export type ConsentGiver = 'data_subject' | 'guardian';
+
 /**
  * Request to revoke consent
  */
 export interface ConsentRevokeRequest {
   consentId: string;
   userId: string;
-  signature: string;
+  signature: string;         // User's signature over the canonical revoke payload
+  signedAt: number;
+  nonce: string;
+  dataCategories?: string[]; // Withdraw only these categories (partial revocation)
+  guardianId?: string;       // A guardian withdrawing for a minor; `signature` is then theirs
 }
 
 /**
@@ -156,6 +273,357 @@ export interface ConsentRevokeResponse {
   status: ConsentStatus;
   revokedAt: number;
   hgtpTxHash: string;
+  withdrawnCategories?: string[];   // Set on partial revocation
+  remainingCategories?: string[];
+  receiptId?: string;        // Signed consent receipt issued for this revocation
+}
+
+/**
+ * Consent receipt modelled on the Kantara Consent Receipt v1.1 / ISO/IEC 29184 fields,
+ * extended with the consent's anchor reference and ZK proof hash
+ */
+export interface ConsentReceipt {
+  version: string;
+  jurisdiction: string;
+  consentTimestamp: number;         // Seconds since epoch
+  collectionMethod: string;
+  consentReceiptID: string;
+  publicKey: string;                // Platform key that signed the receipt (hex ed25519)
+  language: string;
+  piiPrincipalId: string;
+  piiControllers: {
+    piiController: string;
+    piiControllerId: string;
+    controllerHash: string;
+    contact?: string;
+    email?: string;
+    piiControllerUrl?: string;
+    onBehalf: boolean;
+  }[];
+  policyUrl?: string;
+  services: {
+    service: string;
+    purposes: {
+      purpose: string;
+      purposeHash: string;
+      consentType: 'EXPLICIT';
+      piiCategory: string[];
+      primaryPurpose: boolean;
+      termination: string;
+      thirdPartyDisclosure: boolean;
+    }[];
+  }[];
+  sensitive: boolean;
+  spiCat: string[];
+  consentId: string;
+  action: ConsentReceiptAction;
+  status: ConsentStatus;
+  lawfulBasis: LegalBasis;
+  withdrawnCategories?: string[];
+  anchor: {
+    hgtpTxHash: string;
+    anchoringTimestamp?: number;
+    merkleRoot?: string;
+    blockHeight?: number;
+  };
+  zkProofHash?: string;
+}
+
+export type ConsentReceiptAction = 'grant' | 'revoke';
+
+/**
+ * Stored consent receipt with its compact JWS (EdDSA, signed by the platform key)
+ */
+export interface ConsentReceiptRecord {
+  receiptId: string;
+  consentId: string;
+  action: ConsentReceiptAction;
+  issuedAt: number;
+  keyId: string;
+  receipt: ConsentReceipt;
+  jws: string;
+}
+
+/**
+ * Single operation in a consent batch
+ */
+export type ConsentBatchOperation =
+  | ({ type: 'grant' } & ConsentGrantRequest)
+  | ({ type: 'revoke' } & ConsentRevokeRequest)
+  | ({ type: 'verify' } & ConsentVerifyRequest);
+
+/**
+ * Request to apply mixed grant/revoke/verify operations in one call
+ */
+export interface ConsentBatchRequest {
+  operations: ConsentBatchOperation[];
+}
+
+/**
+ * Outcome of one batch operation, in request order
+ */
+export interface ConsentBatchItemResult {
+  index: number;
+  type: ConsentBatchOperation['type'];
+  success: boolean;
+  result?: ConsentGrantResponse | ConsentRevokeResponse | ConsentVerifyResponse;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * Response from a consent batch
+ * All grants and revokes of a batch share one aggregated anchor
+ */
+export interface ConsentBatchResponse {
+  batchId: string;
+  hgtpTxHash?: string;       // Set when the batch contained anchored changes
+  batchRoot?: string;        // Merkle root over the anchored changes
+  succeeded: number;
+  failed: number;
+  results: ConsentBatchItemResult[];
+}
+
+/**
+ * Append-only consent lifecycle event with its own anchor result
+ */
+export interface ConsentEvent {
+  eventId: number;
+  consentId: string;
+  eventType: ConsentEventType;
+  status: ConsentStatus;      // Status after the event
+  dataCategories: string[];
+  expiresAt?: number;
+  details: Record<string, unknown>;
+  hgtpTxHash?: string;
+  anchoringTimestamp?: number;
+  merkleRoot?: string;
+  blockHeight?: number;
+  occurredAt: number;
+}
+
+/**
+ * Consent history response
+ */
+export interface ConsentHistoryResponse {
+  consentId: string;
+  status: ConsentStatus;
+  events: ConsentEvent[];
+}
+
+export enum ConsentAnchorStatus {
+  ANCHORED = "anchored",
+  FAILED = "failed",           // Anchoring failed and a placeholder hash was recorded
+  UNANCHORED = "unanchored"    // Nothing anchored yet (e.g. pending requests)
+}
+
+export type ConsentSortField = 'grantedAt' | 'expiresAt' | 'updatedAt';
+
+/**
+ * Filters, sorting and cursor for GET /consent
+ */
+export interface ConsentQuery {
+  userId?: string;
+  controllerId?: string;       // Controller hash
+  status?: ConsentStatus;
+  lawfulBasis?: LegalBasis;
+  dataCategory?: string;
+  grantedFrom?: number;
+  grantedTo?: number;
+  expiresFrom?: number;
+  expiresTo?: number;
+  anchorStatus?: ConsentAnchorStatus;
+  cursor?: string;             // nextCursor of the previous page
+  limit: number;
+  sortBy: ConsentSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * A consent as listed by GET /consent
+ */
+export interface ConsentSummary {
+  consentId: string;
+  userId: string;
+  controllerHash: string;
+  purposeHash: string;
+  purposeName?: string;
+  status: ConsentStatus;
+  lawfulBasis: LegalBasis;
+  dataCategories: string[];
+  grantedAt: number;
+  expiresAt?: number;
+  updatedAt?: number;
+  hgtpTxHash?: string;
+  anchorStatus: ConsentAnchorStatus;
+  givenBy: ConsentGiver;
+}
+
+/**
+ * One page of GET /consent
+ */
+export interface ConsentQueryResponse {
+  consents: ConsentSummary[];
+  nextCursor?: string;         // Absent on the last page
+  limit: number;
+}
+
+export enum ProcessingRightType {
+  RESTRICTION = "restriction", // GDPR Art. 18
+  OBJECTION = "objection"      // GDPR Art. 21
+}
+
+export enum ProcessingRightStatus {
+  OPEN = "open",
+  LIFTED = "lifted",           // Restriction ended; processing may resume
+  UPHELD = "upheld",           // Objection accepted; processing ends for good
+  REJECTED = "rejected",       // Objection overridden by compelling legitimate grounds
+  WITHDRAWN = "withdrawn"      // The data subject revoked the consent while the request was open
+}
+
+export enum RestrictionGround {
+  ACCURACY_CONTESTED = "accuracy_contested",   // Art. 18(1)(a)
+  UNLAWFUL_PROCESSING = "unlawful_processing", // Art. 18(1)(b)
+  LEGAL_CLAIMS = "legal_claims",               // Art. 18(1)(c)
+  OBJECTION_PENDING = "objection_pending"      // Art. 18(1)(d)
+}
+
+/**
+ * A data subject's restriction or objection on a consent, and the controller's decision
+ */
+export interface ProcessingRightsRequest {
+  requestId: string;
+  consentId: string;
+  userId: string;
+  controllerHash: string;
+  type: ProcessingRightType;
+  status: ProcessingRightStatus;
+  ground?: RestrictionGround;  // Restrictions only
+  reason: string;
+  resolutionNote?: string;
+  raisedAt: number;
+  raisedTxHash?: string;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  resolvedTxHash?: string;
+}
+
+/**
+ * Request to restrict processing of a consent (GDPR Art. 18)
+ */
+export interface RestrictionRequest {
+  ground: RestrictionGround;
+  reason: string;
+  signature: string;         // User's signature over the canonical restrict payload
+  signedAt: number;
+  nonce: string;
+  guardianId?: string;       // A guardian acting for a minor; `signature` is then theirs
+}
+
+/**
+ * Request to object to processing of a consent (GDPR Art. 21)
+ */
+export interface ObjectionRequest {
+  reason: string;
+  signature: string;         // User's signature over the canonical object payload
+  signedAt: number;
+  nonce: string;
+  guardianId?: string;       // A guardian acting for a minor; `signature` is then theirs
+}
+
+/**
+ * Controller decision on an open restriction (lifted) or objection (upheld or rejected)
+ */
+export interface ProcessingRightsResolution {
+  decision: ProcessingRightStatus.LIFTED | ProcessingRightStatus.UPHELD | ProcessingRightStatus.REJECTED;
+  note: string;
+}
+
+export type DataExportFormat = 'zip' | 'json';
+
+/**
+ * A consent as held for the data subject, with its anchor references and proofs
+ */
+export interface ExportedConsent {
+  consentId: string;
+  controllerHash: string;
+  controllerName?: string;
+  purposeHash: string;
+  purpose?: string;            // Name from the purpose registry, when the consent links to it
+  purposeVersion?: number;
+  lawfulBasis: LegalBasis;
+  status: ConsentStatus;
+  dataCategories: string[];
+  grantedAt: number;
+  expiresAt?: number;
+  supersedes?: string;
+  supersededBy?: string;
+  guardianId?: string;
+  convertedAt?: number;
+  hgtpTxHash?: string;
+  anchoringTimestamp?: number;
+  merkleRoot?: string;
+  zkProof?: ZKProof;
+  merkleProof?: MerkleProof;
+}
+
+/**
+ * Audit trail entry about the data subject
+ */
+export interface ExportedAuditEntry {
+  id: number;
+  action: string;
+  consentId?: string;
+  controllerHash?: string;
+  details: Record<string, unknown>;
+  hgtpTxHash?: string;
+  timestamp: number;
+}
+
+/**
+ * Everything held about a data subject (GDPR Art. 15 access / Art. 20 portability)
+ */
+export interface DataSubjectExport {
+  exportId: string;
+  exportedAt: number;
+  userId: string;
+  profile: {
+    did: string;
+    email?: string;
+    publicKey: string;
+    walletAddress?: string;
+    createdAt: number;
+  };
+  guardianship: GuardianshipOverview;
+  consents: ExportedConsent[];
+  events: ConsentEvent[];              // Full history of every consent, oldest first
+  receipts: ConsentReceiptRecord[];
+  processingRights: ProcessingRightsRequest[];
+  auditLog: ExportedAuditEntry[];
+}
+
+/**
+ * Anchored record of a data subject's erasure (GDPR Art. 17). The original user ID is not kept;
+ * the tombstone replaces it in every retained record, so anchored evidence still verifies.
+ */
+export interface ErasureRecord {
+  erasureId: string;
+  tombstoneId: string;
+  consentCount: number;
+  revokedConsentIds: string[];   // Consents that were still live and were revoked by the erasure
+  contentHash: string;
+  hgtpTxHash: string;
+  anchoringTimestamp: number;
+  erasedAt: number;
+}
+
+/**
+ * Request to erase the authenticated user; confirm guards against accidental calls
+ */
+export interface ErasureRequest {
+  confirm: true;
 }
 
 /**
@@ -252,8 +720,910 @@ export interface ControllerRegistrationResponse {
   registeredAt: number;
 }
 
+export enum GuardianRelationship {
+  PARENT = "parent",
+  LEGAL_GUARDIAN = "legal_guardian"
+}
+
+export enum GuardianshipStatus {
+  PENDING = "pending",       // Declared, awaiting verification by an administrator
+  ACTIVE = "active",
+  ENDED = "ended"
+}
+
+/**
+ * Link between a guardian and a minor for GDPR Art. 8 parental consent
+ */
+export interface Guardianship {
+  guardianshipId: string;
+  guardianId: string;
+  minorId: string;
+  relationship: GuardianRelationship;
+  status: GuardianshipStatus;
+  createdAt: number;
+  verifiedAt?: number;
+  endedAt?: number;
+}
+
+/**
+ * Request to declare a guardianship (admins may also set guardianId)
+ */
+export interface GuardianshipRequest {
+  minorId: string;
+  relationship: GuardianRelationship;
+  guardianId?: string;
+}
+
+/**
+ * Request to record a user's date of birth and member state
+ */
+export interface AgeProfileRequest {
+  dateOfBirth: string;        // YYYY-MM-DD
+  memberState: string;        // ISO 3166-1 alpha-2
+}
+
+/**
+ * A user's position relative to the digital age of consent of their member state
+ */
+export interface AgeProfile {
+  dateOfBirth?: string;
+  memberState?: string;
+  digitalConsentAge: number;
+  isMinor: boolean;
+  reachesDigitalConsentAgeAt?: number;
+}
+
+/**
+ * A user's age profile with the guardianships they are part of
+ */
+export interface GuardianshipOverview {
+  ageProfile: AgeProfile;
+  guardians: Guardianship[];  // Guardians of this user
+  wards: Guardianship[];      // Minors this user is guardian of
+}
+
+export enum PurposeStatus {
+  ACTIVE = "active",
+  RETIRED = "retired"
+}
+
+/**
+ * Versioned settings of a registered purpose
+ */
+export interface PurposeVersion {
+  version: number;
+  description: string;
+  defaultDataCategories: string[];
+  defaultLawfulBasis: LegalBasis;
+  maxRetentionDays?: number;   // Consents for this purpose may not outlive this
+  largeScaleProfiling?: boolean; // Processing profiles data subjects at scale; needs an approved DPIA
+  createdAt: number;           // When this version was published
+}
+
+/**
+ * Named processing purpose registered by a controller
+ * The name is fixed, so purposeHash stays stable across versions
+ */
+export interface Purpose extends PurposeVersion {
+  purposeId: string;
+  controllerHash: string;
+  name: string;
+  purposeHash: string;         // SHA-256 of name, matches consents.purpose_hash
+  status: PurposeStatus;
+  registeredAt: number;
+  retiredAt?: number;
+  versions?: PurposeVersion[];
+}
+
+/**
+ * Request to register a purpose
+ */
+export interface PurposeRegistrationRequest {
+  name: string;
+  description: string;
+  defaultDataCategories: string[];
+  defaultLawfulBasis: LegalBasis;
+  maxRetentionDays?: number;
+  largeScaleProfiling?: boolean;
+  controllerHash?: string;     // Admins only; controllers always register for their own organization
+}
+
+/**
+ * Request to publish a new version of a purpose
+ */
+export interface PurposeUpdateRequest {
+  description?: string;
+  defaultDataCategories?: string[];
+  defaultLawfulBasis?: LegalBasis;
+  maxRetentionDays?: number | null;
+  largeScaleProfiling?: boolean;
+}
+
+export enum LiaStatus {
+  ACTIVE = "active",
+  WITHDRAWN = "withdrawn"
+}
+
+/**
+ * LIA purpose test: is there a legitimate interest behind the processing?
+ */
+export interface LiaPurposeTest {
+  interest: string;            // The interest pursued
+  beneficiaries: string;       // Who benefits, and how
+  passed: boolean;
+}
+
+/**
+ * LIA necessity test: is the processing necessary for that interest?
+ */
+export interface LiaNecessityTest {
+  necessity: string;           // Why the processing is needed
+  alternatives: string;        // Less intrusive alternatives considered
+  passed: boolean;
+}
+
+/**
+ * LIA balancing test: do the data subjects' interests override the legitimate interest?
+ */
+export interface LiaBalancingTest {
+  reasonableExpectations: string;
+  impact: string;              // Likely impact on data subjects
+  vulnerableSubjects: boolean; // Children or other vulnerable people are affected
+  passed: boolean;
+}
+
+/**
+ * One anchored version of a Legitimate Interests Assessment
+ */
+export interface LiaVersion {
+  version: number;
+  purposeTest: LiaPurposeTest;
+  necessityTest: LiaNecessityTest;
+  balancingTest: LiaBalancingTest;
+  safeguards: string[];
+  passed: boolean;             // All three tests passed
+  reviewDueAt?: number;
+  contentHash: string;         // SHA-256 of the assessment, the value anchored
+  hgtpTxHash?: string;
+  anchoringTimestamp?: number;
+  createdBy?: string;
+  createdAt: number;
+}
+
+/**
+ * Legitimate Interests Assessment backing LEGITIMATE_INTERESTS processing for one purpose
+ */
+export interface LegitimateInterestAssessment extends LiaVersion {
+  liaId: string;
+  controllerHash: string;
+  purpose: string;
+  purposeHash: string;         // Matches consents.purpose_hash
+  status: LiaStatus;
+  current: boolean;            // Active, passed and not past its review date
+  registeredAt: number;
+  withdrawnAt?: number;
+  versions?: LiaVersion[];
+}
+
+/**
+ * Request to record an LIA, or a new version of one (purpose and controllerHash are ignored on update)
+ */
+export interface LiaRequest {
+  purpose: string;
+  purposeTest: LiaPurposeTest;
+  necessityTest: LiaNecessityTest;
+  balancingTest: LiaBalancingTest;
+  safeguards: string[];
+  reviewDueAt?: number;
+  controllerHash?: string;     // Admins only; controllers always record for their own organization
+}
+
+export enum RetentionTarget {
+  CONSENTS = "consents",       // Closed consents with their history, receipts and audit entries
+  AUDIT_LOGS = "audit_logs"    // The controller's audit entries
+}
+
+export enum RetentionRuleStatus {
+  ACTIVE = "active",
+  RETIRED = "retired"
+}
+
+/**
+ * Storage limitation rule (GDPR Art. 5(1)(e)): delete records a number of days after they closed.
+ * Consent rules can be narrowed to a purpose and/or a data category.
+ */
+export interface RetentionRule {
+  ruleId: string;
+  controllerHash: string;
+  target: RetentionTarget;
+  purpose?: string;
+  purposeHash?: string;
+  dataCategory?: string;
+  statuses: ConsentStatus[];   // Consent statuses the rule deletes (revoked, expired, superseded)
+  retentionDays: number;       // Counted from the last status change (consents) or the entry time (audit logs)
+  status: RetentionRuleStatus;
+  createdBy?: string;
+  createdAt: number;
+  retiredAt?: number;
+}
+
+/**
+ * Request to create a retention rule
+ */
+export interface RetentionRuleRequest {
+  target: RetentionTarget;
+  purpose?: string;
+  dataCategory?: string;
+  statuses?: ConsentStatus[];  // Defaults to revoked, expired and superseded
+  retentionDays: number;
+  controllerHash?: string;     // Admins only; controllers always create rules for their own organization
+}
+
+/**
+ * Proof of one retention run: what was deleted, as counts and record hashes, anchored on-chain
+ */
+export interface DeletionCertificate {
+  certificateId: string;
+  ruleId: string;
+  controllerHash: string;
+  target: RetentionTarget;
+  counts: {
+    consents: number;
+    consentEvents: number;
+    receipts: number;
+    processingRights: number;
+    auditLogs: number;
+  };
+  recordHashes: string[];      // Consent IDs, or SHA-256 of each deleted audit entry
+  merkleRoot: string;
+  contentHash: string;
+  hgtpTxHash: string;
+  anchoringTimestamp: number;
+  deletedAt: number;
+}
+
+/**
+ * Transfer of personal data to a third country or international organization (Art. 30(1)(e))
+ */
+export interface InternationalTransfer {
+  destination: string;         // Country or international organization
+  safeguard: string;           // e.g. adequacy decision, standard contractual clauses
+}
+
+/**
+ * One processing activity in a Record of Processing Activities (GDPR Art. 30(1))
+ */
+export interface ProcessingActivity {
+  name: string;
+  purpose: string;
+  purposeHash: string;         // SHA-256 of purpose, matches consents.purpose_hash
+  lawfulBasis: LegalBasis;
+  dataSubjectCategories: string[];
+  dataCategories: string[];
+  recipients: string[];
+  internationalTransfers: InternationalTransfer[];
+  retention: string;           // Time limits for erasure, in words
+  securityMeasures: string[];
+}
+
+/**
+ * Controller details at the head of the record (Art. 30(1)(a))
+ */
+export interface RopaControllerDetails {
+  name: string;
+  contact?: string;
+  representative?: string;
+  dataProtectionOfficer?: string;
+}
+
+/**
+ * Record of Processing Activities. Version 0 is a draft generated from the controller's
+ * purposes, consents and retention rules that has not been saved yet.
+ */
+export interface RecordOfProcessingActivities {
+  controllerHash: string;
+  version: number;
+  controller: RopaControllerDetails;
+  activities: ProcessingActivity[];
+  contentHash?: string;        // SHA-256 of controller and activities, set on saved versions
+  createdBy?: string;
+  createdAt: number;
+}
+
+/**
+ * Request to save a new ROPA version
+ */
+export interface RopaRequest {
+  controller: RopaControllerDetails;
+  activities: (Omit<ProcessingActivity, 'purposeHash'> & { purposeHash?: string })[]; // purposeHash defaults to the hash of purpose
+  controllerHash?: string;     // Admins only; controllers always edit their own record
+}
+
+export type RopaExportFormat = 'json' | 'csv' | 'html';
+
+export enum DpiaStatus {
+  DRAFT = "draft",
+  SUBMITTED = "submitted",     // Awaiting DPO sign-off
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  WITHDRAWN = "withdrawn"
+}
+
+export enum RiskLevel {
+  LOW = "low",                 // Score 1-4
+  MEDIUM = "medium",           // Score 5-12
+  HIGH = "high"                // Score 13-25
+}
+
+export enum MitigationStatus {
+  PLANNED = "planned",
+  IN_PROGRESS = "in_progress",
+  IMPLEMENTED = "implemented"
+}
+
+/**
+ * Structured DPIA questionnaire (GDPR Art. 35(7) and the high-risk criteria of Art. 35(3))
+ */
+export interface DpiaQuestionnaire {
+  processingDescription: string;          // Nature, scope, context and purposes
+  necessityAndProportionality: string;
+  dataSubjectViews?: string;              // Views of data subjects sought (Art. 35(9))
+  specialCategoryData: boolean;           // Art. 9 / Art. 10 data
+  largeScaleProfiling: boolean;
+  systematicMonitoring: boolean;
+  automatedDecisionMaking: boolean;       // Decisions with legal or similar effects
+  vulnerableDataSubjects: boolean;
+  innovativeTechnology: boolean;
+}
+
+export interface DpiaMitigation {
+  measure: string;
+  status: MitigationStatus;
+  owner?: string;
+  dueAt?: number;
+}
+
+/**
+ * Risk register entry. Likelihood and severity are scored 1-5; score is their product.
+ * Residual values are the expected risk once the mitigations are in place.
+ */
+export interface DpiaRisk {
+  riskId: string;              // Stable across versions
+  description: string;
+  likelihood: number;
+  severity: number;
+  score: number;
+  level: RiskLevel;
+  mitigations: DpiaMitigation[];
+  residualLikelihood?: number;
+  residualSeverity?: number;
+  residualScore?: number;
+  residualLevel?: RiskLevel;
+}
+
+export interface DpiaRiskInput {
+  riskId?: string;             // Omit for new risks
+  description: string;
+  likelihood: number;
+  severity: number;
+  mitigations: DpiaMitigation[];
+  residualLikelihood?: number;
+  residualSeverity?: number;
+}
+
+/**
+ * DPO decision on a submitted version. Approvals are anchored with the final hash.
+ */
+export interface DpiaSignOff {
+  decision: DpiaStatus.APPROVED | DpiaStatus.REJECTED;
+  dpoName: string;
+  opinion: string;
+  signedOffBy: string;
+  signedOffAt: number;
+  finalHash: string;           // SHA-256 of the version's contentHash and the sign-off
+  hgtpTxHash?: string;
+  anchoringTimestamp?: number;
+}
+
+export interface DpiaVersion {
+  version: number;
+  questionnaire: DpiaQuestionnaire;
+  risks: DpiaRisk[];
+  contentHash: string;
+  highestResidualLevel?: RiskLevel;
+  priorConsultationRequired: boolean; // A high residual risk remains (Art. 36)
+  createdBy?: string;
+  createdAt: number;
+  submittedBy?: string;
+  submittedAt?: number;
+  signOff?: DpiaSignOff;
+}
+
+/**
+ * Data Protection Impact Assessment (GDPR Art. 35) of a controller's purpose, at its current version
+ */
+export interface DataProtectionImpactAssessment extends DpiaVersion {
+  dpiaId: string;
+  controllerHash: string;
+  purpose: string;
+  purposeHash: string;
+  status: DpiaStatus;
+  registeredAt: number;
+  withdrawnAt?: number;
+  versions?: DpiaVersion[];
+}
+
+/**
+ * Request to start a DPIA for a purpose (version 1, draft)
+ */
+export interface DpiaRequest {
+  purpose: string;
+  questionnaire: DpiaQuestionnaire;
+  risks: DpiaRiskInput[];
+  controllerHash?: string;     // Admins only; controllers always assess their own purposes
+}
+
+export interface DpiaSignOffRequest {
+  decision: DpiaStatus.APPROVED | DpiaStatus.REJECTED;
+  dpoName: string;
+  opinion: string;
+}
+
+/**
+ * Designation of a controller's Data Protection Officer (GDPR Art. 37), made by an administrator
+ */
+export interface DpoDesignationRequest {
+  controllerHash: string;
+  userId: string;              // A controller account of the same organization
+}
+
+/**
+ * The controller's designated DPO; only this account can sign off its DPIAs
+ */
+export interface DpoDesignation {
+  controllerHash: string;
+  dpoUserId: string;
+  designatedBy: string;
+  designatedAt: number;
+}
+
+export enum BreachStatus {
+  OPEN = "open",                             // Logged, regulator not yet notified
+  REGULATOR_NOTIFIED = "regulator_notified",
+  CLOSED = "closed"
+}
+
+export enum BreachRiskLevel {
+  UNLIKELY = "unlikely",       // Unlikely to result in a risk; documented only (Art. 33(1), 33(5))
+  RISK = "risk",               // Supervisory authority must be notified (Art. 33)
+  HIGH = "high"                // Data subjects must also be notified (Art. 34)
+}
+
+export enum BreachStepType {
+  LOGGED = "logged",
+  REGULATOR_NOTIFIED = "regulator_notified",
+  SUBJECTS_NOTIFIED = "subjects_notified",
+  CLOSED = "closed"
+}
+
+export enum BreachNoticeStatus {
+  QUEUED = "queued",
+  DELIVERED = "delivered",     // Shown to the data subject
+  ACKNOWLEDGED = "acknowledged"
+}
+
+/**
+ * Anchored step of a breach's handling
+ */
+export interface BreachStep {
+  step: BreachStepType;
+  details: Record<string, unknown>;
+  contentHash: string;
+  hgtpTxHash: string;
+  anchoringTimestamp: number;
+  actor: string;
+  occurredAt: number;
+}
+
+/**
+ * Personal data breach (GDPR Art. 33/34). The regulator deadline is 72 hours after discovery.
+ */
+export interface DataBreach {
+  breachId: string;
+  controllerHash: string;
+  title: string;
+  description: string;
+  dataCategories: string[];
+  approximateSubjectCount: number;
+  approximateRecordCount?: number;
+  affectedSubjectCount: number;        // Data subjects identified from consents with these categories
+  riskLevel: BreachRiskLevel;
+  likelyConsequences: string;
+  measuresTaken: string;
+  dpoContact: string;
+  status: BreachStatus;
+  occurredAt?: number;
+  discoveredAt: number;
+  regulatorDeadline: number;
+  deadlineMissed: boolean;             // Notified late, or still not notified after the deadline
+  regulatorNotifiedAt?: number;
+  supervisoryAuthority?: string;
+  delayReason?: string;
+  subjectsNotifiedAt?: number;
+  subjectNoticeCount: number;
+  subjectNoticeExemption?: string;     // Art. 34(3) ground for not notifying data subjects
+  closedAt?: number;
+  closingSummary?: string;
+  steps?: BreachStep[];
+}
+
+/**
+ * Request to log a breach
+ */
+export interface BreachReportRequest {
+  title: string;
+  description: string;
+  dataCategories: string[];
+  approximateSubjectCount: number;
+  approximateRecordCount?: number;
+  riskLevel: BreachRiskLevel;
+  likelyConsequences: string;
+  measuresTaken: string;
+  dpoContact: string;
+  occurredAt?: number;
+  discoveredAt: number;
+  controllerHash?: string;     // Admins only; controllers always report for their own organization
+}
+
+export interface BreachRegulatorNotificationRequest {
+  supervisoryAuthority: string;
+  delayReason?: string;        // Required after the 72-hour deadline (Art. 33(1))
+}
+
+export interface BreachSubjectNotificationRequest {
+  message: string;             // Plain-language description for data subjects (Art. 34(2))
+}
+
+export interface BreachCloseRequest {
+  summary: string;
+  subjectNoticeExemption?: string; // Needed to close a high-risk breach without notifying data subjects
+}
+
+/**
+ * Notification to the supervisory authority, with the content required by Art. 33(3)
+ */
+export interface BreachNotificationForm {
+  breachId: string;
+  controller: {
+    name: string;
+    controllerHash: string;
+    dpoContact: string;
+  };
+  supervisoryAuthority?: string;
+  nature: {
+    title: string;
+    description: string;
+    dataCategories: string[];
+    approximateSubjectCount: number;
+    approximateRecordCount?: number;
+    affectedSubjectCount: number;
+  };
+  likelyConsequences: string;
+  measuresTaken: string;
+  riskLevel: BreachRiskLevel;
+  timeline: {
+    occurredAt?: number;
+    discoveredAt: number;
+    regulatorDeadline: number;
+    notifiedAt?: number;
+  };
+  delayReason?: string;
+  subjectsNotified: boolean;
+  anchors: { step: BreachStepType; hgtpTxHash: string }[];
+  generatedAt: number;
+}
+
+/**
+ * Breach notice shown to an affected data subject
+ */
+export interface BreachNotice {
+  breachId: string;
+  controllerHash: string;
+  controllerName?: string;
+  title: string;
+  message: string;
+  dataCategories: string[];
+  likelyConsequences: string;
+  measuresTaken: string;
+  dpoContact: string;
+  status: BreachNoticeStatus;
+  queuedAt: number;
+  deliveredAt?: number;
+  acknowledgedAt?: number;
+}
+
+/**
+ * Purpose in use that involves special-category data or large-scale profiling
+ */
+export interface HighRiskPurpose {
+  purposeHash: string;
+  purpose?: string;
+  specialCategories: string[];
+  largeScaleProfiling: boolean;
+}
+
+export enum ApiKeyScope {
+  VERIFY = "verify",         // GET /consent/verify
+  GRANT = "grant",           // Submit signed grants and batches for the controller
+  ANALYTICS = "analytics"    // Read the controller's analytics
+}
+
+/**
+ * Controller API key for machine-to-machine calls (the secret itself is never stored)
+ */
+export interface ApiKey {
+  keyId: string;
+  controllerHash: string;
+  name: string;
+  keyPrefix: string;           // First characters of the key, to recognise it in listings
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  rotatedFrom?: string;        // keyId of the key this one replaced
+}
+
+/**
+ * Request to create an API key
+ */
+export interface ApiKeyCreateRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: number;
+  controllerHash?: string;     // Admins only; controllers always create keys for their own organization
+}
+
+/**
+ * Created or rotated API key, the only response that contains the secret
+ */
+export interface ApiKeyCreateResponse extends ApiKey {
+  key: string;
+}
+
+export enum WebhookEventType {
+  CONSENT_GRANTED = "consent.granted",
+  CONSENT_REVOKED = "consent.revoked",     // Also sent when only some data categories are withdrawn
+  CONSENT_EXPIRED = "consent.expired",
+  CONSENT_RESTRICTED = "consent.restricted",  // Stop processing until the restriction is lifted
+  CONSENT_OBJECTED = "consent.objected",      // Stop processing unless the objection is rejected
+  CONSENT_REINSTATED = "consent.reinstated",  // A restriction was lifted or an objection rejected
+  CONSENT_ANCHORED = "consent.anchored"    // A consent change was anchored on-chain
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = "pending",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed"                        // Gave up after the last retry
+}
+
+/**
+ * Controller webhook subscription
+ */
+export interface WebhookSubscription {
+  subscriptionId: string;
+  controllerHash: string;
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Request to create or update a webhook subscription
+ */
+export interface WebhookSubscriptionRequest {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active?: boolean;
+  controllerHash?: string;     // Admins only; controllers always subscribe for their own organization
+}
+
+/**
+ * Created subscription, the only response that contains the signing secret
+ */
+export interface WebhookSubscriptionCreateResponse extends WebhookSubscription {
+  secret: string;
+}
+
+/**
+ * Consent state carried by every webhook event
+ */
+export interface WebhookEventData {
+  consentId: string;
+  controllerHash: string;
+  userId: string;
+  purposeHash: string;
+  status: ConsentStatus;
+  dataCategories: string[];
+  withdrawnCategories?: string[];
+  expiresAt?: number;
+  supersedes?: string;
+  processingRightsRequestId?: string; // consent.restricted, consent.objected and consent.reinstated
+  hgtpTxHash?: string;
+  anchoredEvent?: ConsentEventType;   // consent.anchored only: which change was anchored
+  merkleRoot?: string;
+  blockHeight?: number;
+  occurredAt: number;
+}
+
+/**
+ * Webhook payload, signed with the subscription secret
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: WebhookEventData;
+}
+
+/**
+ * One delivery of an event to a subscription, including its retries
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number;
+  responseStatus?: number;
+  lastError?: string;
+  replayOf?: string;
+  createdAt: number;
+  deliveredAt?: number;
+}
+
+export enum ComplianceRuleStatus {
+  PASS = "pass",
+  WARN = "warn",     // Counts half towards the score
+  FAIL = "fail"
+}
+
+/**
+ * What a compliance rule looked at. Record references are capped, the metrics hold the full counts.
+ */
+export interface ComplianceEvidence {
+  metrics: Record<string, number | boolean>;
+  consentIds?: string[];
+  auditLogIds?: number[];
+  anchorHashes?: string[];
+  recordIds?: string[];       // Other records, e.g. breach or processing-rights request IDs
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one compliance rule for a controller
+ */
+export interface ComplianceRuleResult {
+  ruleId: string;
+  article: string;            // e.g. "Art. 30"
+  title: string;
+  status: ComplianceRuleStatus;
+  weight: number;
+  summary: string;
+  remediation?: string;       // Only for rules that did not pass
+  evidence: ComplianceEvidence;
+}
+
+/**
+ * Stored run of every compliance rule for a controller
+ */
+export interface ComplianceEvaluation {
+  evaluationId: string;
+  controllerHash: string;
+  score: number;              // Weighted percentage 0-100
+  results: ComplianceRuleResult[];
+  evaluatedAt: number;
+}
+
+export interface ComplianceScoreHistoryEntry {
+  evaluationId: string;
+  score: number;
+  passed: number;
+  warned: number;
+  failed: number;
+  evaluatedAt: number;
+}
+
+export enum ViolationSeverity {
+  CRITICAL = "critical",
+  HIGH = "high",
+  MEDIUM = "medium",
+  LOW = "low"
+}
+
+export enum ViolationStatus {
+  OPEN = "open",
+  INVESTIGATING = "investigating",
+  RESOLVED = "resolved",
+  SANCTIONED = "sanctioned"
+}
+
+/**
+ * Links from a violation to the records that show it
+ */
+export interface ViolationEvidence {
+  consentIds?: string[];
+  auditLogIds?: number[];
+  anchorHashes?: string[];
+  recordIds?: string[];
+}
+
+/**
+ * Comment on a violation; status changes are recorded as comments with fromStatus/toStatus
+ */
+export interface ViolationComment {
+  commentId: number;
+  authorId: string;
+  body: string;
+  fromStatus?: ViolationStatus;
+  toStatus?: ViolationStatus;
+  createdAt: number;
+}
+
+/**
+ * GDPR violation under regulator oversight, raised by hand or by a failed compliance rule
+ */
+export interface Violation {
+  violationId: string;
+  controllerHash: string;
+  controllerName?: string;
+  article: string;
+  ruleId?: string;            // Set when raised by a compliance rule
+  title: string;
+  description: string;
+  severity: ViolationSeverity;
+  status: ViolationStatus;
+  evidence: ViolationEvidence;
+  evaluationId?: string;      // Latest compliance evaluation that found it
+  assigneeId?: string;
+  createdBy?: string;         // Absent for rule-raised violations
+  detectedAt: number;
+  lastDetectedAt: number;
+  updatedAt: number;
+  resolvedAt?: number;
+  comments?: ViolationComment[];
+}
+
+export interface ViolationRequest {
+  controllerHash: string;
+  article: string;
+  title: string;
+  description: string;
+  severity: ViolationSeverity;
+  evidence?: ViolationEvidence;
+}
+
+export interface ViolationStatusRequest {
+  status: ViolationStatus;
+  comment?: string;           // Required when resolving or sanctioning
+}
+
+export interface ViolationCounts {
+  total: number;
+  byStatus: Record<ViolationStatus, number>;
+  bySeverity: Record<ViolationSeverity, number>;
+}
+
 /**
- * Compliance status
+ * Compliance status; each article flag is false when one of its rules failed
  */
 export interface ComplianceStatus {
   controllerHash: string;
@@ -264,8 +1634,14 @@ export interface ComplianceStatus {
   gdprArticle20: boolean;     // Data portability
   gdprArticle25: boolean;     // Data protection by design
   gdprArticle30: boolean;     // Records of processing
+  legitimateInterestsWithoutLia?: number; // Active legitimate-interest records lacking a current LIA
+  purposesWithoutRopaEntry?: number;      // Purposes in use that no ROPA activity documents
+  gdprArticle35?: boolean;    // Data protection impact assessment
+  highRiskPurposesWithoutDpia?: HighRiskPurpose[];
   overallCompliance: number;  // Percentage 0-100
   lastAudit: number;
+  evaluationId?: string;
+  rules?: ComplianceRuleResult[];
 }
 
 /**
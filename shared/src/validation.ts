@@ -1,7 +1,32 @@
 // Zod validation schemas for ConsenTide API
 
 import { z } from 'zod';
-import { LegalBasis, ConsentStatus, VoteChoice } from './types';
+import {
+  LegalBasis,
+  ConsentStatus,
+  ConsentEventType,
+  ConsentAnchorStatus,
+  VoteChoice,
+  PurposeStatus,
+  ApiKeyScope,
+  WebhookEventType,
+  WebhookDeliveryStatus,
+  GuardianRelationship,
+  GuardianshipStatus,
+  LiaStatus,
+  DpiaStatus,
+  BreachRiskLevel,
+  BreachStatus,
+  ComplianceRuleStatus,
+  ViolationSeverity,
+  ViolationStatus,
+  MitigationStatus,
+  RetentionTarget,
+  RetentionRuleStatus,
+  ProcessingRightType,
+  ProcessingRightStatus,
+  RestrictionGround
+} from './types';
 
 // Base validation patterns
 const emailSchema = z.string().email().refine(
@@ -11,13 +36,28 @@ const emailSchema = z.string().email().refine(
 
 const hashSchema = z.string().regex(/^[a-fA-F0-9]{64}$/, 'Must be a valid SHA-256 hash');
 
-const signatureSchema = z.string().regex(/^[A-Za-z0-9+/=]+$/, 'Must be a valid signature');
+const signatureSchema = z.string().regex(/^[A-Za-z0-9+/=_-]+$/, 'Must be a hex, base64 or base64url signature');
+
+const nonceSchema = z.string().min(16).max(128);
 
 const timestampSchema = z.number().int().positive().refine(
   (ts: number) => ts <= Date.now() + 86400000, // Max 1 day in future
   'Timestamp cannot be more than 1 day in the future'
 );
 
+// Query-string date: unix ms or ISO 8601, parsed to unix ms
+const queryDateSchema = z.string()
+  .transform((value: string) => /^\d+$/.test(value) ? parseInt(value) : Date.parse(value))
+  .refine((ts: number) => !isNaN(ts), 'Must be a unix timestamp in milliseconds or an ISO 8601 date');
+
+const queryBooleanSchema = z.enum(['true', 'false']).transform((value: string) => value === 'true');
+
+// Login
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+});
+
 // User Registration
 export const userRegistrationSchema = z.object({
   email: emailSchema,
@@ -33,6 +73,11 @@ export const userRegistrationResponseSchema = z.object({
   createdAt: z.number()
 });
 
+// Signing key: 32-byte Ed25519 or 33/65-byte secp256k1 public key, hex encoded
+export const signingKeySchema = z.object({
+  publicKey: z.string().regex(/^([0-9a-fA-F]{64}|[0-9a-fA-F]{66}|[0-9a-fA-F]{130})$/, 'Must be a hex encoded Ed25519 or secp256k1 public key')
+});
+
 // Controller Registration
 export const controllerRegistrationSchema = z.object({
   organizationName: z.string().min(1).max(100),
@@ -43,11 +88,377 @@ export const controllerRegistrationSchema = z.object({
 
 // Controller Registration Response
 export const controllerRegistrationResponseSchema = z.object({
-  controllerId: hashSchema,
+  controllerId: z.string().uuid(),
   controllerHash: hashSchema,
   registeredAt: z.number()
 });
 
+// Purpose Registration
+export const purposeRegistrationSchema = z.object({
+  name: z.string().min(1).max(500),
+  description: z.string().min(1).max(2000),
+  defaultDataCategories: z.array(z.string()).min(1).max(20),
+  defaultLawfulBasis: z.nativeEnum(LegalBasis),
+  maxRetentionDays: z.number().int().positive().optional(),
+  largeScaleProfiling: z.boolean().optional(),
+  controllerHash: hashSchema.optional()
+});
+
+// Purpose Update (new version)
+export const purposeUpdateSchema = z.object({
+  description: z.string().min(1).max(2000).optional(),
+  defaultDataCategories: z.array(z.string()).min(1).max(20).optional(),
+  defaultLawfulBasis: z.nativeEnum(LegalBasis).optional(),
+  maxRetentionDays: z.number().int().positive().nullable().optional(),
+  largeScaleProfiling: z.boolean().optional()
+});
+
+// Purpose
+export const purposeSchema = z.object({
+  purposeId: hashSchema,
+  controllerHash: hashSchema,
+  name: z.string(),
+  purposeHash: hashSchema,
+  status: z.nativeEnum(PurposeStatus),
+  version: z.number().int().positive(),
+  description: z.string(),
+  defaultDataCategories: z.array(z.string()),
+  defaultLawfulBasis: z.nativeEnum(LegalBasis),
+  maxRetentionDays: z.number().int().positive().optional(),
+  largeScaleProfiling: z.boolean().optional(),
+  createdAt: z.number(),
+  registeredAt: z.number(),
+  retiredAt: z.number().optional()
+});
+
+// API Key Creation
+export const apiKeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.nativeEnum(ApiKeyScope)).min(1),
+  expiresAt: z.number().int().positive().refine(
+    (ts: number) => ts > Date.now(),
+    'Expiry must be in the future'
+  ).optional(),
+  controllerHash: hashSchema.optional()
+});
+
+const PRIVATE_IPV4_RANGES: Array<[number, number]> = [
+  [0x00000000, 8], // "this" network
+  [0x0a000000, 8], // RFC 1918
+  [0x64400000, 10], // carrier-grade NAT
+  [0x7f000000, 8], // loopback
+  [0xa9fe0000, 16], // link-local, including cloud metadata endpoints
+  [0xac100000, 12], // RFC 1918
+  [0xc0a80000, 16], // RFC 1918
+  [0xc6120000, 15], // benchmarking
+  [0xe0000000, 3] // multicast and reserved
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateIpv4(address: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => Math.floor(address / 2 ** (32 - bits)) === Math.floor(base / 2 ** (32 - bits)));
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  const mapped = /^::ffff:(?:([\d.]+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(lower);
+  if (mapped) {
+    const ipv4 = mapped[1]
+      ? parseIpv4(mapped[1])
+      : parseInt(mapped[2], 16) * 0x10000 + parseInt(mapped[3], 16);
+    return ipv4 === null || isPrivateIpv4(ipv4);
+  }
+
+  const firstGroup = lower.startsWith('::') ? 0 : parseInt(lower.split(':')[0], 16);
+  return lower === '::' ||
+    lower === '::1' ||
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local
+    (firstGroup & 0xff00) === 0xff00; // multicast
+}
+
+/**
+ * Whether a host name or IP address points at loopback, link-local or private networks.
+ * Webhook deliveries must not reach them.
+ */
+export function isPrivateNetworkHost(host: string): boolean {
+  const hostname = host.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return true;
+  }
+
+  const ipv4 = parseIpv4(hostname);
+  if (ipv4 !== null) {
+    return isPrivateIpv4(ipv4);
+  }
+
+  return hostname.includes(':') && isPrivateIpv6(hostname);
+}
+
+// Webhook Subscription
+export const webhookSubscriptionSchema = z.object({
+  url: z.string().url().refine(
+    (url: string) => url.startsWith('https://'),
+    'Webhook URL must use https'
+  ).refine(
+    (url: string) => !isPrivateNetworkHost(new URL(url).hostname),
+    'Webhook URL must not point to a private or loopback address'
+  ),
+  events: z.array(z.nativeEnum(WebhookEventType)).min(1),
+  description: z.string().max(200).optional(),
+  active: z.boolean().optional(),
+  controllerHash: hashSchema.optional()
+});
+
+// Webhook Subscription Update
+export const webhookSubscriptionUpdateSchema = webhookSubscriptionSchema
+  .omit({ controllerHash: true })
+  .partial();
+
+// Legitimate Interests Assessment
+const liaTextSchema = z.string().min(1).max(2000);
+
+export const liaSchema = z.object({
+  purpose: z.string().min(1).max(500),
+  purposeTest: z.object({
+    interest: liaTextSchema,
+    beneficiaries: liaTextSchema,
+    passed: z.boolean()
+  }),
+  necessityTest: z.object({
+    necessity: liaTextSchema,
+    alternatives: liaTextSchema,
+    passed: z.boolean()
+  }),
+  balancingTest: z.object({
+    reasonableExpectations: liaTextSchema,
+    impact: liaTextSchema,
+    vulnerableSubjects: z.boolean(),
+    passed: z.boolean()
+  }),
+  safeguards: z.array(z.string().min(1).max(500)).min(1).max(20),
+  reviewDueAt: z.number().int().positive().refine(
+    (ts: number) => ts > Date.now(),
+    'Review date must be in the future'
+  ).optional(),
+  controllerHash: hashSchema.optional()
+});
+
+// Legitimate Interests Assessment update (new version; purpose is fixed)
+export const liaUpdateSchema = liaSchema.omit({ purpose: true, controllerHash: true });
+
+// Retention Rule (consents may only be deleted once closed)
+const closedConsentStatusSchema = z.enum([ConsentStatus.REVOKED, ConsentStatus.EXPIRED, ConsentStatus.SUPERSEDED]);
+
+export const retentionRuleSchema = z.object({
+  target: z.nativeEnum(RetentionTarget),
+  purpose: z.string().min(1).max(500).optional(),
+  dataCategory: z.string().min(1).max(100).optional(),
+  statuses: z.array(closedConsentStatusSchema).min(1).max(3).optional(),
+  retentionDays: z.number().int().min(1).max(36500),
+  controllerHash: hashSchema.optional()
+}).refine(
+  rule => rule.target === RetentionTarget.CONSENTS || (!rule.purpose && !rule.dataCategory && !rule.statuses),
+  'purpose, dataCategory and statuses only apply to consent rules'
+);
+
+// Record of Processing Activities (GDPR Art. 30)
+const ropaListSchema = z.array(z.string().min(1).max(500)).max(50);
+
+export const processingActivitySchema = z.object({
+  name: z.string().min(1).max(200),
+  purpose: z.string().min(1).max(500),
+  purposeHash: hashSchema.optional(),
+  lawfulBasis: z.nativeEnum(LegalBasis),
+  dataSubjectCategories: ropaListSchema.min(1),
+  dataCategories: ropaListSchema.min(1),
+  recipients: ropaListSchema,
+  internationalTransfers: z.array(z.object({
+    destination: z.string().min(1).max(200),
+    safeguard: z.string().min(1).max(500)
+  })).max(50),
+  retention: z.string().min(1).max(1000),
+  securityMeasures: ropaListSchema.min(1)
+});
+
+export const ropaSchema = z.object({
+  controller: z.object({
+    name: z.string().min(1).max(255),
+    contact: z.string().max(500).optional(),
+    representative: z.string().max(500).optional(),
+    dataProtectionOfficer: z.string().max(500).optional()
+  }),
+  activities: z.array(processingActivitySchema).min(1).max(500),
+  controllerHash: hashSchema.optional()
+});
+
+export const ropaQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  version: z.coerce.number().int().positive().optional()
+});
+
+export const ropaExportQuerySchema = ropaQuerySchema.extend({
+  format: z.enum(['json', 'csv', 'html']).default('json')
+});
+
+export const complianceRopaQuerySchema = ropaExportQuerySchema.omit({ controllerHash: true });
+
+// Data Protection Impact Assessment (GDPR Art. 35)
+const dpiaTextSchema = z.string().min(1).max(5000);
+const riskScoreSchema = z.number().int().min(1).max(5);
+
+export const dpiaRiskSchema = z.object({
+  riskId: z.string().uuid().optional(),
+  description: z.string().min(1).max(2000),
+  likelihood: riskScoreSchema,
+  severity: riskScoreSchema,
+  mitigations: z.array(z.object({
+    measure: z.string().min(1).max(1000),
+    status: z.nativeEnum(MitigationStatus),
+    owner: z.string().min(1).max(200).optional(),
+    dueAt: z.number().int().positive().optional()
+  })).max(20),
+  residualLikelihood: riskScoreSchema.optional(),
+  residualSeverity: riskScoreSchema.optional()
+}).refine(
+  risk => (risk.residualLikelihood === undefined) === (risk.residualSeverity === undefined),
+  'residualLikelihood and residualSeverity must be set together'
+);
+
+export const dpiaSchema = z.object({
+  purpose: z.string().min(1).max(500),
+  questionnaire: z.object({
+    processingDescription: dpiaTextSchema,
+    necessityAndProportionality: dpiaTextSchema,
+    dataSubjectViews: dpiaTextSchema.optional(),
+    specialCategoryData: z.boolean(),
+    largeScaleProfiling: z.boolean(),
+    systematicMonitoring: z.boolean(),
+    automatedDecisionMaking: z.boolean(),
+    vulnerableDataSubjects: z.boolean(),
+    innovativeTechnology: z.boolean()
+  }),
+  risks: z.array(dpiaRiskSchema).max(100),
+  controllerHash: hashSchema.optional()
+});
+
+// DPIA update (new draft version; purpose is fixed)
+export const dpiaUpdateSchema = dpiaSchema.omit({ purpose: true, controllerHash: true });
+
+export const dpiaSignOffSchema = z.object({
+  decision: z.enum([DpiaStatus.APPROVED, DpiaStatus.REJECTED]),
+  dpoName: z.string().min(1).max(200),
+  opinion: z.string().min(1).max(5000)
+});
+
+// DPO designation (GDPR Art. 37)
+export const dpoDesignationSchema = z.object({
+  controllerHash: hashSchema,
+  userId: z.string().min(1).max(64)
+});
+
+// DPO designation lookup (admins and regulators name the controller)
+export const dpoQuerySchema = z.object({
+  controllerHash: hashSchema.optional()
+});
+
+// Personal Data Breach (GDPR Art. 33/34)
+const breachTextSchema = z.string().min(1).max(5000);
+
+export const breachReportSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: breachTextSchema,
+  dataCategories: z.array(z.string().min(1).max(100)).min(1).max(50),
+  approximateSubjectCount: z.number().int().nonnegative(),
+  approximateRecordCount: z.number().int().nonnegative().optional(),
+  riskLevel: z.nativeEnum(BreachRiskLevel),
+  likelyConsequences: breachTextSchema,
+  measuresTaken: breachTextSchema,
+  dpoContact: z.string().min(1).max(500),
+  occurredAt: z.number().int().positive().optional(),
+  discoveredAt: z.number().int().positive().refine(
+    (ts: number) => ts <= Date.now(),
+    'Discovery time cannot be in the future'
+  ),
+  controllerHash: hashSchema.optional()
+}).refine(
+  breach => breach.occurredAt === undefined || breach.occurredAt <= breach.discoveredAt,
+  'occurredAt cannot be after discoveredAt'
+);
+
+export const breachRegulatorNotificationSchema = z.object({
+  supervisoryAuthority: z.string().min(1).max(200),
+  delayReason: breachTextSchema.optional()
+});
+
+export const breachSubjectNotificationSchema = z.object({
+  message: breachTextSchema
+});
+
+export const breachCloseSchema = z.object({
+  summary: breachTextSchema,
+  subjectNoticeExemption: breachTextSchema.optional()
+});
+
+// Violations
+const violationEvidenceSchema = z.object({
+  consentIds: z.array(z.string().min(1).max(64)).max(100).optional(),
+  auditLogIds: z.array(z.number().int().positive()).max(100).optional(),
+  anchorHashes: z.array(z.string().min(1).max(128)).max(100).optional(),
+  recordIds: z.array(z.string().min(1).max(128)).max(100).optional()
+});
+
+export const violationSchema = z.object({
+  controllerHash: hashSchema,
+  article: z.string().min(1).max(50),
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(5000),
+  severity: z.nativeEnum(ViolationSeverity),
+  evidence: violationEvidenceSchema.optional()
+});
+
+export const violationStatusSchema = z.object({
+  status: z.nativeEnum(ViolationStatus),
+  comment: z.string().min(1).max(5000).optional()
+}).refine(
+  update => update.comment !== undefined
+    || (update.status !== ViolationStatus.RESOLVED && update.status !== ViolationStatus.SANCTIONED),
+  'A comment is required to resolve or sanction a violation'
+);
+
+export const violationAssignSchema = z.object({
+  assigneeId: z.string().min(1).max(64).nullable()
+});
+
+export const violationCommentSchema = z.object({
+  body: z.string().min(1).max(5000)
+});
+
+// Age Profile (GDPR Art. 8)
+export const ageProfileSchema = z.object({
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format').refine(
+    (date: string) => !isNaN(Date.parse(date)) && Date.parse(date) <= Date.now(),
+    'Date of birth must be a valid date in the past'
+  ),
+  memberState: z.string().regex(/^[A-Za-z]{2}$/, 'Must be an ISO 3166-1 alpha-2 country code')
+    .transform((code: string) => code.toUpperCase())
+});
+
+// Guardianship
+export const guardianshipSchema = z.object({
+  minorId: z.string().min(1),
+  relationship: z.nativeEnum(GuardianRelationship),
+  guardianId: z.string().min(1).optional()
+});
+
 // Consent Grant
 export const consentGrantSchema = z.object({
   userId: z.string().min(1),
@@ -56,7 +467,11 @@ export const consentGrantSchema = z.object({
   dataCategories: z.array(z.string()).min(1).max(20),
   lawfulBasis: z.nativeEnum(LegalBasis),
   expiresAt: z.number().int().positive().optional(),
-  signature: signatureSchema
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  purposeId: hashSchema.optional(),
+  guardianId: z.string().min(1).optional()
 });
 
 // Consent Grant Response
@@ -65,14 +480,94 @@ export const consentGrantResponseSchema = z.object({
   hgtpTxHash: z.string().min(1),
   status: z.nativeEnum(ConsentStatus),
   expiresAt: z.number().int().positive().optional(),
-  grantedAt: z.number()
+  grantedAt: z.number(),
+  receiptId: z.string().uuid().optional()
+});
+
+// Consent Request (double opt-in)
+export const consentRequestSchema = z.object({
+  userId: z.string().min(1),
+  controllerId: hashSchema.optional(),
+  purpose: z.string().min(1).max(500),
+  dataCategories: z.array(z.string()).min(1).max(20),
+  lawfulBasis: z.nativeEnum(LegalBasis),
+  expiresAt: z.number().int().positive().optional(),
+  purposeId: hashSchema.optional()
+});
+
+// Consent Request Response
+export const consentRequestResponseSchema = z.object({
+  consentId: hashSchema,
+  status: z.nativeEnum(ConsentStatus),
+  requestedAt: z.number(),
+  confirmBy: z.number()
+});
+
+// Consent Confirm (dashboard)
+export const consentConfirmSchema = z.object({
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  guardianId: z.string().min(1).optional()
+});
+
+// Consent Confirm (signed link)
+export const consentConfirmLinkSchema = z.object({
+  token: z.string().min(1)
+});
+
+// Consent Confirm Response
+export const consentConfirmResponseSchema = consentGrantResponseSchema.extend({
+  confirmedVia: z.enum(['dashboard', 'link']),
+  requestedAt: z.number()
+});
+
+// Consent Renew
+export const consentRenewSchema = z.object({
+  expiresAt: z.number().int().positive().optional(),
+  dataCategories: z.array(z.string()).min(1).max(20).optional(),
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  guardianId: z.string().min(1).optional()
+});
+
+// Consent Renew Response
+export const consentRenewResponseSchema = consentGrantResponseSchema.extend({
+  supersedes: hashSchema,
+  supersededTxHash: z.string().min(1)
 });
 
 // Consent Verify
 export const consentVerifySchema = z.object({
   userId: z.string().min(1),
   controllerId: z.string().min(1),
-  purpose: z.string().min(1).max(500)
+  purpose: z.string().min(1).max(500),
+  validAt: z.number().int().positive().optional(),
+  dataCategory: z.string().min(1).optional()
+});
+
+// Consent Event
+export const consentEventSchema = z.object({
+  eventId: z.number().int(),
+  consentId: z.string().min(1),
+  eventType: z.nativeEnum(ConsentEventType),
+  status: z.nativeEnum(ConsentStatus),
+  dataCategories: z.array(z.string()),
+  expiresAt: z.number().optional(),
+  details: z.record(z.unknown()),
+  hgtpTxHash: z.string().optional(),
+  anchoringTimestamp: z.number().optional(),
+  merkleRoot: z.string().optional(),
+  blockHeight: z.number().optional(),
+  occurredAt: z.number()
+});
+
+// Consent History Response
+export const consentHistoryResponseSchema = z.object({
+  consentId: z.string().min(1),
+  status: z.nativeEnum(ConsentStatus),
+  events: z.array(consentEventSchema)
 });
 
 // Consent Verify Response
@@ -80,6 +575,10 @@ export const consentVerifyResponseSchema = z.object({
   isValid: z.boolean(),
   consentId: hashSchema.optional(),
   status: z.nativeEnum(ConsentStatus).optional(),
+  validAt: z.number().optional(),
+  evidence: consentEventSchema.optional(),
+  givenBy: z.enum(['data_subject', 'guardian']).optional(),
+  convertedAt: z.number().optional(),
   error: z.string().optional(),
   zkProof: z.object({
     proof: z.string(),
@@ -98,15 +597,90 @@ export const consentVerifyResponseSchema = z.object({
 export const consentRevokeSchema = z.object({
   consentId: hashSchema,
   userId: z.string().min(1),
-  signature: signatureSchema
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  dataCategories: z.array(z.string()).min(1).max(20).optional(),
+  guardianId: z.string().min(1).optional()
 });
 
+// Consent Revoke (body of POST /consent/revoke/:consentId; the user comes from the session)
+export const consentRevokeBodySchema = consentRevokeSchema.omit({ consentId: true, userId: true });
+
 // Consent Revoke Response
 export const consentRevokeResponseSchema = z.object({
   consentId: hashSchema,
   status: z.nativeEnum(ConsentStatus),
   revokedAt: z.number(),
-  hgtpTxHash: z.string().min(1)
+  hgtpTxHash: z.string().min(1),
+  withdrawnCategories: z.array(z.string()).optional(),
+  remainingCategories: z.array(z.string()).optional(),
+  receiptId: z.string().uuid().optional()
+});
+
+// Erasure (body of POST /users/me/erasure)
+export const erasureRequestSchema = z.object({
+  confirm: z.literal(true)
+});
+
+// Restriction of processing (GDPR Art. 18)
+export const restrictionSchema = z.object({
+  ground: z.nativeEnum(RestrictionGround),
+  reason: z.string().min(1).max(2000),
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  guardianId: z.string().min(1).optional()
+});
+
+// Objection to processing (GDPR Art. 21)
+export const objectionSchema = z.object({
+  reason: z.string().min(1).max(2000),
+  signature: signatureSchema,
+  signedAt: timestampSchema,
+  nonce: nonceSchema,
+  guardianId: z.string().min(1).optional()
+});
+
+// Controller decision on a restriction or objection
+export const processingRightsResolutionSchema = z.object({
+  decision: z.enum([ProcessingRightStatus.LIFTED, ProcessingRightStatus.UPHELD, ProcessingRightStatus.REJECTED]),
+  note: z.string().min(1).max(2000)
+});
+
+// Consent Batch
+export const consentBatchOperationSchema = z.discriminatedUnion('type', [
+  consentGrantSchema.extend({ type: z.literal('grant') }),
+  consentRevokeSchema.extend({ type: z.literal('revoke') }),
+  consentVerifySchema.extend({ type: z.literal('verify') })
+]);
+
+// Items are validated one by one so a malformed item fails alone
+export const consentBatchSchema = z.object({
+  operations: z.array(z.unknown()).min(1).max(100)
+});
+
+// Consent Batch Response
+export const consentBatchResponseSchema = z.object({
+  batchId: hashSchema,
+  hgtpTxHash: z.string().min(1).optional(),
+  batchRoot: hashSchema.optional(),
+  succeeded: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  results: z.array(z.object({
+    index: z.number().int().nonnegative(),
+    type: z.enum(['grant', 'revoke', 'verify']),
+    success: z.boolean(),
+    result: z.union([
+      consentGrantResponseSchema,
+      consentRevokeResponseSchema,
+      consentVerifyResponseSchema
+    ]).optional(),
+    error: z.object({
+      code: z.string().min(1),
+      message: z.string()
+    }).optional()
+  }))
 });
 
 // Privacy Proposal
@@ -119,18 +693,24 @@ export const privacyProposalSchema = z.object({
     newValue: z.string(),
     justification: z.string().min(1).max(1000)
   }),
-  creatorSignature: signatureSchema,
-  votingDeadline: timestampSchema
+  creatorSignature: signatureSchema.optional(),
+  votingDeadline: z.number().int().positive().refine(
+    (ts: number) => ts > Date.now(),
+    'Voting deadline must be in the future'
+  ).optional()                 // Defaults to one week
 });
 
 // Vote Record
 export const voteRecordSchema = z.object({
-  proposalId: hashSchema,
+  proposalId: z.string().min(1).max(64),
   voter: z.string().min(1),
   choice: z.nativeEnum(VoteChoice),
   votingPower: z.number().positive()
 });
 
+// Vote (body of POST /governance/vote; voter and power come from the session)
+export const voteRequestSchema = voteRecordSchema.pick({ proposalId: true, choice: true });
+
 // API Error
 export const apiErrorSchema = z.object({
   code: z.string().min(1),
@@ -149,14 +729,41 @@ export const complianceStatusSchema = z.object({
   gdprArticle20: z.boolean(),
   gdprArticle25: z.boolean(),
   gdprArticle30: z.boolean(),
+  legitimateInterestsWithoutLia: z.number().int().nonnegative().optional(),
+  purposesWithoutRopaEntry: z.number().int().nonnegative().optional(),
+  gdprArticle35: z.boolean().optional(),
+  highRiskPurposesWithoutDpia: z.array(z.object({
+    purposeHash: hashSchema,
+    purpose: z.string().optional(),
+    specialCategories: z.array(z.string()),
+    largeScaleProfiling: z.boolean()
+  })).optional(),
   overallCompliance: z.number().min(0).max(100),
-  lastAudit: z.number()
+  lastAudit: z.number(),
+  evaluationId: z.string().uuid().optional(),
+  rules: z.array(z.object({
+    ruleId: z.string(),
+    article: z.string(),
+    title: z.string(),
+    status: z.nativeEnum(ComplianceRuleStatus),
+    weight: z.number().positive(),
+    summary: z.string(),
+    remediation: z.string().optional(),
+    evidence: z.object({
+      metrics: z.record(z.union([z.number(), z.boolean()])),
+      consentIds: z.array(z.string()).optional(),
+      auditLogIds: z.array(z.number().int()).optional(),
+      anchorHashes: z.array(z.string()).optional(),
+      recordIds: z.array(z.string()).optional(),
+      details: z.record(z.unknown()).optional()
+    })
+  })).optional()
 });
 
-// Pagination
+// Pagination (cursor based; numbers are coerced from the query string)
 export const paginationSchema = z.object({
-  page: z.number().int().positive().default(1),
-  limit: z.number().int().positive().max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
@@ -166,31 +773,283 @@ export const consentQuerySchema = z.object({
   userId: z.string().optional(),
   controllerId: z.string().optional(),
   status: z.nativeEnum(ConsentStatus).optional(),
-  ...paginationSchema.shape
+  lawfulBasis: z.nativeEnum(LegalBasis).optional(),
+  dataCategory: z.string().min(1).optional(),
+  grantedFrom: queryDateSchema.optional(),
+  grantedTo: queryDateSchema.optional(),
+  expiresFrom: queryDateSchema.optional(),
+  expiresTo: queryDateSchema.optional(),
+  anchorStatus: z.nativeEnum(ConsentAnchorStatus).optional(),
+  ...paginationSchema.shape,
+  sortBy: z.enum(['grantedAt', 'expiresAt', 'updatedAt']).default('grantedAt')
+});
+
+// Consent Summary (GET /consent)
+export const consentSummarySchema = z.object({
+  consentId: hashSchema,
+  userId: z.string().min(1),
+  controllerHash: z.string().min(1),
+  purposeHash: z.string().min(1),
+  purposeName: z.string().optional(),
+  status: z.nativeEnum(ConsentStatus),
+  lawfulBasis: z.nativeEnum(LegalBasis),
+  dataCategories: z.array(z.string()),
+  grantedAt: z.number(),
+  expiresAt: z.number().optional(),
+  updatedAt: z.number().optional(),
+  hgtpTxHash: z.string().optional(),
+  anchorStatus: z.nativeEnum(ConsentAnchorStatus),
+  givenBy: z.enum(['data_subject', 'guardian'])
+});
+
+// Consent Query Response
+export const consentQueryResponseSchema = z.object({
+  consents: z.array(consentSummarySchema),
+  nextCursor: z.string().optional(),
+  limit: z.number().int().positive()
+});
+
+// Route Parameters
+export const consentIdParamsSchema = z.object({ consentId: hashSchema });
+
+export const consentVerifyParamsSchema = z.object({
+  userId: z.string().min(1),
+  controllerId: z.string().min(1),
+  purpose: z.string().min(1).max(500)
+});
+
+export const userIdParamsSchema = z.object({ userId: z.string().min(1) });
+
+export const controllerIdParamsSchema = z.object({ controllerId: z.string().min(1) });
+
+export const controllerHashParamsSchema = z.object({ controllerHash: z.string().min(1) });
+
+export const purposeIdParamsSchema = z.object({ purposeId: hashSchema });
+
+export const apiKeyIdParamsSchema = z.object({ keyId: z.string().uuid() });
+
+export const webhookSubscriptionIdParamsSchema = z.object({ subscriptionId: z.string().uuid() });
+
+export const webhookDeliveryIdParamsSchema = z.object({ deliveryId: z.string().uuid() });
+
+export const receiptIdParamsSchema = z.object({ receiptId: z.string().uuid() });
+
+export const proposalIdParamsSchema = z.object({ proposalId: z.string().min(1).max(64) });
+
+export const guardianshipIdParamsSchema = z.object({ guardianshipId: z.string().uuid() });
+
+export const erasureIdParamsSchema = z.object({ erasureId: z.string().uuid() });
+
+export const retentionRuleIdParamsSchema = z.object({ ruleId: z.string().uuid() });
+
+export const deletionCertificateIdParamsSchema = z.object({ certificateId: z.string().uuid() });
+
+export const dpiaIdParamsSchema = z.object({ dpiaId: z.string().uuid() });
+
+export const breachIdParamsSchema = z.object({ breachId: z.string().uuid() });
+
+export const violationIdParamsSchema = z.object({ violationId: z.string().uuid() });
+
+export const processingRightsRequestIdParamsSchema = z.object({ requestId: z.string().uuid() });
+
+export const liaIdParamsSchema = z.object({ liaId: z.string().uuid() });
+
+// Route Query Parameters
+export const consentVerifyQuerySchema = z.object({
+  validAt: queryDateSchema.optional(),
+  dataCategory: z.string().min(1).optional()
+});
+
+export const purposeListQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  includeRetired: queryBooleanSchema.default('false')
+});
+
+export const apiKeyListQuerySchema = z.object({
+  includeRevoked: queryBooleanSchema.default('false')
+});
+
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50)
+});
+
+export const guardianshipQuerySchema = z.object({
+  status: z.nativeEnum(GuardianshipStatus).default(GuardianshipStatus.PENDING)
+});
+
+export const liaListQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  purposeHash: hashSchema.optional(),
+  status: z.nativeEnum(LiaStatus).optional()
+});
+
+export const processingRightsQuerySchema = z.object({
+  type: z.nativeEnum(ProcessingRightType).optional(),
+  status: z.nativeEnum(ProcessingRightStatus).optional()
+});
+
+export const dataExportQuerySchema = z.object({
+  format: z.enum(['zip', 'json']).default('zip')
+});
+
+export const retentionRuleQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  status: z.nativeEnum(RetentionRuleStatus).optional()
+});
+
+export const deletionCertificateQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  ruleId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50)
+});
+
+export const dpiaListQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  purposeHash: hashSchema.optional(),
+  status: z.nativeEnum(DpiaStatus).optional()
+});
+
+export const breachListQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  status: z.nativeEnum(BreachStatus).optional()
+});
+
+export const complianceStatusQuerySchema = z.object({
+  refresh: queryBooleanSchema.default('false')
+});
+
+export const complianceHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(90)
+});
+
+export const violationListQuerySchema = z.object({
+  controllerHash: hashSchema.optional(),
+  status: z.nativeEnum(ViolationStatus).optional(),
+  severity: z.nativeEnum(ViolationSeverity).optional(),
+  article: z.string().min(1).max(50).optional(),
+  ruleId: z.string().min(1).max(100).optional(),
+  assigneeId: z.string().min(1).max(64).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(100)
+});
+
+export const violationCountsQuerySchema = z.object({
+  controllerHash: hashSchema.optional()
+});
+
+export const analyticsQuerySchema = z.object({
+  days: z.coerce.number().int().positive().max(365).default(30)
 });
 
 // Export all schemas
 export const schemas = {
+  login: loginSchema,
   userRegistration: userRegistrationSchema,
   userRegistrationResponse: userRegistrationResponseSchema,
+  signingKey: signingKeySchema,
   controllerRegistration: controllerRegistrationSchema,
   controllerRegistrationResponse: controllerRegistrationResponseSchema,
+  purposeRegistration: purposeRegistrationSchema,
+  purposeUpdate: purposeUpdateSchema,
+  purpose: purposeSchema,
+  apiKeyCreate: apiKeyCreateSchema,
+  ageProfile: ageProfileSchema,
+  guardianship: guardianshipSchema,
+  lia: liaSchema,
+  liaUpdate: liaUpdateSchema,
+  retentionRule: retentionRuleSchema,
+  ropa: ropaSchema,
+  dpia: dpiaSchema,
+  dpiaUpdate: dpiaUpdateSchema,
+  dpiaSignOff: dpiaSignOffSchema,
+  dpoDesignation: dpoDesignationSchema,
+  dpoQuery: dpoQuerySchema,
+  breachReport: breachReportSchema,
+  breachRegulatorNotification: breachRegulatorNotificationSchema,
+  breachSubjectNotification: breachSubjectNotificationSchema,
+  breachClose: breachCloseSchema,
+  violation: violationSchema,
+  violationStatus: violationStatusSchema,
+  violationAssign: violationAssignSchema,
+  violationComment: violationCommentSchema,
+  erasureRequest: erasureRequestSchema,
+  restriction: restrictionSchema,
+  objection: objectionSchema,
+  processingRightsResolution: processingRightsResolutionSchema,
+  webhookSubscription: webhookSubscriptionSchema,
+  webhookSubscriptionUpdate: webhookSubscriptionUpdateSchema,
   consentGrant: consentGrantSchema,
   consentGrantResponse: consentGrantResponseSchema,
+  consentRequest: consentRequestSchema,
+  consentRequestResponse: consentRequestResponseSchema,
+  consentConfirm: consentConfirmSchema,
+  consentConfirmLink: consentConfirmLinkSchema,
+  consentConfirmResponse: consentConfirmResponseSchema,
+  consentRenew: consentRenewSchema,
+  consentRenewResponse: consentRenewResponseSchema,
   consentVerify: consentVerifySchema,
   consentVerifyResponse: consentVerifyResponseSchema,
+  consentEvent: consentEventSchema,
+  consentHistoryResponse: consentHistoryResponseSchema,
   consentRevoke: consentRevokeSchema,
+  consentRevokeBody: consentRevokeBodySchema,
   consentRevokeResponse: consentRevokeResponseSchema,
+  consentBatch: consentBatchSchema,
+  consentBatchOperation: consentBatchOperationSchema,
+  consentBatchResponse: consentBatchResponseSchema,
   privacyProposal: privacyProposalSchema,
   voteRecord: voteRecordSchema,
+  voteRequest: voteRequestSchema,
   apiError: apiErrorSchema,
   complianceStatus: complianceStatusSchema,
   pagination: paginationSchema,
-  consentQuery: consentQuerySchema
+  consentQuery: consentQuerySchema,
+  consentSummary: consentSummarySchema,
+  consentQueryResponse: consentQueryResponseSchema,
+  consentIdParams: consentIdParamsSchema,
+  consentVerifyParams: consentVerifyParamsSchema,
+  consentVerifyQuery: consentVerifyQuerySchema,
+  userIdParams: userIdParamsSchema,
+  controllerIdParams: controllerIdParamsSchema,
+  controllerHashParams: controllerHashParamsSchema,
+  purposeIdParams: purposeIdParamsSchema,
+  purposeListQuery: purposeListQuerySchema,
+  apiKeyIdParams: apiKeyIdParamsSchema,
+  apiKeyListQuery: apiKeyListQuerySchema,
+  webhookSubscriptionIdParams: webhookSubscriptionIdParamsSchema,
+  webhookDeliveryIdParams: webhookDeliveryIdParamsSchema,
+  webhookDeliveryQuery: webhookDeliveryQuerySchema,
+  receiptIdParams: receiptIdParamsSchema,
+  proposalIdParams: proposalIdParamsSchema,
+  guardianshipIdParams: guardianshipIdParamsSchema,
+  guardianshipQuery: guardianshipQuerySchema,
+  liaIdParams: liaIdParamsSchema,
+  liaListQuery: liaListQuerySchema,
+  erasureIdParams: erasureIdParamsSchema,
+  processingRightsRequestIdParams: processingRightsRequestIdParamsSchema,
+  processingRightsQuery: processingRightsQuerySchema,
+  dataExportQuery: dataExportQuerySchema,
+  retentionRuleIdParams: retentionRuleIdParamsSchema,
+  retentionRuleQuery: retentionRuleQuerySchema,
+  deletionCertificateIdParams: deletionCertificateIdParamsSchema,
+  deletionCertificateQuery: deletionCertificateQuerySchema,
+  ropaQuery: ropaQuerySchema,
+  ropaExportQuery: ropaExportQuerySchema,
+  complianceRopaQuery: complianceRopaQuerySchema,
+  dpiaIdParams: dpiaIdParamsSchema,
+  dpiaListQuery: dpiaListQuerySchema,
+  breachIdParams: breachIdParamsSchema,
+  breachListQuery: breachListQuerySchema,
+  complianceStatusQuery: complianceStatusQuerySchema,
+  complianceHistoryQuery: complianceHistoryQuerySchema,
+  violationIdParams: violationIdParamsSchema,
+  violationListQuery: violationListQuerySchema,
+  violationCountsQuery: violationCountsQuerySchema,
+  analyticsQuery: analyticsQuerySchema
 };
 
 // Helper function for request validation
-export function validateRequest<T>(schema: z.ZodSchema<T>, data: unknown): { 
+export function validateRequest<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): { 
   success: true; 
   data: T; 
 } | { 